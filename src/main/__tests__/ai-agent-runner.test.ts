@@ -11,6 +11,7 @@ function createMockFileSystem(overrides: Partial<FileSystemOperations> = {}): Fi
     readdir: vi.fn().mockResolvedValue([]),
     mkdir: vi.fn().mockResolvedValue(undefined),
     unlink: vi.fn().mockRejectedValue(new Error('file not found')),
+    writeFile: vi.fn().mockResolvedValue(undefined),
     ...overrides,
   }
 }
@@ -2,7 +2,10 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { createApiServer, ApiServer } from '../services/api-server'
 import { RegistryService } from '../services/registry'
 import { ContainerService } from '../services/container'
-import { ProjectConfigService } from '../services/project-config'
+import { ProjectConfigError, ProjectConfigService } from '../services/project-config'
+import { DependencyCycleError } from '../services/dependency-order'
+import { PortConflictError } from '../services/port-conflict'
+import { MissingEnvError } from '../services/env-check'
 
 // Mock electron-store - imports constants from dependency-free constants.ts
 vi.mock('electron-store', async () => {
@@ -108,8 +111,19 @@ describe('ApiServer', () => {
         name: 'My App',
         path: '/path/to/app',
         status: 'ready',
+        activeProfile: null,
       })
     })
+
+    it('reports the active profile', async () => {
+      const project = registry.addProject('/path/to/app', 'My App')
+      registry.updateProject(project.id, { activeProfile: 'staging' })
+
+      const res = await fetch(`http://127.0.0.1:${server.port}/projects/${project.id}`)
+      const data = await res.json()
+
+      expect(data.project.activeProfile).toBe('staging')
+    })
   })
 
   describe('GET /projects/:projectId/services', () => {
@@ -220,6 +234,275 @@ describe('ApiServer', () => {
       expect(res.status).toBe(200)
       expect(data.success).toBe(true)
     })
+
+    it('uses the restart callback instead of stop and start when provided', async () => {
+      const onServiceRestart = vi.fn().mockResolvedValue(undefined)
+      const onServiceStop = vi.fn().mockResolvedValue(undefined)
+      const onServiceStart = vi.fn().mockResolvedValue(undefined)
+      const callbackServer = await createApiServer({
+        port: 0,
+        registry,
+        container: new ContainerService(),
+        config,
+        onServiceRestart,
+        onServiceStop,
+        onServiceStart,
+      })
+      const project = registry.addProject('/path/to/app', 'My App')
+
+      try {
+        const res = await fetch(`http://127.0.0.1:${callbackServer.port}/projects/${project.id}/services/api/restart?onPortConflict=kill`, {
+          method: 'POST',
+        })
+
+        expect(res.status).toBe(200)
+        expect(onServiceRestart).toHaveBeenCalledWith(project.id, 'api', 'kill')
+        expect(onServiceStop).not.toHaveBeenCalled()
+        expect(onServiceStart).not.toHaveBeenCalled()
+      } finally {
+        await callbackServer.close()
+      }
+    })
+  })
+
+  describe('POST /projects/:projectId/start', () => {
+    it('returns 404 for non-existent project', async () => {
+      const res = await fetch(`http://127.0.0.1:${server.port}/projects/nonexistent/start`, {
+        method: 'POST',
+      })
+      expect(res.status).toBe(404)
+    })
+
+    it('returns success for valid project', async () => {
+      const project = registry.addProject('/path/to/app', 'My App')
+
+      const res = await fetch(`http://127.0.0.1:${server.port}/projects/${project.id}/start`, {
+        method: 'POST',
+      })
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data.success).toBe(true)
+    })
+  })
+
+  describe('POST /projects/:projectId/stop', () => {
+    it('returns success for valid project', async () => {
+      const project = registry.addProject('/path/to/app', 'My App')
+
+      const res = await fetch(`http://127.0.0.1:${server.port}/projects/${project.id}/stop`, {
+        method: 'POST',
+      })
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data.success).toBe(true)
+    })
+  })
+
+  describe('POST /projects/:projectId/start with callbacks', () => {
+    let callbackServer: ApiServer
+
+    afterEach(async () => {
+      await callbackServer?.close()
+    })
+
+    it('returns 409 with DEPENDENCY_CYCLE code when services form a cycle', async () => {
+      callbackServer = await createApiServer({
+        port: 0,
+        registry,
+        container: new ContainerService(),
+        config,
+        onProjectStart: async () => {
+          throw new DependencyCycleError(['api', 'web', 'api'])
+        },
+      })
+      const project = registry.addProject('/path/to/app', 'My App')
+
+      const res = await fetch(`http://127.0.0.1:${callbackServer.port}/projects/${project.id}/start`, {
+        method: 'POST',
+      })
+      const data = await res.json()
+
+      expect(res.status).toBe(409)
+      expect(data).toEqual({ error: 'Dependency cycle detected: api -> web -> api', code: 'DEPENDENCY_CYCLE' })
+    })
+
+    it('returns 500 with START_FAILED code when a service fails to start', async () => {
+      callbackServer = await createApiServer({
+        port: 0,
+        registry,
+        container: new ContainerService(),
+        config,
+        onProjectStart: async () => {
+          throw new Error('Failed to start API Server: boom')
+        },
+      })
+      const project = registry.addProject('/path/to/app', 'My App')
+
+      const res = await fetch(`http://127.0.0.1:${callbackServer.port}/projects/${project.id}/start`, {
+        method: 'POST',
+      })
+      const data = await res.json()
+
+      expect(res.status).toBe(500)
+      expect(data.code).toBe('START_FAILED')
+    })
+  })
+
+  describe('port conflicts on start', () => {
+    let callbackServer: ApiServer
+    const conflict = {
+      serviceId: 'api',
+      serviceName: 'API Server',
+      port: 3000,
+      holders: [{ pid: 777, pgid: 777, name: 'postgres', commandLine: 'postgres -p 3000' }],
+      canUseNextPort: true,
+    }
+
+    afterEach(async () => {
+      await callbackServer?.close()
+    })
+
+    it('returns 409 with PORT_CONFLICT code and the conflict details', async () => {
+      callbackServer = await createApiServer({
+        port: 0,
+        registry,
+        container: new ContainerService(),
+        config,
+        onProjectStart: async () => {
+          throw new PortConflictError(conflict)
+        },
+      })
+      const project = registry.addProject('/path/to/app', 'My App')
+
+      const res = await fetch(`http://127.0.0.1:${callbackServer.port}/projects/${project.id}/start`, {
+        method: 'POST',
+      })
+      const data = await res.json()
+
+      expect(res.status).toBe(409)
+      expect(data).toEqual({
+        error: 'Port 3000 for API Server is in use by postgres (PID 777)',
+        code: 'PORT_CONFLICT',
+        details: conflict,
+      })
+    })
+
+    it('returns 422 with ENV_MISSING code and the missing vars', async () => {
+      const missingEnv = {
+        serviceId: 'api',
+        serviceName: 'API Server',
+        missing: [{ key: 'STRIPE_KEY', source: 'requiredEnv' }],
+        blocking: true,
+      }
+      callbackServer = await createApiServer({
+        port: 0,
+        registry,
+        container: new ContainerService(),
+        config,
+        onServiceStart: async () => {
+          throw new MissingEnvError(missingEnv)
+        },
+      })
+      const project = registry.addProject('/path/to/app', 'My App')
+
+      const res = await fetch(`http://127.0.0.1:${callbackServer.port}/projects/${project.id}/services/api/start`, {
+        method: 'POST',
+      })
+      const data = await res.json()
+
+      expect(res.status).toBe(422)
+      expect(data).toEqual({
+        error: 'API Server is missing required environment variables: STRIPE_KEY',
+        code: 'ENV_MISSING',
+        details: missingEnv,
+      })
+    })
+
+    it('passes onPortConflict through to the start callback', async () => {
+      const onServiceStart = vi.fn().mockResolvedValue(undefined)
+      callbackServer = await createApiServer({
+        port: 0,
+        registry,
+        container: new ContainerService(),
+        config,
+        onServiceStart,
+      })
+      const project = registry.addProject('/path/to/app', 'My App')
+
+      const res = await fetch(
+        `http://127.0.0.1:${callbackServer.port}/projects/${project.id}/services/api/start?onPortConflict=next-port`,
+        { method: 'POST' }
+      )
+
+      expect(res.status).toBe(200)
+      expect(onServiceStart).toHaveBeenCalledWith(project.id, 'api', undefined, 'next-port')
+    })
+
+    it('rejects an unknown onPortConflict value', async () => {
+      const onProjectStart = vi.fn().mockResolvedValue(undefined)
+      callbackServer = await createApiServer({
+        port: 0,
+        registry,
+        container: new ContainerService(),
+        config,
+        onProjectStart,
+      })
+      const project = registry.addProject('/path/to/app', 'My App')
+
+      const res = await fetch(`http://127.0.0.1:${callbackServer.port}/projects/${project.id}/start?onPortConflict=ignore`, {
+        method: 'POST',
+      })
+      const data = await res.json()
+
+      expect(res.status).toBe(400)
+      expect(data.code).toBe('INVALID_PARAMETER')
+      expect(onProjectStart).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('invalid project config', () => {
+    const issues = [{ path: 'services[0].port', message: 'Port must be at most 65535' }]
+
+    beforeEach(() => {
+      vi.mocked(config.loadConfig).mockRejectedValue(
+        new ProjectConfigError('/path/to/app/.simple-local/config.json', issues)
+      )
+    })
+
+    it('returns 422 with CONFIG_INVALID code and the issues', async () => {
+      const project = registry.addProject('/path/to/app', 'My App')
+
+      const res = await fetch(`http://127.0.0.1:${server.port}/projects/${project.id}/services`)
+      const data = await res.json()
+
+      expect(res.status).toBe(422)
+      expect(data).toEqual({
+        error: 'Invalid project config (/path/to/app/.simple-local/config.json):\nservices[0].port: Port must be at most 65535',
+        code: 'CONFIG_INVALID',
+        details: issues,
+      })
+    })
+
+    it('returns the issues as a structured MCP tool error', async () => {
+      const project = registry.addProject('/path/to/app', 'My App')
+
+      const res = await fetch(`http://127.0.0.1:${server.port}/mcp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 3,
+          method: 'tools/call',
+          params: { name: 'list_services', arguments: { projectId: project.id } },
+        }),
+      })
+      const data = await res.json()
+
+      expect(data.result.isError).toBe(true)
+      expect(data.result.structuredContent.error).toMatchObject({ code: 'CONFIG_INVALID', details: issues })
+    })
   })
 
   describe('POST /mcp', () => {
@@ -0,0 +1,273 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildComposeSpec,
+  importComposeFile,
+  interpolateComposeValue,
+  parseComposeHealthCheck,
+  parseComposePorts,
+  splitCommand,
+  type ComposeImportOptions,
+} from '../services/compose-import'
+
+const COMPOSE_FILE = `
+x-common-env: &common-env
+  TZ: UTC
+
+services:
+  db:
+    image: postgres:\${POSTGRES_VERSION:-16}-alpine
+    ports:
+      - "5432:5432"
+    environment:
+      <<: *common-env
+      POSTGRES_PASSWORD: \${POSTGRES_PASSWORD}
+      POSTGRES_DB: app
+    healthcheck:
+      test: ["CMD-SHELL", "pg_isready -U postgres"]
+      interval: 5s
+    volumes:
+      - pgdata:/var/lib/postgresql/data
+
+  cache:
+    image: redis:7-alpine
+    ports:
+      - 6379
+    healthcheck:
+      test: redis-cli ping
+
+  api:
+    build:
+      context: ./api
+      target: dev
+      args:
+        - NODE_VERSION=20
+    command: npm run dev -- --host 0.0.0.0
+    ports:
+      - "127.0.0.1:3000:3000"
+      - target: 9229
+        published: 9229
+    env_file:
+      - api/.env.compose
+      - api/.env.missing
+    environment:
+      - DATABASE_URL=postgres://postgres:\${POSTGRES_PASSWORD}@db:5432/app
+      - NODE_ENV=development
+      - PASSTHROUGH
+    depends_on:
+      db:
+        condition: service_healthy
+      cache:
+        condition: service_started
+
+  mail:
+    image: axllent/mailpit
+    ports:
+      - "8025:8025"
+    profiles: [mail]
+
+volumes:
+  pgdata:
+`
+
+function createOptions(files: Record<string, string>, usedIds: string[] = []): ComposeImportOptions {
+  let nextPort = 3000
+  const ids = new Set(usedIds)
+  return {
+    projectPath: '/project',
+    projectName: 'My App',
+    nextPort: () => nextPort++,
+    uniqueId: (name) => {
+      const id = ids.has(name) ? `${name}-2` : name
+      ids.add(id)
+      return id
+    },
+    readFile: async (filePath) => {
+      if (!(filePath in files)) throw new Error(`ENOENT: ${filePath}`)
+      return files[filePath]
+    },
+  }
+}
+
+const files = {
+  '/project/infra/docker-compose.yml': COMPOSE_FILE,
+  '/project/infra/.env': 'POSTGRES_PASSWORD=secret\n',
+  '/project/infra/api/.env.compose': 'LOG_LEVEL=debug\nNODE_ENV=production # overridden\n',
+}
+
+describe('importComposeFile', () => {
+  it('imports image services with remapped ports, env and health checks', async () => {
+    const services = await importComposeFile('/project/infra/docker-compose.yml', createOptions(files))
+    const db = services.find((s) => s.id === 'db')
+
+    expect(db).toEqual({
+      id: 'db',
+      name: 'db',
+      type: 'infrastructure',
+      path: 'infra',
+      command: 'postgres:16-alpine',
+      port: 3000,
+      discoveredPort: 5432,
+      allocatedPort: 3000,
+      env: { TZ: 'UTC', POSTGRES_PASSWORD: 'secret', POSTGRES_DB: 'app' },
+      active: true,
+      mode: 'container',
+      readinessProbe: { type: 'health', timeoutMs: 120_000 },
+      infrastructure: {
+        image: 'postgres:16-alpine',
+        containerPort: 5432,
+        compose: {
+          file: 'infra/docker-compose.yml',
+          service: 'db',
+          healthCheck: ['CMD-SHELL', 'pg_isready -U postgres'],
+        },
+      },
+    })
+    expect(services.find((s) => s.id === 'cache')?.infrastructure?.compose?.healthCheck).toEqual([
+      'CMD-SHELL',
+      'redis-cli ping',
+    ])
+  })
+
+  it('imports build services with their command, env files and dependencies', async () => {
+    const services = await importComposeFile('/project/infra/docker-compose.yml', createOptions(files))
+    const api = services.find((s) => s.id === 'api')
+
+    expect(api).toMatchObject({
+      command: 'simple-local-my-app-api npm run dev -- --host 0.0.0.0',
+      port: 3002,
+      discoveredPort: 3000,
+      env: {
+        LOG_LEVEL: 'debug',
+        NODE_ENV: 'development',
+        DATABASE_URL: 'postgres://postgres:secret@db:5432/app',
+      },
+      dependsOn: ['db', 'cache'],
+      infrastructure: {
+        image: 'simple-local-my-app-api',
+        containerPort: 3000,
+        extraPorts: [{ name: 'port-9229', port: 3003, containerPort: 9229 }],
+        compose: {
+          build: { context: 'infra/api', target: 'dev', args: { NODE_VERSION: '20' } },
+          command: ['npm', 'run', 'dev', '--', '--host', '0.0.0.0'],
+        },
+      },
+    })
+    expect(api?.env).not.toHaveProperty('PASSTHROUGH')
+    expect(api?.readinessProbe).toBeUndefined()
+  })
+
+  it('imports services behind a profile as inactive', async () => {
+    const services = await importComposeFile('/project/infra/docker-compose.yml', createOptions(files))
+
+    expect(services.map((s) => [s.id, s.active])).toEqual([
+      ['db', true],
+      ['cache', true],
+      ['api', true],
+      ['mail', false],
+    ])
+  })
+
+  it('maps depends_on through the ids assigned to compose services', async () => {
+    const services = await importComposeFile('/project/infra/docker-compose.yml', createOptions(files, ['db']))
+
+    expect(services[0].id).toBe('db-2')
+    expect(services.find((s) => s.id === 'api')?.dependsOn).toEqual(['db-2', 'cache'])
+  })
+
+  it('skips services without an image or build', async () => {
+    const services = await importComposeFile(
+      '/project/compose.yaml',
+      createOptions({ '/project/compose.yaml': 'services:\n  broken:\n    ports: ["80"]\n  ok:\n    image: nginx\n' })
+    )
+
+    expect(services.map((s) => s.id)).toEqual(['ok'])
+    expect(services[0]).toMatchObject({ path: '.', port: undefined, infrastructure: { image: 'nginx' } })
+  })
+})
+
+describe('buildComposeSpec', () => {
+  it('resolves the build context and keeps the compose command and health check', async () => {
+    const services = await importComposeFile('/project/infra/docker-compose.yml', createOptions(files))
+    const api = services.find((s) => s.id === 'api')!
+
+    expect(buildComposeSpec(api, { NODE_ENV: 'development' }, '/project')).toEqual({
+      image: 'simple-local-my-app-api',
+      build: { context: '/project/infra/api', target: 'dev', args: { NODE_VERSION: '20' } },
+      entrypoint: undefined,
+      cmd: ['npm', 'run', 'dev', '--', '--host', '0.0.0.0'],
+      env: { NODE_ENV: 'development' },
+      ports: [
+        { hostPort: 3002, containerPort: 3000 },
+        { hostPort: 3003, containerPort: 9229 },
+      ],
+      healthCheck: undefined,
+    })
+  })
+
+  it('rejects services that were not imported from compose', () => {
+    expect(() =>
+      buildComposeSpec({ id: 'web', name: 'web', path: '.', command: 'npm start', env: {}, active: true, mode: 'native' }, {}, '/project')
+    ).toThrow("Service 'web' was not imported from docker-compose")
+  })
+})
+
+describe('interpolateComposeValue', () => {
+  const vars = { SET: 'value', EMPTY: '' }
+
+  it.each([
+    ['${SET}', 'value'],
+    ['$SET/path', 'value/path'],
+    ['${UNSET}', ''],
+    ['${UNSET:-fallback}', 'fallback'],
+    ['${EMPTY:-fallback}', 'fallback'],
+    ['${EMPTY-fallback}', ''],
+    ['${SET:+alt}', 'alt'],
+    ['${UNSET:+alt}', ''],
+    ['${UNSET:?required}', ''],
+    ['$$HOME', '$HOME'],
+  ])('resolves %s', (input, expected) => {
+    expect(interpolateComposeValue(input, vars)).toBe(expected)
+  })
+})
+
+describe('splitCommand', () => {
+  it('splits on whitespace outside quotes', () => {
+    expect(splitCommand(`sh -c "echo 'hi there'" it\\'s ''`)).toEqual(['sh', '-c', "echo 'hi there'", "it's", ''])
+  })
+})
+
+describe('parseComposePorts', () => {
+  it('parses short and long syntax, ranges and protocols', () => {
+    expect(
+      parseComposePorts([
+        3000,
+        '8080:80',
+        '127.0.0.1:5433:5432/tcp',
+        '9000-9001:9000-9001',
+        '53:53/udp',
+        { target: 6379, published: '16379' },
+        { target: 1025, protocol: 'udp' },
+      ])
+    ).toEqual([
+      { target: 3000 },
+      { target: 80, published: 8080 },
+      { target: 5432, published: 5433 },
+      { target: 9000, published: 9000 },
+      { target: 9001, published: 9001 },
+      { target: 6379, published: 16379 },
+    ])
+  })
+})
+
+describe('parseComposeHealthCheck', () => {
+  it.each([
+    [{ test: 'curl -f http://localhost' }, ['CMD-SHELL', 'curl -f http://localhost']],
+    [{ test: ['CMD', 'redis-cli', 'ping'] }, ['CMD', 'redis-cli', 'ping']],
+    [{ test: ['NONE'] }, undefined],
+    [{ test: ['CMD', 'true'], disable: true }, undefined],
+    [{ interval: '5s' }, undefined],
+    [undefined, undefined],
+  ])('converts %j', (healthcheck, expected) => {
+    expect(parseComposeHealthCheck(healthcheck)).toEqual(expected)
+  })
+})
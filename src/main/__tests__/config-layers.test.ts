@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { getLocalOverrides, mergeConfigLayers, setEnvVarLayer, splitConfigLayers } from '../services/config-layers'
+import type { ProjectConfig, Service } from '../../shared/types'
+
+const api: Service = {
+  id: 'api',
+  name: 'API',
+  path: 'api',
+  command: 'npm start',
+  port: 3000,
+  env: { LOG_LEVEL: 'info', API_KEY: '' },
+  active: true,
+  mode: 'native',
+}
+
+const shared: ProjectConfig = { version: 1, name: 'shop', services: [api] }
+
+describe('mergeConfigLayers', () => {
+  it('deep-merges local entries over services with the same id', () => {
+    const merged = mergeConfigLayers(shared, {
+      services: { api: { mode: 'container', env: { API_KEY: 'secret' } }, gone: { port: 4000 } },
+    })
+
+    expect(merged).toEqual({
+      ...shared,
+      services: [{ ...api, mode: 'container', env: { LOG_LEVEL: 'info', API_KEY: 'secret' } }],
+    })
+  })
+
+  it('leaves the shared config as is without a local layer', () => {
+    expect(mergeConfigLayers(shared, null)).toBe(shared)
+  })
+})
+
+describe('splitConfigLayers', () => {
+  it('keeps shared values and writes machine-specific changes to the local layer', () => {
+    const { shared: nextShared, local } = splitConfigLayers(
+      { ...shared, services: [{ ...api, name: 'Backend', port: 3100, active: false }] },
+      shared,
+      null
+    )
+
+    expect(nextShared.services).toEqual([{ ...api, name: 'Backend' }])
+    expect(local).toEqual({ services: { api: { port: 3100, active: false } } })
+  })
+
+  it('drops local values that match the shared ones again', () => {
+    const { local } = splitConfigLayers(shared, shared, { services: { api: { port: 3000, env: { API_KEY: 'secret' } } } })
+
+    expect(local).toEqual({ services: {} })
+  })
+
+  it('rejects a service that would be written to config.json invalid', () => {
+    expect(() => splitConfigLayers({ ...shared, services: [{ ...api, name: '' }] }, shared, null)).toThrow(
+      'Service name is required'
+    )
+  })
+
+  it('writes the allocated ports of new services to the local layer', () => {
+    const web: Service = { ...api, id: 'web', port: 3001, allocatedPort: 3001, useOriginalPort: false }
+
+    const { shared: nextShared, local } = splitConfigLayers({ ...shared, services: [api, web] }, shared, null)
+
+    expect(nextShared.services).toEqual([api, { ...api, id: 'web', port: 3001 }])
+    expect(local).toEqual({ services: { web: { allocatedPort: 3001, useOriginalPort: false } } })
+  })
+
+  it('keeps edits to locally overridden env vars in the local layer', () => {
+    const merged = { ...shared, services: [{ ...api, env: { LOG_LEVEL: 'debug', API_KEY: 'rotated', NEW: '1' } }] }
+
+    const result = splitConfigLayers(merged, shared, { services: { api: { env: { API_KEY: 'secret' } } } })
+
+    expect(result.shared.services[0].env).toEqual({ LOG_LEVEL: 'debug', API_KEY: '', NEW: '1' })
+    expect(result.local).toEqual({ services: { api: { env: { API_KEY: 'rotated' } } } })
+  })
+})
+
+describe('setEnvVarLayer', () => {
+  it('keeps an empty value in the shared layer for a local env var', () => {
+    const layers = setEnvVarLayer(shared, null, 'api', 'LOG_LEVEL', true)
+
+    expect(layers.shared.services[0].env).toEqual({ LOG_LEVEL: '', API_KEY: '' })
+    expect(layers.local).toEqual({ services: { api: { env: { LOG_LEVEL: 'info' } } } })
+  })
+
+  it('drops emptied local entries when sharing an env var again', () => {
+    const layers = setEnvVarLayer(shared, { services: { api: { env: { API_KEY: 'x' } } } }, 'api', 'API_KEY', false)
+
+    expect(layers.shared.services[0].env).toEqual({ LOG_LEVEL: 'info', API_KEY: 'x' })
+    expect(layers.local).toEqual({ services: {} })
+  })
+
+  it('rejects services missing from the shared layer', () => {
+    expect(() => setEnvVarLayer(shared, null, 'web', 'API_KEY', true)).toThrow('Service "web" not found')
+  })
+})
+
+describe('getLocalOverrides', () => {
+  it('lists the paths set by the local layer per service', () => {
+    expect(getLocalOverrides({ services: { api: { port: 3100, env: { API_KEY: 'x' } }, web: {} } })).toEqual({
+      api: ['port', 'env.API_KEY'],
+    })
+    expect(getLocalOverrides(null)).toEqual({})
+  })
+})
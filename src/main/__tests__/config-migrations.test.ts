@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { migrateProjectConfig } from '../services/config-migrations'
+import { CURRENT_CONFIG_VERSION } from '../../shared/config-schema'
+
+describe('migrateProjectConfig', () => {
+  it('fills in defaults and the canonical devcontainer path for unversioned files', () => {
+    const result = migrateProjectConfig({
+      name: 'shop',
+      services: [
+        { id: 'web', name: 'Web', path: 'web', command: 'npm run dev', devcontainer: '.simple-local/devcontainers/web.json' },
+        { id: 'api', name: 'API', path: 'api', command: 'go run .', env: { A: '1' }, active: false, mode: 'container' },
+      ],
+    })
+
+    expect(result).toEqual({
+      fromVersion: 0,
+      migrated: true,
+      config: {
+        version: CURRENT_CONFIG_VERSION,
+        name: 'shop',
+        services: [
+          {
+            id: 'web',
+            name: 'Web',
+            path: 'web',
+            command: 'npm run dev',
+            env: {},
+            active: true,
+            mode: 'native',
+            devcontainer: '.simple-local/devcontainers/web/devcontainer.json',
+          },
+          { id: 'api', name: 'API', path: 'api', command: 'go run .', env: { A: '1' }, active: false, mode: 'container' },
+        ],
+      },
+    })
+  })
+
+  it('leaves current configs untouched', () => {
+    const config = { version: CURRENT_CONFIG_VERSION, name: 'shop', services: [] }
+
+    expect(migrateProjectConfig(config)).toEqual({ config, fromVersion: CURRENT_CONFIG_VERSION, migrated: false })
+  })
+
+  it('leaves newer versions and non-objects for validation to report', () => {
+    const newer = { version: CURRENT_CONFIG_VERSION + 1, name: 'shop', services: [] }
+
+    expect(migrateProjectConfig(newer).config).toBe(newer)
+    expect(migrateProjectConfig([]).migrated).toBe(false)
+  })
+})
@@ -42,6 +42,14 @@ describe('ConfigPaths', () => {
     })
   })
 
+  describe('projectLocalConfig', () => {
+    it('returns the machine-local config file path', () => {
+      expect(ConfigPaths.projectLocalConfig('/path/to/project')).toBe(
+        '/path/to/project/.simple-local/config.local.json'
+      )
+    })
+  })
+
   describe('devcontainerDir', () => {
     it('returns the devcontainer directory for a service', () => {
       expect(ConfigPaths.devcontainerDir('/path/to/project', 'frontend')).toBe(
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest'
+import * as path from 'path'
+import { ProjectConfigWatcher, type ConfigChangeListener } from '../services/config-watcher'
+
+type Listener = (eventType: string, filename: string | null) => void
+
+describe('ProjectConfigWatcher', () => {
+  let listeners: Map<string, Listener>
+  let close: ReturnType<typeof vi.fn>
+  let watchFn: ReturnType<typeof vi.fn>
+  let onChange: Mock<ConfigChangeListener>
+  let watcher: ProjectConfigWatcher
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    listeners = new Map()
+    close = vi.fn()
+    watchFn = vi.fn((dir: string, _options: unknown, listener: Listener) => {
+      listeners.set(dir, listener)
+      return { close, on: vi.fn() }
+    })
+    onChange = vi.fn<ConfigChangeListener>()
+    watcher = new ProjectConfigWatcher(onChange, watchFn as never)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const emit = (filename: string) => listeners.get(path.join('/projects/shop', '.simple-local'))!('change', filename)
+
+  it('watches the .simple-local directory recursively, once per project', () => {
+    watcher.watch('p1', '/projects/shop')
+    watcher.watch('p1', '/projects/shop')
+
+    expect(watchFn).toHaveBeenCalledTimes(1)
+    expect(watchFn).toHaveBeenCalledWith(path.join('/projects/shop', '.simple-local'), { recursive: true }, expect.any(Function))
+  })
+
+  it('reports a burst of changes once it settles', () => {
+    watcher.watch('p1', '/projects/shop')
+
+    emit('config.json')
+    emit(path.join('devcontainers', 'api', 'devcontainer.json'))
+    emit('config.local.json')
+    emit('config.json')
+    vi.advanceTimersByTime(299)
+    expect(onChange).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(1)
+    expect(onChange).toHaveBeenCalledTimes(1)
+    expect(onChange).toHaveBeenCalledWith('p1', '/projects/shop', ['config.json', 'config.local.json', 'devcontainers/api/devcontainer.json'])
+  })
+
+  it('ignores other files in .simple-local', () => {
+    watcher.watch('p1', '/projects/shop')
+
+    emit('discovery-cache.json')
+    emit('config.json.swp')
+    vi.advanceTimersByTime(1000)
+
+    expect(onChange).not.toHaveBeenCalled()
+  })
+
+  it('stops reporting after unwatch', () => {
+    watcher.watch('p1', '/projects/shop')
+    emit('config.json')
+    watcher.unwatch('p1')
+    vi.advanceTimersByTime(1000)
+
+    expect(close).toHaveBeenCalled()
+    expect(onChange).not.toHaveBeenCalled()
+  })
+
+  it('skips projects whose directory cannot be watched', () => {
+    watchFn.mockImplementation(() => {
+      throw new Error('ENOENT')
+    })
+
+    expect(() => watcher.watch('p1', '/projects/shop')).not.toThrow()
+  })
+})
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { EventEmitter } from 'events'
+import type { ChildProcess } from 'child_process'
+import {
+  ContainerExecManager,
+  EXEC_PID_FILE,
+  EXEC_STOP_TIMEOUT_MS,
+  buildSignalScript,
+  spawnCliExec,
+  wrapExecCommand,
+  type ExecSignal,
+} from '../services/container-exec-manager'
+
+vi.mock('child_process', () => ({
+  spawn: vi.fn(),
+}))
+
+class MockExecProcess extends EventEmitter {
+  stdout = new EventEmitter()
+  stderr = new EventEmitter()
+  exitCode: number | null = null
+  signalCode: NodeJS.Signals | null = null
+  pid: number
+
+  constructor(pid: number) {
+    super()
+    this.pid = pid
+  }
+
+  exit(code: number | null): void {
+    this.exitCode = code
+    this.emit('close', code)
+  }
+}
+
+describe('wrapExecCommand', () => {
+  it('records the PID before running the command through sh', () => {
+    expect(wrapExecCommand('npm run dev')).toBe(
+      `sh -c 'echo $$ > ${EXEC_PID_FILE}; exec sh -c "$1"' sh 'npm run dev'`
+    )
+  })
+
+  it('escapes single quotes in the command', () => {
+    expect(wrapExecCommand("echo 'hi' && npm start")).toContain(`sh 'echo '\\''hi'\\'' && npm start'`)
+  })
+})
+
+describe('buildSignalScript', () => {
+  it('signals the recorded process group, falling back to the PID', () => {
+    expect(buildSignalScript('TERM')).toBe(
+      `pid=$(cat ${EXEC_PID_FILE} 2>/dev/null) && { kill -TERM -- -$pid 2>/dev/null || kill -TERM $pid; }`
+    )
+  })
+})
+
+describe('spawnCliExec', () => {
+  it('spawns the exec detached, tags its output and resolves with the exit code', async () => {
+    const { spawn } = await import('child_process')
+    const proc = new MockExecProcess(1000)
+    vi.mocked(spawn).mockReturnValue(proc as unknown as ChildProcess)
+    const onLog = vi.fn()
+
+    const exec = spawnCliExec(['devcontainer', 'exec'], { PORT: '3000' }, onLog)
+    proc.stdout.emit('data', Buffer.from('ready'))
+    proc.stderr.emit('data', Buffer.from('warning'))
+    proc.exit(2)
+
+    expect(spawn).toHaveBeenCalledWith(
+      'npx',
+      ['devcontainer', 'exec'],
+      expect.objectContaining({ detached: true, env: expect.objectContaining({ PORT: '3000' }) })
+    )
+    expect(onLog).toHaveBeenCalledWith('ready', 'stdout')
+    expect(onLog).toHaveBeenCalledWith('warning', 'stderr')
+    await expect(exec.exited).resolves.toBe(2)
+  })
+
+  it('kills the whole CLI process group', async () => {
+    const { spawn } = await import('child_process')
+    vi.mocked(spawn).mockReturnValue(new MockExecProcess(1234) as unknown as ChildProcess)
+    const killSpy = vi.spyOn(process, 'kill').mockImplementation(() => true)
+
+    spawnCliExec(['devcontainer', 'exec'], {}, vi.fn()).kill()
+
+    expect(killSpy).toHaveBeenCalledWith(-1234, 'SIGKILL')
+    killSpy.mockRestore()
+  })
+})
+
+/** A controllable ExecProcess */
+function createExecProcess() {
+  let resolveExit!: (code: number | null) => void
+  const exited = new Promise<number | null>((resolve) => {
+    resolveExit = resolve
+  })
+  return { exited, kill: vi.fn(), exit: (code: number | null) => resolveExit(code) }
+}
+
+describe('ContainerExecManager', () => {
+  let processes: Array<ReturnType<typeof createExecProcess>>
+  let signalInContainer: ReturnType<typeof vi.fn<(name: string, signal: ExecSignal) => Promise<void>>>
+  let manager: ContainerExecManager
+
+  beforeEach(() => {
+    processes = []
+    signalInContainer = vi.fn<(name: string, signal: ExecSignal) => Promise<void>>().mockResolvedValue(undefined)
+    manager = new ContainerExecManager(signalInContainer)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function startExec(onStatusChange = vi.fn(), onLog = vi.fn()) {
+    const launch = vi.fn(() => {
+      const proc = createExecProcess()
+      processes.push(proc)
+      return proc
+    })
+    manager.start('web', { launch, onLog, onStatusChange })
+    return { onStatusChange, onLog, launch, proc: processes[processes.length - 1] }
+  }
+
+  it('reports a clean exit as stopped and a failure as error', async () => {
+    const first = startExec()
+    expect(manager.isRunning('web')).toBe(true)
+    first.proc.exit(0)
+    await vi.waitFor(() => expect(first.onStatusChange).toHaveBeenCalledWith('stopped'))
+
+    expect(manager.getExitStatus('web')).toBe('stopped')
+    expect(manager.isRunning('web')).toBe(false)
+
+    const second = startExec()
+    expect(manager.getExitStatus('web')).toBeNull()
+    second.proc.exit(137)
+    await vi.waitFor(() => expect(second.onStatusChange).toHaveBeenCalledWith('error'))
+
+    expect(second.onLog).toHaveBeenCalledWith('\nProcess exited with code 137\n')
+    expect(manager.getExitStatus('web')).toBe('error')
+  })
+
+  it('stops the command with SIGTERM without reporting an exit', async () => {
+    const { onStatusChange, proc } = startExec()
+    signalInContainer.mockImplementation(async () => {
+      proc.exit(143)
+    })
+
+    expect(await manager.stop('web')).toBe(true)
+
+    expect(signalInContainer).toHaveBeenCalledTimes(1)
+    expect(signalInContainer).toHaveBeenCalledWith('web', 'TERM')
+    expect(proc.kill).not.toHaveBeenCalled()
+    expect(onStatusChange).not.toHaveBeenCalled()
+    expect(manager.isRunning('web')).toBe(false)
+    expect(manager.getExitStatus('web')).toBeNull()
+  })
+
+  it('escalates to SIGKILL when the command ignores SIGTERM', async () => {
+    vi.useFakeTimers()
+    const { proc } = startExec()
+    proc.kill.mockImplementation(() => proc.exit(null))
+
+    const stopped = manager.stop('web')
+    await vi.advanceTimersByTimeAsync(EXEC_STOP_TIMEOUT_MS)
+    await stopped
+
+    expect(signalInContainer).toHaveBeenNthCalledWith(2, 'web', 'KILL')
+    expect(proc.kill).toHaveBeenCalled()
+  })
+
+  it('returns false when stopping a container without a tracked command', async () => {
+    expect(await manager.stop('web')).toBe(false)
+    expect(signalInContainer).not.toHaveBeenCalled()
+  })
+
+  it('restarts the command with the same spec and ignores the old exit', async () => {
+    const { onStatusChange, launch, proc } = startExec()
+    signalInContainer.mockImplementation(async () => {
+      proc.exit(143)
+    })
+
+    expect(await manager.restart('web')).toBe(true)
+
+    expect(launch).toHaveBeenCalledTimes(2)
+    expect(manager.isRunning('web')).toBe(true)
+    expect(onStatusChange).not.toHaveBeenCalled()
+
+    processes[1].exit(1)
+    await vi.waitFor(() => expect(onStatusChange).toHaveBeenCalledWith('error'))
+  })
+
+  it('does not restart a command that is not tracked', async () => {
+    expect(await manager.restart('web')).toBe(false)
+  })
+
+  it('kills the local end of all execs on detach', () => {
+    const { proc } = startExec()
+
+    manager.detachAll()
+
+    expect(proc.kill).toHaveBeenCalled()
+    expect(manager.isRunning('web')).toBe(false)
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import type { ChildProcess } from 'child_process'
+import { EventEmitter } from 'events'
 import type Docker from 'dockerode'
 import { ContainerService } from '../services/container'
 
@@ -10,6 +11,17 @@ vi.mock('child_process', () => ({
   exec: vi.fn(),
 }))
 
+// Mock fs so devcontainer.json reads fail unless a test provides one
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn().mockRejectedValue(Object.assign(new Error('ENOENT: no such file or directory'), { code: 'ENOENT' })),
+}))
+
+// Mock port inspection with a single shared inspector
+vi.mock('../services/port-inspection', () => {
+  const inspector = { inspect: vi.fn() }
+  return { createPortInspector: () => inspector }
+})
+
 // Mock dockerode
 vi.mock('dockerode', () => {
   return {
@@ -349,164 +361,112 @@ describe('ContainerService', () => {
 
       stdoutCallback(Buffer.from('Hello world'))
 
-      expect(onLog).toHaveBeenCalledWith('Hello world')
+      expect(onLog).toHaveBeenCalledWith('Hello world', 'stdout')
     })
   })
 
-  describe('killProcessOnPort - current behavior', () => {
-    it('returns true when process is killed', async () => {
-      const { execSync } = await import('child_process')
-      vi.mocked(execSync).mockImplementation((cmd: string) => {
-        if (cmd.includes('lsof')) return '12345'
-        return ''
-      })
+  describe('killProcessOnPortAsync', () => {
+    const holders = [
+      { pid: 12345, pgid: 12345, name: 'node', commandLine: 'node server.js' },
+      { pid: 67890, pgid: 67890, name: 'node', commandLine: 'node worker.js' },
+    ]
+
+    const getInspector = async () => {
+      const { createPortInspector } = await import('../services/port-inspection')
+      return vi.mocked(createPortInspector())
+    }
+
+    it('sends SIGTERM to every holder and returns true once the port is released', async () => {
+      const inspector = await getInspector()
+      inspector.inspect
+        .mockResolvedValueOnce({ inUse: true, holders })
+        .mockResolvedValue({ inUse: false, holders: [] })
+      const kill = vi.spyOn(process, 'kill').mockReturnValue(true)
 
-      const result = containerService.killProcessOnPort(3000)
+      const result = await containerService.killProcessOnPortAsync(3000)
 
       expect(result).toBe(true)
-      expect(execSync).toHaveBeenCalledWith('lsof -ti tcp:3000', { encoding: 'utf-8' })
-      expect(execSync).toHaveBeenCalledWith('kill -9 12345')
+      expect(inspector.inspect).toHaveBeenCalledWith(3000)
+      expect(kill).toHaveBeenCalledWith(12345, 'SIGTERM')
+      expect(kill).toHaveBeenCalledWith(67890, 'SIGTERM')
+      expect(kill).not.toHaveBeenCalledWith(expect.anything(), 'SIGKILL')
     })
 
-    it('returns false when no process on port', async () => {
-      const { execSync } = await import('child_process')
-      vi.mocked(execSync).mockImplementation(() => {
-        throw new Error('no process')
-      })
+    it('escalates to SIGKILL when the port is not released in time', async () => {
+      vi.useFakeTimers()
+      const inspector = await getInspector()
+      inspector.inspect.mockResolvedValue({ inUse: true, holders: [holders[0]] })
+      const kill = vi.spyOn(process, 'kill').mockReturnValue(true)
 
-      const result = containerService.killProcessOnPort(3000)
+      const resultPromise = containerService.killProcessOnPortAsync(3000)
+      await vi.advanceTimersByTimeAsync(3100)
 
-      expect(result).toBe(false)
+      expect(await resultPromise).toBe(true)
+      expect(kill).toHaveBeenCalledWith(12345, 'SIGTERM')
+      expect(kill).toHaveBeenCalledWith(12345, 'SIGKILL')
+      vi.useRealTimers()
     })
 
-    it('handles multiple PIDs on same port', async () => {
-      const { execSync } = await import('child_process')
-      vi.mocked(execSync).mockImplementation((cmd: string) => {
-        if (cmd.includes('lsof')) return '12345\n67890'
-        return ''
+    it('continues signalling remaining holders if one kill fails', async () => {
+      const inspector = await getInspector()
+      inspector.inspect
+        .mockResolvedValueOnce({ inUse: true, holders })
+        .mockResolvedValue({ inUse: false, holders: [] })
+      const kill = vi.spyOn(process, 'kill').mockImplementation((pid: number) => {
+        if (pid === 12345) throw new Error('kill ESRCH')
+        return true
       })
 
-      const result = containerService.killProcessOnPort(3000)
+      const result = await containerService.killProcessOnPortAsync(3000)
 
       expect(result).toBe(true)
-      expect(execSync).toHaveBeenCalledWith('kill -9 12345')
-      expect(execSync).toHaveBeenCalledWith('kill -9 67890')
-    })
-
-    it('continues killing remaining PIDs if one kill fails', async () => {
-      const { execSync } = await import('child_process')
-      let killCount = 0
-      vi.mocked(execSync).mockImplementation((cmd: string) => {
-        if (cmd.includes('lsof')) return '12345\n67890'
-        if (cmd.includes('kill')) {
-          killCount++
-          if (killCount === 1) throw new Error('process already exited')
-        }
-        return ''
-      })
+      expect(kill).toHaveBeenCalledWith(67890, 'SIGTERM')
+    })
 
-      const result = containerService.killProcessOnPort(3000)
+    it('returns false when no process listens on the port', async () => {
+      const inspector = await getInspector()
+      inspector.inspect.mockResolvedValue({ inUse: false, holders: [] })
+      const kill = vi.spyOn(process, 'kill').mockReturnValue(true)
 
-      expect(result).toBe(true)
-      expect(execSync).toHaveBeenCalledWith('kill -9 12345')
-      expect(execSync).toHaveBeenCalledWith('kill -9 67890')
+      const result = await containerService.killProcessOnPortAsync(3000)
+
+      expect(result).toBe(false)
+      expect(kill).not.toHaveBeenCalled()
+    })
+
+    it('propagates inspection failures instead of treating the port as free', async () => {
+      const inspector = await getInspector()
+      inspector.inspect.mockRejectedValue(new Error('Cannot inspect ports: lsof is not installed'))
+
+      await expect(containerService.killProcessOnPortAsync(3000)).rejects.toThrow('lsof is not installed')
     })
   })
 
-  describe('killProcessOnPort - security', () => {
+  describe('killProcessOnPortAsync - security', () => {
     it('rejects non-numeric port values', async () => {
-      expect(() => containerService.killProcessOnPort('5000; rm -rf /' as any)).toThrow(
+      await expect(containerService.killProcessOnPortAsync('5000; rm -rf /' as any)).rejects.toThrow(
         'Port must be an integer'
       )
     })
 
     it('rejects port values outside valid range - negative', async () => {
-      expect(() => containerService.killProcessOnPort(-1)).toThrow(
+      await expect(containerService.killProcessOnPortAsync(-1)).rejects.toThrow(
         'Port must be between 1 and 65535'
       )
     })
 
     it('rejects port values outside valid range - too high', async () => {
-      expect(() => containerService.killProcessOnPort(70000)).toThrow(
+      await expect(containerService.killProcessOnPortAsync(70000)).rejects.toThrow(
         'Port must be between 1 and 65535'
       )
     })
 
     it('rejects non-integer port values', async () => {
-      expect(() => containerService.killProcessOnPort(3000.5)).toThrow('Port must be an integer')
+      await expect(containerService.killProcessOnPortAsync(3000.5)).rejects.toThrow('Port must be an integer')
     })
 
     it('rejects NaN port values', async () => {
-      expect(() => containerService.killProcessOnPort(NaN)).toThrow('Port must be an integer')
-    })
-  })
-
-  describe('killProcessOnPortAsync', () => {
-    it('returns promise resolving to true when process killed', async () => {
-      const { exec } = await import('child_process')
-      vi.mocked(exec).mockImplementation(((cmd: string, callback: (err: Error | null, result: { stdout: string; stderr: string }) => void) => {
-        if (cmd.includes('lsof')) {
-          callback(null, { stdout: '12345\n', stderr: '' })
-        } else {
-          callback(null, { stdout: '', stderr: '' })
-        }
-        return {} as unknown as ChildProcess
-      }) as typeof exec)
-
-      const result = await containerService.killProcessOnPortAsync(3000)
-
-      expect(result).toBe(true)
-      expect(exec).toHaveBeenCalledWith('lsof -ti tcp:3000', expect.any(Function))
-    })
-
-    it('returns false when no process on port', async () => {
-      const { exec } = await import('child_process')
-      vi.mocked(exec).mockImplementation(((_cmd: string, callback: (err: Error | null, result: { stdout: string; stderr: string }) => void) => {
-        callback(new Error('no process'), { stdout: '', stderr: '' })
-        return {} as unknown as ChildProcess
-      }) as typeof exec)
-
-      const result = await containerService.killProcessOnPortAsync(3000)
-
-      expect(result).toBe(false)
-    })
-
-    it('does not block main thread (uses async exec)', async () => {
-      const { exec, execSync } = await import('child_process')
-      vi.mocked(exec).mockImplementation(((_cmd: string, callback: (err: Error | null, result: { stdout: string; stderr: string }) => void) => {
-        callback(new Error('no process'), { stdout: '', stderr: '' })
-        return {} as unknown as ChildProcess
-      }) as typeof exec)
-
-      await containerService.killProcessOnPortAsync(3000)
-
-      expect(execSync).not.toHaveBeenCalled()
-    })
-
-    it('handles multiple PIDs on same port', async () => {
-      const { exec } = await import('child_process')
-      const calls: string[] = []
-      vi.mocked(exec).mockImplementation(((cmd: string, callback: (err: Error | null, result: { stdout: string; stderr: string }) => void) => {
-        calls.push(cmd)
-        if (cmd.includes('lsof')) {
-          callback(null, { stdout: '12345\n67890\n', stderr: '' })
-        } else {
-          callback(null, { stdout: '', stderr: '' })
-        }
-        return {} as unknown as ChildProcess
-      }) as typeof exec)
-
-      const result = await containerService.killProcessOnPortAsync(3000)
-
-      expect(result).toBe(true)
-      expect(calls).toContain('kill -9 12345')
-      expect(calls).toContain('kill -9 67890')
-    })
-
-    it('validates port parameter', async () => {
-      await expect(containerService.killProcessOnPortAsync(-1)).rejects.toThrow(
-        'Port must be between 1 and 65535'
-      )
+      await expect(containerService.inspectPort(NaN)).rejects.toThrow('Port must be an integer')
     })
   })
 
@@ -603,10 +563,12 @@ describe('ContainerService', () => {
       const onLog = vi.fn()
       const promise = containerService.buildContainer('/path', '/config.json', onLog)
 
+      // The devcontainer.json is read before the CLI is spawned
+      await vi.waitFor(() => expect(spawn).toHaveBeenCalled())
       callbacks.stdout?.(Buffer.from('build output'))
       await promise
 
-      expect(onLog).toHaveBeenCalledWith('build output')
+      expect(onLog).toHaveBeenCalledWith('build output', 'stdout')
     })
 
     it('forwards stderr to onLog callback', async () => {
@@ -629,10 +591,12 @@ describe('ContainerService', () => {
       const onLog = vi.fn()
       const promise = containerService.buildContainer('/path', '/config.json', onLog)
 
+      // The devcontainer.json is read before the CLI is spawned
+      await vi.waitFor(() => expect(spawn).toHaveBeenCalled())
       callbacks.stderr?.(Buffer.from('warning message'))
       await promise
 
-      expect(onLog).toHaveBeenCalledWith('warning message')
+      expect(onLog).toHaveBeenCalledWith('warning message', 'stderr')
     })
 
     it('rejects on non-zero exit code', async () => {
@@ -666,6 +630,8 @@ describe('ContainerService', () => {
       vi.mocked(spawn).mockReturnValue(mockProcess as unknown as ChildProcess)
 
       const promise = containerService.buildContainer('/path', '/config.json', vi.fn())
+      // The devcontainer.json is read before the CLI is spawned
+      await vi.waitFor(() => expect(spawn).toHaveBeenCalled())
       callbacks.error?.(new Error('spawn failed'))
 
       await expect(promise).rejects.toThrow('spawn failed')
@@ -764,10 +730,139 @@ describe('ContainerService', () => {
       callbacks.stdout?.(Buffer.from('starting up'))
       await promise
 
-      expect(onLog).toHaveBeenCalledWith('starting up')
+      expect(onLog).toHaveBeenCalledWith('starting up', 'stdout')
       expect(logEmitted).toHaveBeenCalledWith('starting up')
     })
 
+    it('tracks the exec process and reports its exit while the container keeps running', async () => {
+      const { spawn } = await import('child_process')
+      const execHandlers: Record<string, (arg: unknown) => void> = {}
+      const mockUpProcess: MockChildProcess = {
+        stdout: { on: vi.fn() },
+        stderr: { on: vi.fn() },
+        on: vi.fn((event, cb) => {
+          if (event === 'close') setTimeout(() => cb(0), 10)
+        }),
+        pid: 0,
+      }
+      const mockExecProcess = createMockProcess({
+        on: vi.fn((event: string, cb: (arg: unknown) => void) => {
+          execHandlers[event] = cb
+        }),
+      })
+      vi.mocked(spawn)
+        .mockReturnValueOnce(mockUpProcess as unknown as ChildProcess)
+        .mockReturnValueOnce(mockExecProcess as unknown as ChildProcess)
+      const mockDocker = containerService['docker']
+      vi.mocked(mockDocker.listContainers).mockResolvedValue([
+        createContainerInfo(['/simple-local-app-web'], 'running') as Docker.ContainerInfo,
+      ])
+
+      const onStatusChange = vi.fn()
+      await containerService.startService('/workspace', '/config.json', 'npm run dev', {}, vi.fn(), {
+        containerName: 'simple-local-app-web',
+        onStatusChange,
+      })
+
+      expect(spawn).toHaveBeenNthCalledWith(
+        2,
+        'npx',
+        [
+          'devcontainer', 'exec', '--workspace-folder', '/workspace', '--config', '/config.json',
+          expect.stringContaining(`sh 'npm run dev'`),
+        ],
+        expect.objectContaining({ detached: true })
+      )
+      expect(containerService.isContainerCommandRunning('simple-local-app-web')).toBe(true)
+      expect(await containerService.getContainerStatus('simple-local-app-web')).toBe('running')
+
+      execHandlers.close(1)
+      containerService.invalidateStatusCache()
+
+      await vi.waitFor(() => expect(onStatusChange).toHaveBeenCalledWith('error'))
+      expect(containerService.isContainerCommandRunning('simple-local-app-web')).toBe(false)
+      expect(await containerService.getContainerStatus('simple-local-app-web')).toBe('error')
+    })
+
+    it('drives supported configs through the Docker API instead of the CLI', async () => {
+      const { spawn } = await import('child_process')
+      const { readFile } = await import('fs/promises')
+      vi.mocked(readFile).mockResolvedValueOnce(JSON.stringify({
+        image: 'node:20',
+        postStartCommand: 'npm install',
+        runArgs: ['--name', 'simple-local-app-web'],
+      }))
+      const backend = containerService['dockerBackend']
+      vi.spyOn(backend, 'up').mockResolvedValue(true)
+      vi.spyOn(backend, 'getRemoteUser').mockResolvedValue('node')
+      const run = vi.spyOn(backend, 'run').mockResolvedValue(undefined)
+      const exec = vi.spyOn(backend, 'exec').mockReturnValue({ exited: new Promise(() => {}), kill: vi.fn() })
+      const progress = vi.fn()
+      containerService.on('progress', progress)
+
+      await containerService.startService('/projects/app/web', '/config.json', 'npm run dev', { PORT: '3000' }, vi.fn(), {
+        containerName: 'simple-local-app-web',
+      })
+
+      expect(spawn).not.toHaveBeenCalled()
+      expect(run).toHaveBeenCalledWith(
+        'simple-local-app-web',
+        expect.objectContaining({ cmd: ['/bin/sh', '-c', 'npm install'], user: 'node', workingDir: '/workspaces/web' }),
+        expect.any(Function)
+      )
+      expect(exec).toHaveBeenCalledWith(
+        'simple-local-app-web',
+        expect.objectContaining({ env: { PORT: '3000' }, user: 'node' }),
+        expect.any(Function)
+      )
+      expect(containerService.isContainerCommandRunning('simple-local-app-web')).toBe(true)
+      expect(progress).toHaveBeenCalledWith({ containerName: 'simple-local-app-web', phase: 'exec', message: 'Running npm run dev' })
+    })
+
+    it('attaches the container to the project network under the service id before running the command', async () => {
+      const { readFile } = await import('fs/promises')
+      vi.mocked(readFile).mockResolvedValueOnce(JSON.stringify({ image: 'node:20', runArgs: ['--name', 'simple-local-app-web'] }))
+      const backend = containerService['dockerBackend']
+      vi.spyOn(backend, 'up').mockResolvedValue(false)
+      vi.spyOn(backend, 'getRemoteUser').mockResolvedValue(undefined)
+      const ensureNetwork = vi.spyOn(backend, 'ensureNetwork').mockResolvedValue(true)
+      const connect = vi.spyOn(backend, 'connectToNetwork').mockResolvedValue(undefined)
+      const exec = vi.spyOn(backend, 'exec').mockReturnValue({ exited: new Promise(() => {}), kill: vi.fn() })
+      const onLog = vi.fn()
+
+      await containerService.startService('/projects/app/web', '/config.json', 'npm run dev', {}, onLog, {
+        containerName: 'simple-local-app-web',
+        network: { projectName: 'My App', alias: 'web' },
+      })
+
+      expect(ensureNetwork).toHaveBeenCalledWith('simple-local-my-app', 'My App')
+      expect(connect).toHaveBeenCalledWith('simple-local-app-web', 'simple-local-my-app', 'web')
+      expect(connect.mock.invocationCallOrder[0]).toBeLessThan(exec.mock.invocationCallOrder[0])
+      expect(onLog).toHaveBeenCalledWith('Created network simple-local-my-app\n', undefined)
+    })
+
+    it('still runs the command when the container cannot join the project network', async () => {
+      const { readFile } = await import('fs/promises')
+      vi.mocked(readFile).mockResolvedValueOnce(JSON.stringify({ image: 'node:20' }))
+      const backend = containerService['dockerBackend']
+      vi.spyOn(backend, 'up').mockResolvedValue(false)
+      vi.spyOn(backend, 'getRemoteUser').mockResolvedValue(undefined)
+      vi.spyOn(backend, 'ensureNetwork').mockRejectedValue(new Error('permission denied'))
+      const exec = vi.spyOn(backend, 'exec').mockReturnValue({ exited: new Promise(() => {}), kill: vi.fn() })
+      const onLog = vi.fn()
+
+      await containerService.startService('/projects/app/web', '/config.json', 'npm run dev', {}, onLog, {
+        containerName: 'simple-local-app-web',
+        network: { projectName: 'app', alias: 'web' },
+      })
+
+      expect(onLog).toHaveBeenCalledWith(
+        'Warning: could not attach simple-local-app-web to network simple-local-app: permission denied\n',
+        undefined
+      )
+      expect(exec).toHaveBeenCalled()
+    })
+
     it('rejects if devcontainer up fails', async () => {
       const { spawn } = await import('child_process')
       const eventHandlers: Record<string, (arg: unknown) => void> = {}
@@ -825,6 +920,36 @@ describe('ContainerService', () => {
       cleanup()
       expect(onLog).not.toHaveBeenCalled()
     })
+
+    it('demultiplexes frames split across chunks and tags stderr', async () => {
+      const stream = Object.assign(new EventEmitter(), { destroy: vi.fn() })
+      const mockDocker = containerService['docker']
+      vi.mocked(mockDocker.getContainer).mockReturnValue({
+        inspect: vi.fn().mockResolvedValue({ Config: { Tty: false } }),
+        logs: vi.fn().mockResolvedValue(stream),
+      } as unknown as Docker.Container)
+      const frame = (type: number, text: string) => {
+        const header = Buffer.alloc(8)
+        header[0] = type
+        header.writeUInt32BE(Buffer.byteLength(text), 4)
+        return Buffer.concat([header, Buffer.from(text)])
+      }
+      const data = Buffer.concat([frame(1, 'server started\n'), frame(2, 'deprecation warning\n'), frame(1, 'partial')])
+
+      const onLog = vi.fn()
+      const cleanup = await containerService.streamLogs('web', onLog)
+      stream.emit('data', data.subarray(0, 11))
+      stream.emit('data', data.subarray(11))
+      stream.emit('end')
+
+      expect(onLog.mock.calls).toEqual([
+        ['server started', 'stdout'],
+        ['deprecation warning', 'stderr'],
+        ['partial', 'stdout'],
+      ])
+      cleanup()
+      expect(stream.destroy).toHaveBeenCalled()
+    })
   })
 
   describe('listProjectContainers', () => {
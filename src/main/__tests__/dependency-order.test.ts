@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { resolveStartOrder, resolveStopOrder, DependencyCycleError } from '../services/dependency-order'
+import type { Service } from '../../shared/types'
+
+function svc(id: string, dependsOn?: string[]): Service {
+  return { id, name: id, path: '.', command: 'npm run dev', env: {}, active: true, mode: 'native', dependsOn }
+}
+
+describe('resolveStartOrder', () => {
+  it('keeps original order when there are no dependencies', () => {
+    const order = resolveStartOrder([svc('a'), svc('b'), svc('c')])
+    expect(order.map((s) => s.id)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('places dependencies before their dependents', () => {
+    const order = resolveStartOrder([
+      svc('frontend', ['backend']),
+      svc('backend', ['db']),
+      svc('db'),
+    ])
+    expect(order.map((s) => s.id)).toEqual(['db', 'backend', 'frontend'])
+  })
+
+  it('handles shared dependencies only once', () => {
+    const order = resolveStartOrder([
+      svc('web', ['api', 'auth']),
+      svc('api', ['db']),
+      svc('auth', ['db']),
+      svc('db'),
+    ])
+    expect(order.map((s) => s.id)).toEqual(['db', 'api', 'auth', 'web'])
+  })
+
+  it('ignores dependencies that are not in the list', () => {
+    const order = resolveStartOrder([svc('web', ['hidden-service']), svc('api')])
+    expect(order.map((s) => s.id)).toEqual(['web', 'api'])
+  })
+
+  it('throws DependencyCycleError with the cycle path', () => {
+    const services = [svc('a', ['b']), svc('b', ['c']), svc('c', ['a'])]
+
+    expect(() => resolveStartOrder(services)).toThrow(DependencyCycleError)
+    try {
+      resolveStartOrder(services)
+    } catch (err) {
+      expect((err as DependencyCycleError).cycle).toEqual(['a', 'b', 'c', 'a'])
+      expect((err as Error).message).toBe('Dependency cycle detected: a -> b -> c -> a')
+    }
+  })
+
+  it('detects a service depending on itself', () => {
+    expect(() => resolveStartOrder([svc('a', ['a'])])).toThrow('Dependency cycle detected: a -> a')
+  })
+})
+
+describe('resolveStopOrder', () => {
+  it('stops dependents before their dependencies', () => {
+    const order = resolveStopOrder([
+      svc('frontend', ['backend']),
+      svc('backend', ['db']),
+      svc('db'),
+    ])
+    expect(order.map((s) => s.id)).toEqual(['frontend', 'backend', 'db'])
+  })
+})
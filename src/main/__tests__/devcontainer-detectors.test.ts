@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest'
+import * as path from 'path'
+import { detectDevcontainerProfile } from '../services/devcontainer-detectors'
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'languages')
+
+function fixture(name: string): string {
+  return path.join(FIXTURES, name)
+}
+
+describe('detectDevcontainerProfile', () => {
+  describe('python', () => {
+    it('installs Poetry projects with poetry', async () => {
+      const profile = await detectDevcontainerProfile(fixture('fastapi-poetry'), 'poetry run uvicorn main:app --reload')
+
+      expect(profile).toEqual({
+        language: 'python',
+        image: 'mcr.microsoft.com/devcontainers/python:3',
+        features: {},
+        postStartCommand: 'pipx install poetry && poetry install',
+      })
+    })
+
+    it('installs requirements.txt for Django', async () => {
+      const profile = await detectDevcontainerProfile(fixture('django-requirements'), 'python manage.py runserver 0.0.0.0:8000')
+
+      expect(profile.language).toBe('python')
+      expect(profile.postStartCommand).toBe('pip install --user -r requirements.txt')
+    })
+
+    it('syncs uv projects', async () => {
+      const profile = await detectDevcontainerProfile(fixture('python-uv'), 'uv run celery -A worker worker')
+
+      expect(profile.postStartCommand).toBe('pipx install uv && uv sync')
+    })
+
+    it('installs debugpy when the service has a debug port', async () => {
+      const profile = await detectDevcontainerProfile(fixture('django-requirements'), 'python manage.py runserver', 5678)
+
+      expect(profile.postStartCommand).toBe('pip install --user -r requirements.txt && pip install --user debugpy')
+    })
+
+    it('prefers Python manifests over an auxiliary package.json', async () => {
+      const profile = await detectDevcontainerProfile(fixture('django-with-assets'), './start.sh')
+
+      expect(profile.language).toBe('python')
+    })
+  })
+
+  it('downloads Go modules and installs Delve for debugging', async () => {
+    const profile = await detectDevcontainerProfile(fixture('go-service'), 'go run .', 2345)
+
+    expect(profile).toEqual({
+      language: 'go',
+      image: 'mcr.microsoft.com/devcontainers/go:1',
+      features: {},
+      postStartCommand: 'go mod download && go install github.com/go-delve/delve/cmd/dlv@latest',
+    })
+  })
+
+  it('fetches Rust crates', async () => {
+    const profile = await detectDevcontainerProfile(fixture('rust-service'), 'cargo run --release')
+
+    expect(profile).toEqual({
+      language: 'rust',
+      image: 'mcr.microsoft.com/devcontainers/rust:1',
+      features: {},
+      postStartCommand: 'cargo fetch',
+    })
+  })
+
+  it('bundles Ruby gems and points the debugger at the debug port', async () => {
+    const profile = await detectDevcontainerProfile(fixture('rails-app'), 'bundle exec rails server -b 0.0.0.0', 12345)
+
+    expect(profile).toEqual({
+      language: 'ruby',
+      image: 'mcr.microsoft.com/devcontainers/ruby:3',
+      features: {},
+      postStartCommand: 'bundle install',
+      containerEnv: { RUBY_DEBUG_HOST: '0.0.0.0', RUBY_DEBUG_PORT: '12345' },
+    })
+  })
+
+  describe('java', () => {
+    it('uses the Java version from the pom and adds Maven as a feature', async () => {
+      const profile = await detectDevcontainerProfile(fixture('java-maven'), 'mvn spring-boot:run')
+
+      expect(profile).toEqual({
+        language: 'java',
+        image: 'mcr.microsoft.com/devcontainers/java:17',
+        features: {
+          'ghcr.io/devcontainers/features/java:1': { version: 'none', installMaven: 'true', installGradle: 'false' },
+        },
+        postStartCommand: 'mvn -B dependency:resolve',
+      })
+    })
+
+    it('uses the Maven wrapper when present', async () => {
+      const profile = await detectDevcontainerProfile(fixture('java-maven-wrapper'), './mvnw spring-boot:run')
+
+      expect(profile.image).toBe('mcr.microsoft.com/devcontainers/java:21')
+      expect(profile.features).toEqual({})
+      expect(profile.postStartCommand).toBe('./mvnw -B dependency:resolve')
+    })
+  })
+
+  describe('node', () => {
+    it('installs with pnpm when the lockfile says so', async () => {
+      const profile = await detectDevcontainerProfile(fixture('node-pnpm'), 'npm run dev')
+
+      expect(profile).toEqual({
+        language: 'node',
+        image: 'mcr.microsoft.com/devcontainers/javascript-node:20',
+        features: {},
+        postStartCommand: 'sudo corepack enable && CI=true pnpm install',
+      })
+    })
+
+    it('adds the Bun feature for bun commands', async () => {
+      const profile = await detectDevcontainerProfile(undefined, 'bun run dev')
+
+      expect(profile.features).toEqual({ 'ghcr.io/devcontainers/features/bun:1': {} })
+      expect(profile.postStartCommand).toBe('bun install')
+    })
+
+    it('does not mistake bundle for bun', async () => {
+      const profile = await detectDevcontainerProfile(undefined, 'bundle exec puma')
+
+      expect(profile.language).toBe('ruby')
+    })
+  })
+
+  it('lets the command decide when manifests of several languages exist', async () => {
+    const profile = await detectDevcontainerProfile(fixture('django-with-assets'), 'npx tailwindcss --watch')
+
+    expect(profile.language).toBe('node')
+  })
+
+  it('falls back to the base image without an install step', async () => {
+    const profile = await detectDevcontainerProfile(fixture('does-not-exist'), 'make serve')
+
+    expect(profile).toEqual({
+      language: null,
+      image: 'mcr.microsoft.com/devcontainers/base:ubuntu',
+      features: {},
+    })
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import { parseMount, resolveDirectContainerSpec, type DirectContainerSpec } from '../services/devcontainer-spec'
+
+function resolveSupported(config: unknown): DirectContainerSpec {
+  const result = resolveDirectContainerSpec(config, '/projects/app/web')
+  if (!result.supported) throw new Error(`unexpectedly unsupported: ${result.reason}`)
+  return result.spec
+}
+
+describe('resolveDirectContainerSpec', () => {
+  it('resolves a generated config', () => {
+    const spec = resolveSupported({
+      name: 'app-web',
+      image: 'mcr.microsoft.com/devcontainers/javascript-node:20',
+      features: {},
+      forwardPorts: [3000, 9229],
+      postStartCommand: 'npm install',
+      mounts: ['source=${localWorkspaceFolder},target=/workspace,type=bind'],
+      runArgs: ['--name', 'simple-local-app-web'],
+    })
+
+    expect(spec).toEqual({
+      name: 'simple-local-app-web',
+      image: 'mcr.microsoft.com/devcontainers/javascript-node:20',
+      workspaceFolder: '/workspaces/web',
+      mounts: [
+        { type: 'bind', source: '/projects/app/web', target: '/workspaces/web', readOnly: false },
+        { type: 'bind', source: '/projects/app/web', target: '/workspace', readOnly: false },
+      ],
+      ports: [
+        { hostPort: 3000, containerPort: 3000, hostIp: '127.0.0.1' },
+        { hostPort: 9229, containerPort: 9229, hostIp: '127.0.0.1' },
+      ],
+      containerEnv: {},
+      remoteEnv: {},
+      labels: {},
+      extraHosts: [],
+      postStartCommand: ['/bin/sh', '-c', 'npm install'],
+    })
+  })
+
+  it('applies supported run arguments', () => {
+    const spec = resolveSupported({
+      image: 'node:20',
+      runArgs: ['--name=api', '-e', 'DEBUG=1', '-p', '127.0.0.1:8080:80', '--label', 'team=web', '--add-host', 'db:10.0.0.2', '--network', 'app-net'],
+    })
+
+    expect(spec.name).toBe('api')
+    expect(spec.containerEnv).toEqual({ DEBUG: '1' })
+    expect(spec.ports).toEqual([{ hostPort: 8080, containerPort: 80, hostIp: '127.0.0.1' }])
+    expect(spec.labels).toEqual({ team: 'web' })
+    expect(spec.extraHosts).toEqual(['db:10.0.0.2'])
+    expect(spec.network).toBe('app-net')
+  })
+
+  it('uses workspaceFolder, environment and remoteUser from the config', () => {
+    const spec = resolveSupported({
+      image: 'node:20',
+      workspaceFolder: '/src',
+      containerEnv: { CACHE_DIR: '${containerWorkspaceFolder}/.cache' },
+      remoteEnv: { NODE_ENV: 'development' },
+      remoteUser: 'node',
+      postStartCommand: ['npm', 'ci'],
+    })
+
+    expect(spec.workspaceFolder).toBe('/src')
+    expect(spec.mounts[0].target).toBe('/src')
+    expect(spec.containerEnv).toEqual({ CACHE_DIR: '/src/.cache' })
+    expect(spec.remoteEnv).toEqual({ NODE_ENV: 'development' })
+    expect(spec.remoteUser).toBe('node')
+    expect(spec.postStartCommand).toEqual(['npm', 'ci'])
+  })
+
+  it.each([
+    [{ build: { dockerfile: 'Dockerfile' } }, 'unsupported property "build"'],
+    [{ image: 'node:20', features: { 'ghcr.io/devcontainers/features/bun:1': {} } }, 'uses features'],
+    [{ image: 'node:20', postCreateCommand: 'npm ci' }, 'unsupported property "postCreateCommand"'],
+    [{ image: 'node:20', runArgs: ['--privileged'] }, 'runArgs: unsupported argument --privileged'],
+    [{ image: 'node:20', forwardPorts: ['db:5432'] }, 'unsupported forwarded port "db:5432"'],
+    [{ image: 'node:20', postStartCommand: { a: 'x', b: 'y' } }, 'postStartCommand with parallel commands'],
+    [{ dockerComposeFile: 'compose.yml', service: 'app' }, 'unsupported property "dockerComposeFile"'],
+  ])('reports %j as unsupported', (config, reason) => {
+    expect(resolveDirectContainerSpec(config, '/projects/app/web')).toEqual({ supported: false, reason })
+  })
+})
+
+describe('parseMount', () => {
+  it('parses bind and volume mounts with aliases and readonly', () => {
+    expect(parseMount('src=/data,dst=/data,type=bind,readonly')).toEqual({
+      type: 'bind',
+      source: '/data',
+      target: '/data',
+      readOnly: true,
+    })
+    expect(parseMount('source=node_modules,target=/app/node_modules')).toEqual({
+      type: 'volume',
+      source: 'node_modules',
+      target: '/app/node_modules',
+      readOnly: false,
+    })
+  })
+
+  it('rejects tmpfs mounts and mounts without a target', () => {
+    expect(parseMount('type=tmpfs,target=/tmp')).toBeNull()
+    expect(parseMount('source=/data,type=bind')).toBeNull()
+  })
+})
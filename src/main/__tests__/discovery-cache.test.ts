@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createHash } from 'crypto'
+import {
+  computeDiscoveryFingerprint,
+  diffDiscoveryFingerprints,
+  readDiscoveryCache,
+  writeDiscoveryCache,
+} from '../services/discovery-cache'
+
+const sha256 = (content: string) => createHash('sha256').update(content).digest('hex')
+
+describe('computeDiscoveryFingerprint', () => {
+  it('hashes scanned files, detector manifests and tool directory listings by relative path', async () => {
+    const files: Record<string, string> = {
+      '/project/package.json': '{"name":"web"}',
+      '/project/api/.env': 'PORT=4000',
+      '/project/services/api/cmd/go.mod': 'module api',
+    }
+    const fileSystem = {
+      readFile: vi.fn(async (p: string) => {
+        if (p in files) return files[p]
+        throw new Error(`EISDIR: ${p}`)
+      }),
+      readdir: vi.fn(async (p: string) => {
+        if (p === '/project/inngest') {
+          return [
+            { name: 'functions.ts', isFile: () => true, isDirectory: () => false },
+            { name: 'client.ts', isFile: () => true, isDirectory: () => false },
+          ]
+        }
+        throw new Error(`ENOENT: ${p}`)
+      }),
+    }
+
+    const fingerprint = await computeDiscoveryFingerprint(
+      '/project',
+      {
+        packageJsonPaths: ['/project/package.json'],
+        dockerComposePaths: [],
+        envFiles: ['/project/api/.env'],
+        makefilePaths: ['/project/Makefile'],
+        toolConfigPaths: ['/project/inngest'],
+      },
+      ['/project/services/api/cmd/go.mod', '/project/package.json'],
+      fileSystem
+    )
+
+    expect(fingerprint).toEqual({
+      'api/.env': sha256('PORT=4000'),
+      'inngest': sha256('dir\nclient.ts\nfunctions.ts'),
+      'package.json': sha256('{"name":"web"}'),
+      'services/api/cmd/go.mod': sha256('module api'),
+    })
+  })
+})
+
+describe('diffDiscoveryFingerprints', () => {
+  it('lists added, removed and edited files', () => {
+    expect(
+      diffDiscoveryFingerprints(
+        { 'package.json': 'a', 'Makefile': 'b', '.env': 'c' },
+        { 'package.json': 'a', '.env': 'changed', 'compose.yaml': 'd' }
+      )
+    ).toEqual(['.env', 'Makefile', 'compose.yaml'])
+  })
+})
+
+describe('discovery cache file', () => {
+  const entry = {
+    createdAt: '2026-01-01T00:00:00.000Z',
+    agentId: 'claude' as const,
+    basePort: 3000,
+    debugPortBase: 9200,
+    fingerprint: { 'package.json': 'a' },
+    config: { name: 'project', services: [] },
+  }
+
+  it('writes the entry with its version and reads it back', async () => {
+    const written = new Map<string, string>()
+    const fileSystem = {
+      mkdir: vi.fn().mockResolvedValue(undefined),
+      writeFile: vi.fn(async (p: string, content: string) => { written.set(p, content) }),
+      readFile: vi.fn(async (p: string) => written.get(p) ?? ''),
+    }
+
+    await writeDiscoveryCache('/project', entry, fileSystem)
+
+    expect(fileSystem.mkdir).toHaveBeenCalledWith('/project/.simple-local', { recursive: true })
+    expect(await readDiscoveryCache('/project', fileSystem)).toEqual({ version: 2, ...entry })
+  })
+
+  it('adds the cache file to .simple-local/.gitignore once', async () => {
+    const written = new Map<string, string>([['/project/.simple-local/.gitignore', 'config.local.json']])
+    const fileSystem = {
+      mkdir: vi.fn().mockResolvedValue(undefined),
+      writeFile: vi.fn(async (p: string, content: string) => { written.set(p, content) }),
+      readFile: vi.fn(async (p: string) => {
+        const content = written.get(p)
+        if (content === undefined) throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' })
+        return content
+      }),
+    }
+
+    await writeDiscoveryCache('/project', entry, fileSystem)
+    await writeDiscoveryCache('/project', entry, fileSystem)
+
+    expect(written.get('/project/.simple-local/.gitignore')).toBe('config.local.json\ndiscovery-cache.json\n')
+  })
+
+  it.each([
+    ['missing', () => Promise.reject(new Error('ENOENT'))],
+    ['not JSON', () => Promise.resolve('{')],
+    ['from another version', () => Promise.resolve(JSON.stringify({ ...entry, version: 1 }))],
+    ['without an agent', () => Promise.resolve(JSON.stringify({ ...entry, version: 2, agentId: undefined }))],
+    ['without services', () => Promise.resolve(JSON.stringify({ ...entry, version: 2, config: {} }))],
+  ])('ignores a cache file that is %s', async (_label, readFile) => {
+    expect(await readDiscoveryCache('/project', { readFile })).toBeNull()
+  })
+})
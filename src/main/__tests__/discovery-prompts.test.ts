@@ -163,6 +163,32 @@ describe('discovery-prompts', () => {
         })
       ).toThrow('invalid control characters')
     })
+
+    it('includes detected services as a baseline', () => {
+      const prompt = buildDiscoveryPrompt({
+        resultFilePath: '/project/result.json',
+        baseline: [
+          { name: 'web', path: '.', command: 'bin/rails server -p ${PORT:-3000}', port: 3000, source: 'rails' },
+          { name: 'worker', path: '.', command: 'bundle exec sidekiq', dependsOn: ['web'], source: 'procfile' },
+        ],
+      })
+
+      expect(prompt).toContain('## Baseline')
+      expect(prompt).toContain('"command": "bin/rails server -p ${PORT:-3000}"')
+      expect(prompt).toContain('"dependsOn": [\n      "web"\n    ]')
+      expect(prompt).toContain('"foundIn": "procfile"')
+      expect(prompt).not.toContain('{{BASELINE}}')
+    })
+
+    it('omits the baseline section when nothing was detected', () => {
+      const prompt = buildDiscoveryPrompt({
+        resultFilePath: '/project/result.json',
+        baseline: [],
+      })
+
+      expect(prompt).not.toContain('## Baseline')
+      expect(prompt).not.toContain('{{BASELINE}}')
+    })
   })
 
   describe('templates', () => {
@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
+import { createHash } from 'crypto'
 import { NEVER, Subject } from 'rxjs'
 import {
   DiscoveryService,
@@ -11,9 +12,10 @@ import {
   detectHardcodedPort,
   detectPackageManager,
   extractScriptName,
+  mergeDiscoveredConfig,
 } from '../services/discovery'
 import type { AgentTerminal } from '../modules/agent-terminal'
-import type { ProjectConfig } from '../../shared/types'
+import type { ProjectConfig, Service } from '../../shared/types'
 
 // Test fixtures
 const testService = {
@@ -34,6 +36,7 @@ function createMockFileSystem(overrides: Partial<FileSystemOperations> = {}): Fi
     readdir: vi.fn().mockResolvedValue([]),
     mkdir: vi.fn().mockResolvedValue(undefined),
     unlink: vi.fn().mockRejectedValue(new Error('file not found')),
+    writeFile: vi.fn().mockResolvedValue(undefined),
     ...overrides,
   }
 }
@@ -309,6 +312,106 @@ describe('DiscoveryService', () => {
       expect(mockTerminalFactory.create).toHaveBeenCalled()
       expect(mockTerminal.spawn).toHaveBeenCalled()
     })
+
+    describe('cache', () => {
+      const packageJson = JSON.stringify({ name: 'web', scripts: { dev: 'vite' } })
+      const cachedConfig: ProjectConfig = { name: 'project', services: [{ ...testService, id: 'cached' }] }
+      const cacheEntry = (fingerprint: Record<string, string>, basePort = 3000, agentId = 'claude') => JSON.stringify({
+        version: 2,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        agentId,
+        basePort,
+        debugPortBase: 9200,
+        fingerprint,
+        config: cachedConfig,
+      })
+
+      beforeEach(() => {
+        vi.mocked(mockFs.readdir).mockImplementation(async (dirPath) =>
+          dirPath === '/test/project'
+            ? [{ name: 'package.json', isDirectory: () => false, isFile: () => true }]
+            : []
+        )
+      })
+
+      function mockCache(entry: string) {
+        vi.mocked(mockFs.readFile).mockImplementation(async (filePath) => {
+          if (filePath === '/test/project/.simple-local/discovery-cache.json') return entry
+          if (filePath === '/test/project/package.json') return packageJson
+          throw new Error('ENOENT')
+        })
+      }
+
+      it('returns the cached result without running the agent when no manifest changed', async () => {
+        mockCache(cacheEntry({ 'package.json': createHash('sha256').update(packageJson).digest('hex') }))
+        const onProgress = vi.fn()
+
+        const result = await discovery.runAIDiscovery('/test/project', 'claude', onProgress)
+
+        expect(result).toEqual(cachedConfig)
+        expect(mockTerminalFactory.create).not.toHaveBeenCalled()
+        expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ step: 'complete', message: expect.stringContaining('cached') }))
+        expect(await discovery.getCacheStatus('/test/project', 'claude', 3000, 9200)).toEqual({
+          cachedAt: '2026-01-01T00:00:00.000Z',
+          changedFiles: [],
+        })
+      })
+
+      it('reports changed manifests and runs the agent', async () => {
+        mockCache(cacheEntry({ 'package.json': 'stale', 'Makefile': 'gone' }))
+        const onProgress = vi.fn()
+
+        await discovery.runAIDiscovery('/test/project', 'claude', onProgress)
+
+        expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({
+          step: 'scanning',
+          message: 'Manifests changed since last discovery: Makefile, package.json',
+        }))
+        expect(mockTerminal.spawn).toHaveBeenCalled()
+      })
+
+      it('runs the agent when forced', async () => {
+        mockCache(cacheEntry({ 'package.json': createHash('sha256').update(packageJson).digest('hex') }))
+
+        await discovery.runAIDiscovery('/test/project', 'claude', vi.fn(), 3000, 9200, true)
+
+        expect(mockTerminal.spawn).toHaveBeenCalled()
+      })
+
+      it('ignores a result cached for other port ranges', async () => {
+        mockCache(cacheEntry({ 'package.json': createHash('sha256').update(packageJson).digest('hex') }, 4000))
+
+        expect(await discovery.getCacheStatus('/test/project', 'claude', 3000, 9200)).toBeNull()
+        await discovery.runAIDiscovery('/test/project', 'claude', vi.fn())
+        expect(mockTerminal.spawn).toHaveBeenCalled()
+      })
+
+      it('ignores a result cached by another agent', async () => {
+        mockCache(cacheEntry({ 'package.json': createHash('sha256').update(packageJson).digest('hex') }, 3000, 'codex'))
+
+        expect(await discovery.getCacheStatus('/test/project', 'claude', 3000, 9200)).toBeNull()
+        await discovery.runAIDiscovery('/test/project', 'claude', vi.fn())
+        expect(mockTerminal.spawn).toHaveBeenCalled()
+      })
+
+      it('reports manifests the service detectors read below the scan depth', async () => {
+        const file = (name: string) => ({ name, isDirectory: () => false, isFile: () => true })
+        const dir = (name: string) => ({ name, isDirectory: () => true, isFile: () => false })
+        vi.mocked(mockFs.readdir).mockImplementation(async (dirPath) => {
+          if (dirPath === '/test/project') return [file('package.json'), file('Procfile'), dir('services')]
+          if (dirPath === '/test/project/services') return [dir('api')]
+          if (dirPath === '/test/project/services/api') return [dir('server')]
+          if (dirPath === '/test/project/services/api/server') return [file('go.mod'), file('main.go')]
+          return []
+        })
+        mockCache(cacheEntry({ 'package.json': createHash('sha256').update(packageJson).digest('hex') }))
+
+        expect(await discovery.getCacheStatus('/test/project', 'claude', 3000, 9200)).toEqual({
+          cachedAt: '2026-01-01T00:00:00.000Z',
+          changedFiles: ['Procfile', 'services/api/server/go.mod'],
+        })
+      })
+    })
   })
 
   describe('runEnvAnalysis', () => {
@@ -361,6 +464,29 @@ describe('DiscoveryService', () => {
       expect(result.services[0].name).toBe('my-app')
     })
 
+    it('assigns the env files of the service folder in precedence order', async () => {
+      vi.mocked(mockFs.readdir).mockImplementation(async (dirPath) => {
+        if (dirPath === '/project') {
+          return [
+            { name: 'package.json', isDirectory: () => false, isFile: () => true },
+            { name: '.env.local', isDirectory: () => false, isFile: () => true },
+            { name: '.env.example', isDirectory: () => false, isFile: () => true },
+            { name: '.env', isDirectory: () => false, isFile: () => true },
+          ]
+        }
+        return []
+      })
+      vi.mocked(mockFs.readFile).mockResolvedValue(JSON.stringify({
+        name: 'my-app',
+        scripts: { dev: 'vite dev' },
+        dependencies: {},
+      }))
+
+      const result = await discovery.basicDiscovery('/project')
+
+      expect(result.services[0].envFiles).toEqual(['.env', '.env.local'])
+    })
+
     it('uses custom basePort for port allocation', async () => {
       vi.mocked(mockFs.readdir).mockImplementation(async (dirPath) => {
         if (dirPath === '/project') {
@@ -509,6 +635,108 @@ describe('DiscoveryService', () => {
       expect(result.services[0].discoveredPort).toBeUndefined()
       expect(result.services[1].discoveredPort).toBeUndefined()
     })
+
+    it('imports docker-compose services after package.json services', async () => {
+      vi.mocked(mockFs.readdir).mockImplementation(async (dirPath) => {
+        if (dirPath === '/project') {
+          return [
+            { name: 'package.json', isDirectory: () => false, isFile: () => true },
+            { name: 'compose.yaml', isDirectory: () => false, isFile: () => true },
+          ]
+        }
+        return []
+      })
+      vi.mocked(mockFs.readFile).mockImplementation(async (filePath) => {
+        if (filePath === '/project/package.json') {
+          return JSON.stringify({ name: 'web', scripts: { dev: 'vite dev' }, dependencies: {} })
+        }
+        if (filePath === '/project/compose.yaml') {
+          return [
+            'services:',
+            '  web:',
+            '    image: nginx',
+            '  postgres:',
+            '    image: postgres:16',
+            '    ports: ["5432:5432"]',
+            '    environment:',
+            '      SELF_URL: postgres://localhost:5432/app',
+          ].join('\n')
+        }
+        throw new Error('ENOENT')
+      })
+
+      const result = await discovery.basicDiscovery('/project', 3100)
+
+      expect(result.services.map((s) => [s.id, s.type, s.mode, s.port])).toEqual([
+        ['web', undefined, 'native', 3100],
+        ['web-2', 'infrastructure', 'container', undefined],
+        ['postgres', 'infrastructure', 'container', 3101],
+      ])
+      expect(result.services[2].env.SELF_URL).toBe('postgres://localhost:${services.postgres.port}/app')
+    })
+
+    it('keeps the package.json services when a compose file fails to parse', async () => {
+      vi.mocked(mockFs.readdir).mockImplementation(async (dirPath) => {
+        if (dirPath === '/project') {
+          return [
+            { name: 'package.json', isDirectory: () => false, isFile: () => true },
+            { name: 'docker-compose.yml', isDirectory: () => false, isFile: () => true },
+          ]
+        }
+        return []
+      })
+      vi.mocked(mockFs.readFile).mockImplementation(async (filePath) => {
+        if (filePath === '/project/docker-compose.yml') return 'services: [unclosed'
+        return JSON.stringify({ name: 'web', scripts: { dev: 'vite dev' }, dependencies: {} })
+      })
+
+      const result = await discovery.basicDiscovery('/project')
+
+      expect(result.services.map((s) => s.id)).toEqual(['web'])
+    })
+
+    it('creates services from detectors beyond package.json', async () => {
+      vi.mocked(mockFs.readdir).mockImplementation(async (dirPath) => {
+        if (dirPath === '/project') {
+          return [
+            { name: 'package.json', isDirectory: () => false, isFile: () => true },
+            { name: 'api', isDirectory: () => true, isFile: () => false },
+            { name: 'web', isDirectory: () => true, isFile: () => false },
+          ]
+        }
+        if (dirPath === '/project/api') {
+          return [
+            { name: 'go.mod', isDirectory: () => false, isFile: () => true },
+            { name: 'main.go', isDirectory: () => false, isFile: () => true },
+          ]
+        }
+        if (dirPath === '/project/web') {
+          return [{ name: 'package.json', isDirectory: () => false, isFile: () => true }]
+        }
+        return []
+      })
+      vi.mocked(mockFs.readFile).mockImplementation(async (filePath) => {
+        if (filePath === '/project/package.json') {
+          return JSON.stringify({ name: 'root', workspaces: ['web'] })
+        }
+        if (filePath === '/project/web/package.json') {
+          return JSON.stringify({ name: 'Web App', scripts: { dev: 'vite dev --port 5173' }, dependencies: {} })
+        }
+        if (filePath === '/project/api/main.go') {
+          return 'package main\n\nfunc main() {\n\thttp.ListenAndServe(":8080", nil)\n}\n'
+        }
+        return 'module api'
+      })
+
+      const result = await discovery.basicDiscovery('/project', 3100)
+
+      expect(result.services.map((s) => [s.id, s.path, s.command, s.port])).toEqual([
+        ['web-app', 'web', 'npm run dev', 5173],
+        ['api', 'api', 'go run .', 3101],
+      ])
+      expect(result.services[0].useOriginalPort).toBe(true)
+      expect(result.services[1].discoveredPort).toBe(8080)
+    })
   })
 
   describe('backward compatibility', () => {
@@ -1085,3 +1313,110 @@ describe('basicDiscovery with package manager', () => {
     expect(result.services[0].hardcodedPort).toBeUndefined()
   })
 })
+
+describe('mergeDiscoveredConfig', () => {
+  const service = (overrides: Partial<Service> & Pick<Service, 'id'>): Service => ({
+    name: overrides.id,
+    path: overrides.id,
+    command: 'npm run dev',
+    env: {},
+    active: true,
+    mode: 'native',
+    ...overrides,
+  })
+
+  const existing: ProjectConfig = {
+    name: 'shop',
+    services: [
+      service({
+        id: 'web',
+        port: 3000,
+        allocatedPort: 3000,
+        debugPort: 9200,
+        allocatedDebugPort: 9200,
+        env: { API_URL: 'http://localhost:${services.api.port}', SECRET: 'edited' },
+        mode: 'container',
+        containerEnvOverrides: [{ key: 'API_URL', originalPattern: 'localhost', containerValue: 'host.docker.internal', reason: 'x', enabled: true }],
+      }),
+      service({ id: 'api', path: 'backend', port: 5173, discoveredPort: 5173, allocatedPort: 3001, useOriginalPort: true }),
+      service({ id: 'legacy', port: 3002, allocatedPort: 3002 }),
+    ],
+  }
+
+  const discovered: ProjectConfig = {
+    name: 'shop',
+    services: [
+      service({ id: 'web', command: 'pnpm dev', port: 3000, allocatedPort: 3000, env: { API_URL: 'http://localhost:5173' } }),
+      service({ id: 'backend-api', path: 'backend', port: 5174, discoveredPort: 5174, allocatedPort: 3001, useOriginalPort: true }),
+      service({
+        id: 'worker',
+        port: 3002,
+        allocatedPort: 3002,
+        debugPort: 9200,
+        allocatedDebugPort: 9200,
+        dependsOn: ['backend-api'],
+        env: { API_URL: 'http://localhost:${services.backend-api.port}' },
+      }),
+    ],
+  }
+
+  it('keeps user-edited fields of matched services and refreshes discovered ones', () => {
+    const merge = mergeDiscoveredConfig(existing, discovered)
+    const web = merge.entries.find((e) => e.id === 'web')!
+
+    expect(web.kind).toBe('changed')
+    expect(web.changedFields).toEqual(['command'])
+    expect(web.merged).toEqual({ ...existing.services[0], command: 'pnpm dev' })
+  })
+
+  it('matches services by path when their id changed', () => {
+    const merge = mergeDiscoveredConfig(existing, discovered)
+    const api = merge.entries.find((e) => e.id === 'api')!
+
+    expect(api.kind).toBe('changed')
+    expect(api.changedFields).toEqual(['discoveredPort', 'port'])
+    expect(api.merged).toMatchObject({ id: 'api', port: 5174, allocatedPort: 3001, useOriginalPort: true })
+  })
+
+  it('reports new and vanished services with ports outside the saved ones', () => {
+    const merge = mergeDiscoveredConfig(existing, discovered)
+
+    expect(merge.entries.map((e) => [e.id, e.kind])).toEqual([
+      ['web', 'changed'],
+      ['api', 'changed'],
+      ['legacy', 'removed'],
+      ['worker', 'added'],
+    ])
+    expect(merge.entries[2].existing).toBe(existing.services[2])
+    expect(merge.entries[3].merged).toMatchObject({
+      port: 3003,
+      allocatedPort: 3003,
+      debugPort: 9201,
+      allocatedDebugPort: 9201,
+      dependsOn: ['api'],
+      env: { API_URL: 'http://localhost:${services.api.port}' },
+    })
+  })
+
+  it('reports services discovery found as they were as unchanged', () => {
+    const merge = mergeDiscoveredConfig(existing, { name: 'shop', services: [service({ id: 'legacy', port: 3100 })] })
+
+    expect(merge.entries.find((e) => e.id === 'legacy')).toMatchObject({
+      kind: 'unchanged',
+      merged: existing.services[2],
+      changedFields: [],
+    })
+  })
+
+  it('does not match services of another type by path', () => {
+    const merge = mergeDiscoveredConfig(
+      { name: 'shop', services: [service({ id: 'app', path: '.' })] },
+      { name: 'shop', services: [service({ id: 'db', path: '.', type: 'infrastructure' })] }
+    )
+
+    expect(merge.entries.map((e) => [e.id, e.kind])).toEqual([
+      ['app', 'removed'],
+      ['db', 'added'],
+    ])
+  })
+})
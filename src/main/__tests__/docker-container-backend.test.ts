@@ -0,0 +1,379 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { PassThrough } from 'stream'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import type Docker from 'dockerode'
+import {
+  CONFIG_HASH_LABEL,
+  DockerContainerBackend,
+  PROJECT_LABEL,
+  buildCreateOptions,
+  buildInfrastructureCreateOptions,
+  type ContainerProgressEvent,
+} from '../services/docker-container-backend'
+import type { DirectContainerSpec } from '../services/devcontainer-spec'
+
+function frame(streamType: number, payload: string): Buffer {
+  const body = Buffer.from(payload)
+  const header = Buffer.alloc(8)
+  header[0] = streamType
+  header.writeUInt32BE(body.length, 4)
+  return Buffer.concat([header, body])
+}
+
+function notFound(): Error {
+  return Object.assign(new Error('no such container'), { statusCode: 404 })
+}
+
+const spec: DirectContainerSpec = {
+  name: 'simple-local-app-web',
+  image: 'node:20',
+  workspaceFolder: '/workspaces/web',
+  mounts: [{ type: 'bind', source: '/projects/app/web', target: '/workspaces/web', readOnly: false }],
+  ports: [{ hostPort: 3000, containerPort: 3000, hostIp: '127.0.0.1' }],
+  containerEnv: { TZ: 'UTC' },
+  remoteEnv: {},
+  labels: {},
+  extraHosts: [],
+}
+
+describe('buildCreateOptions', () => {
+  it('maps the spec to Docker create options', () => {
+    const options = buildCreateOptions('web', spec)
+
+    expect(options).toMatchObject({
+      name: 'web',
+      Image: 'node:20',
+      Env: ['TZ=UTC'],
+      WorkingDir: '/workspaces/web',
+      ExposedPorts: { '3000/tcp': {} },
+      HostConfig: {
+        Mounts: [{ Type: 'bind', Source: '/projects/app/web', Target: '/workspaces/web', ReadOnly: false }],
+        PortBindings: { '3000/tcp': [{ HostPort: '3000', HostIp: '127.0.0.1' }] },
+        ExtraHosts: ['host.docker.internal:host-gateway'],
+      },
+    })
+  })
+})
+
+describe('buildInfrastructureCreateOptions', () => {
+  it('runs the image entrypoint with a health check on the project network', () => {
+    const options = buildInfrastructureCreateOptions(
+      'simple-local-app-postgres',
+      {
+        image: 'postgres:16-alpine',
+        env: { POSTGRES_PASSWORD: 'postgres' },
+        ports: [{ hostPort: 3005, containerPort: 5432 }],
+        volume: { name: 'simple-local-app-postgres-data', target: '/var/lib/postgresql/data' },
+        healthCheck: ['CMD-SHELL', 'pg_isready'],
+      },
+      { name: 'simple-local-app', alias: 'postgres' }
+    )
+
+    expect(options.Entrypoint).toBeUndefined()
+    expect(options.Cmd).toBeUndefined()
+    expect(options).toMatchObject({
+      Image: 'postgres:16-alpine',
+      Env: ['POSTGRES_PASSWORD=postgres'],
+      Healthcheck: { Test: ['CMD-SHELL', 'pg_isready'] },
+      HostConfig: {
+        Mounts: [{ Type: 'volume', Source: 'simple-local-app-postgres-data', Target: '/var/lib/postgresql/data' }],
+        PortBindings: { '5432/tcp': [{ HostPort: '3005', HostIp: '127.0.0.1' }] },
+        NetworkMode: 'simple-local-app',
+      },
+      NetworkingConfig: { EndpointsConfig: { 'simple-local-app': { Aliases: ['postgres'] } } },
+    })
+  })
+
+  it('sets the entrypoint and leaves the image health check when none is given', () => {
+    const options = buildInfrastructureCreateOptions(
+      'simple-local-app-api',
+      { image: 'app-api', entrypoint: ['/bin/sh', '-c'], cmd: ['npm start'], env: {}, ports: [] },
+      { name: 'simple-local-app', alias: 'api' }
+    )
+
+    expect(options.Entrypoint).toEqual(['/bin/sh', '-c'])
+    expect(options.Cmd).toEqual(['npm start'])
+    expect(options.Healthcheck).toBeUndefined()
+  })
+})
+
+describe('DockerContainerBackend', () => {
+  let container: {
+    inspect: ReturnType<typeof vi.fn>
+    start: ReturnType<typeof vi.fn>
+    remove: ReturnType<typeof vi.fn>
+    exec: ReturnType<typeof vi.fn>
+  }
+  let image: { inspect: ReturnType<typeof vi.fn> }
+  let network: {
+    inspect: ReturnType<typeof vi.fn>
+    connect: ReturnType<typeof vi.fn>
+    disconnect: ReturnType<typeof vi.fn>
+  }
+  let docker: {
+    getContainer: ReturnType<typeof vi.fn>
+    getImage: ReturnType<typeof vi.fn>
+    getNetwork: ReturnType<typeof vi.fn>
+    createNetwork: ReturnType<typeof vi.fn>
+    createContainer: ReturnType<typeof vi.fn>
+    pull: ReturnType<typeof vi.fn>
+    buildImage: ReturnType<typeof vi.fn>
+    modem: { followProgress: ReturnType<typeof vi.fn> }
+  }
+  let backend: DockerContainerBackend
+  let onProgress: ReturnType<typeof vi.fn<(event: ContainerProgressEvent) => void>>
+
+  beforeEach(() => {
+    container = {
+      inspect: vi.fn().mockRejectedValue(notFound()),
+      start: vi.fn().mockResolvedValue(undefined),
+      remove: vi.fn().mockResolvedValue(undefined),
+      exec: vi.fn(),
+    }
+    image = { inspect: vi.fn().mockResolvedValue({ Config: { Labels: {} } }) }
+    network = {
+      inspect: vi.fn().mockRejectedValue(notFound()),
+      connect: vi.fn().mockResolvedValue(undefined),
+      disconnect: vi.fn().mockResolvedValue(undefined),
+    }
+    docker = {
+      getContainer: vi.fn().mockReturnValue(container),
+      getImage: vi.fn().mockReturnValue(image),
+      getNetwork: vi.fn().mockReturnValue(network),
+      createNetwork: vi.fn().mockResolvedValue(network),
+      createContainer: vi.fn().mockResolvedValue(container),
+      pull: vi.fn().mockResolvedValue(new PassThrough()),
+      buildImage: vi.fn().mockResolvedValue(new PassThrough()),
+      modem: { followProgress: vi.fn() },
+    }
+    backend = new DockerContainerBackend(() => docker as unknown as Docker)
+    onProgress = vi.fn<(event: ContainerProgressEvent) => void>()
+  })
+
+  describe('pullImage', () => {
+    it('skips pulling images that are available locally', async () => {
+      await backend.pullImage('node:20', onProgress)
+
+      expect(docker.pull).not.toHaveBeenCalled()
+      expect(onProgress).toHaveBeenCalledWith({ phase: 'pull', message: 'Using local image node:20' })
+    })
+
+    it('reports each layer status change once', async () => {
+      image.inspect.mockRejectedValue(Object.assign(new Error('No such image'), { statusCode: 404 }))
+      docker.modem.followProgress.mockImplementation((_stream, onFinished, onEvent) => {
+        onEvent({ status: 'Pulling from library/node', id: '20' })
+        onEvent({ status: 'Downloading', id: 'abc', progressDetail: { current: 10, total: 100 } })
+        onEvent({ status: 'Downloading', id: 'abc', progressDetail: { current: 50, total: 100 } })
+        onEvent({ status: 'Pull complete', id: 'abc' })
+        onEvent({ status: 'Status: Downloaded newer image for node:20' })
+        onFinished(null)
+      })
+
+      await backend.pullImage('node:20', onProgress)
+
+      expect(onProgress.mock.calls.map(([event]) => event.message)).toEqual([
+        'Pulling node:20',
+        '20: Pulling from library/node',
+        'abc: Downloading',
+        'abc: Pull complete',
+        'Status: Downloaded newer image for node:20',
+      ])
+      expect(onProgress).toHaveBeenCalledWith({ phase: 'pull', message: 'abc: Downloading', current: 10, total: 100 })
+    })
+
+    it('rejects when the pull reports an error', async () => {
+      image.inspect.mockRejectedValue(Object.assign(new Error('No such image'), { statusCode: 404 }))
+      docker.modem.followProgress.mockImplementation((_stream, _onFinished, onEvent) => {
+        onEvent({ error: 'manifest unknown' })
+      })
+
+      await expect(backend.pullImage('node:99', onProgress)).rejects.toThrow('manifest unknown')
+    })
+  })
+
+  describe('buildImage', () => {
+    let context: string
+
+    beforeEach(async () => {
+      context = await fs.mkdtemp(path.join(os.tmpdir(), 'simple-local-build-'))
+      await fs.writeFile(path.join(context, 'Dockerfile'), 'FROM node:20\n')
+      await fs.mkdir(path.join(context, 'src'))
+    })
+
+    afterEach(async () => {
+      await fs.rm(context, { recursive: true, force: true })
+    })
+
+    it('sends the context directory and reports build output', async () => {
+      docker.modem.followProgress.mockImplementation((_stream, onFinished, onEvent) => {
+        onEvent({ stream: 'Step 1/1 : FROM node:20\n' })
+        onEvent({ stream: '\n' })
+        onEvent({ aux: { ID: 'sha256:abc' } })
+        onFinished(null)
+      })
+
+      await backend.buildImage('app-api', { context, target: 'dev', args: { NODE_VERSION: '20' } }, onProgress)
+
+      expect(docker.buildImage).toHaveBeenCalledWith(
+        { context, src: expect.arrayContaining(['Dockerfile', 'src']) },
+        { t: 'app-api', target: 'dev', buildargs: { NODE_VERSION: '20' } }
+      )
+      expect(onProgress.mock.calls.map(([event]) => event.message)).toEqual([
+        `Building app-api from ${context}`,
+        'Step 1/1 : FROM node:20',
+      ])
+    })
+
+    it('rejects when the build reports an error', async () => {
+      docker.modem.followProgress.mockImplementation((_stream, _onFinished, onEvent) => {
+        onEvent({ error: 'failed to solve: npm ci' })
+      })
+
+      await expect(backend.buildImage('app-api', { context }, onProgress)).rejects.toThrow('failed to solve: npm ci')
+    })
+  })
+
+  describe('up', () => {
+    it('creates and starts a missing container with a config hash label', async () => {
+      expect(await backend.up('web', spec, onProgress)).toBe(true)
+
+      const options = docker.createContainer.mock.calls[0][0]
+      expect(options.name).toBe('web')
+      expect(options.Labels[CONFIG_HASH_LABEL]).toMatch(/^[0-9a-f]{16}$/)
+      expect(container.start).toHaveBeenCalled()
+      expect(onProgress.mock.calls.map(([event]) => event.phase)).toEqual(['create', 'start'])
+    })
+
+    it('reuses a running container created from the same options', async () => {
+      await backend.up('web', spec, onProgress)
+      const hash = docker.createContainer.mock.calls[0][0].Labels[CONFIG_HASH_LABEL]
+      container.inspect.mockResolvedValue({ Config: { Labels: { [CONFIG_HASH_LABEL]: hash } }, State: { Running: true } })
+      docker.createContainer.mockClear()
+      container.start.mockClear()
+
+      expect(await backend.up('web', spec, onProgress)).toBe(false)
+
+      expect(docker.createContainer).not.toHaveBeenCalled()
+      expect(container.start).not.toHaveBeenCalled()
+    })
+
+    it('recreates a container whose options changed', async () => {
+      container.inspect.mockResolvedValue({ Config: { Labels: { [CONFIG_HASH_LABEL]: 'outdated' } }, State: { Running: true } })
+
+      expect(await backend.up('web', spec, onProgress)).toBe(true)
+
+      expect(container.remove).toHaveBeenCalledWith({ force: true })
+      expect(docker.createContainer).toHaveBeenCalled()
+      expect(container.start).toHaveBeenCalled()
+    })
+  })
+
+  describe('networks', () => {
+    it('creates a missing project network', async () => {
+      expect(await backend.ensureNetwork('simple-local-app', 'app')).toBe(true)
+
+      expect(docker.createNetwork).toHaveBeenCalledWith({
+        Name: 'simple-local-app',
+        Driver: 'bridge',
+        Labels: { [PROJECT_LABEL]: 'app' },
+      })
+    })
+
+    it('keeps an existing network, including one created concurrently', async () => {
+      network.inspect.mockResolvedValueOnce({ Name: 'simple-local-app' })
+      expect(await backend.ensureNetwork('simple-local-app', 'app')).toBe(false)
+      expect(docker.createNetwork).not.toHaveBeenCalled()
+
+      docker.createNetwork.mockRejectedValueOnce(Object.assign(new Error('already exists'), { statusCode: 409 }))
+      expect(await backend.ensureNetwork('simple-local-app', 'app')).toBe(false)
+    })
+
+    it('connects a container under its alias', async () => {
+      container.inspect.mockResolvedValue({ NetworkSettings: { Networks: { bridge: {} } } })
+
+      await backend.connectToNetwork('web', 'simple-local-app', 'web-alias')
+
+      expect(network.disconnect).not.toHaveBeenCalled()
+      expect(network.connect).toHaveBeenCalledWith({ Container: 'web', EndpointConfig: { Aliases: ['web-alias'] } })
+    })
+
+    it('skips containers already attached with the alias and reconnects those without it', async () => {
+      container.inspect.mockResolvedValueOnce({
+        NetworkSettings: { Networks: { 'simple-local-app': { Aliases: ['web-alias'] } } },
+      })
+      await backend.connectToNetwork('web', 'simple-local-app', 'web-alias')
+      expect(network.connect).not.toHaveBeenCalled()
+
+      container.inspect.mockResolvedValueOnce({
+        NetworkSettings: { Networks: { 'simple-local-app': { Aliases: ['abc123'] } } },
+      })
+      await backend.connectToNetwork('web', 'simple-local-app', 'web-alias')
+      expect(network.disconnect).toHaveBeenCalledWith({ Container: 'web' })
+      expect(network.connect).toHaveBeenCalledWith({ Container: 'web', EndpointConfig: { Aliases: ['web-alias'] } })
+    })
+  })
+
+  describe('isHealthy', () => {
+    it('reads the health status of the container', async () => {
+      container.inspect.mockResolvedValueOnce({ State: { Health: { Status: 'starting' } } })
+      expect(await backend.isHealthy('db')).toBe(false)
+
+      container.inspect.mockResolvedValueOnce({ State: { Health: { Status: 'healthy' } } })
+      expect(await backend.isHealthy('db')).toBe(true)
+    })
+  })
+
+  describe('getRemoteUser', () => {
+    it('prefers the spec, then the image metadata', async () => {
+      expect(await backend.getRemoteUser({ ...spec, remoteUser: 'root' })).toBe('root')
+
+      image.inspect.mockResolvedValue({
+        Config: { Labels: { 'devcontainer.metadata': JSON.stringify([{ id: 'base' }, { remoteUser: 'node' }]) } },
+      })
+      expect(await backend.getRemoteUser(spec)).toBe('node')
+    })
+  })
+
+  describe('exec', () => {
+    it('streams demultiplexed output and resolves with the exit code', async () => {
+      const output = new PassThrough()
+      const exec = {
+        start: vi.fn().mockResolvedValue(output),
+        inspect: vi.fn().mockResolvedValue({ Running: false, ExitCode: 3 }),
+      }
+      container.exec.mockResolvedValue(exec)
+      const onLog = vi.fn()
+
+      const proc = backend.exec('web', { cmd: ['npm', 'start'], env: { PORT: '3000' }, user: 'node', workingDir: '/workspaces/web' }, onLog)
+      await vi.waitFor(() => expect(exec.start).toHaveBeenCalled())
+      output.write(frame(1, 'listening\n'))
+      output.write(frame(2, 'deprecated\n'))
+      output.end()
+
+      expect(await proc.exited).toBe(3)
+      expect(container.exec).toHaveBeenCalledWith(expect.objectContaining({
+        Cmd: ['npm', 'start'],
+        Env: ['PORT=3000'],
+        User: 'node',
+        WorkingDir: '/workspaces/web',
+      }))
+      expect(onLog).toHaveBeenCalledWith('listening\n', 'stdout')
+      expect(onLog).toHaveBeenCalledWith('deprecated\n', 'stderr')
+    })
+
+    it('fails run() on a non-zero exit code', async () => {
+      const output = new PassThrough()
+      output.end()
+      container.exec.mockResolvedValue({
+        start: vi.fn().mockResolvedValue(output),
+        inspect: vi.fn().mockResolvedValue({ Running: false, ExitCode: 1 }),
+      })
+
+      await expect(
+        backend.run('web', { cmd: ['npm', 'install'], env: {}, workingDir: '/workspaces/web' }, vi.fn())
+      ).rejects.toThrow('npm install failed with code 1')
+    })
+  })
+})
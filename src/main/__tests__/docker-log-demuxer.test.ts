@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { DockerLogDemuxer } from '../services/docker-log-demuxer'
+import type { LogStream } from '../../shared/types'
+
+function frame(streamType: number, payload: string | Buffer): Buffer {
+  const body = typeof payload === 'string' ? Buffer.from(payload) : payload
+  const header = Buffer.alloc(8)
+  header[0] = streamType
+  header.writeUInt32BE(body.length, 4)
+  return Buffer.concat([header, body])
+}
+
+describe('DockerLogDemuxer', () => {
+  let lines: Array<[string, LogStream]>
+  let demuxer: DockerLogDemuxer
+
+  beforeEach(() => {
+    lines = []
+    demuxer = new DockerLogDemuxer((line, stream) => lines.push([line, stream]))
+  })
+
+  it('tags lines from stdout and stderr frames', () => {
+    demuxer.push(Buffer.concat([frame(1, 'ready on :3000\n'), frame(2, 'warning: deprecated\n')]))
+
+    expect(lines).toEqual([
+      ['ready on :3000', 'stdout'],
+      ['warning: deprecated', 'stderr'],
+    ])
+  })
+
+  it('buffers frames split across chunks, including split headers', () => {
+    const data = Buffer.concat([frame(1, 'first\n'), frame(2, 'second\n')])
+
+    // Feed one byte at a time
+    for (let i = 0; i < data.length; i++) {
+      demuxer.push(data.subarray(i, i + 1))
+    }
+
+    expect(lines).toEqual([
+      ['first', 'stdout'],
+      ['second', 'stderr'],
+    ])
+  })
+
+  it('joins lines split across frames and splits frames with several lines', () => {
+    demuxer.push(frame(1, 'GET /health'))
+    demuxer.push(frame(2, 'oops\n'))
+    demuxer.push(frame(1, ' 200\nGET / 200\n'))
+
+    expect(lines).toEqual([
+      ['oops', 'stderr'],
+      ['GET /health 200', 'stdout'],
+      ['GET / 200', 'stdout'],
+    ])
+  })
+
+  it('decodes multi-byte characters split across frames', () => {
+    const text = Buffer.from('café ✓\n')
+    demuxer.push(frame(1, text.subarray(0, 4)))
+    demuxer.push(frame(1, text.subarray(4)))
+
+    expect(lines).toEqual([['café ✓', 'stdout']])
+  })
+
+  it('strips carriage returns and emits partial lines on flush', () => {
+    demuxer.push(frame(1, 'windows line\r\nno newline'))
+    expect(lines).toEqual([['windows line', 'stdout']])
+
+    demuxer.flush()
+    expect(lines).toEqual([
+      ['windows line', 'stdout'],
+      ['no newline', 'stdout'],
+    ])
+  })
+
+  it('treats raw output from TTY containers as stdout', () => {
+    demuxer = new DockerLogDemuxer((line, stream) => lines.push([line, stream]), true)
+
+    demuxer.push(Buffer.from('\u0001not a header\nsecond'))
+    demuxer.push(Buffer.from(' line\n'))
+
+    expect(lines).toEqual([
+      ['\u0001not a header', 'stdout'],
+      ['second line', 'stdout'],
+    ])
+  })
+})
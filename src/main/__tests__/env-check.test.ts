@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { MissingEnvError, findMissingEnv } from '../services/env-check'
+
+const files: Record<string, string> = {
+  '/project/api/.env.example': 'DATABASE_URL=\nAPI_KEY=changeme\nLOG_LEVEL=info\n',
+  '/project/api/.env.sample': 'LOG_LEVEL=debug\nSENTRY_DSN=\n',
+}
+
+async function readFile(filePath: string): Promise<string> {
+  if (filePath in files) return files[filePath]
+  throw Object.assign(new Error(`ENOENT: ${filePath}`), { code: 'ENOENT' })
+}
+
+const service = { id: 'api', name: 'API', path: 'api' }
+
+describe('findMissingEnv', () => {
+  it('returns null when every documented var is set', async () => {
+    const env = { DATABASE_URL: 'postgres://localhost', API_KEY: '', LOG_LEVEL: 'info', SENTRY_DSN: 'x' }
+
+    expect(await findMissingEnv('/project', service, env, 'container', { readFile })).toBeNull()
+  })
+
+  it('reports vars from example files as warnings, each key once', async () => {
+    const result = await findMissingEnv('/project', service, { DATABASE_URL: 'postgres://localhost' }, 'container', {
+      readFile,
+    })
+
+    expect(result).toEqual({
+      serviceId: 'api',
+      serviceName: 'API',
+      missing: [
+        { key: 'API_KEY', source: '.env.example' },
+        { key: 'LOG_LEVEL', source: '.env.example' },
+        { key: 'SENTRY_DSN', source: '.env.sample' },
+      ],
+      blocking: false,
+    })
+  })
+
+  it('blocks on required vars that are unset or empty', async () => {
+    const result = await findMissingEnv(
+      '/project',
+      { ...service, path: 'worker', requiredEnv: ['STRIPE_KEY', 'QUEUE_URL', 'REGION'] },
+      { QUEUE_URL: '', REGION: 'eu' },
+      'container',
+      { readFile }
+    )
+
+    expect(result?.blocking).toBe(true)
+    expect(result?.missing).toEqual([
+      { key: 'STRIPE_KEY', source: 'requiredEnv' },
+      { key: 'QUEUE_URL', source: 'requiredEnv' },
+    ])
+    expect(new MissingEnvError(result!).message).toBe(
+      'API is missing required environment variables: STRIPE_KEY, QUEUE_URL'
+    )
+  })
+
+  it('counts the host env for native services only', async () => {
+    const worker = { ...service, path: 'worker', requiredEnv: ['AWS_PROFILE'] }
+    const hostEnv = { AWS_PROFILE: 'dev' }
+
+    expect(await findMissingEnv('/project', worker, {}, 'native', { hostEnv, readFile })).toBeNull()
+    expect(await findMissingEnv('/project', worker, {}, 'container', { hostEnv, readFile })).toMatchObject({
+      missing: [{ key: 'AWS_PROFILE', source: 'requiredEnv' }],
+    })
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import { loadServiceEnv, parseEnvFile, selectEnvFiles } from '../services/env-files'
+
+const files: Record<string, string> = {
+  '/project/api/.env': 'PORT=4000\nDATABASE_URL=postgres://localhost:5432/app\nLOG_LEVEL=info\n',
+  '/project/api/.env.local': 'LOG_LEVEL=debug\nAPI_KEY="secret"\n',
+  '/project/shared.env': 'SHARED=1\n',
+}
+
+async function readFile(filePath: string): Promise<string> {
+  if (filePath in files) return files[filePath]
+  throw Object.assign(new Error(`ENOENT: ${filePath}`), { code: 'ENOENT' })
+}
+
+describe('parseEnvFile', () => {
+  it('reads assignments with export, quotes and comments', () => {
+    const content = [
+      '# comment',
+      'export A=1',
+      'B="two words" # note',
+      "C='$literal'",
+      'D=plain # trailing',
+      'E="line\\nbreak"',
+      'not an assignment',
+    ].join('\n')
+
+    expect(parseEnvFile(content)).toEqual({ A: '1', B: 'two words', C: '$literal', D: 'plain', E: 'line\nbreak' })
+  })
+})
+
+describe('selectEnvFiles', () => {
+  it('picks the dev env files of the service folder in precedence order', () => {
+    const found = [
+      '/project/api/.env.local',
+      '/project/api/.env.example',
+      '/project/api/.env',
+      '/project/api/.env.production',
+      '/project/web/.env',
+    ]
+
+    expect(selectEnvFiles('/project/api', found)).toEqual(['.env', '.env.local'])
+    expect(selectEnvFiles('/project/worker', found)).toEqual([])
+  })
+})
+
+describe('loadServiceEnv', () => {
+  it('layers env files in order with service.env on top', async () => {
+    const result = await loadServiceEnv(
+      '/project',
+      { path: 'api', envFiles: ['.env', '.env.local', '../shared.env'], env: { DATABASE_URL: '${services.db.url}' } },
+      readFile
+    )
+
+    expect(result.env).toEqual({
+      PORT: '4000',
+      DATABASE_URL: '${services.db.url}',
+      LOG_LEVEL: 'debug',
+      API_KEY: 'secret',
+      SHARED: '1',
+    })
+    expect(result.sources).toEqual({
+      PORT: { type: 'file', file: '.env' },
+      DATABASE_URL: { type: 'config' },
+      LOG_LEVEL: { type: 'file', file: '.env.local' },
+      API_KEY: { type: 'file', file: '.env.local' },
+      SHARED: { type: 'file', file: '../shared.env' },
+    })
+    expect(result.warnings).toEqual([])
+  })
+
+  it('skips missing files and warns about files outside the project', async () => {
+    const result = await loadServiceEnv(
+      '/project',
+      { path: 'api', envFiles: ['.env.development', '../../etc/passwd'], env: { A: '1' } },
+      readFile
+    )
+
+    expect(result.env).toEqual({ A: '1' })
+    expect(result.warnings).toEqual(["Env file '../../etc/passwd' is outside the project and was not loaded"])
+  })
+
+  it('uses service.env alone without env files', async () => {
+    const result = await loadServiceEnv('/project', { path: '.', env: { A: '1' } }, readFile)
+
+    expect(result).toEqual({ env: { A: '1' }, sources: { A: { type: 'config' } }, warnings: [] })
+  })
+})
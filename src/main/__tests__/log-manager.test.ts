@@ -83,6 +83,21 @@ describe('LogManager', () => {
     })
   })
 
+  describe('getEntries', () => {
+    it('keeps the stream each entry was written to', () => {
+      logManager.appendLog('proj', 'svc', 'listening', 'stdout')
+      logManager.appendLog('proj', 'svc', 'warning', 'stderr')
+      logManager.appendLog('proj', 'svc', 'Restarting in 1000ms')
+
+      expect(logManager.getEntries('proj', 'svc')).toEqual([
+        { data: 'listening', stream: 'stdout' },
+        { data: 'warning', stream: 'stderr' },
+        { data: 'Restarting in 1000ms' },
+      ])
+      expect(logManager.getBuffer('proj', 'svc')).toEqual(['listening', 'warning', 'Restarting in 1000ms'])
+    })
+  })
+
   describe('clearBuffer', () => {
     it('clears the buffer for a specific service', () => {
       logManager.appendLog('proj', 'svc1', 'log 1')
@@ -99,6 +114,36 @@ describe('LogManager', () => {
     })
   })
 
+  describe('mask', () => {
+    it('masks the secrets set for the service only', () => {
+      logManager.setSecrets('proj', 'svc', ['sk_live_123'])
+
+      expect(logManager.mask('proj', 'svc', 'key=sk_live_123\n')).toBe('key=********\n')
+      expect(logManager.mask('proj', 'other', 'key=sk_live_123\n')).toBe('key=sk_live_123\n')
+    })
+
+    it('masks secrets split across chunks of the same stream', () => {
+      logManager.setSecrets('proj', 'svc', ['sk_live_123'])
+
+      expect(logManager.mask('proj', 'svc', 'key=sk_li')).toBe('key=')
+      expect(logManager.mask('proj', 'svc', 'error\n', 'stderr')).toBe('error\n')
+      expect(logManager.mask('proj', 'svc', 've_123 ok\n')).toBe('******** ok\n')
+      expect(logManager.mask('proj', 'svc', 'sk_other\n')).toBe('sk_other\n')
+    })
+
+    it('stops masking when the secrets are cleared or the project is removed', () => {
+      logManager.setSecrets('proj', 'svc', ['sk_live_123'])
+      logManager.setSecrets('proj', 'svc', [])
+      expect(logManager.mask('proj', 'svc', 'sk_live_123')).toBe('sk_live_123')
+      expect(logManager.hasSecrets('proj', 'svc')).toBe(true)
+
+      logManager.setSecrets('proj', 'svc', ['sk_live_123'])
+      logManager.cleanupProject('proj')
+      expect(logManager.mask('proj', 'svc', 'sk_live_123')).toBe('sk_live_123')
+      expect(logManager.hasSecrets('proj', 'svc')).toBe(false)
+    })
+  })
+
   describe('registerCleanup', () => {
     it('registers a cleanup function', () => {
       const cleanup = vi.fn()
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { McpHandler, JsonRpcRequest } from '../services/mcp-handler'
+import { PortConflictError } from '../services/port-conflict'
+import { MissingEnvError } from '../services/env-check'
 
 describe('McpHandler', () => {
   let handler: McpHandler
@@ -96,6 +98,30 @@ describe('McpHandler', () => {
       })
     })
 
+    it('calls get_project and includes the active profile', async () => {
+      handler = new McpHandler({
+        listProjects: async () => [],
+        getProject: async () => ({ id: 'p1', name: 'Project 1', path: '/path/1', status: 'ready', activeProfile: 'staging' }),
+        listServices: async () => [],
+        getServiceStatus: async () => null,
+        getLogs: async () => [],
+        startService: async () => ({ restarted: false }),
+        stopService: async () => {},
+        restartService: async () => {},
+      })
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 4,
+        method: 'tools/call',
+        params: { name: 'get_project', arguments: { projectId: 'p1' } },
+      })
+
+      expect(response.result).toMatchObject({
+        content: [{ type: 'text', text: expect.stringContaining('Profile: staging') }],
+      })
+    })
+
     it('calls start_service and returns success message', async () => {
       let startedProject = ''
       let startedService = ''
@@ -130,6 +156,89 @@ describe('McpHandler', () => {
       })
     })
 
+    it('returns a structured PORT_CONFLICT error and accepts onPortConflict', async () => {
+      const conflict = {
+        serviceId: 's1',
+        serviceName: 'API',
+        port: 3000,
+        holders: [{ pid: 777, pgid: 777, name: 'postgres', commandLine: 'postgres -p 3000' }],
+        canUseNextPort: true,
+      }
+      const resolutions: Array<string | undefined> = []
+      handler = new McpHandler({
+        listProjects: async () => [],
+        getProject: async () => null,
+        listServices: async () => [],
+        getServiceStatus: async () => null,
+        getLogs: async () => [],
+        startService: async (_projectId, _serviceId, _mode, resolution) => {
+          resolutions.push(resolution)
+          if (!resolution) throw new PortConflictError(conflict)
+          return { restarted: false }
+        },
+        stopService: async () => {},
+        restartService: async () => {},
+      })
+      const call = (args: Record<string, string>): JsonRpcRequest => ({
+        jsonrpc: '2.0',
+        id: 6,
+        method: 'tools/call',
+        params: { name: 'start_service', arguments: { projectId: 'p1', serviceId: 's1', ...args } },
+      })
+
+      const conflicted = await handler.handle(call({}))
+      expect(conflicted.result).toMatchObject({
+        isError: true,
+        content: [{ type: 'text', text: expect.stringContaining('Code: PORT_CONFLICT') }],
+        structuredContent: { error: { code: 'PORT_CONFLICT', details: conflict } },
+      })
+
+      const resolved = await handler.handle(call({ onPortConflict: 'kill' }))
+      expect(resolved.result).toMatchObject({ content: [{ type: 'text', text: expect.stringContaining('Started') }] })
+      expect(resolutions).toEqual([undefined, 'kill'])
+
+      const invalid = await handler.handle(call({ onPortConflict: 'force' }))
+      expect(invalid.result).toMatchObject({
+        isError: true,
+        structuredContent: { error: { code: 'INVALID_PARAMETER' } },
+      })
+      expect(resolutions).toEqual([undefined, 'kill'])
+    })
+
+    it('returns a structured ENV_MISSING error', async () => {
+      const missingEnv = {
+        serviceId: 's1',
+        serviceName: 'API',
+        missing: [{ key: 'STRIPE_KEY', source: 'requiredEnv' }],
+        blocking: true,
+      }
+      handler = new McpHandler({
+        listProjects: async () => [],
+        getProject: async () => null,
+        listServices: async () => [],
+        getServiceStatus: async () => null,
+        getLogs: async () => [],
+        startService: async () => {
+          throw new MissingEnvError(missingEnv)
+        },
+        stopService: async () => {},
+        restartService: async () => {},
+      })
+
+      const response = await handler.handle({
+        jsonrpc: '2.0',
+        id: 7,
+        method: 'tools/call',
+        params: { name: 'start_service', arguments: { projectId: 'p1', serviceId: 's1' } },
+      })
+
+      expect(response.result).toMatchObject({
+        isError: true,
+        content: [{ type: 'text', text: expect.stringContaining('Code: ENV_MISSING') }],
+        structuredContent: { error: { code: 'ENV_MISSING', details: missingEnv } },
+      })
+    })
+
     it('returns error for unknown tool', async () => {
       const request: JsonRpcRequest = {
         jsonrpc: '2.0',
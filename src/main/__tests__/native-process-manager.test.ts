@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
-import { NativeProcessManager } from '../services/native-process-manager'
+import { NativeProcessManager, computeRestartDelay } from '../services/native-process-manager'
+import type { PersistedProcessGroup, ProcessGroupPersistence } from '../services/process-group-store'
+import { createLogKey } from '../services/log-key'
 import { EventEmitter } from 'events'
 
 // Mock child_process
@@ -7,6 +9,17 @@ vi.mock('child_process', () => ({
   spawn: vi.fn(),
 }))
 
+// In-memory stand-in for the on-disk process group store
+function createMemoryPersistence(initial: PersistedProcessGroup[] = []) {
+  const groups = new Map(initial.map((g) => [createLogKey(g.projectId, g.serviceId), g]))
+  const persistence: ProcessGroupPersistence = {
+    load: () => Array.from(groups.values()),
+    save: (group) => groups.set(createLogKey(group.projectId, group.serviceId), group),
+    remove: (projectId, serviceId) => groups.delete(createLogKey(projectId, serviceId)),
+  }
+  return { persistence, groups }
+}
+
 // Helper to create a mock ChildProcess
 function createMockProcess(pid = 12345) {
   const emitter = new EventEmitter()
@@ -115,7 +128,7 @@ describe('NativeProcessManager', () => {
 
       mockProc.stdout!.emit('data', Buffer.from('Hello from stdout'))
 
-      expect(onLog).toHaveBeenCalledWith('Hello from stdout')
+      expect(onLog).toHaveBeenCalledWith('Hello from stdout', 'stdout')
     })
 
     it('logs stderr data', () => {
@@ -127,7 +140,7 @@ describe('NativeProcessManager', () => {
 
       mockProc.stderr!.emit('data', Buffer.from('Error message'))
 
-      expect(onLog).toHaveBeenCalledWith('Error message')
+      expect(onLog).toHaveBeenCalledWith('Error message', 'stderr')
     })
 
     it('sets status to "error" on error event', () => {
@@ -333,6 +346,327 @@ describe('NativeProcessManager', () => {
     })
   })
 
+  describe('restart policies', () => {
+    const groupDead = () => {
+      ;(process.kill as ReturnType<typeof vi.fn>).mockImplementation(() => {
+        throw new Error('ESRCH')
+      })
+    }
+
+    it('does not restart without a policy', async () => {
+      mockSpawn.mockReturnValue(createMockProcess())
+      groupDead()
+
+      manager.startService('test-service', 'npm run dev', '/test/path', {}, vi.fn(), vi.fn())
+      mockSpawn.mock.results[0].value.emit('close', 1, null)
+      await vi.runAllTimersAsync()
+
+      expect(mockSpawn).toHaveBeenCalledTimes(1)
+      expect(manager.getRestartInfo('test-service')).toEqual({ restartCount: 0, lastExitCode: 1, gaveUp: false })
+    })
+
+    it('restarts a crashed process after the backoff delay with on-failure', async () => {
+      const first = createMockProcess(111)
+      const second = createMockProcess(222)
+      mockSpawn.mockReturnValueOnce(first).mockReturnValueOnce(second)
+      groupDead()
+
+      const onLog = vi.fn()
+      const onStatusChange = vi.fn()
+      manager.startService('test-service', 'npm run dev', '/test/path', {}, onLog, onStatusChange, {
+        policy: 'on-failure',
+        backoffMs: 500,
+      })
+
+      first.emit('close', 1, null)
+
+      expect(onStatusChange).toHaveBeenLastCalledWith('error')
+      expect(onLog).toHaveBeenCalledWith('\nRestarting in 500ms (attempt 1/5)\n')
+      expect(manager.isRestartPending('test-service')).toBe(true)
+
+      await vi.advanceTimersByTimeAsync(499)
+      expect(mockSpawn).toHaveBeenCalledTimes(1)
+
+      await vi.advanceTimersByTimeAsync(1)
+      expect(mockSpawn).toHaveBeenCalledTimes(2)
+      expect(onStatusChange).toHaveBeenLastCalledWith('starting')
+      expect(manager.isRestartPending('test-service')).toBe(false)
+      expect(manager.getProcessGroupId('test-service')).toBe(222)
+      expect(manager.getRestartInfo('test-service')).toEqual({ restartCount: 1, lastExitCode: 1, gaveUp: false })
+    })
+
+    it('does not restart a clean exit with on-failure but does with always', async () => {
+      mockSpawn.mockImplementation(() => createMockProcess())
+      groupDead()
+
+      manager.startService('svc-a', 'npm run dev', '/test/path', {}, vi.fn(), vi.fn(), { policy: 'on-failure' })
+      manager.startService('svc-b', 'npm run dev', '/test/path', {}, vi.fn(), vi.fn(), { policy: 'always' })
+      mockSpawn.mock.results[0].value.emit('close', 0, null)
+      mockSpawn.mock.results[1].value.emit('close', 0, null)
+
+      expect(manager.isRestartPending('svc-a')).toBe(false)
+      expect(manager.isRestartPending('svc-b')).toBe(true)
+    })
+
+    it('doubles the delay on each attempt and gives up after maxRetries', async () => {
+      mockSpawn.mockImplementation(() => createMockProcess())
+      groupDead()
+
+      const onLog = vi.fn()
+      manager.startService('test-service', 'npm run dev', '/test/path', {}, onLog, vi.fn(), {
+        policy: 'on-failure',
+        maxRetries: 2,
+        backoffMs: 100,
+      })
+
+      mockSpawn.mock.results[0].value.emit('close', 1, null)
+      await vi.advanceTimersByTimeAsync(100)
+      mockSpawn.mock.results[1].value.emit('close', 1, null)
+      expect(onLog).toHaveBeenCalledWith('\nRestarting in 200ms (attempt 2/2)\n')
+      await vi.advanceTimersByTimeAsync(200)
+      mockSpawn.mock.results[2].value.emit('close', 3, null)
+      await vi.runAllTimersAsync()
+
+      expect(mockSpawn).toHaveBeenCalledTimes(3)
+      expect(onLog).toHaveBeenCalledWith('\nGiving up after 2 restart attempts (last exit code: 3)\n')
+      expect(manager.getRestartInfo('test-service')).toEqual({ restartCount: 2, lastExitCode: 3, gaveUp: true })
+    })
+
+    it('resets the retry streak after the process ran long enough', async () => {
+      mockSpawn.mockImplementation(() => createMockProcess())
+      groupDead()
+
+      const onLog = vi.fn()
+      manager.startService('test-service', 'npm run dev', '/test/path', {}, onLog, vi.fn(), {
+        policy: 'always',
+        maxRetries: 1,
+        backoffMs: 100,
+      })
+
+      mockSpawn.mock.results[0].value.emit('close', 1, null)
+      await vi.advanceTimersByTimeAsync(100)
+      await vi.advanceTimersByTimeAsync(10_000)
+      mockSpawn.mock.results[1].value.emit('close', 1, null)
+
+      expect(onLog).not.toHaveBeenCalledWith(expect.stringContaining('Giving up'))
+      expect(onLog).toHaveBeenLastCalledWith('\nRestarting in 100ms (attempt 1/1)\n')
+      expect(manager.getRestartInfo('test-service')?.gaveUp).toBe(false)
+    })
+
+    it('cancels a pending restart on stopService', async () => {
+      mockSpawn.mockReturnValue(createMockProcess())
+      groupDead()
+
+      manager.startService('test-service', 'npm run dev', '/test/path', {}, vi.fn(), vi.fn(), { policy: 'always' })
+      mockSpawn.mock.results[0].value.emit('close', 1, null)
+
+      expect(await manager.stopService('test-service')).toBe(true)
+      await vi.runAllTimersAsync()
+
+      expect(mockSpawn).toHaveBeenCalledTimes(1)
+      expect(manager.isRestartPending('test-service')).toBe(false)
+    })
+
+    it('does not restart a process that was stopped on purpose', async () => {
+      const mockProc = createMockProcess(12345)
+      mockSpawn.mockReturnValue(mockProc)
+
+      let groupAlive = true
+      ;(process.kill as ReturnType<typeof vi.fn>).mockImplementation((_pid: number, signal?: string | number) => {
+        if (signal === 0) {
+          if (!groupAlive) throw new Error('ESRCH')
+          return true
+        }
+        if (signal === 'SIGTERM') {
+          groupAlive = false
+          mockProc.emit('close', null, 'SIGTERM')
+        }
+        return true
+      })
+
+      manager.startService('test-service', 'npm run dev', '/test/path', {}, vi.fn(), vi.fn(), { policy: 'always' })
+      const stopPromise = manager.stopService('test-service')
+      await vi.runAllTimersAsync()
+      await stopPromise
+
+      expect(manager.isRestartPending('test-service')).toBe(false)
+      expect(mockSpawn).toHaveBeenCalledTimes(1)
+    })
+
+    it('caps the restart delay at maxBackoffMs', () => {
+      const policy = { policy: 'on-failure' as const, backoffMs: 1000, maxBackoffMs: 5000 }
+      expect(computeRestartDelay(policy, 1)).toBe(1000)
+      expect(computeRestartDelay(policy, 3)).toBe(4000)
+      expect(computeRestartDelay(policy, 4)).toBe(5000)
+    })
+  })
+
+  describe('persistence and adoption', () => {
+    const key = createLogKey('project-1', 'test-service')
+    const record = (overrides: Partial<PersistedProcessGroup> = {}): PersistedProcessGroup => ({
+      projectId: 'project-1',
+      serviceId: 'test-service',
+      pgid: 12345,
+      command: 'npm run dev',
+      cwd: '/test/path',
+      startedAt: 1_000_000,
+      ...overrides,
+    })
+
+    const groupsAlive = (...pgids: number[]) => {
+      ;(process.kill as ReturnType<typeof vi.fn>).mockImplementation((pid: number, signal?: string | number) => {
+        if (signal === 0 && !pgids.includes(-pid)) throw new Error('ESRCH')
+        return true
+      })
+    }
+
+    it('records spawned groups and forgets them when they exit', () => {
+      vi.setSystemTime(5_000)
+      const { persistence, groups } = createMemoryPersistence()
+      manager = new NativeProcessManager(persistence)
+      const mockProc = createMockProcess(12345)
+      mockSpawn.mockReturnValue(mockProc)
+
+      manager.startService('test-service', 'npm run dev', '/test/path', {}, vi.fn(), vi.fn(), undefined, 'project-1')
+      expect(groups.get(key)).toEqual(record({ startedAt: 5_000 }))
+
+      groupsAlive()
+      mockProc.emit('close', 0, null)
+      expect(groups.has(key)).toBe(false)
+    })
+
+    it('does not record groups started without a project', () => {
+      const { persistence, groups } = createMemoryPersistence()
+      manager = new NativeProcessManager(persistence)
+      mockSpawn.mockReturnValue(createMockProcess(12345))
+
+      manager.startService('test-service', 'npm run dev', '/test/path', {}, vi.fn(), vi.fn())
+
+      expect(groups.size).toBe(0)
+    })
+
+    it('forgets stopped groups', async () => {
+      const { persistence, groups } = createMemoryPersistence()
+      manager = new NativeProcessManager(persistence)
+      mockSpawn.mockReturnValue(createMockProcess(12345))
+      groupsAlive()
+
+      manager.startService('test-service', 'npm run dev', '/test/path', {}, vi.fn(), vi.fn(), undefined, 'project-1')
+      await manager.stopService('test-service')
+
+      expect(groups.has(key)).toBe(false)
+    })
+
+    it('adopts live groups whose start time matches the record', async () => {
+      const { persistence, groups } = createMemoryPersistence([record()])
+      manager = new NativeProcessManager(persistence)
+      groupsAlive(12345)
+
+      const adopted = await manager.adoptOrphanedGroups(async () => 1_000_000 + 900)
+
+      expect(adopted).toEqual([record()])
+      expect(manager.isRunning('test-service')).toBe(true)
+      expect(manager.getProcessGroupId('test-service')).toBe(12345)
+      expect(groups.has(key)).toBe(true)
+    })
+
+    it('returns live groups of services with the same id without tracking them twice', async () => {
+      const other = record({ projectId: 'project-2', pgid: 222 })
+      const { persistence } = createMemoryPersistence([record(), other])
+      manager = new NativeProcessManager(persistence)
+      groupsAlive(12345, 222)
+
+      const adopted = await manager.adoptOrphanedGroups(async (pgid) => (pgid === 222 ? other.startedAt : 1_000_000))
+
+      expect(adopted).toEqual([record(), other])
+      expect(manager.getProcessGroupId('test-service')).toBe(12345)
+      expect(manager.isTrackedProcessGroup(222)).toBe(false)
+    })
+
+    it('discards records of groups that exited or whose PGID was reused', async () => {
+      const { persistence, groups } = createMemoryPersistence([
+        record({ serviceId: 'exited', pgid: 111 }),
+        record({ serviceId: 'reused', pgid: 222 }),
+      ])
+      manager = new NativeProcessManager(persistence)
+      groupsAlive(222)
+      const getStartTime = vi.fn(async () => 1_000_000 + 60_000)
+
+      const adopted = await manager.adoptOrphanedGroups(getStartTime)
+
+      expect(adopted).toEqual([])
+      expect(getStartTime).toHaveBeenCalledTimes(1)
+      expect(getStartTime).toHaveBeenCalledWith(222)
+      expect(groups.size).toBe(0)
+      expect(manager.isRunning('reused')).toBe(false)
+    })
+
+    it('stops adopted groups by signalling the process group', async () => {
+      const { persistence, groups } = createMemoryPersistence([record()])
+      manager = new NativeProcessManager(persistence)
+      let alive = true
+      ;(process.kill as ReturnType<typeof vi.fn>).mockImplementation((_pid: number, signal?: string | number) => {
+        if (signal === 'SIGTERM') alive = false
+        if (signal === 0 && !alive) throw new Error('ESRCH')
+        return true
+      })
+      await manager.adoptOrphanedGroups(async () => 1_000_000)
+
+      const resultPromise = manager.stopService('test-service')
+      await vi.runAllTimersAsync()
+
+      expect(await resultPromise).toBe(true)
+      expect(process.kill).toHaveBeenCalledWith(-12345, 'SIGTERM')
+      expect(groups.has(key)).toBe(false)
+    })
+
+    it('stops unclaimed orphaned groups and forgets them', async () => {
+      const { persistence, groups } = createMemoryPersistence([record()])
+      manager = new NativeProcessManager(persistence)
+      let alive = true
+      ;(process.kill as ReturnType<typeof vi.fn>).mockImplementation((_pid: number, signal?: string | number) => {
+        if (signal === 'SIGTERM') alive = false
+        if (signal === 0 && !alive) throw new Error('ESRCH')
+        return true
+      })
+      await manager.adoptOrphanedGroups(async () => 1_000_000)
+
+      const stopPromise = manager.stopOrphanedGroup(record())
+      await vi.runAllTimersAsync()
+      await stopPromise
+
+      expect(process.kill).toHaveBeenCalledWith(-12345, 'SIGTERM')
+      expect(manager.isTrackedProcessGroup(12345)).toBe(false)
+      expect(groups.has(key)).toBe(false)
+    })
+
+    it('releases orphaned groups without signalling them', async () => {
+      const { persistence, groups } = createMemoryPersistence([record()])
+      manager = new NativeProcessManager(persistence)
+      groupsAlive(12345)
+      await manager.adoptOrphanedGroups(async () => 1_000_000)
+
+      manager.releaseOrphanedGroup(record())
+
+      expect(process.kill).not.toHaveBeenCalledWith(-12345, 'SIGTERM')
+      expect(manager.isTrackedProcessGroup(12345)).toBe(false)
+      expect(groups.has(key)).toBe(false)
+    })
+
+    it('forgets adopted groups once they exit on their own', async () => {
+      const { persistence, groups } = createMemoryPersistence([record()])
+      manager = new NativeProcessManager(persistence)
+      groupsAlive(12345)
+      await manager.adoptOrphanedGroups(async () => 1_000_000)
+
+      groupsAlive()
+
+      expect(manager.isRunning('test-service')).toBe(false)
+      expect(manager.getProcessGroupId('test-service')).toBeUndefined()
+      expect(groups.has(key)).toBe(false)
+    })
+  })
+
   describe('killAllProcessGroups', () => {
     it('stops all tracked services', async () => {
       const mockProc1 = createMockProcess(11111)
@@ -356,6 +690,36 @@ describe('NativeProcessManager', () => {
       expect(manager.getProcessGroupId('service-2')).toBeUndefined()
     })
 
+    it('cancels pending restarts before waiting for the groups to stop', async () => {
+      const crashed = createMockProcess(11111)
+      const running = createMockProcess(22222)
+      mockSpawn.mockReturnValueOnce(crashed).mockReturnValueOnce(running)
+
+      // The crashed group is gone; the running one ignores SIGTERM until SIGKILL
+      let runningAlive = true
+      ;(process.kill as ReturnType<typeof vi.fn>).mockImplementation((pid: number, signal?: string | number) => {
+        if (signal === 0) {
+          if (pid === -22222 && runningAlive) return true
+          throw new Error('ESRCH')
+        }
+        if (pid === -22222 && signal === 'SIGKILL') runningAlive = false
+        return true
+      })
+
+      manager.startService('crashed', 'npm run dev', '/test/path', {}, vi.fn(), vi.fn(), { policy: 'always', backoffMs: 1000 })
+      manager.startService('running', 'npm run dev', '/test/path', {}, vi.fn(), vi.fn())
+      crashed.emit('close', 1, null)
+      expect(manager.isRestartPending('crashed')).toBe(true)
+
+      const shutdown = manager.killAllProcessGroups()
+      await vi.runAllTimersAsync()
+      await shutdown
+
+      expect(process.kill).toHaveBeenCalledWith(-22222, 'SIGKILL')
+      expect(mockSpawn).toHaveBeenCalledTimes(2)
+      expect(manager.isRestartPending('crashed')).toBe(false)
+    })
+
     it('handles empty process list gracefully', async () => {
       await manager.killAllProcessGroups()
       // Should not throw
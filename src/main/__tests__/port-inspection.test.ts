@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, mkdirSync, rmSync, symlinkSync, writeFileSync } from 'fs'
+import * as net from 'net'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  LsofPortInspector,
+  ProcfsPortInspector,
+  createPortInspector,
+  parseListeningInodes,
+  parseLsofOutput,
+} from '../services/port-inspection'
+
+const TCP_HEADER =
+  '  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode'
+
+function tcpRow(localAddress: string, state: string, inode: string): string {
+  return `   0: ${localAddress} 00000000:0000 ${state} 00000000:00000000 00:00000000 00000000  1000        0 ${inode} 1 0000000000000000 100 0 0 10 0`
+}
+
+describe('parseListeningInodes', () => {
+  it('returns inodes of listening sockets on the port', () => {
+    const table = [
+      TCP_HEADER,
+      tcpRow('0100007F:0BB8', '0A', '1111'), // 127.0.0.1:3000 LISTEN
+      tcpRow('0100007F:0BB8', '01', '2222'), // 127.0.0.1:3000 ESTABLISHED
+      tcpRow('00000000:0BB9', '0A', '3333'), // 0.0.0.0:3001 LISTEN
+    ].join('\n')
+
+    expect(parseListeningInodes(table, 3000)).toEqual(['1111'])
+  })
+
+  it('parses IPv6 addresses', () => {
+    const table = [TCP_HEADER, tcpRow('00000000000000000000000000000000:1F90', '0A', '4444')].join('\n')
+
+    expect(parseListeningInodes(table, 8080)).toEqual(['4444'])
+  })
+
+  it('ignores sockets without an inode', () => {
+    const table = [TCP_HEADER, tcpRow('0100007F:0BB8', '0A', '0')].join('\n')
+
+    expect(parseListeningInodes(table, 3000)).toEqual([])
+  })
+})
+
+describe('parseLsofOutput', () => {
+  it('pairs pid and command fields', () => {
+    expect(parseLsofOutput('p123\ncnode\np456\ncruby\n')).toEqual([
+      { pid: 123, name: 'node' },
+      { pid: 456, name: 'ruby' },
+    ])
+  })
+
+  it('returns an empty list for empty output', () => {
+    expect(parseLsofOutput('')).toEqual([])
+  })
+})
+
+describe('ProcfsPortInspector', () => {
+  let procRoot: string
+
+  const writeProcess = (pid: number, comm: string, cmdline: string[], sockets: string[], pgid?: number) => {
+    const dir = join(procRoot, String(pid))
+    mkdirSync(join(dir, 'fd'), { recursive: true })
+    writeFileSync(join(dir, 'comm'), `${comm}\n`)
+    writeFileSync(join(dir, 'cmdline'), cmdline.join('\0') + '\0')
+    if (pgid !== undefined) {
+      writeFileSync(join(dir, 'stat'), `${pid} (${comm}) S 1 ${pgid} ${pgid} 0 -1 0 0 0 0 0 10 5 0 0 20 0 1 0 100`)
+    }
+    symlinkSync('/dev/null', join(dir, 'fd', '0'))
+    sockets.forEach((inode, i) => symlinkSync(`socket:[${inode}]`, join(dir, 'fd', String(i + 3))))
+  }
+
+  beforeEach(() => {
+    procRoot = mkdtempSync(join(tmpdir(), 'procnet-'))
+    mkdirSync(join(procRoot, 'net'))
+    writeFileSync(join(procRoot, 'net', 'tcp'), [TCP_HEADER, tcpRow('0100007F:0BB8', '0A', '1111')].join('\n'))
+    writeFileSync(join(procRoot, 'net', 'tcp6'), [TCP_HEADER, tcpRow('00000000000000000000000000000000:0BB8', '0A', '2222')].join('\n'))
+  })
+
+  afterEach(() => {
+    rmSync(procRoot, { recursive: true, force: true })
+  })
+
+  it('finds the processes owning listening sockets from tcp and tcp6', async () => {
+    writeProcess(100, 'node', ['node', 'server.js', '--port', '3000'], ['1111'], 90)
+    writeProcess(200, 'vite', ['node', 'vite'], ['2222'])
+    writeProcess(300, 'bash', ['bash'], ['9999'])
+
+    const inspection = await new ProcfsPortInspector(procRoot).inspect(3000)
+
+    expect(inspection.inUse).toBe(true)
+    expect(inspection.holders).toEqual(
+      expect.arrayContaining([
+        { pid: 100, pgid: 90, name: 'node', commandLine: 'node server.js --port 3000' },
+        { pid: 200, pgid: null, name: 'vite', commandLine: 'node vite' },
+      ])
+    )
+    expect(inspection.holders).toHaveLength(2)
+  })
+
+  it('reports a port in use even when the owner is not visible', async () => {
+    const inspection = await new ProcfsPortInspector(procRoot).inspect(3000)
+
+    expect(inspection).toEqual({ inUse: true, holders: [] })
+  })
+
+  it('reports a free port', async () => {
+    const inspection = await new ProcfsPortInspector(procRoot).inspect(4000)
+
+    expect(inspection).toEqual({ inUse: false, holders: [] })
+  })
+
+  it.runIf(process.platform === 'linux')('finds a real listening server in /proc', async () => {
+    const server = net.createServer()
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as net.AddressInfo
+
+    try {
+      const inspection = await new ProcfsPortInspector().inspect(port)
+      expect(inspection.inUse).toBe(true)
+      expect(inspection.holders.map((h) => h.pid)).toContain(process.pid)
+    } finally {
+      await new Promise((resolve) => server.close(resolve))
+    }
+  })
+})
+
+describe('createPortInspector', () => {
+  it('uses procfs on Linux and lsof elsewhere', () => {
+    expect(createPortInspector('linux')).toBeInstanceOf(ProcfsPortInspector)
+    expect(createPortInspector('darwin')).toBeInstanceOf(LsofPortInspector)
+  })
+})
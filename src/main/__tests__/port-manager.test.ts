@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, afterEach } from 'vitest'
+import { parseElapsedTime } from '../services/port-manager'
 
 // Extract and test the isExpectedKillError function logic
 // (Testing the behavior through the exported PortManager class)
@@ -33,3 +34,24 @@ describe('PortManager error handling', () => {
     })
   })
 })
+
+describe('parseElapsedTime', () => {
+  it('parses mm:ss', () => {
+    expect(parseElapsedTime('05:07')).toBe((5 * 60 + 7) * 1000)
+  })
+
+  it('parses hh:mm:ss and dd-hh:mm:ss', () => {
+    expect(parseElapsedTime('02:00:01')).toBe((2 * 3600 + 1) * 1000)
+    expect(parseElapsedTime('3-01:00:00')).toBe((3 * 24 + 1) * 3600 * 1000)
+  })
+
+  it('ignores surrounding whitespace', () => {
+    expect(parseElapsedTime('   00:42 ')).toBe(42_000)
+  })
+
+  it('returns null for unrecognized input', () => {
+    expect(parseElapsedTime('')).toBeNull()
+    expect(parseElapsedTime('42')).toBeNull()
+    expect(parseElapsedTime('abc')).toBeNull()
+  })
+})
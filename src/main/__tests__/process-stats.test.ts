@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  ProcfsStatsProvider,
+  PsStatsProvider,
+  createProcessStatsProvider,
+  parseProcStat,
+  parseSystemCpuTime,
+  parseVmRss,
+} from '../services/process-stats'
+
+function statLine(pid: number, comm: string, pgrp: number, utime: number, stime: number): string {
+  // pid (comm) state ppid pgrp session tty_nr tpgid flags minflt cminflt majflt cmajflt utime stime ...
+  return `${pid} (${comm}) S 1 ${pgrp} ${pgrp} 0 -1 4194304 100 0 0 0 ${utime} ${stime} 0 0 20 0 1 0 12345\n`
+}
+
+function systemStat(totalTicks: number, cpuCount: number): string {
+  const cores = Array.from({ length: cpuCount }, (_, i) => `cpu${i} 0 0 0 0 0 0 0 0 0 0`)
+  return [`cpu  ${totalTicks} 0 0 0 0 0 0 0 0 0`, ...cores, 'intr 0', ''].join('\n')
+}
+
+describe('parseProcStat', () => {
+  it('reads pid, process group and CPU ticks', () => {
+    expect(parseProcStat(statLine(42, 'node', 40, 150, 50))).toEqual({ pid: 42, pgrp: 40, cpuTicks: 200 })
+  })
+
+  it('handles command names with spaces and parentheses', () => {
+    expect(parseProcStat(statLine(7, 'npm run (dev) x', 7, 1, 2))).toEqual({ pid: 7, pgrp: 7, cpuTicks: 3 })
+  })
+
+  it('returns null for malformed content', () => {
+    expect(parseProcStat('')).toBeNull()
+    expect(parseProcStat('12 (node) S')).toBeNull()
+  })
+})
+
+describe('parseVmRss', () => {
+  it('reads VmRSS in KB', () => {
+    expect(parseVmRss('Name:\tnode\nVmPeak:\t 900 kB\nVmRSS:\t  51200 kB\nThreads:\t11\n')).toBe(51200)
+  })
+
+  it('returns 0 when VmRSS is missing', () => {
+    expect(parseVmRss('Name:\tzombie\nState:\tZ (zombie)\n')).toBe(0)
+  })
+})
+
+describe('parseSystemCpuTime', () => {
+  it('sums the aggregate cpu line and counts cores', () => {
+    expect(parseSystemCpuTime('cpu  10 20 30 40\ncpu0 5 10 15 20\ncpu1 5 10 15 20\nintr 1\n')).toEqual({
+      totalTicks: 100,
+      cpuCount: 2,
+    })
+  })
+
+  it('returns null without an aggregate cpu line', () => {
+    expect(parseSystemCpuTime('intr 1\n')).toBeNull()
+  })
+})
+
+describe('ProcfsStatsProvider', () => {
+  let procRoot: string
+
+  const writeProcess = (pid: number, pgrp: number, cpuTicks: number, rssKB: number) => {
+    mkdirSync(join(procRoot, String(pid)), { recursive: true })
+    writeFileSync(join(procRoot, String(pid), 'stat'), statLine(pid, 'node', pgrp, cpuTicks, 0))
+    writeFileSync(join(procRoot, String(pid), 'status'), `Name:\tnode\nVmRSS:\t${rssKB} kB\n`)
+  }
+
+  beforeEach(() => {
+    procRoot = mkdtempSync(join(tmpdir(), 'procfs-'))
+    mkdirSync(join(procRoot, 'self'))
+    writeFileSync(join(procRoot, 'stat'), systemStat(1000, 4))
+  })
+
+  afterEach(() => {
+    rmSync(procRoot, { recursive: true, force: true })
+  })
+
+  it('sums CPU and memory over all members of a process group', async () => {
+    writeProcess(100, 100, 10, 2048)
+    writeProcess(101, 100, 20, 1024)
+    writeProcess(200, 200, 500, 99999)
+
+    const provider = new ProcfsStatsProvider(procRoot, 300)
+    const pending = provider.getProcessGroupStats(100)
+
+    // Between samples: the group used 100 of 1000 system ticks on a 4-core machine
+    await new Promise((resolve) => setTimeout(resolve, 150))
+    writeProcess(100, 100, 60, 2048)
+    writeProcess(101, 100, 70, 1024)
+    writeFileSync(join(procRoot, 'stat'), systemStat(2000, 4))
+
+    expect(await pending).toEqual({ cpuPercent: 40, memoryMB: 3 })
+  })
+
+  it('measures a single process', async () => {
+    writeProcess(300, 1, 0, 512)
+
+    const provider = new ProcfsStatsProvider(procRoot, 0)
+
+    expect(await provider.getProcessStats(300)).toEqual({ cpuPercent: 0, memoryMB: 0.5 })
+  })
+
+  it('returns null when no process matches', async () => {
+    const provider = new ProcfsStatsProvider(procRoot, 0)
+
+    expect(await provider.getProcessGroupStats(999)).toBeNull()
+    expect(await provider.getProcessStats(999)).toBeNull()
+  })
+
+  it.runIf(process.platform === 'linux')('reads stats of the current process from the real procfs', async () => {
+    const stats = await new ProcfsStatsProvider('/proc', 50).getProcessStats(process.pid)
+
+    expect(stats).not.toBeNull()
+    expect(stats!.memoryMB).toBeGreaterThan(0)
+    expect(stats!.cpuPercent).toBeGreaterThanOrEqual(0)
+  })
+})
+
+describe('createProcessStatsProvider', () => {
+  it('uses procfs on Linux and top/ps elsewhere', () => {
+    expect(createProcessStatsProvider('linux')).toBeInstanceOf(ProcfsStatsProvider)
+    expect(createProcessStatsProvider('darwin')).toBeInstanceOf(PsStatsProvider)
+  })
+})
@@ -0,0 +1,209 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { createServer, type Server } from 'http'
+import * as net from 'net'
+import { ReadinessCheck, ReadinessTracker, checkHttp, checkTcp } from '../services/readiness-probe'
+
+function listen(server: Server | net.Server): Promise<number> {
+  return new Promise((resolve) => {
+    server.listen(0, 'localhost', () => {
+      const addr = server.address()
+      resolve(typeof addr === 'object' && addr ? addr.port : 0)
+    })
+  })
+}
+
+function close(server: Server | net.Server): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()))
+}
+
+describe('readiness probes', () => {
+  const servers: (Server | net.Server)[] = []
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map(close))
+  })
+
+  describe('checkHttp', () => {
+    it('accepts 2xx responses by default', async () => {
+      const server = createServer((_req, res) => res.writeHead(204).end())
+      servers.push(server)
+      const port = await listen(server)
+
+      expect(await checkHttp(port, '/')).toBe(true)
+    })
+
+    it('rejects 5xx responses by default', async () => {
+      const server = createServer((_req, res) => res.writeHead(503).end())
+      servers.push(server)
+      const port = await listen(server)
+
+      expect(await checkHttp(port, '/')).toBe(false)
+    })
+
+    it('requires the exact expected status when given', async () => {
+      const server = createServer((req, res) => res.writeHead(req.url === '/health' ? 418 : 200).end())
+      servers.push(server)
+      const port = await listen(server)
+
+      expect(await checkHttp(port, '/health', 418)).toBe(true)
+      expect(await checkHttp(port, '/', 418)).toBe(false)
+    })
+  })
+
+  describe('checkTcp', () => {
+    it('detects a listening port', async () => {
+      const server = net.createServer()
+      servers.push(server)
+      const port = await listen(server)
+
+      expect(await checkTcp(port)).toBe(true)
+    })
+
+    it('fails for a closed port', async () => {
+      const server = net.createServer()
+      const port = await listen(server)
+      await close(server)
+
+      expect(await checkTcp(port)).toBe(false)
+    })
+  })
+
+  describe('ReadinessCheck', () => {
+    it('passes an HTTP probe once the server responds', async () => {
+      const server = createServer((_req, res) => res.writeHead(200).end())
+      servers.push(server)
+      const port = await listen(server)
+
+      const check = new ReadinessCheck({ type: 'http', path: '/', intervalMs: 10, timeoutMs: 1000 }, port)
+
+      expect(await check.wait()).toEqual({ ready: true })
+    })
+
+    it('times out when a TCP port never opens', async () => {
+      const server = net.createServer()
+      const port = await listen(server)
+      await close(server)
+
+      const check = new ReadinessCheck({ type: 'tcp', intervalMs: 10, timeoutMs: 50 }, port)
+      const result = await check.wait()
+
+      expect(result.ready).toBe(false)
+      expect(result).toMatchObject({ aborted: false, reason: expect.stringContaining('Timed out after 50ms') })
+    })
+
+    it('passes a log probe when a line matches, even across chunks', async () => {
+      const check = new ReadinessCheck({ type: 'log', pattern: 'Ready in \\d+ms', timeoutMs: 1000 }, undefined)
+      const waiting = check.wait()
+
+      check.feedLog('compiling...\nRead')
+      check.feedLog('y in 120ms\n')
+
+      expect(await waiting).toEqual({ ready: true })
+    })
+
+    it('matches output separated by carriage returns', async () => {
+      const check = new ReadinessCheck({ type: 'log', pattern: '^Ready$', timeoutMs: 1000 }, undefined)
+      const waiting = check.wait()
+
+      check.feedLog('[==   ] 40%\r[=====] 100%\rRe')
+      check.feedLog('ady\r')
+
+      expect(await waiting).toEqual({ ready: true })
+    })
+
+    it('keeps only the end of a partial line that grows without newlines', async () => {
+      const check = new ReadinessCheck({ type: 'log', pattern: '^START.*Ready', intervalMs: 10, timeoutMs: 50 }, undefined)
+      const waiting = check.wait()
+
+      check.feedLog('START')
+      for (let i = 0; i < 100; i++) check.feedLog('.'.repeat(100))
+      check.feedLog('Ready')
+
+      expect(await waiting).toMatchObject({ ready: false, aborted: false })
+    })
+
+    it('fails immediately for an invalid log pattern', async () => {
+      const check = new ReadinessCheck({ type: 'log', pattern: '(' }, undefined)
+      const result = await check.wait()
+
+      expect(result).toMatchObject({ ready: false, reason: expect.stringContaining('Invalid log pattern') })
+    })
+
+    it('fails immediately when an HTTP probe has no port', async () => {
+      const check = new ReadinessCheck({ type: 'http' }, undefined)
+      const result = await check.wait()
+
+      expect(result).toMatchObject({ ready: false, reason: 'HTTP probe requires a port' })
+    })
+
+    it('polls the container health check for health probes', async () => {
+      const checkHealth = vi.fn().mockResolvedValueOnce(false).mockResolvedValueOnce(true)
+      const check = new ReadinessCheck({ type: 'health', intervalMs: 10 }, 5432, checkHealth)
+
+      expect(await check.wait()).toEqual({ ready: true })
+      expect(checkHealth).toHaveBeenCalledTimes(2)
+      expect(check.description).toBe('container health check')
+    })
+
+    it('fails immediately when a health probe has no container to check', async () => {
+      const check = new ReadinessCheck({ type: 'health' }, 3000)
+
+      expect(await check.wait()).toMatchObject({ ready: false, reason: 'Health probe requires a container service' })
+    })
+
+    it('prefers the probe port over the service port', () => {
+      const check = new ReadinessCheck({ type: 'tcp', port: 5432 }, 3000)
+      expect(check.description).toBe('TCP connect on port 5432')
+    })
+
+    it('settles early on fail() and abort()', async () => {
+      const failing = new ReadinessCheck({ type: 'log', pattern: 'never', timeoutMs: 5000 }, undefined)
+      const failed = failing.wait()
+      failing.fail('Process exited before becoming ready')
+      expect(await failed).toEqual({ ready: false, reason: 'Process exited before becoming ready', aborted: false })
+
+      const aborting = new ReadinessCheck({ type: 'log', pattern: 'never', timeoutMs: 5000 }, undefined)
+      const aborted = aborting.wait()
+      aborting.abort()
+      expect(await aborted).toMatchObject({ ready: false, aborted: true })
+    })
+  })
+
+  describe('ReadinessTracker', () => {
+    it('reports starting while pending and error after failure', () => {
+      const tracker = new ReadinessTracker()
+      const check = new ReadinessCheck({ type: 'log', pattern: 'ready' }, undefined)
+
+      expect(tracker.getStatus('svc')).toBeNull()
+      tracker.begin('svc', check)
+      expect(tracker.getStatus('svc')).toBe('starting')
+      tracker.complete('svc', check, false)
+      expect(tracker.getStatus('svc')).toBe('error')
+      tracker.clear('svc')
+      expect(tracker.getStatus('svc')).toBeNull()
+    })
+
+    it('ignores completion of a replaced check', () => {
+      const tracker = new ReadinessTracker()
+      const first = new ReadinessCheck({ type: 'log', pattern: 'ready' }, undefined)
+      const second = new ReadinessCheck({ type: 'log', pattern: 'ready' }, undefined)
+
+      tracker.begin('svc', first)
+      tracker.begin('svc', second)
+      tracker.complete('svc', first, false)
+
+      expect(tracker.getStatus('svc')).toBe('starting')
+    })
+
+    it('aborts a running check when cleared', async () => {
+      const tracker = new ReadinessTracker()
+      const check = new ReadinessCheck({ type: 'log', pattern: 'ready', timeoutMs: 5000 }, undefined)
+      const waiting = check.wait()
+
+      tracker.begin('svc', check)
+      tracker.clear('svc')
+
+      expect(await waiting).toMatchObject({ ready: false, aborted: true })
+    })
+  })
+})
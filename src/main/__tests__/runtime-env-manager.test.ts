@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { RuntimeEnvManager } from '../services/runtime-env-manager'
-import type { ServiceRuntimeEnv } from '../../shared/types'
+import type { Service, ServiceRuntimeEnv } from '../../shared/types'
 
 describe('RuntimeEnvManager', () => {
   let manager: RuntimeEnvManager
@@ -10,6 +10,8 @@ describe('RuntimeEnvManager', () => {
   })
 
   const createTestEnv = (overrides: Partial<ServiceRuntimeEnv> = {}): ServiceRuntimeEnv => ({
+    command: 'npm run dev',
+    port: 3000,
     raw: { FOO: 'bar', DB_URL: 'postgres://localhost:${services.db.port}' },
     final: { FOO: 'bar', DB_URL: 'postgres://localhost:5432', PORT: '3000' },
     warnings: [],
@@ -117,4 +119,56 @@ describe('RuntimeEnvManager', () => {
       expect(manager.size).toBe(1)
     })
   })
+
+  describe('needsRestart', () => {
+    const service: Service = {
+      id: 'service1',
+      name: 'Service 1',
+      path: '.',
+      command: 'npm run dev',
+      port: 3000,
+      env: { FOO: 'bar', DB_URL: 'postgres://localhost:${services.db.port}' },
+      active: true,
+      mode: 'native',
+    }
+
+    it('is false while the config matches what the service was started with', () => {
+      manager.store('proj1', 'service1', createTestEnv())
+
+      expect(manager.needsRestart('proj1', service)).toBe(false)
+      expect(manager.needsRestart('proj1', { ...service, name: 'Renamed' })).toBe(false)
+    })
+
+    it('is true when the command, port or env changed', () => {
+      manager.store('proj1', 'service1', createTestEnv())
+
+      expect(manager.needsRestart('proj1', { ...service, command: 'npm start' })).toBe(true)
+      expect(manager.needsRestart('proj1', { ...service, port: 3001 })).toBe(true)
+      expect(manager.needsRestart('proj1', { ...service, env: { FOO: 'baz', DB_URL: service.env.DB_URL } })).toBe(true)
+      expect(manager.needsRestart('proj1', { ...service, env: { FOO: 'bar' } })).toBe(true)
+    })
+
+    it('compares only the values from service.env and the list of env files', () => {
+      manager.store('proj1', 'service1', createTestEnv({
+        envFiles: ['.env'],
+        raw: { ...service.env, LOG_LEVEL: 'info' },
+        sources: { FOO: { type: 'config' }, DB_URL: { type: 'config' }, LOG_LEVEL: { type: 'file', file: '.env' }, PORT: { type: 'injected' } },
+      }))
+
+      expect(manager.needsRestart('proj1', { ...service, envFiles: ['.env'] })).toBe(false)
+      expect(manager.needsRestart('proj1', { ...service, envFiles: ['.env', '.env.local'] })).toBe(true)
+      expect(manager.needsRestart('proj1', service)).toBe(true)
+    })
+
+    it('is true when a container service devcontainer changed after the start', () => {
+      manager.store('proj1', 'service1', createTestEnv({ mode: 'container', startedAt: 1000 }))
+
+      expect(manager.needsRestart('proj1', service, 500)).toBe(false)
+      expect(manager.needsRestart('proj1', service, 2000)).toBe(true)
+    })
+
+    it('is false for services that are not running', () => {
+      expect(manager.needsRestart('proj1', { ...service, command: 'npm start' })).toBe(false)
+    })
+  })
 })
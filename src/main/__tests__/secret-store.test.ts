@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest'
+import { LocalSecretStore, type SecretCipher } from '../services/secret-store'
+
+vi.mock('electron-store', () => ({
+  default: class MockStore {
+    private data: Record<string, unknown>
+
+    constructor(options: { defaults?: Record<string, unknown> }) {
+      this.data = { ...options.defaults }
+    }
+
+    get(key: string) {
+      return this.data[key]
+    }
+
+    set(key: string, value: unknown) {
+      this.data[key] = value
+    }
+  },
+}))
+
+// Reverses the text, so that stored values differ from the plain text
+const cipher: SecretCipher = {
+  isEncryptionAvailable: () => true,
+  encryptString: (plainText) => Buffer.from([...plainText].reverse().join('')),
+  decryptString: (encrypted) => [...encrypted.toString()].reverse().join(''),
+}
+
+describe('LocalSecretStore', () => {
+  it('stores values encrypted and resolves them by name', async () => {
+    const store = new LocalSecretStore(cipher)
+
+    store.set('STRIPE_KEY', 'sk_live_123')
+    store.set('DB_PASSWORD', 'hunter22')
+
+    expect(store.list()).toEqual(['DB_PASSWORD', 'STRIPE_KEY'])
+    expect(await store.resolve('STRIPE_KEY')).toBe('sk_live_123')
+  })
+
+  it('deletes secrets', async () => {
+    const store = new LocalSecretStore(cipher)
+    store.set('STRIPE_KEY', 'sk_live_123')
+
+    store.delete('STRIPE_KEY')
+
+    expect(store.list()).toEqual([])
+    await expect(store.resolve('STRIPE_KEY')).rejects.toThrow("No local secret named 'STRIPE_KEY'")
+  })
+
+  it('refuses invalid names and storing without encryption', () => {
+    const store = new LocalSecretStore({ ...cipher, isEncryptionAvailable: () => false })
+
+    expect(() => store.set('../key', 'x')).toThrow("Invalid secret name '../key'")
+    expect(() => store.set('KEY', 'x')).toThrow('Encryption is not available on this machine')
+  })
+})
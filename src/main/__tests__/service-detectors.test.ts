@@ -0,0 +1,222 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  collectProjectFiles,
+  detectServices,
+  findCommandPort,
+  isDetectorManifest,
+  parseMakefileRunTargets,
+  parseProcfile,
+  type DetectionContext,
+  type ProjectFiles,
+} from '../services/service-detectors'
+
+function filesFrom(contents: Record<string, string>): ProjectFiles {
+  return {
+    paths: Object.keys(contents),
+    has: (p) => p in contents,
+    read: async (p) => contents[p] ?? null,
+  }
+}
+
+const context: DetectionContext = { packageManager: 'pnpm', projectName: 'shop' }
+
+describe('detectServices', () => {
+  it('reads Procfile.dev entries and lets them win over package.json', async () => {
+    const files = filesFrom({
+      'Procfile.dev': 'web: bin/rails server -p 3000\n# comment\ncss: bin/rails tailwindcss:watch\n',
+      'package.json': JSON.stringify({ name: 'shop', scripts: { dev: 'vite' } }),
+      'Gemfile': "gem 'rails', '~> 7.1'\n",
+      'config/application.rb': '',
+    })
+
+    expect(await detectServices(files, context)).toEqual([
+      { name: 'web', path: '.', command: 'bin/rails server -p 3000', port: 3000, source: 'procfile-dev' },
+      { name: 'css', path: '.', command: 'bin/rails tailwindcss:watch', port: undefined, source: 'procfile-dev' },
+    ])
+  })
+
+  it('detects workspace packages with turbo persistent tasks and their dependencies', async () => {
+    const files = filesFrom({
+      'package.json': JSON.stringify({ name: 'root', workspaces: ['apps/*', 'packages/*'], scripts: { dev: 'turbo dev' } }),
+      'turbo.json': JSON.stringify({ tasks: { build: {}, 'web#serve': { persistent: true } } }),
+      'apps/web/package.json': JSON.stringify({ name: '@shop/web', scripts: { serve: 'next dev -p 3001', dev: 'x' }, dependencies: { '@shop/api': '*', '@shop/ui': '*' } }),
+      'apps/api/package.json': JSON.stringify({ name: '@shop/api', scripts: { dev: 'tsx watch src/index.ts' } }),
+      'packages/ui/package.json': JSON.stringify({ name: '@shop/ui', scripts: { build: 'tsc' } }),
+    })
+
+    expect(await detectServices(files, context)).toEqual([
+      { name: '@shop/web', path: 'apps/web', command: 'pnpm run serve', port: 3001, dependsOn: ['@shop/api'], source: 'workspace' },
+      { name: '@shop/api', path: 'apps/api', command: 'pnpm run dev', port: undefined, dependsOn: [], source: 'workspace' },
+    ])
+  })
+
+  it('reads pnpm-workspace.yaml packages', async () => {
+    const files = filesFrom({
+      'package.json': JSON.stringify({ name: 'root', scripts: { dev: 'pnpm -r dev' } }),
+      'pnpm-workspace.yaml': "packages:\n  - 'services/**'\n",
+      'services/billing/api/package.json': JSON.stringify({ name: 'billing-api', scripts: { start: 'node server.js' } }),
+    })
+
+    expect((await detectServices(files, context)).map((s) => [s.name, s.command])).toEqual([
+      ['billing-api', 'pnpm run start'],
+    ])
+  })
+
+  it('runs nx projects through nx with implicit dependencies', async () => {
+    const files = filesFrom({
+      'nx.json': '{}',
+      'apps/store/project.json': JSON.stringify({
+        name: 'store',
+        targets: { build: {}, serve: { options: { port: 4200 } } },
+        implicitDependencies: ['catalog', '!docs'],
+      }),
+      'apps/store/package.json': JSON.stringify({ name: 'store', scripts: { dev: 'vite' } }),
+      'libs/utils/project.json': JSON.stringify({ name: 'utils', targets: { build: {} } }),
+    })
+
+    expect(await detectServices(files, { ...context, packageManager: 'npm' })).toEqual([
+      { name: 'store', path: 'apps/store', command: 'npx nx run store:serve', port: 4200, dependsOn: ['catalog'], source: 'nx' },
+    ])
+  })
+
+  it('detects Django, FastAPI and Flask apps with their runner', async () => {
+    const files = filesFrom({
+      'admin/manage.py': 'import django',
+      'admin/requirements.txt': 'django',
+      'api/pyproject.toml': '[tool.poetry]\nname = "api"',
+      'api/app/main.py': 'from fastapi import FastAPI\n\napp = FastAPI()\n',
+      'api/tests/test_main.py': 'app = FastAPI()',
+      'hooks/uv.lock': '',
+      'hooks/pyproject.toml': '[project]',
+      'hooks/server.py': 'from flask import Flask\nserver = Flask(__name__)\n',
+    })
+
+    expect(await detectServices(files, context)).toEqual([
+      { name: 'admin', path: 'admin', command: 'python manage.py runserver 0.0.0.0:${PORT:-8000}', port: 8000, source: 'python' },
+      { name: 'api', path: 'api', command: 'poetry run uvicorn app.main:app --reload --host 0.0.0.0 --port ${PORT:-8000}', port: 8000, source: 'python' },
+      { name: 'hooks', path: 'hooks', command: 'uv run flask --app server:server run --debug --host 0.0.0.0 --port ${PORT:-5000}', port: 5000, source: 'python' },
+    ])
+  })
+
+  it('detects Go main packages that start a server', async () => {
+    const files = filesFrom({
+      'go.mod': 'module github.com/acme/shop',
+      'cmd/api/main.go': 'package main\n\nfunc main() {\n\thttp.ListenAndServe(":8080", nil)\n}\n',
+      'cmd/migrate/main.go': 'package main\n\nfunc main() {\n\tmigrate()\n}\n',
+      'internal/store/store.go': 'package store',
+      'worker/go.mod': 'module worker',
+      'worker/main.go': 'package main\n\nfunc main() {\n\tr := gin.Default()\n\tr.Run()\n}\n',
+      'worker/main_test.go': 'package main',
+    })
+
+    expect(await detectServices(files, context)).toEqual([
+      { name: 'api', path: '.', command: 'go run ./cmd/api', port: 8080, source: 'go' },
+      { name: 'worker', path: 'worker', command: 'go run .', port: undefined, source: 'go' },
+    ])
+  })
+
+  it('detects Rails apps without a Procfile', async () => {
+    const files = filesFrom({
+      'Gemfile': 'source "https://rubygems.org"\ngem "rails"\n',
+      'config/application.rb': '',
+      'bin/rails': '',
+    })
+
+    expect(await detectServices(files, context)).toEqual([
+      { name: 'shop', path: '.', command: 'bin/rails server -b 0.0.0.0 -p ${PORT:-3000}', port: 3000, source: 'rails' },
+    ])
+  })
+
+  it('falls back to Procfile and Makefile targets for unclaimed directories', async () => {
+    const files = filesFrom({
+      'Procfile': 'web: gunicorn app:app --bind 0.0.0.0:$PORT\n',
+      'tools/Makefile': 'PORT := 9000\n.PHONY: run\nrun:\n\t./server --port 9000\n',
+      'web/package.json': JSON.stringify({ name: 'web', scripts: { dev: 'vite' } }),
+      'web/Makefile': 'dev:\n\tpnpm dev\n',
+    })
+
+    expect(await detectServices(files, context)).toEqual([
+      { name: 'web', path: 'web', command: 'pnpm run dev', port: undefined, source: 'package-json' },
+      { name: 'web', path: '.', command: 'gunicorn app:app --bind 0.0.0.0:$PORT', port: undefined, source: 'procfile' },
+      { name: 'tools', path: 'tools', command: 'make run', port: 9000, source: 'makefile' },
+    ])
+  })
+})
+
+describe('collectProjectFiles', () => {
+  it('walks the project without hidden and dependency directories and caches reads', async () => {
+    const entry = (name: string, isDir: boolean) => ({ name, isFile: () => !isDir, isDirectory: () => isDir })
+    const tree: Record<string, ReturnType<typeof entry>[]> = {
+      '/project': [entry('package.json', false), entry('node_modules', true), entry('.git', true), entry('api', true)],
+      '/project/api': [entry('main.go', false), entry('deep', true)],
+      '/project/api/deep': [entry('file.txt', false)],
+    }
+    const readFile = vi.fn(async (p: string) => `contents of ${p}`)
+    const files = await collectProjectFiles(
+      '/project',
+      { readdir: vi.fn(async (p: string) => tree[p] ?? []), readFile },
+      1
+    )
+
+    expect(files.paths).toEqual(['package.json', 'api/main.go'])
+    expect(await files.read('api/main.go')).toBe('contents of /project/api/main.go')
+    await files.read('api/main.go')
+    expect(readFile).toHaveBeenCalledTimes(1)
+    expect(await files.read('missing.txt')).toBeNull()
+  })
+})
+
+describe('isDetectorManifest', () => {
+  it.each([
+    ['Procfile.dev', true],
+    ['apps/web/project.json', true],
+    ['services/api/cmd/go.mod', true],
+    ['backend/pyproject.toml', true],
+    ['GNUmakefile', true],
+    ['config/application.rb', true],
+    ['admin/bin/rails', true],
+    ['api/main.go', false],
+    ['app/main.py', false],
+    ['lib/application.rb', false],
+  ])('%s: %s', (relativePath, expected) => {
+    expect(isDetectorManifest(relativePath)).toBe(expected)
+  })
+})
+
+describe('findCommandPort', () => {
+  it.each([
+    ['next dev -p 3001', 3001],
+    ['vite --port=5173', 5173],
+    ['PORT=4000 node server.js', 4000],
+    ['uvicorn main:app --port ${PORT:-8000}', 8000],
+    ['node server.js', undefined],
+  ])('reads %s', (command, expected) => {
+    expect(findCommandPort(command)).toBe(expected)
+  })
+})
+
+describe('parseProcfile', () => {
+  it('ignores comments and blank lines', () => {
+    expect(parseProcfile('# processes\n\nweb: npm start\nworker:bundle exec sidekiq\n')).toEqual([
+      { name: 'web', command: 'npm start' },
+      { name: 'worker', command: 'bundle exec sidekiq' },
+    ])
+  })
+})
+
+describe('parseMakefileRunTargets', () => {
+  it('prefers suffixed run targets over the aggregate one', () => {
+    const makefile = 'dev: run-api run-web\n\nrun-api:\n\tgo run ./cmd/api\nrun-web:\n\tcd web && pnpm dev --port 3000\nrunner := x\n'
+
+    expect(parseMakefileRunTargets(makefile)).toEqual([
+      { target: 'run-api', suffix: 'api', recipe: 'go run ./cmd/api' },
+      { target: 'run-web', suffix: 'web', recipe: 'cd web && pnpm dev --port 3000' },
+    ])
+  })
+
+  it('returns the first bare target otherwise', () => {
+    expect(parseMakefileRunTargets('serve:\n\tpython -m http.server\nstart:\n\tnode .\n')).toEqual([
+      { target: 'serve', recipe: 'python -m http.server' },
+    ])
+  })
+})
@@ -7,7 +7,7 @@ import {
   tryGetServiceContext
 } from '../services/service-lookup'
 import type { RegistryService } from '../services/registry'
-import type { ProjectConfigService } from '../services/project-config'
+import { ProjectConfigError, type ProjectConfigService } from '../services/project-config'
 
 // Create mock objects with vi.fn() - lightweight and type-safe
 const createMockRegistry = () => ({
@@ -150,6 +150,20 @@ describe('Service Lookup Helper', () => {
       expect(result).toEqual({ success: false, error: 'CONFIG_NOT_FOUND' })
     })
 
+    it('returns CONFIG_INVALID error with the validation error when config is invalid', async () => {
+      mockRegistry.getRegistry.mockReturnValue({
+        projects: [{ id: 'proj1', name: 'Project 1', path: '/path/to/project' }]
+      })
+      const configError = new ProjectConfigError('/path/to/project/.simple-local/config.json', [
+        { path: 'services[0].port', message: 'Port must be at most 65535' }
+      ])
+      mockConfig.loadConfig.mockRejectedValue(configError)
+
+      const result = await tryGetProjectContext(mockRegistry as unknown as RegistryService, mockConfig as unknown as ProjectConfigService, 'proj1')
+
+      expect(result).toEqual({ success: false, error: 'CONFIG_INVALID', configError })
+    })
+
     it('returns success with data when project and config exist', async () => {
       const project = { id: 'proj1', name: 'Project 1', path: '/path/to/project' }
       const projectConfig = { name: 'Project 1', services: [] }
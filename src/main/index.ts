@@ -4,7 +4,7 @@ import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import fixPath from 'fix-path'
 import { setupIpcHandlers } from './ipc'
 import { setupUpdaterIpc } from './updater'
-import { setupTray } from './tray'
+import { setupTray, refreshTray } from './tray'
 import { createApiServer, ApiServer } from './services/api-server'
 import { createLogger } from '../shared/logger'
 import './electron-types'
@@ -54,15 +54,20 @@ app.whenReady().then(async () => {
   })
 
   // Setup IPC handlers and get services
-  const ipcHandlers = setupIpcHandlers()
-  const { registry, container, config, getLogBuffer, startService, stopService } = ipcHandlers
+  const ipcHandlers = setupIpcHandlers(refreshTray)
+  const { registry, container, config, getLogBuffer, startService, stopService, restartService, startProject, stopProject } = ipcHandlers
   cleanupNativeProcesses = ipcHandlers.cleanupNativeProcesses
 
   // Create main window
   const mainWindow = createWindow()
 
   // Setup tray
-  setupTray(mainWindow)
+  setupTray(mainWindow, () => registry.getRegistry().projects)
+
+  // Pick up native services that kept running after a crash or force-quit
+  ipcHandlers.adoptOrphanedServices().catch((err) => {
+    log.error('Failed to adopt orphaned processes:', err)
+  })
 
   // Setup updater IPC handlers (always) and auto-updater (production only)
   setupUpdaterIpc(mainWindow, !is.dev)
@@ -77,6 +82,9 @@ app.whenReady().then(async () => {
       getLogBuffer,
       onServiceStart: startService,
       onServiceStop: stopService,
+      onServiceRestart: restartService,
+      onProjectStart: startProject,
+      onProjectStop: stopProject,
     })
     log.info(`API server listening on http://127.0.0.1:${apiServer.port}`)
   } catch (err) {
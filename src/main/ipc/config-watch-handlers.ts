@@ -0,0 +1,54 @@
+import { ipcMain, BrowserWindow } from 'electron'
+import { ProjectConfigError, ProjectConfigService } from '../services/project-config'
+import { RegistryService } from '../services/registry'
+import { ProjectConfigWatcher } from '../services/config-watcher'
+import { findProject } from '../services/service-lookup'
+import { createLogger } from '../../shared/logger'
+import type { ProjectConfig, ProjectConfigChange } from '../../shared/types'
+
+const log = createLogger('IPC:ConfigWatch')
+
+/**
+ * Sets up IPC handlers that hot-reload an open project when its config
+ * changes on disk, and pushes the result to the renderer as config:changed.
+ * Handles: config:watch, config:unwatch
+ */
+export function setupConfigWatchHandlers(
+  config: ProjectConfigService,
+  registry: RegistryService,
+  getRestartNeeded: (projectId: string, projectPath: string, projectConfig: ProjectConfig) => Promise<string[]>
+): void {
+  const reload = async (projectId: string, projectPath: string, changedFiles: string[]): Promise<void> => {
+    log.info(`Config changed for ${projectId}:`, changedFiles.join(', '))
+
+    let change: ProjectConfigChange
+    try {
+      const projectConfig = await config.loadConfig(projectPath)
+      change = projectConfig
+        ? { projectId, config: projectConfig, restartNeeded: await getRestartNeeded(projectId, projectPath, projectConfig) }
+        : { projectId, error: 'No config found for project', restartNeeded: [] }
+    } catch (err) {
+      change = err instanceof ProjectConfigError
+        ? { projectId, invalid: err.toInvalidConfig(), restartNeeded: [] }
+        : { projectId, error: err instanceof Error ? err.message : String(err), restartNeeded: [] }
+    }
+
+    for (const win of BrowserWindow.getAllWindows()) {
+      win.webContents.send('config:changed', change)
+    }
+  }
+
+  const watcher = new ProjectConfigWatcher((projectId, projectPath, changedFiles) => {
+    reload(projectId, projectPath, changedFiles).catch((err) => log.error('Config reload failed:', err))
+  })
+
+  ipcMain.handle('config:watch', (_event, projectId: string) => {
+    const project = findProject(registry, projectId)
+    if (!project) throw new Error('Project not found')
+    watcher.watch(project.id, project.path)
+  })
+
+  ipcMain.handle('config:unwatch', (_event, projectId: string) => {
+    watcher.unwatch(projectId)
+  })
+}
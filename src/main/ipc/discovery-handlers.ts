@@ -1,17 +1,32 @@
 import { ipcMain, BrowserWindow } from 'electron'
-import { ProjectConfigService } from '../services/project-config'
+import { ProjectConfigError, ProjectConfigService } from '../services/project-config'
 import { DiscoveryService } from '../services/discovery'
 import { RegistryService } from '../services/registry'
 import { SettingsService } from '../services/settings'
 import { getServiceContext } from '../services/service-lookup'
-import type { DiscoveryProgress, AiAgentId } from '../../shared/types'
+import type { DiscoveryProgress, AiAgentId, InvalidProjectConfig, ProjectConfig } from '../../shared/types'
 import { createLogger } from '../../shared/logger'
 
 const log = createLogger('IPC')
 
+/**
+ * Port ranges discovery allocates from: the project's own when it is
+ * registered (re-discovery), otherwise the next free ones.
+ */
+function getDiscoveryPortBases(registry: RegistryService, projectPath: string): { basePort: number; debugPortBase: number; existing: boolean } {
+  const existingProject = registry.getRegistry().projects.find(p => p.path === projectPath)
+  return existingProject
+    ? { basePort: existingProject.portRange[0], debugPortBase: existingProject.debugPortRange[0], existing: true }
+    : {
+        basePort: registry.getNextPortRange()[0],
+        debugPortBase: 9200 + registry.getRegistry().projects.length * 10,  // Next available debug port range
+        existing: false,
+      }
+}
+
 /**
  * Sets up IPC handlers for project discovery and configuration.
- * Handles: discovery:analyze, discovery:save, config:load, service:reanalyze-env
+ * Handles: discovery:analyze, discovery:cache-status, discovery:merge, discovery:save, config:load, config:local-overrides, config:set-env-local, service:reanalyze-env
  */
 export function setupDiscoveryHandlers(
   config: ProjectConfigService,
@@ -19,31 +34,21 @@ export function setupDiscoveryHandlers(
   registry: RegistryService,
   settings: SettingsService
 ): void {
-  ipcMain.handle('discovery:analyze', async (event, projectPath: string, agentId?: AiAgentId) => {
-    log.info('discovery:analyze called for:', projectPath)
+  ipcMain.handle('discovery:analyze', async (event, projectPath: string, agentId?: AiAgentId, force?: boolean) => {
+    log.info('discovery:analyze called for:', projectPath, force ? '(forced refresh)' : '')
 
     const win = BrowserWindow.fromWebContents(event.sender)
     const sendProgress = (progress: DiscoveryProgress) => {
       win?.webContents.send('discovery:progress', progress)
     }
 
-    // Check if this project already exists (re-discovery case)
-    const existingProject = registry.getRegistry().projects.find(p => p.path === projectPath)
-    const basePort = existingProject
-      ? existingProject.portRange[0]  // Use existing project's port range
-      : registry.getNextPortRange()[0]  // Get next available port range for new project
-
-    // Get debug port base from existing project or calculate next available
-    const debugPortBase = existingProject
-      ? existingProject.debugPortRange[0]  // Use existing project's debug port range
-      : 9200 + registry.getRegistry().projects.length * 10  // Next available debug port range
-
-    log.info('Using base port:', basePort, 'debug port base:', debugPortBase, existingProject ? '(existing project)' : '(new project)')
+    const { basePort, debugPortBase, existing } = getDiscoveryPortBases(registry, projectPath)
+    log.info('Using base port:', basePort, 'debug port base:', debugPortBase, existing ? '(existing project)' : '(new project)')
 
     // Try AI discovery first, fall back to basic
     const selectedAgent: AiAgentId = agentId ?? settings.getSettings()?.aiAgent.selected ?? 'claude'
     log.info('Attempting AI discovery with agent:', selectedAgent)
-    let result = await discovery.runAIDiscovery(projectPath, selectedAgent, sendProgress, basePort, debugPortBase)
+    let result = await discovery.runAIDiscovery(projectPath, selectedAgent, sendProgress, basePort, debugPortBase, force)
 
     if (!result) {
       log.info('AI discovery failed or timed out, falling back to basic discovery')
@@ -58,16 +63,56 @@ export function setupDiscoveryHandlers(
     return result
   })
 
-  // Load saved config (no discovery, just read the file)
-  ipcMain.handle('config:load', async (_event, projectPath: string) => {
+  // Whether re-discovery would reuse the cached AI result, and what changed since
+  ipcMain.handle('discovery:cache-status', async (_event, projectPath: string, agentId?: AiAgentId) => {
+    const { basePort, debugPortBase } = getDiscoveryPortBases(registry, projectPath)
+    const selectedAgent: AiAgentId = agentId ?? settings.getSettings()?.aiAgent.selected ?? 'claude'
+    return discovery.getCacheStatus(projectPath, selectedAgent, basePort, debugPortBase)
+  })
+
+  // Compare a re-discovery with the saved config; null when nothing is saved yet
+  ipcMain.handle('discovery:merge', async (_event, projectPath: string, discovered: ProjectConfig) => {
+    log.info('discovery:merge called for:', projectPath)
+    let existing
+    try {
+      existing = await config.loadConfig(projectPath)
+    } catch (err) {
+      // An invalid config has nothing worth keeping: the discovery replaces it
+      if (!(err instanceof ProjectConfigError)) throw err
+      log.warn('Saved config is invalid, skipping merge:', err.message)
+      return null
+    }
+    if (!existing) return null
+    return discovery.mergeWithExisting(existing, discovered)
+  })
+
+  // Load saved config (no discovery, just read the file); an invalid one is returned with its issues
+  ipcMain.handle('config:load', async (_event, projectPath: string): Promise<ProjectConfig | InvalidProjectConfig> => {
     log.info('config:load called for:', projectPath)
-    const projectConfig = await config.loadConfig(projectPath)
+    let projectConfig
+    try {
+      projectConfig = await config.loadConfig(projectPath)
+    } catch (err) {
+      if (err instanceof ProjectConfigError) return err.toInvalidConfig()
+      throw err
+    }
     if (!projectConfig) {
       throw new Error('No config found for project')
     }
     return projectConfig
   })
 
+  // Values that come from config.local.json, for the config editor
+  ipcMain.handle('config:local-overrides', async (_event, projectPath: string) => {
+    return config.loadLocalOverrides(projectPath)
+  })
+
+  // Keep an env var's value in config.local.json only, or share it again
+  ipcMain.handle('config:set-env-local', async (_event, projectPath: string, serviceId: string, key: string, local: boolean) => {
+    log.info('config:set-env-local called for:', serviceId, key, local)
+    await config.setEnvVarLocal(projectPath, serviceId, key, local)
+  })
+
   ipcMain.handle('discovery:save', async (_event, projectPath: string, projectConfig) => {
     log.info('discovery:save called for:', projectPath)
     log.info('Saving config with', projectConfig.services.length, 'services')
@@ -75,10 +120,11 @@ export function setupDiscoveryHandlers(
     await config.saveConfig(projectPath, projectConfig)
     log.info('Config saved')
 
-    // Generate devcontainer files
+    // Generate devcontainer files (infrastructure services run their image directly)
     for (const service of projectConfig.services) {
+      if (service.infrastructure) continue
       log.info('Generating devcontainer for:', service.id)
-      const devcontainerConfig = await config.generateDevcontainerConfig(service, projectConfig.name)
+      const devcontainerConfig = await config.generateDevcontainerConfig(service, projectConfig.name, projectPath)
       await config.saveDevcontainer(projectPath, service, devcontainerConfig)
     }
 
@@ -12,6 +12,9 @@ import { DiscoveryService } from '../services/discovery'
 import { PrerequisitesService } from '../services/prerequisites'
 import { SettingsService } from '../services/settings'
 import { PortExtractionService } from '../services/port-extraction'
+import { ProcessGroupStore } from '../services/process-group-store'
+import { LocalSecretStore } from '../services/secret-store'
+import { createSecretResolver } from '../services/secrets'
 import { AgentTerminal } from '../modules/agent-terminal'
 import { setupRegistryHandlers } from './registry-handlers'
 import { setupServiceHandlers } from './service-handlers'
@@ -19,8 +22,15 @@ import { setupDiscoveryHandlers } from './discovery-handlers'
 import { setupPrerequisitesHandlers } from './prerequisites-handlers'
 import { setupAgentTerminalHandlers } from './agent-terminal-handlers'
 import { setupPortExtractionHandlers } from './port-extraction-handlers'
+import { setupInfrastructureHandlers } from './infrastructure-handlers'
+import { setupConfigWatchHandlers } from './config-watch-handlers'
+import { setupSecretHandlers } from './secret-handlers'
+import type { PortConflictResolution } from '../../shared/types'
 
-export function setupIpcHandlers(): {
+/**
+ * @param onProfileSwitched - Called after a project's active profile changed
+ */
+export function setupIpcHandlers(onProfileSwitched?: () => void): {
   registry: RegistryService
   container: ContainerService
   config: ProjectConfigService
@@ -29,24 +39,41 @@ export function setupIpcHandlers(): {
   settings: SettingsService
   agentTerminal: AgentTerminal
   getLogBuffer: (projectId: string, serviceId: string) => string[]
-  startService: (projectId: string, serviceId: string) => Promise<void>
+  startService: (
+    projectId: string,
+    serviceId: string,
+    mode?: 'native' | 'container',
+    portConflictResolution?: PortConflictResolution
+  ) => Promise<void>
   stopService: (projectId: string, serviceId: string) => Promise<void>
+  restartService: (
+    projectId: string,
+    serviceId: string,
+    portConflictResolution?: PortConflictResolution
+  ) => Promise<void>
+  startProject: (projectId: string, portConflictResolution?: PortConflictResolution) => Promise<void>
+  stopProject: (projectId: string) => Promise<void>
+  adoptOrphanedServices: () => Promise<void>
   cleanupNativeProcesses: () => Promise<void>
 } {
   const registry = new RegistryService()
   const settings = new SettingsService()
   const savedSettings = settings.getSettings()
-  const container = new ContainerService(savedSettings?.containerRuntime.socketPath)
+  const container = new ContainerService(savedSettings?.containerRuntime.socketPath, new ProcessGroupStore())
   const config = new ProjectConfigService()
   const discovery = new DiscoveryService()
   const prerequisites = new PrerequisitesService()
   const portExtraction = new PortExtractionService({})
   const agentTerminal = new AgentTerminal()
+  const secretStore = new LocalSecretStore()
 
-  const { getLogBuffer, startService, stopService, cleanupProjectLogs } = setupServiceHandlers(
+  const { getLogBuffer, startService, stopService, restartService, startProject, stopProject, adoptOrphanedServices, cleanupProjectLogs, getRestartNeeded } = setupServiceHandlers(
     container,
     config,
-    registry
+    registry,
+    createSecretResolver(secretStore),
+    undefined,
+    onProfileSwitched
   )
   setupDiscoveryHandlers(config, discovery, registry, settings)
   setupRegistryHandlers(registry, {
@@ -56,6 +83,9 @@ export function setupIpcHandlers(): {
   setupPrerequisitesHandlers(prerequisites, settings, container)
   setupAgentTerminalHandlers(agentTerminal)
   setupPortExtractionHandlers(portExtraction, config, registry)
+  setupInfrastructureHandlers(config, registry)
+  setupConfigWatchHandlers(config, registry, getRestartNeeded)
+  setupSecretHandlers(secretStore)
 
   // Debug: write launch.json attach config and open project in IDE
   const IDE_CLI: Record<string, string> = {
@@ -140,7 +170,10 @@ export function setupIpcHandlers(): {
     return result.canceled ? null : result.filePaths[0]
   })
 
-  const cleanupNativeProcesses = () => container.killAllNativeProcessGroups()
+  const cleanupNativeProcesses = () => {
+    container.detachContainerCommands()
+    return container.killAllNativeProcessGroups()
+  }
 
-  return { registry, container, config, discovery, prerequisites, settings, agentTerminal, getLogBuffer, startService, stopService, cleanupNativeProcesses }
+  return { registry, container, config, discovery, prerequisites, settings, agentTerminal, getLogBuffer, startService, stopService, restartService, startProject, stopProject, adoptOrphanedServices, cleanupNativeProcesses }
 }
@@ -0,0 +1,51 @@
+import { ipcMain } from 'electron'
+import { ProjectConfigService } from '../services/project-config'
+import { RegistryService } from '../services/registry'
+import { getProjectContext } from '../services/service-lookup'
+import { allocatePort, makeUniqueId } from '../services/discovery'
+import { createInfrastructureService, listInfrastructureTemplates } from '../services/infrastructure-catalog'
+import { createLogger } from '../../shared/logger'
+import type { InfrastructureTemplateId, ProjectConfig } from '../../shared/types'
+
+const log = createLogger('IPC:Infrastructure')
+
+/**
+ * Sets up IPC handlers for the infrastructure service catalog.
+ * Handles: infrastructure:templates, infrastructure:add
+ */
+export function setupInfrastructureHandlers(
+  config: ProjectConfigService,
+  registry: RegistryService
+): void {
+  ipcMain.handle('infrastructure:templates', () => listInfrastructureTemplates())
+
+  // Add a catalog service to the project, with ports from the project range
+  ipcMain.handle(
+    'infrastructure:add',
+    async (_event, projectId: string, templateId: InfrastructureTemplateId): Promise<ProjectConfig> => {
+      log.info('infrastructure:add called for:', projectId, templateId)
+
+      const { project, projectConfig } = await getProjectContext(registry, config, projectId)
+      const portRange = registry.getRegistry().projects.find((p) => p.id === projectId)!.portRange
+
+      const usedPorts = new Set<number>()
+      for (const service of projectConfig.services) {
+        if (service.port !== undefined) usedPorts.add(service.port)
+        for (const extra of service.infrastructure?.extraPorts ?? []) usedPorts.add(extra.port)
+      }
+      const nextPort = () => {
+        const port = allocatePort(portRange[0], usedPorts)
+        usedPorts.add(port)
+        return port
+      }
+
+      const id = makeUniqueId(templateId, new Set(projectConfig.services.map((s) => s.id)))
+      const service = createInfrastructureService(templateId, id, projectConfig.name, nextPort)
+      const updatedConfig = { ...projectConfig, services: [...projectConfig.services, service] }
+
+      await config.saveConfig(project.path, updatedConfig)
+      log.info(`Added ${templateId} as '${id}' on port ${service.port}`)
+      return updatedConfig
+    }
+  )
+}
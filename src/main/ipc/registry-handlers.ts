@@ -62,13 +62,18 @@ export function setupRegistryHandlers(
       usedPorts.add(newPort)
       service.allocatedPort = newPort
       service.port = newPort
+      for (const extra of service.infrastructure?.extraPorts ?? []) {
+        extra.port = allocatePort(newStart, usedPorts)
+        usedPorts.add(extra.port)
+      }
     }
 
     await config.saveConfig(project.path, projectConfig)
 
-    // Regenerate devcontainer files
+    // Regenerate devcontainer files (infrastructure services run their image directly)
     for (const service of projectConfig.services) {
-      const devcontainerConfig = await config.generateDevcontainerConfig(service, projectConfig.name)
+      if (service.infrastructure) continue
+      const devcontainerConfig = await config.generateDevcontainerConfig(service, projectConfig.name, project.path)
       await config.saveDevcontainer(project.path, service, devcontainerConfig)
     }
 
@@ -0,0 +1,19 @@
+import { ipcMain } from 'electron'
+import type { LocalSecretStore } from '../services/secret-store'
+
+/**
+ * Sets up IPC handlers for the secrets stored on this machine. Only names are
+ * sent to the renderer; values are written but never read back.
+ * Handles: secrets:list, secrets:set, secrets:delete
+ */
+export function setupSecretHandlers(store: LocalSecretStore): void {
+  ipcMain.handle('secrets:list', () => store.list())
+
+  ipcMain.handle('secrets:set', (_event, name: string, value: string) => {
+    store.set(name, value)
+  })
+
+  ipcMain.handle('secrets:delete', (_event, name: string) => {
+    store.delete(name)
+  })
+}
@@ -1,4 +1,5 @@
 import path from 'path'
+import { stat } from 'fs/promises'
 import { ipcMain, BrowserWindow } from 'electron'
 import { ContainerService, applyContainerEnvOverrides, rewriteLocalhostForContainer } from '../services/container'
 import { ProjectConfigService } from '../services/project-config'
@@ -6,11 +7,21 @@ import { RegistryService } from '../services/registry'
 import { LogManager } from '../services/log-manager'
 import { StatsManager } from '../services/stats-manager'
 import { RuntimeEnvManager } from '../services/runtime-env-manager'
-import { getServiceContext, getProjectContext } from '../services/service-lookup'
+import { getServiceContext, getProjectContext, type ProjectLookupResult, type ServiceLookupResult } from '../services/service-lookup'
+import { resolveStartOrder, resolveStopOrder } from '../services/dependency-order'
 import { sanitizeServiceId, validatePathWithinProject } from '../services/validation'
 import { ConfigPaths } from '../services/config-paths'
+import { buildInfrastructureSpec } from '../services/infrastructure-catalog'
+import { buildComposeSpec } from '../services/compose-import'
+import { loadServiceEnv, type LayeredEnv } from '../services/env-files'
+import { MissingEnvError, findMissingEnv } from '../services/env-check'
+import { SecretResolver, maskEnv } from '../services/secrets'
+import type { ReadinessCheck } from '../services/readiness-probe'
+import type { PersistedProcessGroup } from '../services/process-group-store'
+import { PortConflictError, findNextFreePort } from '../services/port-conflict'
 import { createLogger } from '../../shared/logger'
-import type { Service } from '../../shared/types'
+import { applyProfile, applyProfileToService, getProfileChanges } from '../../shared/profiles'
+import type { EnvVarSource, LogStream, MissingEnv, OrphanedProcessGroup, PortConflict, PortConflictResolution, ProfileSwitchResult, ProjectConfig, Service, ServiceRestartInfo } from '../../shared/types'
 
 const log = createLogger('IPC')
 
@@ -23,6 +34,43 @@ function isLookupError(error: Error): boolean {
   return message.includes('not found')
 }
 
+function getActiveProfile(registry: RegistryService, projectId: string): string | undefined {
+  return registry.getRegistry().projects.find((p) => p.id === projectId)?.activeProfile
+}
+
+/**
+ * Project context with the project's active profile applied, for running its
+ * services. `savedConfig` is the config as saved, for writing changes back.
+ */
+async function getRuntimeProjectContext(
+  registry: RegistryService,
+  config: ProjectConfigService,
+  projectId: string
+): Promise<ProjectLookupResult & { savedConfig: ProjectConfig }> {
+  const { project, projectConfig } = await getProjectContext(registry, config, projectId)
+  return { project, projectConfig: applyProfile(projectConfig, getActiveProfile(registry, projectId)), savedConfig: projectConfig }
+}
+
+interface RuntimeServiceContext extends ServiceLookupResult {
+  savedConfig: ProjectConfig
+}
+
+async function getRuntimeServiceContext(
+  registry: RegistryService,
+  config: ProjectConfigService,
+  projectId: string,
+  serviceId: string
+): Promise<RuntimeServiceContext> {
+  const { project, projectConfig, service } = await getServiceContext(registry, config, projectId, serviceId)
+  const activeProfile = getActiveProfile(registry, projectId)
+  return {
+    project,
+    projectConfig: applyProfile(projectConfig, activeProfile),
+    service: applyProfileToService(projectConfig, activeProfile, service),
+    savedConfig: projectConfig,
+  }
+}
+
 function buildDevcontainerPath(projectPath: string, serviceId: string): string {
   if (!path.isAbsolute(projectPath)) {
     throw new Error('projectPath must be absolute')
@@ -34,18 +82,27 @@ function buildDevcontainerPath(projectPath: string, serviceId: string): string {
   return devcontainerPath
 }
 
+async function getModifiedTime(filePath: string): Promise<number | undefined> {
+  try {
+    return (await stat(filePath)).mtimeMs
+  } catch {
+    return undefined
+  }
+}
+
 /**
  * Callbacks for service start operations
  */
 interface ServiceStartCallbacks {
-  sendLog: (data: string) => void
+  sendLog: (data: string, stream?: LogStream) => void
   sendStatus: (status: string) => void
 }
 
 /**
  * Create callbacks for service start operations.
  * Broadcasts events to all windows for UI updates.
- * Optionally tracks service stats when status becomes 'running'.
+ * Optionally tracks service stats when status becomes 'running'
+ * and attaches restart history to status events.
  */
 function createServiceCallbacks(
   logManager: LogManager,
@@ -53,18 +110,20 @@ function createServiceCallbacks(
   serviceId: string,
   statsManager?: StatsManager,
   projectName?: string,
-  service?: Service
+  service?: Service,
+  getRestartInfo?: () => ServiceRestartInfo | undefined
 ): ServiceStartCallbacks {
   return {
-    sendLog: (data: string) => {
-      logManager.appendLog(projectId, serviceId, data)
+    sendLog: (output: string, stream?: LogStream) => {
+      const data = logManager.mask(projectId, serviceId, output, stream)
+      logManager.appendLog(projectId, serviceId, data, stream)
       for (const win of BrowserWindow.getAllWindows()) {
-        win.webContents.send('service:logs:data', { projectId, serviceId, data })
+        win.webContents.send('service:logs:data', { projectId, serviceId, data, stream })
       }
     },
     sendStatus: (status: string) => {
       for (const win of BrowserWindow.getAllWindows()) {
-        win.webContents.send('service:status:change', { projectId, serviceId, status })
+        win.webContents.send('service:status:change', { projectId, serviceId, status, restart: getRestartInfo?.() })
       }
       // Track service for stats polling when it starts running
       if (status === 'running' && statsManager && projectName && service) {
@@ -74,6 +133,180 @@ function createServiceCallbacks(
   }
 }
 
+/**
+ * Wrap service callbacks of a service with a readiness probe.
+ * Output is fed to the probe, the process manager's early 'running' is held back
+ * until the probe passes, and a process exit fails the probe.
+ * Once the probe settled, an automatic restart starts a new check from
+ * `recheck`, so the restarted service is only reported running once it is ready again.
+ */
+function withReadiness(
+  callbacks: ServiceStartCallbacks,
+  firstCheck: ReadinessCheck,
+  recheck: () => ReadinessCheck
+): ServiceStartCallbacks {
+  let readiness = firstCheck
+  return {
+    sendLog: (data: string, stream?: LogStream) => {
+      callbacks.sendLog(data, stream)
+      readiness.feedLog(data)
+    },
+    sendStatus: (status: string) => {
+      if (readiness.settled) {
+        if (status !== 'starting') {
+          callbacks.sendStatus(status)
+          return
+        }
+        readiness = recheck()
+      } else if (status === 'running') {
+        return
+      }
+      if (status === 'stopped' || status === 'error') {
+        readiness.fail('Process exited before becoming ready')
+      }
+      callbacks.sendStatus(status)
+    },
+  }
+}
+
+/**
+ * Wait for a service's readiness probe and report the outcome.
+ * @throws Error if the probe fails or times out
+ */
+async function waitUntilReady(
+  container: ContainerService,
+  projectName: string,
+  serviceId: string,
+  readiness: ReadinessCheck,
+  callbacks: ServiceStartCallbacks
+): Promise<void> {
+  const { sendLog, sendStatus } = callbacks
+  sendLog(`Waiting for readiness: ${readiness.description}\n`)
+
+  const result = await readiness.wait()
+  container.completeReadinessCheck(projectName, serviceId, readiness, result.ready)
+
+  if (result.ready) {
+    sendLog('Readiness probe passed\n')
+    sendStatus('running')
+    return
+  }
+
+  // Aborted checks were settled by a stop request - nothing to report
+  if (result.aborted) return
+
+  sendStatus('error')
+  sendLog(`Readiness probe failed: ${result.reason}\n`)
+  throw new Error(`Readiness probe failed: ${result.reason}`)
+}
+
+/**
+ * Make sure the port a native service binds is free before it starts, logging who held it.
+ * Processes from our own process groups are stopped right away; a foreign process
+ * is only stopped or avoided when the caller chose how to resolve the conflict.
+ * @returns The service to start, with its new port if it was moved
+ * @throws PortConflictError if a foreign process holds the port and no resolution was given
+ * @throws Error if asked to kill a holder that cannot be identified
+ */
+async function claimPort(
+  container: ContainerService,
+  config: ProjectConfigService,
+  registry: RegistryService,
+  { project, service, savedConfig }: RuntimeServiceContext,
+  resolution: PortConflictResolution | undefined,
+  sendLog: (data: string) => void
+): Promise<Service> {
+  const port = service.hardcodedPort?.value ?? service.port
+  if (!port) return service
+
+  let inspection
+  try {
+    inspection = await container.inspectPort(port)
+  } catch (err) {
+    sendLog(`Warning: could not check port ${port}: ${err instanceof Error ? err.message : 'Unknown error'}\n`)
+    return service
+  }
+  if (!inspection.inUse) return service
+
+  for (const holder of inspection.holders) {
+    sendLog(`Port ${port} is in use by ${holder.name} (PID ${holder.pid}): ${holder.commandLine}\n`)
+  }
+
+  const foreign = inspection.holders.length === 0 || inspection.holders.some(
+    (holder) => holder.pgid === null || !container.isTrackedProcessGroup(holder.pgid)
+  )
+  // Only kill a foreign process when explicitly asked to
+  if (foreign && resolution !== 'kill' && resolution !== 'next-port') {
+    throw new PortConflictError({
+      serviceId: service.id,
+      serviceName: service.name,
+      port,
+      holders: inspection.holders,
+      canUseNextPort: !service.hardcodedPort,
+    })
+  }
+
+  if (foreign && resolution === 'next-port') {
+    return moveToNextFreePort(container, config, registry, project, savedConfig, service, sendLog)
+  }
+
+  // Starting anyway would only fail with EADDRINUSE
+  if (inspection.holders.length === 0) {
+    throw new Error(
+      `Port ${port} is held by a process that cannot be identified (owned by another user?) and cannot be stopped. ` +
+        'Free the port or move the service to another one.'
+    )
+  }
+
+  const killed = await container.killProcessOnPortAsync(port)
+  if (killed) {
+    sendLog(`Killed existing process on port ${port}\n`)
+  }
+  return service
+}
+
+/**
+ * Reassign a service to the next free port in its project's range and persist the change.
+ * Only the port is written to the saved config, not values from the active profile.
+ * @throws Error if the port is hardcoded in the command or the range has no free port left
+ */
+async function moveToNextFreePort(
+  container: ContainerService,
+  config: ProjectConfigService,
+  registry: RegistryService,
+  project: ServiceLookupResult['project'],
+  savedConfig: ProjectConfig,
+  service: Service,
+  sendLog: (data: string) => void
+): Promise<Service> {
+  if (service.hardcodedPort) {
+    throw new Error(`Port ${service.hardcodedPort.value} is hardcoded in the command of ${service.name} and cannot be changed`)
+  }
+
+  const portRange = registry.getRegistry().projects.find((p) => p.id === project.id)?.portRange
+  if (!portRange) {
+    throw new Error('Project not found')
+  }
+
+  const nextPort = await findNextFreePort(
+    portRange,
+    savedConfig.services,
+    service.id,
+    async (port) => (await container.inspectPort(port)).inUse
+  )
+  if (nextPort === null) {
+    throw new Error(`No free port left in range ${portRange[0]}-${portRange[1]}`)
+  }
+
+  const portUpdate = { port: nextPort, allocatedPort: nextPort, useOriginalPort: false }
+  await config.saveConfig(project.path, {
+    ...savedConfig,
+    services: savedConfig.services.map((s) => (s.id === service.id ? { ...s, ...portUpdate } : s)),
+  })
+  sendLog(`Moved ${service.name} from port ${service.port} to port ${nextPort}\n`)
+  return { ...service, ...portUpdate }
+}
+
 /**
  * Resolve which command and env to use for starting a service.
  * Priority: debugCommand > NODE_OPTIONS injection > plain command.
@@ -111,10 +344,128 @@ function resolveServiceCommand(
   return { command: service.command, env: resultEnv }
 }
 
+interface ServiceEnv {
+  layeredEnv: LayeredEnv
+  env: Record<string, string>
+  warnings: string[]
+  secretKeys: string[]    // Vars resolved from secret:// references
+  secretValues: string[]  // Their values, to mask wherever the env or output is shown
+}
+
+/**
+ * Resolves secret references in the env of the infrastructure services that
+ * `env` refers to, so that connection values like ${services.postgres.url}
+ * embed the secret instead of its reference.
+ */
+async function resolveInfrastructureSecrets(
+  secrets: SecretResolver,
+  services: Service[],
+  env: Record<string, string>
+): Promise<{ services: Service[]; values: string[]; warnings: string[] }> {
+  const result = { services: [] as Service[], values: [] as string[], warnings: [] as string[] }
+  const values = Object.values(env)
+
+  for (const service of services) {
+    if (!service.infrastructure || !values.some((value) => value.includes(`\${services.${service.id}.`))) {
+      result.services.push(service)
+      continue
+    }
+    const resolved = await secrets.resolveEnv(service.env)
+    result.services.push({ ...service, env: resolved.env })
+    // Connection URLs hold the values encoded, so both forms are masked
+    result.values.push(...resolved.values.flatMap((value) => [value, encodeURIComponent(value)]))
+    result.warnings.push(...resolved.warnings.map((warning) => `${service.name}: ${warning}`))
+  }
+  return result
+}
+
+/** A service's env files and service.env with their secret references resolved */
+interface SecretServiceEnv extends ServiceEnv {
+  services: Service[]  // The project's services, with the secrets of referenced infrastructure resolved
+}
+
+/**
+ * Loads a service's env files and service.env and resolves their secret
+ * references and those of the infrastructure services they refer to.
+ * Without a resolver references are kept as written, so that a check for
+ * unset vars counts them as set without asking the providers for secrets.
+ */
+async function loadServiceSecrets(
+  secrets: SecretResolver | undefined,
+  projectPath: string,
+  projectConfig: ProjectConfig,
+  service: Service
+): Promise<SecretServiceEnv> {
+  const layeredEnv = await loadServiceEnv(projectPath, service)
+  if (!secrets) {
+    return { layeredEnv, env: layeredEnv.env, services: projectConfig.services, warnings: layeredEnv.warnings, secretKeys: [], secretValues: [] }
+  }
+
+  const resolvedSecrets = await secrets.resolveEnv(layeredEnv.env)
+  const infrastructure = await resolveInfrastructureSecrets(secrets, projectConfig.services, layeredEnv.env)
+  return {
+    layeredEnv,
+    env: resolvedSecrets.env,
+    services: infrastructure.services,
+    warnings: [...layeredEnv.warnings, ...resolvedSecrets.warnings, ...infrastructure.warnings],
+    secretKeys: resolvedSecrets.secretKeys,
+    secretValues: [...resolvedSecrets.values, ...infrastructure.values],
+  }
+}
+
+/**
+ * Builds the env a service starts with from its loaded env: interpolation,
+ * container rewrites and the injected PORT and DEBUG_PORT. Secrets are
+ * resolved before so that other vars can embed them, including those in the
+ * connection values of infrastructure services.
+ */
+function buildServiceEnv(
+  config: ProjectConfigService,
+  loaded: SecretServiceEnv,
+  projectPath: string,
+  projectConfig: ProjectConfig,
+  service: Service,
+  mode: 'native' | 'container'
+): ServiceEnv {
+  const { layeredEnv } = loaded
+  const { env: resolvedEnv, errors: interpolationErrors } = config.interpolateEnv(loaded.env, loaded.services, {
+    project: { name: projectConfig.name, path: projectPath },
+    mode,
+  })
+
+  let env: Record<string, string>
+  if (mode === 'container') {
+    const rewrittenEnv = rewriteLocalhostForContainer(resolvedEnv, projectConfig.services)
+    env = service.containerEnvOverrides
+      ? applyContainerEnvOverrides(rewrittenEnv, service.containerEnvOverrides)
+      : rewrittenEnv
+  } else {
+    env = { ...resolvedEnv }
+  }
+
+  // Inject PORT and DEBUG_PORT environment variables
+  // (infrastructure images listen on their own port; the service port is only published)
+  if (service.port !== undefined && !service.infrastructure) {
+    env.PORT = String(service.port)
+  }
+  if (service.debugPort !== undefined) {
+    env.DEBUG_PORT = String(service.debugPort)
+  }
+
+  return {
+    layeredEnv,
+    env,
+    warnings: [...loaded.warnings, ...interpolationErrors],
+    secretKeys: loaded.secretKeys,
+    secretValues: loaded.secretValues,
+  }
+}
+
 /**
  * Core service start logic used by both IPC handler and exported function.
- * Handles environment interpolation, container env overrides, port killing,
- * and starting native or container services.
+ * Handles missing env vars, port conflicts, environment interpolation,
+ * container env overrides, and starting native or container services.
+ * @throws MissingEnvError if a var in the service's requiredEnv is not set
  */
 async function startServiceCore(
   container: ContainerService,
@@ -123,11 +474,38 @@ async function startServiceCore(
   logManager: LogManager,
   statsManager: StatsManager,
   runtimeEnvManager: RuntimeEnvManager,
+  secrets: SecretResolver,
   projectId: string,
   serviceId: string,
-  modeOverride?: 'native' | 'container'
+  modeOverride?: 'native' | 'container',
+  portConflictResolution?: PortConflictResolution
 ): Promise<void> {
-  const { project, projectConfig, service } = await getServiceContext(registry, config, projectId, serviceId)
+  const context = await getRuntimeServiceContext(registry, config, projectId, serviceId)
+  const { project, projectConfig } = context
+
+  const effectiveMode = modeOverride ?? context.service.mode
+
+  // Check the env before claiming the port, which may stop a foreign process
+  // Secrets are resolved once per start, also when the service moves to another port
+  const loadedEnv = await loadServiceSecrets(secrets, project.path, projectConfig, context.service)
+  const preflightEnv = buildServiceEnv(config, loadedEnv, project.path, projectConfig, context.service, effectiveMode)
+  const missingEnv = await findMissingEnv(project.path, context.service, preflightEnv.env, effectiveMode)
+  if (missingEnv?.blocking) {
+    throw new MissingEnvError(missingEnv)
+  }
+  logManager.setSecrets(projectId, serviceId, preflightEnv.secretValues)
+
+  // Free the port first: moving the service to another port changes its PORT env var
+  const service = effectiveMode === 'native'
+    ? await claimPort(
+        container,
+        config,
+        registry,
+        context,
+        portConflictResolution,
+        createServiceCallbacks(logManager, projectId, serviceId).sendLog
+      )
+    : context.service
 
   // Create callbacks with stats tracking
   const callbacks = createServiceCallbacks(
@@ -136,29 +514,13 @@ async function startServiceCore(
     serviceId,
     statsManager,
     projectConfig.name,
-    service
+    service,
+    effectiveMode === 'native' ? () => container.getNativeRestartInfo(serviceId) : undefined
   )
-
-  const effectiveMode = modeOverride ?? service.mode
-  const { env: resolvedEnv, errors: interpolationErrors } = config.interpolateEnv(service.env, projectConfig.services)
-
-  let finalEnv: Record<string, string>
-  if (effectiveMode === 'container') {
-    const rewrittenEnv = rewriteLocalhostForContainer(resolvedEnv, projectConfig.services)
-    finalEnv = service.containerEnvOverrides
-      ? applyContainerEnvOverrides(rewrittenEnv, service.containerEnvOverrides)
-      : rewrittenEnv
-  } else {
-    finalEnv = { ...resolvedEnv }
-  }
-
-  // Inject PORT and DEBUG_PORT environment variables
-  if (service.port !== undefined) {
-    finalEnv.PORT = String(service.port)
-  }
-  if (service.debugPort !== undefined) {
-    finalEnv.DEBUG_PORT = String(service.debugPort)
-  }
+  const { layeredEnv, env: serviceEnv, warnings: envWarnings, secretKeys, secretValues } = service === context.service
+    ? preflightEnv
+    : buildServiceEnv(config, loadedEnv, project.path, projectConfig, service, effectiveMode)
+  let finalEnv = serviceEnv
 
   // Resolve debug command: prefer debugCommand, fallback to NODE_OPTIONS injection
   const { command: effectiveCommand, env: debugEnv } = resolveServiceCommand(service, finalEnv)
@@ -170,33 +532,58 @@ async function startServiceCore(
     log.info(`Debug mode: injected NODE_OPTIONS=${finalEnv.NODE_OPTIONS}`)
   }
 
-  // Store runtime env for UI access
+  // Anything not from an env file or service.env was added by Simple Local
+  const sources: Record<string, EnvVarSource> = {}
+  for (const key of Object.keys(finalEnv)) {
+    sources[key] = layeredEnv.sources[key] ?? { type: 'injected' }
+  }
+
+  // Store runtime env for UI access, with secrets masked
   runtimeEnvManager.store(projectId, serviceId, {
-    raw: service.env,
-    final: finalEnv,
-    warnings: interpolationErrors,
+    command: service.command,
+    port: service.port,
+    envFiles: service.envFiles,
+    raw: layeredEnv.env,
+    final: maskEnv(finalEnv, secretKeys, secretValues),
+    sources,
+    secrets: secretKeys,
+    warnings: envWarnings,
     mode: effectiveMode,
     startedAt: Date.now(),
   })
 
   const servicePath = `${project.path}/${service.path}`
 
-  const { sendLog, sendStatus } = callbacks
+  // Probe the port the service will actually listen on
+  container.clearReadinessState(projectConfig.name, serviceId)
+  const { readinessProbe } = service
+  const beginReadinessCheck = (probe: NonNullable<Service['readinessProbe']>) => container.beginReadinessCheck(
+    projectConfig.name,
+    serviceId,
+    probe,
+    service.hardcodedPort?.value ?? service.port
+  )
+  const readiness = readinessProbe ? beginReadinessCheck(readinessProbe) : null
+
+  const { sendLog, sendStatus } = readiness && readinessProbe
+    ? withReadiness(callbacks, readiness, () => {
+        container.clearReadinessState(projectConfig.name, serviceId)
+        const check = beginReadinessCheck(readinessProbe)
+        // Nobody awaits a restart: waitUntilReady reports a failure as the service's status and log
+        waitUntilReady(container, projectConfig.name, serviceId, check, callbacks).catch(() => {})
+        return check
+      })
+    : callbacks
 
-  // Warn about interpolation errors in service logs
-  if (interpolationErrors.length > 0) {
-    sendLog(`Warning: Environment variable interpolation issues:\n${interpolationErrors.map(e => `  - ${e}`).join('\n')}\n`)
+  // Warn about env file and interpolation errors, and vars from example env files that are not set
+  if (missingEnv) {
+    envWarnings.push(...missingEnv.missing.map((v) => `'${v.key}' is listed in ${v.source} but not set`))
+  }
+  if (envWarnings.length > 0) {
+    sendLog(`Warning: Environment variable issues:\n${envWarnings.map(e => `  - ${e}`).join('\n')}\n`)
   }
 
   if (effectiveMode === 'native') {
-    // Kill process on the port the service will actually use
-    const portToKill = service.hardcodedPort?.value ?? service.port
-    if (portToKill) {
-      const killed = await container.killProcessOnPortAsync(portToKill)
-      if (killed) {
-        sendLog(`Killed existing process on port ${portToKill}\n`)
-      }
-    }
     try {
       container.startNativeService(
         serviceId,
@@ -204,13 +591,40 @@ async function startServiceCore(
         servicePath,
         finalEnv,
         sendLog,
-        sendStatus
+        sendStatus,
+        service.restartPolicy,
+        projectId
       )
     } catch (err) {
       sendStatus('error')
       sendLog(`Failed to start: ${err instanceof Error ? err.message : 'Unknown error'}\n`)
       throw err
     }
+    if (readiness) {
+      await waitUntilReady(container, projectConfig.name, serviceId, readiness, callbacks)
+    }
+  } else if (service.infrastructure) {
+    sendStatus('starting')
+    sendLog('══════ Starting infrastructure service ══════\n')
+
+    try {
+      await container.startInfrastructureService(
+        container.getContainerName(projectConfig.name, serviceId),
+        service.infrastructure.compose
+          ? buildComposeSpec(service, finalEnv, project.path)
+          : buildInfrastructureSpec(service, finalEnv),
+        { projectName: projectConfig.name, alias: serviceId },
+        sendLog
+      )
+    } catch (err) {
+      sendStatus('error')
+      sendLog(`Failed to start: ${err instanceof Error ? err.message : 'Unknown error'}\n`)
+      throw err
+    }
+    sendStatus('running')
+    if (readiness) {
+      await waitUntilReady(container, projectConfig.name, serviceId, readiness, callbacks)
+    }
   } else {
     const devcontainerConfigPath = buildDevcontainerPath(project.path, service.id)
 
@@ -228,39 +642,105 @@ async function startServiceCore(
     sendStatus('starting')
     sendLog('\n══════ Starting service ══════\n')
 
-    await container.startService(servicePath, devcontainerConfigPath, effectiveCommand, finalEnv, sendLog)
+    // Track the command inside the container so its exit is reported
+    await container.startService(servicePath, devcontainerConfigPath, effectiveCommand, finalEnv, sendLog, {
+      containerName: container.getContainerName(projectConfig.name, serviceId),
+      onStatusChange: sendStatus,
+      network: { projectName: projectConfig.name, alias: serviceId },
+    })
     sendStatus('running')
+    if (readiness) {
+      await waitUntilReady(container, projectConfig.name, serviceId, readiness, callbacks)
+    }
   }
 }
 
 export interface ServiceHandlersResult {
   getLogBuffer: (projectId: string, serviceId: string) => string[]
-  startService: (projectId: string, serviceId: string, mode?: 'native' | 'container') => Promise<void>
+  startService: (
+    projectId: string,
+    serviceId: string,
+    mode?: 'native' | 'container',
+    portConflictResolution?: PortConflictResolution
+  ) => Promise<void>
   stopService: (projectId: string, serviceId: string) => Promise<void>
+  restartService: (
+    projectId: string,
+    serviceId: string,
+    portConflictResolution?: PortConflictResolution
+  ) => Promise<void>
+  startProject: (projectId: string, portConflictResolution?: PortConflictResolution) => Promise<void>
+  stopProject: (projectId: string) => Promise<void>
+  adoptOrphanedServices: () => Promise<void>
   cleanupProjectLogs: (projectId: string) => void
+  getRestartNeeded: (projectId: string, projectPath: string, projectConfig: ProjectConfig) => Promise<string[]>
+  switchProfile: (projectId: string, profile: string | null) => Promise<ProfileSwitchResult>
   disposeStatsManager: () => void
 }
 
 /**
  * Sets up IPC handlers for service lifecycle management.
- * Handles: service:start, service:stop, service:status, service:logs:*
+ * Handles: service:start, service:check-env, service:stop, service:restart, service:status, service:logs:*,
+ * project:start, project:stop, project:set-profile, process:orphans*
  */
 export function setupServiceHandlers(
   container: ContainerService,
   config: ProjectConfigService,
   registry: RegistryService,
-  logManager: LogManager = new LogManager()
+  secrets: SecretResolver = new SecretResolver(),
+  logManager: LogManager = new LogManager(),
+  onProfileSwitched: () => void = () => {}
 ): ServiceHandlersResult {
   const statsManager = new StatsManager(container)
   const runtimeEnvManager = new RuntimeEnvManager()
 
-  ipcMain.handle('service:start', async (_event, projectId: string, serviceId: string) => {
+  /**
+   * Sets the secrets to mask in the logs of a service that was not started in
+   * this session, e.g. a container left running or an adopted native process.
+   * A failure is logged: the output is then shown as is.
+   */
+  const registerRunningServiceSecrets = async (projectId: string, serviceId: string): Promise<void> => {
+    if (logManager.hasSecrets(projectId, serviceId)) return
+    try {
+      const { project, projectConfig, service } = await getRuntimeServiceContext(registry, config, projectId, serviceId)
+      const { secretValues } = await loadServiceSecrets(secrets, project.path, projectConfig, service)
+      logManager.setSecrets(projectId, serviceId, secretValues)
+    } catch (err) {
+      log.error(`Failed to resolve secrets to mask in the logs of ${serviceId}:`, err)
+    }
+  }
+
+  ipcMain.handle('service:start', async (
+    _event,
+    projectId: string,
+    serviceId: string,
+    portConflictResolution?: PortConflictResolution
+  ): Promise<PortConflict | null> => {
     logManager.clearBuffer(projectId, serviceId)
-    await startServiceCore(container, config, registry, logManager, statsManager, runtimeEnvManager, projectId, serviceId)
+    try {
+      await startServiceCore(
+        container, config, registry, logManager, statsManager, runtimeEnvManager, secrets,
+        projectId, serviceId, undefined, portConflictResolution
+      )
+      return null
+    } catch (err) {
+      // Let the renderer ask the user instead of showing an error
+      if (err instanceof PortConflictError) return err.conflict
+      throw err
+    }
+  })
+
+  // Pre-flight check the renderer runs before a start, to ask about missing env vars
+  ipcMain.handle('service:check-env', async (_event, projectId: string, serviceId: string): Promise<MissingEnv | null> => {
+    const { project, projectConfig, service } = await getRuntimeServiceContext(registry, config, projectId, serviceId)
+    // Secret references count as set: they are only resolved when the service starts
+    const loaded = await loadServiceSecrets(undefined, project.path, projectConfig, service)
+    const { env } = buildServiceEnv(config, loaded, project.path, projectConfig, service, service.mode)
+    return findMissingEnv(project.path, service, env, service.mode)
   })
 
   ipcMain.handle('service:stop', async (_event, projectId: string, serviceId: string) => {
-    const { projectConfig, service } = await getServiceContext(registry, config, projectId, serviceId)
+    const { projectConfig, service } = await getRuntimeServiceContext(registry, config, projectId, serviceId)
 
     // Untrack from stats polling
     statsManager.untrackService(projectId, serviceId)
@@ -268,6 +748,9 @@ export function setupServiceHandlers(
     // Clear runtime env
     runtimeEnvManager.clear(projectId, serviceId)
 
+    // Abort a pending readiness probe so it doesn't report a failure
+    container.clearReadinessState(projectConfig.name, serviceId)
+
     if (service.mode === 'native') {
       await container.stopNativeService(serviceId)
     } else {
@@ -280,9 +763,31 @@ export function setupServiceHandlers(
     return runtimeEnvManager.get(projectId, serviceId)
   })
 
+  /**
+   * Running services of a project whose config, with its active profile
+   * applied, changed since they were started.
+   */
+  const getRestartNeeded = async (projectId: string, projectPath: string, projectConfig: ProjectConfig): Promise<string[]> => {
+    const restartNeeded: string[] = []
+    for (const service of applyProfile(projectConfig, getActiveProfile(registry, projectId)).services) {
+      const runtime = runtimeEnvManager.get(projectId, service.id)
+      if (!runtime) continue
+
+      // Infrastructure services run their image directly, without a devcontainer
+      const devcontainerModifiedAt = runtime.mode === 'container' && !service.infrastructure
+        ? await getModifiedTime(buildDevcontainerPath(projectPath, service.id))
+        : undefined
+      if (runtimeEnvManager.needsRestart(projectId, service, devcontainerModifiedAt)) {
+        restartNeeded.push(service.id)
+      }
+    }
+    return restartNeeded
+  }
+
   ipcMain.handle('service:status', async (_event, projectId: string) => {
     try {
-      const { projectConfig } = await getProjectContext(registry, config, projectId)
+      const { project, projectConfig, savedConfig } = await getRuntimeProjectContext(registry, config, projectId)
+      const restartNeeded = new Set(await getRestartNeeded(projectId, project.path, savedConfig))
 
       const statuses = await Promise.all(
         projectConfig.services.map(async (service) => {
@@ -293,6 +798,10 @@ export function setupServiceHandlers(
             containerId: service.mode === 'container'
               ? container.getContainerName(projectConfig.name, service.id)
               : undefined,
+            restart: service.mode === 'native'
+              ? container.getNativeRestartInfo(service.id)
+              : undefined,
+            restartNeeded: restartNeeded.has(service.id) || undefined,
           }
         })
       )
@@ -310,16 +819,17 @@ export function setupServiceHandlers(
 
   ipcMain.handle('service:logs:start', async (event, projectId: string, serviceId: string) => {
     try {
-      const { projectConfig, service } = await getServiceContext(registry, config, projectId, serviceId)
+      const { projectConfig, service } = await getRuntimeServiceContext(registry, config, projectId, serviceId)
 
       // Native services get logs via sendLog callback — no Docker stream needed
       if (service.mode === 'native') return
 
       const containerName = container.getContainerName(projectConfig.name, serviceId)
+      await registerRunningServiceSecrets(projectId, serviceId)
 
-      const cleanup = await container.streamLogs(containerName, (data) => {
+      const cleanup = await container.streamLogs(containerName, (data, stream) => {
         const win = BrowserWindow.fromWebContents(event.sender)
-        win?.webContents.send('service:logs:data', { projectId, serviceId, data })
+        win?.webContents.send('service:logs:data', { projectId, serviceId, data: logManager.mask(projectId, serviceId, data, stream), stream })
       })
 
       // registerCleanup will call existing cleanup if present
@@ -339,7 +849,7 @@ export function setupServiceHandlers(
   })
 
   ipcMain.handle('service:logs:get', (_event, projectId: string, serviceId: string) => {
-    return logManager.getBuffer(projectId, serviceId)
+    return logManager.getEntries(projectId, serviceId)
   })
 
   ipcMain.handle('service:logs:clear', (_event, projectId: string, serviceId: string) => {
@@ -348,7 +858,7 @@ export function setupServiceHandlers(
 
   ipcMain.handle('service:stats', async (_event, projectId: string, serviceId: string) => {
     try {
-      const { projectConfig, service } = await getServiceContext(registry, config, projectId, serviceId)
+      const { projectConfig, service } = await getRuntimeServiceContext(registry, config, projectId, serviceId)
       return await container.getServiceStats(service, projectConfig.name)
     } catch (err) {
       if (err instanceof Error && !isLookupError(err)) {
@@ -362,13 +872,21 @@ export function setupServiceHandlers(
     return logManager.getBuffer(projectId, serviceId)
   }
 
-  const startService = async (projectId: string, serviceId: string, modeOverride?: 'native' | 'container'): Promise<void> => {
+  const startService = async (
+    projectId: string,
+    serviceId: string,
+    modeOverride?: 'native' | 'container',
+    portConflictResolution?: PortConflictResolution
+  ): Promise<void> => {
     logManager.clearBuffer(projectId, serviceId)
-    await startServiceCore(container, config, registry, logManager, statsManager, runtimeEnvManager, projectId, serviceId, modeOverride)
+    await startServiceCore(
+      container, config, registry, logManager, statsManager, runtimeEnvManager, secrets,
+      projectId, serviceId, modeOverride, portConflictResolution
+    )
   }
 
   const stopService = async (projectId: string, serviceId: string): Promise<void> => {
-    const { projectConfig, service } = await getServiceContext(registry, config, projectId, serviceId)
+    const { projectConfig, service } = await getRuntimeServiceContext(registry, config, projectId, serviceId)
 
     // Untrack from stats polling
     statsManager.untrackService(projectId, serviceId)
@@ -376,6 +894,9 @@ export function setupServiceHandlers(
     // Clear runtime env
     runtimeEnvManager.clear(projectId, serviceId)
 
+    // Abort a pending readiness probe so it doesn't report a failure
+    container.clearReadinessState(projectConfig.name, serviceId)
+
     if (service.mode === 'native') {
       await container.stopNativeService(serviceId)
     } else {
@@ -384,6 +905,252 @@ export function setupServiceHandlers(
     }
   }
 
+  /**
+   * Restart a service. A container service whose command is still running only
+   * reruns the command inside the container; everything else is stopped and started again.
+   */
+  const restartService = async (
+    projectId: string,
+    serviceId: string,
+    portConflictResolution?: PortConflictResolution
+  ): Promise<void> => {
+    const { projectConfig, service } = await getRuntimeServiceContext(registry, config, projectId, serviceId)
+
+    if (service.mode === 'container') {
+      const containerName = container.getContainerName(projectConfig.name, serviceId)
+      if (container.isContainerCommandRunning(containerName)) {
+        const { sendLog, sendStatus } = createServiceCallbacks(logManager, projectId, serviceId)
+        sendLog('\n══════ Restarting service command ══════\n')
+        if (await container.restartContainerCommand(containerName)) {
+          sendStatus('running')
+          return
+        }
+      }
+    }
+
+    await stopService(projectId, serviceId)
+    await startService(projectId, serviceId, undefined, portConflictResolution)
+  }
+
+  ipcMain.handle('service:restart', async (
+    _event,
+    projectId: string,
+    serviceId: string,
+    portConflictResolution?: PortConflictResolution
+  ): Promise<PortConflict | null> => {
+    try {
+      await restartService(projectId, serviceId, portConflictResolution)
+      return null
+    } catch (err) {
+      if (err instanceof PortConflictError) return err.conflict
+      throw err
+    }
+  })
+
+  /**
+   * Start all active services of a project, dependencies first.
+   * Services that are already running are skipped. Stops at the first
+   * failure so dependents are not started against a broken dependency.
+   * Port conflicts and missing env vars are rethrown as is so callers can
+   * resolve them and retry.
+   */
+  const startProject = async (projectId: string, portConflictResolution?: PortConflictResolution): Promise<void> => {
+    const { projectConfig } = await getRuntimeProjectContext(registry, config, projectId)
+    const ordered = resolveStartOrder(projectConfig.services.filter((s) => s.active !== false))
+
+    for (const service of ordered) {
+      const status = await container.getServiceStatus(service, projectConfig.name)
+      if (status !== 'stopped' && status !== 'error') continue
+
+      try {
+        await startService(projectId, service.id, undefined, portConflictResolution)
+      } catch (err) {
+        if (err instanceof PortConflictError || err instanceof MissingEnvError) throw err
+        throw new Error(`Failed to start ${service.name}: ${err instanceof Error ? err.message : 'Unknown error'}`)
+      }
+    }
+  }
+
+  /**
+   * Stop all running services of a project in reverse dependency order.
+   * Keeps going when a single service fails to stop and reports all failures at the end.
+   */
+  const stopProject = async (projectId: string): Promise<void> => {
+    const { projectConfig } = await getRuntimeProjectContext(registry, config, projectId)
+    const ordered = resolveStopOrder(projectConfig.services.filter((s) => s.active !== false))
+    const failures: string[] = []
+
+    for (const service of ordered) {
+      const status = await container.getServiceStatus(service, projectConfig.name)
+      if (status === 'stopped') continue
+
+      try {
+        await stopService(projectId, service.id)
+      } catch (err) {
+        log.error(`Failed to stop ${service.id}:`, err)
+        failures.push(`${service.name}: ${err instanceof Error ? err.message : 'Unknown error'}`)
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new Error(`Failed to stop services:\n${failures.join('\n')}`)
+    }
+  }
+
+  ipcMain.handle('project:start', async (_event, projectId: string): Promise<PortConflict | MissingEnv | null> => {
+    try {
+      await startProject(projectId)
+      return null
+    } catch (err) {
+      // Let the renderer ask the user about the service that stopped the start
+      if (err instanceof PortConflictError) return err.conflict
+      if (err instanceof MissingEnvError) return err.missingEnv
+      throw err
+    }
+  })
+
+  ipcMain.handle('project:stop', async (_event, projectId: string) => {
+    await stopProject(projectId)
+  })
+
+  /**
+   * Make a profile the project's active one, or go back to the saved config
+   * with null. Running services the switch changes are stopped with their old
+   * settings and started again with the new ones, unless the new profile
+   * deactivates them. Stopped services stay stopped, including the ones the
+   * profile activates: like any other service, they start with Start All.
+   * Keeps going when a single service fails and reports all failures; a
+   * service that failed to stop is not started again.
+   * @throws Error if the config defines no such profile
+   */
+  const switchProfile = async (projectId: string, profile: string | null): Promise<ProfileSwitchResult> => {
+    const { projectConfig, savedConfig } = await getRuntimeProjectContext(registry, config, projectId)
+    if (profile !== null && !savedConfig.profiles?.[profile]) {
+      throw new Error(`Profile '${profile}' not found`)
+    }
+
+    const changed = new Set(getProfileChanges(savedConfig, getActiveProfile(registry, projectId), profile ?? undefined))
+    const affected = resolveStopOrder(
+      projectConfig.services.filter((s) => changed.has(s.id) && runtimeEnvManager.get(projectId, s.id))
+    )
+
+    const failures: string[] = []
+    const stoppedIds = new Set<string>()
+
+    for (const service of affected) {
+      try {
+        await stopService(projectId, service.id)
+        stoppedIds.add(service.id)
+      } catch (err) {
+        log.error(`Failed to stop ${service.id} for profile switch:`, err)
+        failures.push(`${service.name}: ${err instanceof Error ? err.message : 'Unknown error'}`)
+      }
+    }
+
+    registry.updateProject(projectId, { activeProfile: profile ?? undefined })
+    onProfileSwitched()
+
+    const switched = applyProfile(savedConfig, profile ?? undefined)
+    const toStart = resolveStartOrder(switched.services.filter((s) => stoppedIds.has(s.id) && s.active !== false))
+    for (const service of toStart) {
+      try {
+        await startService(projectId, service.id)
+      } catch (err) {
+        log.error(`Failed to start ${service.id} for profile switch:`, err)
+        failures.push(`${service.name}: ${err instanceof Error ? err.message : 'Unknown error'}`)
+      }
+    }
+
+    return { affected: affected.map((s) => s.id), failures }
+  }
+
+  ipcMain.handle('project:set-profile', async (_event, projectId: string, profile: string | null) => {
+    return switchProfile(projectId, profile)
+  })
+
+  // Adopted groups no service claimed, kept until the user stops or releases them
+  let unclaimedOrphans: PersistedProcessGroup[] = []
+
+  const toOrphanedProcessGroup = (record: PersistedProcessGroup): OrphanedProcessGroup => ({
+    projectId: record.projectId,
+    projectName: registry.getRegistry().projects.find((p) => p.id === record.projectId)?.name,
+    serviceId: record.serviceId,
+    pgid: record.pgid,
+    command: record.command,
+    cwd: record.cwd,
+  })
+
+  const takeUnclaimedOrphan = (pgid: number): PersistedProcessGroup => {
+    const record = unclaimedOrphans.find((o) => o.pgid === pgid)
+    if (!record) throw new Error(`Process group ${pgid} is not an unclaimed orphan`)
+    unclaimedOrphans = unclaimedOrphans.filter((o) => o !== record)
+    return record
+  }
+
+  ipcMain.handle('process:orphans', (): OrphanedProcessGroup[] => {
+    return unclaimedOrphans.map(toOrphanedProcessGroup)
+  })
+
+  ipcMain.handle('process:orphans:stop', async (_event, pgid: number) => {
+    await container.stopOrphanedNativeProcess(takeUnclaimedOrphan(pgid))
+  })
+
+  ipcMain.handle('process:orphans:keep', (_event, pgid: number) => {
+    container.releaseOrphanedNativeProcess(takeUnclaimedOrphan(pgid))
+  })
+
+  /**
+   * Re-adopt native services left running by a previous app session.
+   * Adopted services report status and stats again and can be stopped.
+   * Groups that no registered service claims are offered to the user to
+   * stop or leave running; until then they are stopped on quit.
+   */
+  const adoptOrphanedServices = async (): Promise<void> => {
+    const orphans = await container.adoptOrphanedNativeProcesses()
+    if (orphans.length === 0) return
+
+    const claimed = new Set<PersistedProcessGroup>()
+    for (const project of registry.getRegistry().projects) {
+      let projectConfig
+      try {
+        projectConfig = await config.loadConfig(project.path)
+      } catch (err) {
+        log.error(`Failed to load config for ${project.name}:`, err)
+        continue
+      }
+      if (!projectConfig) continue
+
+      for (const service of projectConfig.services) {
+        const orphan = orphans.find(
+          (o) => o.projectId === project.id && o.serviceId === service.id && container.isTrackedProcessGroup(o.pgid)
+        )
+        if (!orphan || service.mode !== 'native') continue
+
+        claimed.add(orphan)
+        await registerRunningServiceSecrets(project.id, service.id)
+        const { sendLog, sendStatus } = createServiceCallbacks(
+          logManager,
+          project.id,
+          service.id,
+          statsManager,
+          projectConfig.name,
+          service
+        )
+        sendLog(`Re-adopted process group ${orphan.pgid} (${orphan.command}) from a previous session. Earlier output is not available.\n`)
+        sendStatus('running')
+      }
+    }
+
+    unclaimedOrphans = orphans.filter((o) => !claimed.has(o))
+    if (unclaimedOrphans.length === 0) return
+
+    log.warn(`${unclaimedOrphans.length} adopted process group(s) have no matching service`)
+    const payload = unclaimedOrphans.map(toOrphanedProcessGroup)
+    for (const win of BrowserWindow.getAllWindows()) {
+      win.webContents.send('process:orphans:found', payload)
+    }
+  }
+
   const cleanupProjectLogs = (projectId: string): void => {
     logManager.cleanupProject(projectId)
   }
@@ -392,5 +1159,5 @@ export function setupServiceHandlers(
     statsManager.dispose()
   }
 
-  return { getLogBuffer, startService, stopService, cleanupProjectLogs, disposeStatsManager }
+  return { getLogBuffer, startService, stopService, restartService, startProject, stopProject, adoptOrphanedServices, cleanupProjectLogs, getRestartNeeded, switchProfile, disposeStatsManager }
 }
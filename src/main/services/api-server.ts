@@ -1,8 +1,11 @@
 import { createServer, IncomingMessage, ServerResponse } from 'http'
 import type { RegistryService } from './registry'
 import type { ContainerService } from './container'
-import type { ProjectConfigService } from './project-config'
+import type { ProjectConfigError, ProjectConfigService } from './project-config'
 import { McpHandler } from './mcp-handler'
+import { DependencyCycleError } from './dependency-order'
+import { PortConflictError, isPortConflictResolution } from './port-conflict'
+import { MissingEnvError } from './env-check'
 import {
   findProject,
   tryGetProjectContext,
@@ -10,6 +13,7 @@ import {
   type ServiceLookupError
 } from './service-lookup'
 import { createLogger } from '../../shared/logger'
+import type { PortConflictResolution } from '../../shared/types'
 
 const log = createLogger('API')
 
@@ -22,19 +26,40 @@ function sendJson(res: ServerResponse, data: unknown, status = 200): void {
   res.end(JSON.stringify(data))
 }
 
-function sendError(res: ServerResponse, status: number, message: string, code: string): void {
+function sendError(res: ServerResponse, status: number, message: string, code: string, details?: unknown): void {
   res.writeHead(status)
-  res.end(JSON.stringify({ error: message, code }))
+  res.end(JSON.stringify(details === undefined ? { error: message, code } : { error: message, code, details }))
 }
 
-function sendLookupError(res: ServerResponse, error: ServiceLookupError): void {
-  const errorMap: Record<ServiceLookupError, { message: string; code: string }> = {
-    PROJECT_NOT_FOUND: { message: 'Project not found', code: 'NOT_FOUND' },
-    CONFIG_NOT_FOUND: { message: 'Project config not found', code: 'NOT_FOUND' },
-    SERVICE_NOT_FOUND: { message: 'Service not found', code: 'NOT_FOUND' },
+/**
+ * Send a failed start as 409 PORT_CONFLICT with the conflict details, as
+ * 422 ENV_MISSING with the missing env vars, or as a plain 500.
+ */
+function sendStartError(res: ServerResponse, err: unknown, fallbackMessage: string, code: string): void {
+  if (err instanceof PortConflictError) {
+    sendError(res, 409, err.message, err.code, err.conflict)
+    return
+  }
+  if (err instanceof MissingEnvError) {
+    sendError(res, 422, err.message, err.code, err.missingEnv)
+    return
   }
-  const { message, code } = errorMap[error]
-  sendError(res, 404, message, code)
+  sendError(res, 500, err instanceof Error ? err.message : fallbackMessage, code)
+}
+
+/**
+ * Send a failed lookup as 404 NOT_FOUND, or as 422 CONFIG_INVALID with the
+ * validation issues as details.
+ */
+function sendLookupError(res: ServerResponse, error: ServiceLookupError, configError?: ProjectConfigError): void {
+  const errorMap: Record<ServiceLookupError, { status: number; message: string; code: string }> = {
+    PROJECT_NOT_FOUND: { status: 404, message: 'Project not found', code: 'NOT_FOUND' },
+    CONFIG_NOT_FOUND: { status: 404, message: 'Project config not found', code: 'NOT_FOUND' },
+    CONFIG_INVALID: { status: 422, message: 'Project config is invalid', code: 'CONFIG_INVALID' },
+    SERVICE_NOT_FOUND: { status: 404, message: 'Service not found', code: 'NOT_FOUND' },
+  }
+  const { status, message, code } = errorMap[error]
+  sendError(res, status, configError?.message ?? message, code, configError?.issues)
 }
 
 // ============================================================================
@@ -47,8 +72,20 @@ export interface ApiServerOptions {
   container: ContainerService
   config: ProjectConfigService
   getLogBuffer?: (projectId: string, serviceId: string) => string[]
-  onServiceStart?: (projectId: string, serviceId: string, mode?: 'native' | 'container') => Promise<void>
+  onServiceStart?: (
+    projectId: string,
+    serviceId: string,
+    mode?: 'native' | 'container',
+    portConflictResolution?: PortConflictResolution
+  ) => Promise<void>
   onServiceStop?: (projectId: string, serviceId: string) => Promise<void>
+  onServiceRestart?: (
+    projectId: string,
+    serviceId: string,
+    portConflictResolution?: PortConflictResolution
+  ) => Promise<void>
+  onProjectStart?: (projectId: string, portConflictResolution?: PortConflictResolution) => Promise<void>
+  onProjectStop?: (projectId: string) => Promise<void>
 }
 
 export interface ApiServer {
@@ -68,6 +105,7 @@ interface RouteContext {
   req: IncomingMessage
   res: ServerResponse
   params: RouteParams
+  query: URLSearchParams
   options: ApiServerOptions
   mcpHandler: McpHandler
 }
@@ -75,6 +113,18 @@ interface RouteContext {
 /** Route handler function type */
 type RouteHandler = (ctx: RouteContext) => Promise<void>
 
+/**
+ * Read the optional ?onPortConflict=kill|next-port parameter of start routes.
+ * @returns The resolution or undefined if absent; null after responding 400 to an invalid value
+ */
+function getPortConflictResolution(ctx: RouteContext): PortConflictResolution | undefined | null {
+  const value = ctx.query.get('onPortConflict')
+  if (value === null) return undefined
+  if (isPortConflictResolution(value)) return value
+  sendError(ctx.res, 400, 'onPortConflict must be "kill" or "next-port"', 'INVALID_PARAMETER')
+  return null
+}
+
 // ============================================================================
 // Route Handlers
 // ============================================================================
@@ -88,6 +138,7 @@ async function handleListProjects(ctx: RouteContext): Promise<void> {
       name: p.name,
       path: p.path,
       status: p.status,
+      activeProfile: p.activeProfile ?? null,
     }))
   })
 }
@@ -114,6 +165,7 @@ async function handleGetProject(ctx: RouteContext): Promise<void> {
       status: project.status,
       portRange: project.portRange,
       debugPortRange: project.debugPortRange,
+      activeProfile: project.activeProfile ?? null,
     }
   })
 }
@@ -126,8 +178,8 @@ async function handleListServices(ctx: RouteContext): Promise<void> {
   const result = await tryGetProjectContext(registry, config, projectId)
 
   if (!result.success) {
-    if (result.error === 'PROJECT_NOT_FOUND') {
-      sendLookupError(res, result.error)
+    if (result.error !== 'CONFIG_NOT_FOUND') {
+      sendLookupError(res, result.error, result.configError)
       return
     }
     // CONFIG_NOT_FOUND: return empty services array (matches previous behavior)
@@ -160,7 +212,7 @@ async function handleGetService(ctx: RouteContext): Promise<void> {
   const result = await tryGetServiceContext(registry, config, projectId!, serviceId!)
 
   if (!result.success) {
-    sendLookupError(res, result.error)
+    sendLookupError(res, result.error, result.configError)
     return
   }
 
@@ -211,15 +263,18 @@ async function handleStartService(ctx: RouteContext): Promise<void> {
   const result = await tryGetServiceContext(registry, config, projectId!, serviceId!)
 
   if (!result.success) {
-    sendLookupError(res, result.error)
+    sendLookupError(res, result.error, result.configError)
     return
   }
 
+  const resolution = getPortConflictResolution(ctx)
+  if (resolution === null) return
+
   try {
-    await options.onServiceStart?.(projectId!, serviceId!)
+    await options.onServiceStart?.(projectId!, serviceId!, undefined, resolution)
     sendJson(res, { success: true })
   } catch (err) {
-    sendError(res, 500, err instanceof Error ? err.message : 'Failed to start service', 'START_FAILED')
+    sendStartError(res, err, 'Failed to start service', 'START_FAILED')
   }
 }
 
@@ -231,7 +286,7 @@ async function handleStopService(ctx: RouteContext): Promise<void> {
   const result = await tryGetServiceContext(registry, config, projectId!, serviceId!)
 
   if (!result.success) {
-    sendLookupError(res, result.error)
+    sendLookupError(res, result.error, result.configError)
     return
   }
 
@@ -243,6 +298,23 @@ async function handleStopService(ctx: RouteContext): Promise<void> {
   }
 }
 
+/**
+ * Restart a service via the restart callback, falling back to stop and start.
+ */
+async function restartService(
+  options: ApiServerOptions,
+  projectId: string,
+  serviceId: string,
+  portConflictResolution?: PortConflictResolution
+): Promise<void> {
+  if (options.onServiceRestart) {
+    await options.onServiceRestart(projectId, serviceId, portConflictResolution)
+    return
+  }
+  await options.onServiceStop?.(projectId, serviceId)
+  await options.onServiceStart?.(projectId, serviceId, undefined, portConflictResolution)
+}
+
 async function handleRestartService(ctx: RouteContext): Promise<void> {
   const { res, params, options } = ctx
   const { registry, config } = options
@@ -251,16 +323,67 @@ async function handleRestartService(ctx: RouteContext): Promise<void> {
   const result = await tryGetServiceContext(registry, config, projectId!, serviceId!)
 
   if (!result.success) {
-    sendLookupError(res, result.error)
+    sendLookupError(res, result.error, result.configError)
     return
   }
 
+  const resolution = getPortConflictResolution(ctx)
+  if (resolution === null) return
+
   try {
-    await options.onServiceStop?.(projectId!, serviceId!)
-    await options.onServiceStart?.(projectId!, serviceId!)
+    await restartService(options, projectId!, serviceId!, resolution)
     sendJson(res, { success: true })
   } catch (err) {
-    sendError(res, 500, err instanceof Error ? err.message : 'Failed to restart service', 'RESTART_FAILED')
+    sendStartError(res, err, 'Failed to restart service', 'RESTART_FAILED')
+  }
+}
+
+async function handleStartProject(ctx: RouteContext): Promise<void> {
+  const { res, params, options } = ctx
+  const { registry, config } = options
+
+  const result = await tryGetProjectContext(registry, config, params.projectId!)
+
+  if (!result.success) {
+    sendLookupError(res, result.error, result.configError)
+    return
+  }
+
+  const resolution = getPortConflictResolution(ctx)
+  if (resolution === null) return
+
+  try {
+    await options.onProjectStart?.(params.projectId!, resolution)
+    sendJson(res, { success: true })
+  } catch (err) {
+    if (err instanceof DependencyCycleError) {
+      sendError(res, 409, err.message, 'DEPENDENCY_CYCLE')
+      return
+    }
+    sendStartError(res, err, 'Failed to start project', 'START_FAILED')
+  }
+}
+
+async function handleStopProject(ctx: RouteContext): Promise<void> {
+  const { res, params, options } = ctx
+  const { registry, config } = options
+
+  const result = await tryGetProjectContext(registry, config, params.projectId!)
+
+  if (!result.success) {
+    sendLookupError(res, result.error, result.configError)
+    return
+  }
+
+  try {
+    await options.onProjectStop?.(params.projectId!)
+    sendJson(res, { success: true })
+  } catch (err) {
+    if (err instanceof DependencyCycleError) {
+      sendError(res, 409, err.message, 'DEPENDENCY_CYCLE')
+      return
+    }
+    sendError(res, 500, err instanceof Error ? err.message : 'Failed to stop project', 'STOP_FAILED')
   }
 }
 
@@ -303,6 +426,10 @@ const routes: Route[] = [
   { method: 'GET', pattern: /^\/projects$/, paramNames: [], handler: handleListProjects },
   { method: 'GET', pattern: /^\/projects\/([^/]+)$/, paramNames: ['projectId'], handler: handleGetProject },
 
+  // Project actions
+  { method: 'POST', pattern: /^\/projects\/([^/]+)\/start$/, paramNames: ['projectId'], handler: handleStartProject },
+  { method: 'POST', pattern: /^\/projects\/([^/]+)\/stop$/, paramNames: ['projectId'], handler: handleStopProject },
+
   // Services
   { method: 'GET', pattern: /^\/projects\/([^/]+)\/services$/, paramNames: ['projectId'], handler: handleListServices },
   { method: 'GET', pattern: /^\/projects\/([^/]+)\/services\/([^/]+)$/, paramNames: ['projectId', 'serviceId'], handler: handleGetService },
@@ -347,12 +474,17 @@ export async function createApiServer(options: ApiServerOptions): Promise<ApiSer
       return projects.map(p => ({ id: p.id, name: p.name, path: p.path, status: p.status }))
     },
     getProject: async (projectId) => {
-      const project = findProject(registry, projectId)
-      return project ? { id: project.id, name: project.name, path: project.path, status: 'ready' as const } : null
+      const project = registry.getRegistry().projects.find((p) => p.id === projectId)
+      return project
+        ? { id: project.id, name: project.name, path: project.path, status: 'ready' as const, activeProfile: project.activeProfile ?? null }
+        : null
     },
     listServices: async (projectId) => {
       const result = await tryGetProjectContext(registry, config, projectId)
-      if (!result.success) return []
+      if (!result.success) {
+        if (result.configError) throw result.configError
+        return []
+      }
       const { projectConfig } = result.data
       return Promise.all(projectConfig.services.map(async (s) => {
         const status = await container.getServiceStatus(s, projectConfig.name)
@@ -361,21 +493,25 @@ export async function createApiServer(options: ApiServerOptions): Promise<ApiSer
     },
     getServiceStatus: async (projectId, serviceId) => {
       const result = await tryGetServiceContext(registry, config, projectId, serviceId)
-      if (!result.success) return null
+      if (!result.success) {
+        if (result.configError) throw result.configError
+        return null
+      }
       const { projectConfig, service } = result.data
       const status = await container.getServiceStatus(service, projectConfig.name)
       return { id: service.id, name: service.name, port: service.port, status }
     },
     getLogs: async (projectId, serviceId) => options.getLogBuffer?.(projectId, serviceId) ?? [],
-    startService: async (projectId, serviceId, mode) => {
+    startService: async (projectId, serviceId, mode, portConflictResolution) => {
       const result = await tryGetServiceContext(registry, config, projectId, serviceId)
       if (!result.success) {
         const errorMessages: Record<typeof result.error, string> = {
           PROJECT_NOT_FOUND: 'Project not found',
           CONFIG_NOT_FOUND: 'Project config not found',
+          CONFIG_INVALID: 'Project config is invalid',
           SERVICE_NOT_FOUND: 'Service not found',
         }
-        throw new Error(errorMessages[result.error])
+        throw result.configError ?? new Error(errorMessages[result.error])
       }
 
       const { projectConfig, service } = result.data
@@ -391,14 +527,12 @@ export async function createApiServer(options: ApiServerOptions): Promise<ApiSer
         await options.onServiceStop?.(projectId, serviceId)
       }
 
-      await options.onServiceStart?.(projectId, serviceId, targetMode)
+      await options.onServiceStart?.(projectId, serviceId, targetMode, portConflictResolution)
       return { restarted: needsRestart }
     },
     stopService: async (projectId, serviceId) => { await options.onServiceStop?.(projectId, serviceId) },
-    restartService: async (projectId, serviceId) => {
-      await options.onServiceStop?.(projectId, serviceId)
-      await options.onServiceStart?.(projectId, serviceId)
-    },
+    restartService: (projectId, serviceId, portConflictResolution) =>
+      restartService(options, projectId, serviceId, portConflictResolution),
   })
 
   const server = createServer(async (req, res) => {
@@ -415,6 +549,7 @@ export async function createApiServer(options: ApiServerOptions): Promise<ApiSer
           req,
           res,
           params: matched.params,
+          query: url.searchParams,
           options,
           mcpHandler,
         }
@@ -0,0 +1,337 @@
+import * as path from 'path'
+import { parse } from 'yaml'
+import type { ComposeBuild, ComposeSource, InfrastructurePort, Service } from '../../shared/types'
+import { getInfrastructurePorts, type InfrastructureContainerSpec } from './infrastructure-catalog'
+import { parseEnvFile } from './env-files'
+
+/**
+ * Options for importing the services of a compose file.
+ */
+export interface ComposeImportOptions {
+  projectPath: string
+  projectName: string
+  /** Allocates the next free port of the project range */
+  nextPort: () => number
+  /** Returns an unused service id for a compose service name */
+  uniqueId: (name: string) => string
+  readFile: (filePath: string) => Promise<string>
+}
+
+/** A published port: the host port from the file, if any, and the container port */
+interface ComposePort {
+  published?: number
+  target: number
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Resolve compose variable references (`$VAR`, `${VAR}`, `${VAR:-default}`,
+ * `${VAR-default}`, `${VAR:+alt}`, `${VAR:?error}`) from the given variables
+ * only, so the result does not depend on the environment of the app.
+ * Unset variables resolve to an empty string and `$$` to a literal `$`.
+ * @internal Exported for testing
+ */
+export function interpolateComposeValue(value: string, vars: Record<string, string>): string {
+  return value.replace(
+    /\$\$|\$\{([A-Za-z_][A-Za-z0-9_]*)(?:(:?[-+?])([^}]*))?\}|\$([A-Za-z_][A-Za-z0-9_]*)/g,
+    (match, braced: string | undefined, operator: string | undefined, operand: string | undefined, bare: string | undefined) => {
+      if (match === '$$') return '$'
+      const name = braced ?? bare!
+      const current = vars[name]
+      const isSet = operator?.startsWith(':') ? !!current : current !== undefined
+      switch (operator?.replace(':', '')) {
+        case '-':
+          return isSet ? current : operand!
+        case '+':
+          return isSet ? operand! : ''
+        default:
+          return current ?? ''
+      }
+    }
+  )
+}
+
+function interpolateDocument(value: unknown, vars: Record<string, string>): unknown {
+  if (typeof value === 'string') return interpolateComposeValue(value, vars)
+  if (Array.isArray(value)) return value.map((item) => interpolateDocument(item, vars))
+  if (isRecord(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolateDocument(item, vars)]))
+  }
+  return value
+}
+
+/**
+ * Split a command string into arguments like a POSIX shell would, honoring quotes.
+ * @internal Exported for testing
+ */
+export function splitCommand(command: string): string[] {
+  const args: string[] = []
+  let current = ''
+  let inArg = false
+  let quote: '"' | "'" | null = null
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i]
+    if (quote) {
+      if (char === quote) {
+        quote = null
+      } else if (char === '\\' && quote === '"' && i + 1 < command.length) {
+        current += command[++i]
+      } else {
+        current += char
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char
+      inArg = true
+    } else if (char === '\\' && i + 1 < command.length) {
+      current += command[++i]
+      inArg = true
+    } else if (/\s/.test(char)) {
+      if (inArg) args.push(current)
+      current = ''
+      inArg = false
+    } else {
+      current += char
+      inArg = true
+    }
+  }
+  if (inArg) args.push(current)
+  return args
+}
+
+function parsePortNumbers(value: string): number[] {
+  const range = value.match(/^(\d+)(?:-(\d+))?$/)
+  if (!range) return []
+  const start = parseInt(range[1], 10)
+  const end = range[2] ? parseInt(range[2], 10) : start
+  return Array.from({ length: Math.max(end - start + 1, 0) }, (_, i) => start + i)
+}
+
+/**
+ * Parse compose port entries in short (`"127.0.0.1:8080:80/tcp"`, port ranges)
+ * and long syntax. UDP ports are skipped.
+ * @internal Exported for testing
+ */
+export function parseComposePorts(ports: unknown): ComposePort[] {
+  if (!Array.isArray(ports)) return []
+  const result: ComposePort[] = []
+
+  for (const entry of ports) {
+    if (isRecord(entry)) {
+      if (entry.protocol !== undefined && entry.protocol !== 'tcp') continue
+      const target = Number(entry.target)
+      if (!Number.isInteger(target)) continue
+      const published = parsePortNumbers(String(entry.published ?? ''))[0]
+      result.push({ target, ...(published !== undefined ? { published } : {}) })
+      continue
+    }
+
+    if (typeof entry !== 'string' && typeof entry !== 'number') continue
+    const [spec, protocol] = String(entry).split('/')
+    if (protocol && protocol !== 'tcp') continue
+    const parts = spec.split(':')
+    const targets = parsePortNumbers(parts[parts.length - 1])
+    const published = parts.length > 1 ? parsePortNumbers(parts[parts.length - 2]) : []
+    targets.forEach((target, i) => {
+      result.push({ target, ...(published[i] !== undefined ? { published: published[i] } : {}) })
+    })
+  }
+  return result
+}
+
+/**
+ * Convert a compose healthcheck to a Docker HEALTHCHECK test.
+ * @returns undefined when the service has none or disables it
+ * @internal Exported for testing
+ */
+export function parseComposeHealthCheck(healthcheck: unknown): string[] | undefined {
+  if (!isRecord(healthcheck) || healthcheck.disable === true) return undefined
+  const { test } = healthcheck
+  if (typeof test === 'string') return ['CMD-SHELL', test]
+  if (Array.isArray(test) && test.length > 0 && test[0] !== 'NONE') return test.map(String)
+  return undefined
+}
+
+/** Read `environment` or build `args` in map or `KEY=value` list form; keys without a value are skipped */
+function parseKeyValues(value: unknown): Record<string, string> {
+  const result: Record<string, string> = {}
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const [key, ...rest] = String(item).split('=')
+      if (rest.length > 0) result[key] = rest.join('=')
+    }
+  } else if (isRecord(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== null && item !== undefined) result[key] = String(item)
+    }
+  }
+  return result
+}
+
+function parseCommand(value: unknown): string[] | undefined {
+  if (typeof value === 'string') return splitCommand(value)
+  if (Array.isArray(value)) return value.map(String)
+  return undefined
+}
+
+function parseDependsOn(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String)
+  if (isRecord(value)) return Object.keys(value)
+  return []
+}
+
+/**
+ * @param composeDir - Directory of the compose file, which relative paths start from
+ */
+function parseBuild(build: unknown, composeDir: string, projectPath: string): ComposeBuild | undefined {
+  const settings = typeof build === 'string' ? { context: build } : build
+  if (!isRecord(settings)) return undefined
+
+  const context = path.relative(projectPath, path.resolve(composeDir, String(settings.context ?? '.'))) || '.'
+  const args = parseKeyValues(settings.args)
+  return {
+    context,
+    ...(typeof settings.dockerfile === 'string' ? { dockerfile: settings.dockerfile } : {}),
+    ...(typeof settings.target === 'string' ? { target: settings.target } : {}),
+    ...(Object.keys(args).length > 0 ? { args } : {}),
+  }
+}
+
+/**
+ * Read the `env_file` entries of a compose service. Missing files are skipped.
+ */
+async function readEnvFiles(
+  envFile: unknown,
+  composeDir: string,
+  readFile: ComposeImportOptions['readFile']
+): Promise<Record<string, string>> {
+  const entries = Array.isArray(envFile) ? envFile : envFile === undefined ? [] : [envFile]
+  const env: Record<string, string> = {}
+  for (const entry of entries) {
+    const file = isRecord(entry) ? entry.path : entry
+    if (typeof file !== 'string') continue
+    try {
+      Object.assign(env, parseEnvFile(await readFile(path.resolve(composeDir, file))))
+    } catch {
+      // Optional env files are commonly missing, e.g. an uncreated .env.local
+    }
+  }
+  return env
+}
+
+/**
+ * Import the services of a docker-compose file as infrastructure services that
+ * run in containers on the project network. Published ports are remapped into
+ * the project's port range, `depends_on` becomes `dependsOn`, and `env_file`
+ * contents are merged beneath `environment`. Variables in the file resolve from
+ * the `.env` file next to it. Services behind a profile are imported inactive.
+ * @param composePath - Absolute path of the compose file
+ */
+export async function importComposeFile(composePath: string, options: ComposeImportOptions): Promise<Service[]> {
+  const { projectPath, projectName, nextPort, uniqueId, readFile } = options
+  const composeDir = path.dirname(composePath)
+
+  let vars: Record<string, string> = {}
+  try {
+    vars = parseEnvFile(await readFile(path.join(composeDir, '.env')))
+  } catch {
+    // No variables for the compose file
+  }
+
+  const document = interpolateDocument(parse(await readFile(composePath), { merge: true }), vars)
+  if (!isRecord(document) || !isRecord(document.services)) return []
+
+  const definitions = Object.entries(document.services).filter(
+    (entry): entry is [string, Record<string, unknown>] =>
+      isRecord(entry[1]) && (typeof entry[1].image === 'string' || entry[1].build !== undefined)
+  )
+
+  // Assign every id first so depends_on can refer to services defined later
+  const ids = new Map(definitions.map(([name]) => [name, uniqueId(name)]))
+  const file = path.relative(projectPath, composePath)
+  const servicePath = path.relative(projectPath, composeDir) || '.'
+
+  const services: Service[] = []
+  for (const [name, definition] of definitions) {
+    const id = ids.get(name)!
+    const build = definition.build !== undefined ? parseBuild(definition.build, composeDir, projectPath) : undefined
+    const image =
+      typeof definition.image === 'string'
+        ? definition.image
+        : `simple-local-${projectName}-${id}`.toLowerCase().replace(/[^a-z0-9_.-]/g, '-')
+
+    const source: ComposeSource = { file, service: name }
+    if (build) source.build = build
+    const command = parseCommand(definition.command)
+    if (command) source.command = command
+    const entrypoint = parseCommand(definition.entrypoint)
+    if (entrypoint) source.entrypoint = entrypoint
+    const healthCheck = parseComposeHealthCheck(definition.healthcheck)
+    if (healthCheck) source.healthCheck = healthCheck
+
+    const [main, ...extra] = parseComposePorts(definition.ports)
+    const port = main ? nextPort() : undefined
+    const extraPorts: InfrastructurePort[] = extra.map((p) => ({
+      name: `port-${p.target}`,
+      port: nextPort(),
+      containerPort: p.target,
+    }))
+
+    const env = {
+      ...(await readEnvFiles(definition.env_file, composeDir, readFile)),
+      ...parseKeyValues(definition.environment),
+    }
+    const dependsOn = parseDependsOn(definition.depends_on).flatMap((dep) => ids.get(dep) ?? [])
+
+    const service: Service = {
+      id,
+      name,
+      type: 'infrastructure',
+      path: servicePath,
+      command: [image, ...(command ?? [])].join(' '),
+      port,
+      discoveredPort: main ? (main.published ?? main.target) : undefined,
+      allocatedPort: port,
+      env,
+      active: definition.profiles === undefined,
+      mode: 'container',
+      infrastructure: {
+        image,
+        ...(main ? { containerPort: main.target } : {}),
+        ...(extraPorts.length > 0 ? { extraPorts } : {}),
+        compose: source,
+      },
+    }
+    if (dependsOn.length > 0) service.dependsOn = dependsOn
+    if (healthCheck) service.readinessProbe = { type: 'health', timeoutMs: 120_000 }
+    services.push(service)
+  }
+  return services
+}
+
+/**
+ * Container settings for a service imported from a compose file.
+ * @param env - Resolved environment for the container
+ */
+export function buildComposeSpec(
+  service: Service,
+  env: Record<string, string>,
+  projectPath: string
+): InfrastructureContainerSpec {
+  const settings = service.infrastructure
+  const source = settings?.compose
+  if (!settings || !source) throw new Error(`Service '${service.id}' was not imported from docker-compose`)
+
+  return {
+    image: settings.image,
+    build: source.build ? { ...source.build, context: path.resolve(projectPath, source.build.context) } : undefined,
+    entrypoint: source.entrypoint,
+    cmd: source.command,
+    env,
+    ports: getInfrastructurePorts(service),
+    healthCheck: source.healthCheck,
+  }
+}
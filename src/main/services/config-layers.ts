@@ -0,0 +1,198 @@
+import type { LocalConfigOverrides, LocalProjectConfig, ProjectConfig, Service } from '../../shared/types'
+import { serviceSchema } from '../../shared/config-schema'
+
+type RawObject = Record<string, unknown>
+
+/**
+ * Service fields that differ between machines: ports allocated from this
+ * machine's range, and whether and how the service runs here.
+ * Edits to them are written to config.local.json.
+ */
+export const LOCAL_SERVICE_FIELDS = [
+  'port',
+  'debugPort',
+  'allocatedPort',
+  'allocatedDebugPort',
+  'useOriginalPort',
+  'active',
+  'mode',
+] as const satisfies readonly (keyof Service)[]
+
+/**
+ * Local fields of services new to config.json that are written to
+ * config.local.json only. The other local fields stay in config.json as the
+ * values other machines start from; active and mode are required there.
+ */
+const NEW_SERVICE_LOCAL_FIELDS = [
+  'allocatedPort',
+  'allocatedDebugPort',
+  'useOriginalPort',
+] as const satisfies readonly (typeof LOCAL_SERVICE_FIELDS)[number][]
+
+function isPlainObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/** Objects are merged key by key; anything else in `override` replaces `base` */
+function deepMerge(base: RawObject, override: RawObject): RawObject {
+  const result: RawObject = { ...base }
+  for (const [key, value] of Object.entries(override)) {
+    result[key] = isPlainObject(value) && isPlainObject(base[key]) ? deepMerge(base[key], value) : value
+  }
+  return result
+}
+
+/**
+ * Applies config.local.json to the parsed config.json. Local entries for
+ * services that config.json does not define are ignored.
+ */
+export function mergeConfigLayers(shared: unknown, local: LocalProjectConfig | null): unknown {
+  if (!local || !isPlainObject(shared) || !Array.isArray(shared.services)) return shared
+
+  return {
+    ...shared,
+    services: shared.services.map((service) => {
+      if (!isPlainObject(service) || typeof service.id !== 'string') return service
+      const overrides = local.services[service.id]
+      return overrides ? deepMerge(service, overrides) : service
+    }),
+  }
+}
+
+/**
+ * Values set by config.local.json, as paths within each service
+ * ("port", "env.API_KEY").
+ */
+export function getLocalOverrides(local: LocalProjectConfig | null): LocalConfigOverrides {
+  const collectPaths = (value: RawObject, prefix: string): string[] =>
+    Object.entries(value).flatMap(([key, child]) =>
+      isPlainObject(child) && Object.keys(child).length > 0 ? collectPaths(child, `${prefix}${key}.`) : [`${prefix}${key}`]
+    )
+
+  const overrides: LocalConfigOverrides = {}
+  for (const [serviceId, service] of Object.entries(local?.services ?? {})) {
+    const paths = collectPaths(service, '')
+    if (paths.length > 0) overrides[serviceId] = paths
+  }
+  return overrides
+}
+
+/**
+ * Moves an env var of a service to config.local.json, or back to config.json.
+ * A local var keeps an empty value in config.json, so that other machines
+ * still see that the service expects it.
+ * @throws Error when config.json does not define the service
+ */
+export function setEnvVarLayer(
+  shared: ProjectConfig,
+  local: LocalProjectConfig | null,
+  serviceId: string,
+  key: string,
+  toLocal: boolean
+): { shared: ProjectConfig; local: LocalProjectConfig } {
+  const sharedService = shared.services.find((s) => s.id === serviceId)
+  if (!sharedService) throw new Error(`Service "${serviceId}" not found in config.json`)
+
+  const localServices = { ...local?.services }
+  const { env: localEnv = {}, ...localService } = localServices[serviceId] ?? {}
+  const value = localEnv[key] ?? sharedService.env[key] ?? ''
+  const { [key]: _moved, ...otherLocalEnv } = localEnv
+
+  const nextLocalEnv = toLocal ? { ...otherLocalEnv, [key]: value } : otherLocalEnv
+  const nextLocalService = Object.keys(nextLocalEnv).length > 0 ? { ...localService, env: nextLocalEnv } : localService
+  if (Object.keys(nextLocalService).length > 0) {
+    localServices[serviceId] = nextLocalService
+  } else {
+    delete localServices[serviceId]
+  }
+
+  return {
+    shared: {
+      ...shared,
+      services: shared.services.map((s) =>
+        s.id === serviceId ? { ...s, env: { ...s.env, [key]: toLocal ? '' : value } } : s
+      ),
+    },
+    local: { services: localServices },
+  }
+}
+
+/**
+ * Splits one level of a merged object between the layers. Keys in `localKeys`
+ * or already overridden locally go to the local layer when they differ from
+ * the shared value, which is left as is; everything else goes to the shared layer.
+ */
+function splitObject(
+  merged: object,
+  shared: object,
+  local: object,
+  localKeys: readonly string[]
+): { shared: RawObject; local: RawObject } {
+  const sharedFields: RawObject = { ...shared }
+  const localFields: RawObject = { ...local }
+  const nextShared: RawObject = {}
+  const nextLocal: RawObject = {}
+
+  for (const [key, value] of Object.entries(merged)) {
+    if (value === undefined) continue
+    const sharedValue = sharedFields[key]
+    const localValue = localFields[key]
+
+    if (isPlainObject(value) && isPlainObject(localValue)) {
+      const split = splitObject(value, isPlainObject(sharedValue) ? sharedValue : {}, localValue, [])
+      if (sharedValue !== undefined || Object.keys(split.shared).length > 0) nextShared[key] = split.shared
+      if (Object.keys(split.local).length > 0) nextLocal[key] = split.local
+    } else if (localKeys.includes(key) || key in localFields) {
+      if (sharedValue !== undefined) nextShared[key] = sharedValue
+      if (!isSameValue(value, sharedValue)) nextLocal[key] = value
+    } else {
+      nextShared[key] = value
+    }
+  }
+
+  return { shared: nextShared, local: nextLocal }
+}
+
+/**
+ * Splits a merged config back into config.json and config.local.json, based on
+ * what the files held before. Services new to config.json are written to it
+ * without the ports allocated on this machine, which go to config.local.json.
+ * @throws ZodError when a service already in config.json would be written invalid
+ */
+export function splitConfigLayers(
+  merged: ProjectConfig,
+  shared: ProjectConfig | null,
+  local: LocalProjectConfig | null
+): { shared: ProjectConfig; local: LocalProjectConfig } {
+  const sharedServices: Service[] = []
+  const localServices: LocalProjectConfig['services'] = {}
+
+  for (const service of merged.services) {
+    const sharedService = shared?.services.find((s) => s.id === service.id)
+    if (!sharedService) {
+      const newShared: Service = { ...service }
+      const newLocal: LocalProjectConfig['services'][string] = {}
+      for (const field of NEW_SERVICE_LOCAL_FIELDS) {
+        if (service[field] === undefined) continue
+        Object.assign(newLocal, { [field]: service[field] })
+        delete newShared[field]
+      }
+      sharedServices.push(newShared)
+      if (Object.keys(newLocal).length > 0) localServices[service.id] = newLocal
+      continue
+    }
+
+    const split = splitObject(service, sharedService, local?.services[service.id] ?? {}, LOCAL_SERVICE_FIELDS)
+    sharedServices.push(serviceSchema.parse(split.shared))
+    if (Object.keys(split.local).length > 0) localServices[service.id] = split.local
+  }
+
+  return {
+    shared: { ...merged, services: sharedServices },
+    local: { services: localServices },
+  }
+}
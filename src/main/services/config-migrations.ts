@@ -0,0 +1,74 @@
+import { CURRENT_CONFIG_VERSION } from '../../shared/config-schema'
+
+type RawConfig = Record<string, unknown>
+
+/**
+ * Upgrades a config from `from` to `from + 1`. Migrations run on the parsed
+ * JSON before validation, so they must tolerate malformed input.
+ */
+interface ConfigMigration {
+  from: number
+  migrate: (config: RawConfig) => RawConfig
+}
+
+function isRecord(value: unknown): value is RawConfig {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function mapServices(config: RawConfig, migrate: (service: RawConfig) => RawConfig): RawConfig {
+  if (!Array.isArray(config.services)) return config
+  return {
+    ...config,
+    services: config.services.map((service) => (isRecord(service) ? migrate(service) : service)),
+  }
+}
+
+const LEGACY_DEVCONTAINER_PATH = /^\.simple-local\/devcontainers\/([^/]+)\.json$/
+
+const MIGRATIONS: ConfigMigration[] = [
+  {
+    // Unversioned files: hand-written services often leave out env, active and mode,
+    // and manually added services pointed at .simple-local/devcontainers/<id>.json
+    from: 0,
+    migrate: (config) =>
+      mapServices(config, (service) => ({
+        ...service,
+        env: service.env ?? {},
+        active: service.active ?? true,
+        mode: service.mode ?? 'native',
+        ...(typeof service.devcontainer === 'string' && {
+          devcontainer: service.devcontainer.replace(LEGACY_DEVCONTAINER_PATH, '.simple-local/devcontainers/$1/devcontainer.json'),
+        }),
+      })),
+  },
+]
+
+export interface MigrationResult {
+  config: unknown
+  fromVersion: number
+  migrated: boolean
+}
+
+/**
+ * Brings a parsed config.json up to CURRENT_CONFIG_VERSION. Files without a
+ * version count as version 0. Input that is not an object, or carries a version
+ * this chain cannot handle, is returned unchanged for validation to report.
+ */
+export function migrateProjectConfig(raw: unknown): MigrationResult {
+  if (!isRecord(raw)) return { config: raw, fromVersion: 0, migrated: false }
+
+  const fromVersion = raw.version ?? 0
+  if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < 0 || fromVersion >= CURRENT_CONFIG_VERSION) {
+    return { config: raw, fromVersion: typeof fromVersion === 'number' ? fromVersion : 0, migrated: false }
+  }
+
+  let config = raw
+  for (let version = fromVersion; version < CURRENT_CONFIG_VERSION; version++) {
+    const migration = MIGRATIONS.find((m) => m.from === version)
+    if (!migration) throw new Error(`No config migration from version ${version}`)
+    config = migration.migrate(config)
+  }
+
+  const { version: _version, ...rest } = config
+  return { config: { version: CURRENT_CONFIG_VERSION, ...rest }, fromVersion, migrated: true }
+}
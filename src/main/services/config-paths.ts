@@ -20,7 +20,7 @@ export const ConfigPaths = {
 
   /**
    * Project-level config directory: <projectPath>/.simple-local
-   * Contains config.json and devcontainers/
+   * Contains config.json, config.local.json and devcontainers/
    */
   projectDir: (projectPath: string) => join(projectPath, CONFIG_DIR_NAME),
 
@@ -29,6 +29,12 @@ export const ConfigPaths = {
    */
   projectConfig: (projectPath: string) => join(projectPath, CONFIG_DIR_NAME, 'config.json'),
 
+  /**
+   * Machine-local overrides of the project config, kept out of git:
+   * <projectPath>/.simple-local/config.local.json
+   */
+  projectLocalConfig: (projectPath: string) => join(projectPath, CONFIG_DIR_NAME, 'config.local.json'),
+
   /**
    * Devcontainer directory for a service: <projectPath>/.simple-local/devcontainers/<serviceId>
    */
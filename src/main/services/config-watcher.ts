@@ -0,0 +1,101 @@
+import { watch as fsWatch, type FSWatcher } from 'fs'
+import * as path from 'path'
+import { ConfigPaths } from './config-paths'
+import { createLogger } from '../../shared/logger'
+
+const log = createLogger('ConfigWatcher')
+
+/** Editors and git write files in several steps; wait for them to settle */
+const DEBOUNCE_MS = 300
+
+type WatchFn = (
+  dir: string,
+  options: { recursive: boolean },
+  listener: (eventType: string, filename: string | null) => void
+) => Pick<FSWatcher, 'close' | 'on'>
+
+interface WatchedProject {
+  watcher: Pick<FSWatcher, 'close' | 'on'>
+  changedFiles: Set<string>
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+/**
+ * Called once a burst of changes has settled.
+ * changedFiles are relative to the .simple-local directory, e.g. "config.json".
+ */
+export type ConfigChangeListener = (projectId: string, projectPath: string, changedFiles: string[]) => void
+
+/**
+ * Watches the .simple-local directory of open projects for changes to
+ * config.json, config.local.json and the generated devcontainer files, e.g. after a git pull
+ * or an edit in another editor.
+ */
+export class ProjectConfigWatcher {
+  private readonly projects = new Map<string, WatchedProject>()
+
+  constructor(
+    private readonly onChange: ConfigChangeListener,
+    private readonly watchFn: WatchFn = fsWatch
+  ) {}
+
+  /**
+   * Start watching a project. Watching an already watched project is a no-op.
+   * Projects without a .simple-local directory are not watched.
+   */
+  watch(projectId: string, projectPath: string): void {
+    if (this.projects.has(projectId)) return
+
+    const configDir = ConfigPaths.projectDir(projectPath)
+    let watcher: Pick<FSWatcher, 'close' | 'on'>
+    try {
+      watcher = this.watchFn(configDir, { recursive: true }, (_eventType, filename) => {
+        const file = filename?.split(path.sep).join('/')
+        if (file && isWatchedFile(file)) {
+          this.schedule(projectId, projectPath, file)
+        }
+      })
+    } catch (err) {
+      log.warn(`Cannot watch ${configDir}:`, err)
+      return
+    }
+
+    watcher.on('error', (err) => {
+      log.warn(`Stopped watching ${configDir}:`, err)
+      this.unwatch(projectId)
+    })
+    this.projects.set(projectId, { watcher, changedFiles: new Set(), timer: null })
+    log.info(`Watching ${configDir}`)
+  }
+
+  unwatch(projectId: string): void {
+    const project = this.projects.get(projectId)
+    if (!project) return
+
+    if (project.timer) clearTimeout(project.timer)
+    project.watcher.close()
+    this.projects.delete(projectId)
+  }
+
+  private schedule(projectId: string, projectPath: string, file: string): void {
+    const project = this.projects.get(projectId)
+    if (!project) return
+
+    project.changedFiles.add(file)
+    if (project.timer) clearTimeout(project.timer)
+    project.timer = setTimeout(() => {
+      const changedFiles = [...project.changedFiles].sort()
+      project.changedFiles.clear()
+      project.timer = null
+      this.onChange(projectId, projectPath, changedFiles)
+    }, DEBOUNCE_MS)
+  }
+}
+
+function isWatchedFile(file: string): boolean {
+  return (
+    file === 'config.json' ||
+    file === 'config.local.json' ||
+    (file.startsWith('devcontainers/') && file.endsWith('.json'))
+  )
+}
@@ -0,0 +1,212 @@
+import { spawn } from 'child_process'
+import type { LogStream, ServiceStatus } from '../../shared/types'
+import { createLogger } from '../../shared/logger'
+
+const log = createLogger('ContainerExec')
+
+/** File inside the container holding the PID of the service command */
+export const EXEC_PID_FILE = '/tmp/simple-local-exec.pid'
+
+/** How long to wait for the service command to exit after SIGTERM before killing it */
+export const EXEC_STOP_TIMEOUT_MS = 5_000
+
+/** Signal sent to the service command inside the container */
+export type ExecSignal = 'TERM' | 'KILL'
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+/**
+ * Wrap a service command so it records its PID inside the container before running.
+ * Killing `devcontainer exec` on the host does not stop the command in the container,
+ * so stopping and restarting signal that PID (and its process group) instead.
+ * The command runs through `sh -c` so compound commands keep working.
+ */
+export function wrapExecCommand(command: string): string {
+  return `sh -c ${shellQuote(`echo $$ > ${EXEC_PID_FILE}; exec sh -c "$1"`)} sh ${shellQuote(command)}`
+}
+
+/**
+ * Shell script that sends a signal to the recorded service command inside the container.
+ */
+export function buildSignalScript(signal: ExecSignal): string {
+  return `pid=$(cat ${EXEC_PID_FILE} 2>/dev/null) && { kill -${signal} -- -$pid 2>/dev/null || kill -${signal} $pid; }`
+}
+
+/** A running service command, however it was launched */
+export interface ExecProcess {
+  /** Resolves with the exit code once the command has exited (null if unknown or killed) */
+  readonly exited: Promise<number | null>
+  /** Kill the local end of the exec: the CLI process or the attached stream */
+  kill(): void
+}
+
+/**
+ * Run a command in a devcontainer through `npx devcontainer exec`.
+ * Spawned detached so the whole CLI process tree can be killed as a group.
+ * @param args - npx arguments for `devcontainer exec`
+ */
+export function spawnCliExec(
+  args: string[],
+  env: Record<string, string>,
+  onLog: (data: string, stream?: LogStream) => void
+): ExecProcess {
+  const proc = spawn('npx', args, {
+    env: { ...process.env, ...env },
+    shell: true,
+    detached: true,
+  })
+
+  proc.stdout?.on('data', (data: Buffer) => onLog(data.toString(), 'stdout'))
+  proc.stderr?.on('data', (data: Buffer) => onLog(data.toString(), 'stderr'))
+
+  const exited = new Promise<number | null>((resolve) => {
+    proc.on('error', (err) => {
+      onLog(`Process error: ${err.message}`)
+      resolve(null)
+    })
+    proc.on('close', (code) => resolve(code))
+  })
+
+  return {
+    exited,
+    kill: () => {
+      if (!proc.pid) return
+      try {
+        process.kill(-proc.pid, 'SIGKILL')
+      } catch {
+        // Already exited
+      }
+    },
+  }
+}
+
+/** Everything needed to run the service command again */
+export interface ExecSpec {
+  /** Start the command; called again on restart */
+  launch: () => ExecProcess
+  onLog: (data: string, stream?: LogStream) => void
+  onStatusChange?: (status: ServiceStatus['status']) => void
+}
+
+interface ExecSession {
+  process: ExecProcess
+  spec: ExecSpec
+}
+
+/**
+ * Tracks the exec running each container service's command.
+ *
+ * The container outlives its service command: when the dev server exits,
+ * the container keeps running. This manager notices the exit and reports it
+ * as 'stopped' (exit code 0) or 'error', and can stop or restart the command
+ * without touching the container.
+ */
+export class ContainerExecManager {
+  private sessions = new Map<string, ExecSession>()
+  private exitCodes = new Map<string, number | null>()
+  private readonly signalInContainer: (containerName: string, signal: ExecSignal) => Promise<void>
+
+  /**
+   * @param signalInContainer - Sends a signal to the recorded service command inside a container
+   */
+  constructor(signalInContainer: (containerName: string, signal: ExecSignal) => Promise<void>) {
+    this.signalInContainer = signalInContainer
+  }
+
+  /**
+   * Run a service command in a container and track it until it exits.
+   * @param containerName - Container the command runs in, used as the key
+   * @param spec - How to launch the command, and callbacks
+   */
+  start(containerName: string, spec: ExecSpec): void {
+    this.exitCodes.delete(containerName)
+
+    const session: ExecSession = { process: spec.launch(), spec }
+    this.sessions.set(containerName, session)
+
+    void session.process.exited.then((code) => {
+      // Ignore exits of sessions that were stopped or replaced by a restart
+      if (this.sessions.get(containerName) !== session) return
+      this.sessions.delete(containerName)
+
+      this.exitCodes.set(containerName, code)
+      spec.onLog(`\nProcess exited with code ${code ?? 'none'}\n`)
+      spec.onStatusChange?.(code === 0 ? 'stopped' : 'error')
+    })
+  }
+
+  /**
+   * Stop the service command of a container, leaving the container running.
+   * Sends SIGTERM to the command inside the container and escalates to SIGKILL
+   * (inside the container and for the local end of the exec) after a timeout.
+   * @returns true if a tracked command was stopped
+   */
+  async stop(containerName: string): Promise<boolean> {
+    const session = this.sessions.get(containerName)
+    this.exitCodes.delete(containerName)
+    if (!session) return false
+
+    this.sessions.delete(containerName)
+    const exited = this.waitForExit(session.process, EXEC_STOP_TIMEOUT_MS)
+    await this.signalInContainer(containerName, 'TERM').catch((err) => {
+      log.warn(`Failed to signal service command in ${containerName}:`, err)
+    })
+
+    if (!(await exited)) {
+      await this.signalInContainer(containerName, 'KILL').catch(() => {})
+      session.process.kill()
+      await this.waitForExit(session.process, 1_000)
+    }
+    return true
+  }
+
+  /**
+   * Stop and rerun the service command of a container without recreating the container.
+   * @returns false if no command is tracked for the container
+   */
+  async restart(containerName: string): Promise<boolean> {
+    const session = this.sessions.get(containerName)
+    if (!session) return false
+
+    await this.stop(containerName)
+    this.start(containerName, session.spec)
+    return true
+  }
+
+  /**
+   * Check whether a service command is running in a container.
+   */
+  isRunning(containerName: string): boolean {
+    return this.sessions.has(containerName)
+  }
+
+  /**
+   * Status of a service command that exited on its own.
+   * @returns 'stopped' for exit code 0, 'error' otherwise, or null if it did not exit
+   */
+  getExitStatus(containerName: string): 'stopped' | 'error' | null {
+    if (!this.exitCodes.has(containerName)) return null
+    return this.exitCodes.get(containerName) === 0 ? 'stopped' : 'error'
+  }
+
+  /**
+   * Kill the local end of all execs, e.g. on app shutdown.
+   * Containers and the commands inside them are left running.
+   */
+  detachAll(): void {
+    for (const { process } of this.sessions.values()) {
+      process.kill()
+    }
+    this.sessions.clear()
+  }
+
+  private waitForExit(proc: ExecProcess, timeoutMs: number): Promise<boolean> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutMs)
+    })
+    return Promise.race([proc.exited.then(() => true), timeout]).finally(() => clearTimeout(timer))
+  }
+}
@@ -1,27 +1,37 @@
 import Docker from 'dockerode'
 import { spawn, type ChildProcess, type SpawnOptions } from 'child_process'
 import { EventEmitter } from 'events'
+import { readFile } from 'fs/promises'
+import path from 'path'
 import type { Readable } from 'stream'
-import type { ContainerEnvOverride, Service, ServiceStatus, ServiceResourceStats } from '../../shared/types'
+import type { ContainerEnvOverride, LogStream, ReadinessProbe, RestartPolicy, Service, ServiceRestartInfo, ServiceStatus, ServiceResourceStats } from '../../shared/types'
 import { NativeProcessManager } from './native-process-manager'
+import type { PersistedProcessGroup, ProcessGroupPersistence } from './process-group-store'
 import { PortManager } from './port-manager'
+import type { PortInspection } from './port-inspection'
+import { ReadinessCheck, ReadinessTracker } from './readiness-probe'
+import { DockerLogDemuxer } from './docker-log-demuxer'
+import { ContainerExecManager, buildSignalScript, spawnCliExec, wrapExecCommand, type ExecSignal } from './container-exec-manager'
+import { DockerContainerBackend, type ContainerProgressEvent } from './docker-container-backend'
+import { resolveDirectContainerSpec, type DirectContainerSpec, type DirectSpecResult } from './devcontainer-spec'
+import { getInfrastructurePorts, type InfrastructureContainerSpec } from './infrastructure-catalog'
 import { createLogger } from '../../shared/logger'
 
 const log = createLogger('Container')
 
 /**
- * Spawns a process and pipes stdout/stderr to a log function.
+ * Spawns a process and pipes stdout/stderr to a log function, tagged with their stream.
  * Also attaches an error handler for process spawn failures.
  */
 function spawnWithOutput(
   cmd: string,
   args: string[],
   options: SpawnOptions,
-  log: (msg: string) => void
+  log: (msg: string, stream?: LogStream) => void
 ): ChildProcess {
   const proc = spawn(cmd, args, options)
-  proc.stdout?.on('data', (data: Buffer) => log(data.toString()))
-  proc.stderr?.on('data', (data: Buffer) => log(data.toString()))
+  proc.stdout?.on('data', (data: Buffer) => log(data.toString(), 'stdout'))
+  proc.stderr?.on('data', (data: Buffer) => log(data.toString(), 'stderr'))
   proc.on('error', (err) => log(`Process error: ${err.message}`))
   return proc
 }
@@ -44,30 +54,48 @@ export function applyContainerEnvOverrides(
   return result
 }
 
+/**
+ * Point localhost references to other services at addresses reachable from a container:
+ * container-mode services by their network alias on the project network, everything
+ * else through host.docker.internal. Infrastructure services are addressed by the
+ * port their image listens on rather than the published one.
+ */
 export function rewriteLocalhostForContainer(
   env: Record<string, string>,
   services: Service[]
 ): Record<string, string> {
-  const knownPorts = new Set<number>()
+  const addresses = new Map<number, string>()
   for (const service of services) {
-    if (service.port !== undefined) knownPorts.add(service.port)
-    if (service.debugPort !== undefined) knownPorts.add(service.debugPort)
+    if (service.infrastructure) {
+      for (const { hostPort, containerPort } of getInfrastructurePorts(service)) {
+        addresses.set(hostPort, `${service.id}:${containerPort}`)
+      }
+      continue
+    }
+    const host = service.mode === 'container' ? service.id : 'host.docker.internal'
+    if (service.port !== undefined) addresses.set(service.port, `${host}:${service.port}`)
+    if (service.debugPort !== undefined) addresses.set(service.debugPort, `${host}:${service.debugPort}`)
   }
-  if (knownPorts.size === 0) return { ...env }
+  if (addresses.size === 0) return { ...env }
 
   const result: Record<string, string> = {}
   for (const [key, value] of Object.entries(env)) {
     result[key] = value.replace(
       /(?:localhost|127\.0\.0\.1):(\d+)/g,
-      (match, portStr) => {
-        const port = parseInt(portStr, 10)
-        return knownPorts.has(port) ? `host.docker.internal:${port}` : match
-      }
+      (match, portStr) => addresses.get(parseInt(portStr, 10)) ?? match
     )
   }
   return result
 }
 
+/** The tracked service command of a container started by ContainerService.startService */
+export interface ContainerExecTarget {
+  containerName: string
+  onStatusChange?: (status: ServiceStatus['status']) => void
+  /** Project network to attach the container to, under the given alias */
+  network?: { projectName: string; alias: string }
+}
+
 export class ContainerService extends EventEmitter {
   private docker: Docker
   private statusCache: { containers: Docker.ContainerInfo[]; timestamp: number } | null = null
@@ -77,12 +105,23 @@ export class ContainerService extends EventEmitter {
   private readonly nativeProcessManager: NativeProcessManager
   /** Delegate for port operations */
   private readonly portManager: PortManager
-
-  constructor(socketPath?: string) {
+  /** Readiness state of services whose probe is running or has failed */
+  private readonly readinessTracker: ReadinessTracker
+  /** Delegate for the service commands running inside containers */
+  private readonly execManager: ContainerExecManager
+  /** Delegate for running devcontainers through the Docker API */
+  private readonly dockerBackend: DockerContainerBackend
+
+  constructor(socketPath?: string, processGroupStore?: ProcessGroupPersistence) {
     super()
     this.docker = new Docker(socketPath ? { socketPath } : undefined)
-    this.nativeProcessManager = new NativeProcessManager()
+    this.nativeProcessManager = new NativeProcessManager(processGroupStore)
     this.portManager = new PortManager()
+    this.readinessTracker = new ReadinessTracker()
+    this.execManager = new ContainerExecManager((containerName, signal) =>
+      this.signalExecCommand(containerName, signal)
+    )
+    this.dockerBackend = new DockerContainerBackend(() => this.docker)
   }
 
   updateSocketPath(socketPath: string): void {
@@ -101,6 +140,34 @@ export class ContainerService extends EventEmitter {
     return `simple-local-${this.sanitizeForDocker(projectName)}-${this.sanitizeForDocker(serviceId)}`
   }
 
+  /** Name of the Docker network shared by a project's container services */
+  getNetworkName(projectName: string): string {
+    return `simple-local-${this.sanitizeForDocker(projectName)}`
+  }
+
+  /**
+   * Attach a container to its project's network, creating the network if needed,
+   * so other container services of the project reach it by its alias.
+   * Failures are logged: the service still runs, reachable through its published ports.
+   * Delegates to DockerContainerBackend.
+   */
+  private async joinProjectNetwork(
+    containerName: string,
+    network: { projectName: string; alias: string },
+    onLog: (data: string) => void
+  ): Promise<void> {
+    const networkName = this.getNetworkName(network.projectName)
+    try {
+      if (await this.dockerBackend.ensureNetwork(networkName, network.projectName)) {
+        onLog(`Created network ${networkName}\n`)
+      }
+      await this.dockerBackend.connectToNetwork(containerName, networkName, network.alias)
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      onLog(`Warning: could not attach ${containerName} to network ${networkName}: ${reason}\n`)
+    }
+  }
+
   private async getCachedContainers(): Promise<Docker.ContainerInfo[]> {
     const now = Date.now()
     if (this.statusCache && now - this.statusCache.timestamp < this.CACHE_TTL_MS) {
@@ -124,7 +191,10 @@ export class ContainerService extends EventEmitter {
 
       if (!container) return 'stopped'
 
-      if (container.State === 'running') return 'running'
+      if (container.State === 'running') {
+        // The container keeps running after its service command exits
+        return this.execManager.getExitStatus(containerName) ?? 'running'
+      }
       if (container.State === 'created' || container.State === 'restarting') return 'starting'
 
       return 'stopped'
@@ -157,13 +227,51 @@ export class ContainerService extends EventEmitter {
    * This is the unified entry point for checking service status.
    *
    * For native services: Uses process group tracking to detect if the service
-   * (including any child processes) is still running.
+   * (including any child processes) is still running. A service waiting for an
+   * automatic restart reports 'starting'.
    */
   async getServiceStatus(service: Service, projectName: string): Promise<ServiceStatus['status']> {
-    if (service.mode === 'native') {
-      return this.isNativeServiceRunning(service.id) ? 'running' : 'stopped'
+    const status = service.mode === 'native'
+      ? this.getNativeServiceStatus(service.id)
+      : await this.getContainerStatus(this.getContainerName(projectName, service.id))
+
+    // A live process is not "running" until its readiness probe has passed
+    if (status === 'running') {
+      return this.readinessTracker.getStatus(this.getContainerName(projectName, service.id)) ?? status
     }
-    return this.getContainerStatus(this.getContainerName(projectName, service.id))
+    return status
+  }
+
+  /**
+   * Start tracking a readiness check for a service.
+   * While the check runs, getServiceStatus reports 'starting' instead of 'running'.
+   */
+  beginReadinessCheck(
+    projectName: string,
+    serviceId: string,
+    probe: ReadinessProbe,
+    port: number | undefined
+  ): ReadinessCheck {
+    const containerName = this.getContainerName(projectName, serviceId)
+    const check = new ReadinessCheck(probe, port, () => this.dockerBackend.isHealthy(containerName))
+    this.readinessTracker.begin(containerName, check)
+    return check
+  }
+
+  /**
+   * Record the outcome of a readiness check. A failed check makes
+   * getServiceStatus report 'error' while the process keeps running.
+   */
+  completeReadinessCheck(projectName: string, serviceId: string, check: ReadinessCheck, ready: boolean): void {
+    this.readinessTracker.complete(this.getContainerName(projectName, serviceId), check, ready)
+  }
+
+  /**
+   * Forget readiness state for a service, aborting a running check.
+   * Called when a service is started again or stopped.
+   */
+  clearReadinessState(projectName: string, serviceId: string): void {
+    this.readinessTracker.clear(this.getContainerName(projectName, serviceId))
   }
 
   buildDevcontainerCommand(
@@ -185,11 +293,50 @@ export class ContainerService extends EventEmitter {
     return args
   }
 
+  /**
+   * Read a devcontainer.json and check whether it can run through the Docker API.
+   * Anything else (features, Dockerfiles, Compose, …) goes through the devcontainer CLI.
+   */
+  private async loadDirectSpec(workspaceFolder: string, configPath: string): Promise<DirectSpecResult> {
+    let config: unknown
+    try {
+      config = JSON.parse(await readFile(configPath, 'utf-8'))
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      return { supported: false, reason: `could not read ${path.basename(configPath)}: ${reason}` }
+    }
+    return resolveDirectContainerSpec(config, workspaceFolder)
+  }
+
+  /**
+   * Log a progress event and emit it as a 'progress' event.
+   */
+  private reportProgress(
+    containerName: string,
+    event: ContainerProgressEvent,
+    onLog: (data: string) => void
+  ): void {
+    this.emit('progress', { containerName, ...event })
+    onLog(`${event.message}\n`)
+  }
+
+  /**
+   * Prepare a devcontainer: pulls its image through the Docker API when the
+   * config supports it, otherwise runs `devcontainer build`.
+   */
   async buildContainer(
     workspaceFolder: string,
     configPath: string,
-    onLog: (data: string) => void
+    onLog: (data: string, stream?: LogStream) => void
   ): Promise<void> {
+    const direct = await this.loadDirectSpec(workspaceFolder, configPath)
+    if (direct.supported) {
+      const name = direct.spec.name ?? path.basename(workspaceFolder)
+      await this.dockerBackend.pullImage(direct.spec.image, (event) => this.reportProgress(name, event, onLog))
+      return
+    }
+    onLog(`Using devcontainer CLI: ${direct.reason}\n`)
+
     return new Promise((resolve, reject) => {
       const args = this.buildDevcontainerCommand('build', workspaceFolder, configPath)
 
@@ -207,18 +354,33 @@ export class ContainerService extends EventEmitter {
     })
   }
 
+  /**
+   * Start a devcontainer and run the service command in it.
+   * With `exec`, the command is tracked under the container name and the container
+   * is driven through the Docker API when its config supports it; otherwise
+   * `devcontainer up` and `devcontainer exec` are used.
+   */
   async startService(
     workspaceFolder: string,
     configPath: string,
     command: string,
     env: Record<string, string>,
-    onLog?: (data: string) => void
+    onLog?: (data: string, stream?: LogStream) => void,
+    exec?: ContainerExecTarget
   ): Promise<void> {
-    const log = (data: string) => {
-      if (onLog) onLog(data)
+    const log = (data: string, stream?: LogStream) => {
+      if (onLog) onLog(data, stream)
       this.emit('log', data)
     }
 
+    if (exec) {
+      const direct = await this.loadDirectSpec(workspaceFolder, configPath)
+      if (direct.supported) {
+        await this.startDirectService(direct.spec, command, env, log, exec)
+        return
+      }
+    }
+
     const spawnOptions = { env: { ...process.env, ...env }, shell: true }
 
     return new Promise((resolve, reject) => {
@@ -232,19 +394,103 @@ export class ContainerService extends EventEmitter {
           return
         }
 
-        // Then exec the command inside
+        // Then exec the command inside. Don't wait for it to finish - it's a long-running dev server
+        if (exec) {
+          const joined = exec.network
+            ? this.joinProjectNetwork(exec.containerName, exec.network, log)
+            : Promise.resolve()
+          void joined.then(() => {
+            const execArgs = this.buildDevcontainerCommand('exec', workspaceFolder, configPath, wrapExecCommand(command))
+            this.execManager.start(exec.containerName, {
+              launch: () => spawnCliExec(execArgs, env, log),
+              onLog: log,
+              onStatusChange: exec.onStatusChange,
+            })
+            this.invalidateStatusCache()
+            resolve()
+          })
+          return
+        }
+
         const execArgs = this.buildDevcontainerCommand('exec', workspaceFolder, configPath, command)
         spawnWithOutput('npx', execArgs, spawnOptions, log)
-
-        // Don't wait for exec to finish - it's a long-running dev server
         this.invalidateStatusCache()
         resolve()
       })
     })
   }
 
+  /**
+   * Bring up a container through the Docker API, run its postStartCommand
+   * after a fresh start, then start the tracked service command.
+   */
+  private async startDirectService(
+    spec: DirectContainerSpec,
+    command: string,
+    env: Record<string, string>,
+    log: (data: string, stream?: LogStream) => void,
+    exec: ContainerExecTarget
+  ): Promise<void> {
+    const name = spec.name ?? exec.containerName
+    const onProgress = (event: ContainerProgressEvent) => this.reportProgress(name, event, log)
+
+    const started = await this.dockerBackend.up(name, spec, onProgress)
+    this.invalidateStatusCache()
+    if (exec.network) await this.joinProjectNetwork(name, exec.network, log)
+
+    const user = await this.dockerBackend.getRemoteUser(spec)
+    if (started && spec.postStartCommand) {
+      onProgress({ phase: 'exec', message: 'Running postStartCommand' })
+      await this.dockerBackend.run(
+        name,
+        { cmd: spec.postStartCommand, env: spec.remoteEnv, user, workingDir: spec.workspaceFolder },
+        log
+      )
+    }
+
+    onProgress({ phase: 'exec', message: `Running ${command}` })
+    const execOptions = {
+      cmd: ['/bin/sh', '-c', wrapExecCommand(command)],
+      env: { ...spec.remoteEnv, ...env },
+      user,
+      workingDir: spec.workspaceFolder,
+    }
+    this.execManager.start(exec.containerName, {
+      launch: () => this.dockerBackend.exec(name, execOptions, log),
+      onLog: log,
+      onStatusChange: exec.onStatusChange,
+    })
+  }
+
+  /**
+   * Run an infrastructure service: pull or build its image, then create and start
+   * its container on the project network with the service id as alias.
+   * Delegates to DockerContainerBackend.
+   */
+  async startInfrastructureService(
+    containerName: string,
+    spec: InfrastructureContainerSpec,
+    network: { projectName: string; alias: string },
+    onLog: (data: string, stream?: LogStream) => void
+  ): Promise<void> {
+    const onProgress = (event: ContainerProgressEvent) => this.reportProgress(containerName, event, onLog)
+    if (spec.build) {
+      await this.dockerBackend.buildImage(spec.image, spec.build, onProgress)
+    } else {
+      await this.dockerBackend.pullImage(spec.image, onProgress)
+    }
+
+    const networkName = this.getNetworkName(network.projectName)
+    if (await this.dockerBackend.ensureNetwork(networkName, network.projectName)) {
+      onLog(`Created network ${networkName}\n`)
+    }
+    await this.dockerBackend.upInfrastructure(containerName, spec, { name: networkName, alias: network.alias }, onProgress)
+    this.invalidateStatusCache()
+  }
+
   async stopService(containerName: string): Promise<void> {
     try {
+      await this.execManager.stop(containerName)
       const container = this.docker.getContainer(containerName)
       await container.stop()
     } catch (error: unknown) {
@@ -257,6 +503,32 @@ export class ContainerService extends EventEmitter {
     }
   }
 
+  /**
+   * Restart the service command inside a running container without recreating the container.
+   * Delegates to ContainerExecManager.
+   * @returns false if no command is tracked for the container
+   */
+  async restartContainerCommand(containerName: string): Promise<boolean> {
+    return this.execManager.restart(containerName)
+  }
+
+  /**
+   * Check whether the service command of a container is tracked and running.
+   * Delegates to ContainerExecManager.
+   */
+  isContainerCommandRunning(containerName: string): boolean {
+    return this.execManager.isRunning(containerName)
+  }
+
+  /**
+   * Send a signal to the service command recorded by wrapExecCommand inside a container.
+   */
+  private async signalExecCommand(containerName: string, signal: ExecSignal): Promise<void> {
+    const container = this.docker.getContainer(containerName)
+    const exec = await container.exec({ Cmd: ['sh', '-c', buildSignalScript(signal)] })
+    await exec.start({ Detach: true })
+  }
+
   /**
    * Start a native service process.
    * Delegates to NativeProcessManager.
@@ -266,10 +538,12 @@ export class ContainerService extends EventEmitter {
     command: string,
     cwd: string,
     env: Record<string, string>,
-    onLog: (data: string) => void,
-    onStatusChange: (status: ServiceStatus['status']) => void
+    onLog: (data: string, stream?: LogStream) => void,
+    onStatusChange: (status: ServiceStatus['status']) => void,
+    restartPolicy?: RestartPolicy,
+    projectId?: string
   ): void {
-    this.nativeProcessManager.startService(serviceId, command, cwd, env, onLog, onStatusChange)
+    this.nativeProcessManager.startService(serviceId, command, cwd, env, onLog, onStatusChange, restartPolicy, projectId)
   }
 
   /**
@@ -288,12 +562,34 @@ export class ContainerService extends EventEmitter {
     return this.nativeProcessManager.isRunning(serviceId)
   }
 
+  private getNativeServiceStatus(serviceId: string): ServiceStatus['status'] {
+    if (this.nativeProcessManager.isRunning(serviceId)) return 'running'
+    if (this.nativeProcessManager.isRestartPending(serviceId)) return 'starting'
+    return 'stopped'
+  }
+
   /**
-   * Kill any process listening on a port (synchronous).
+   * Get the restart history of a native service.
+   * Delegates to NativeProcessManager.
+   */
+  getNativeRestartInfo(serviceId: string): ServiceRestartInfo | undefined {
+    return this.nativeProcessManager.getRestartInfo(serviceId)
+  }
+
+  /**
+   * Check whether a process group belongs to a native service we started.
+   * Delegates to NativeProcessManager.
+   */
+  isTrackedProcessGroup(pgid: number): boolean {
+    return this.nativeProcessManager.isTrackedProcessGroup(pgid)
+  }
+
+  /**
+   * Find the processes listening on a port.
    * Delegates to PortManager.
    */
-  killProcessOnPort(port: number): boolean {
-    return this.portManager.killProcessOnPort(port)
+  async inspectPort(port: number): Promise<PortInspection> {
+    return this.portManager.inspectPort(port)
   }
 
   /**
@@ -304,14 +600,19 @@ export class ContainerService extends EventEmitter {
     return this.portManager.killProcessOnPortAsync(port)
   }
 
+  /**
+   * Follow a container's output, one line per callback tagged with its stream.
+   * @returns Cleanup function that stops following
+   */
   async streamLogs(
     containerName: string,
-    onLog: (data: string) => void
+    onLog: (data: string, stream: LogStream) => void
   ): Promise<() => void> {
     const container = this.docker.getContainer(containerName)
 
+    let info: Docker.ContainerInspectInfo
     try {
-      await container.inspect()
+      info = await container.inspect()
     } catch (error: unknown) {
       if (error instanceof Error && error.message.includes('no such container')) {
         return () => {}
@@ -326,17 +627,21 @@ export class ContainerService extends EventEmitter {
       tail: 0,
     })
 
-    const handleData = (chunk: Buffer) => {
-      const content = chunk.slice(8).toString('utf-8')
-      if (content.trim()) {
-        onLog(content)
+    const demuxer = new DockerLogDemuxer((line, source) => {
+      if (line.trim()) {
+        onLog(line, source)
       }
-    }
+    }, info.Config?.Tty ?? false)
+
+    const handleData = (chunk: Buffer) => demuxer.push(chunk)
+    const handleEnd = () => demuxer.flush()
 
     stream.on('data', handleData)
+    stream.on('end', handleEnd)
 
     return () => {
       stream.removeListener('data', handleData)
+      stream.removeListener('end', handleEnd)
       ;(stream as unknown as Readable).destroy()
     }
   }
@@ -389,6 +694,28 @@ export class ContainerService extends EventEmitter {
     return this.getContainerStats(this.getContainerName(projectName, service.id))
   }
 
+  /**
+   * Re-adopt native process groups left running by a previous app session.
+   * Delegates to NativeProcessManager, using PortManager to verify group start times.
+   */
+  async adoptOrphanedNativeProcesses(): Promise<PersistedProcessGroup[]> {
+    return this.nativeProcessManager.adoptOrphanedGroups((pgid) => this.portManager.getProcessGroupStartTime(pgid))
+  }
+
+  /**
+   * Stop a re-adopted native process group that no service claimed.
+   */
+  async stopOrphanedNativeProcess(group: PersistedProcessGroup): Promise<void> {
+    return this.nativeProcessManager.stopOrphanedGroup(group)
+  }
+
+  /**
+   * Leave a re-adopted native process group that no service claimed running, untracked.
+   */
+  releaseOrphanedNativeProcess(group: PersistedProcessGroup): void {
+    this.nativeProcessManager.releaseOrphanedGroup(group)
+  }
+
   /**
    * Kill all tracked native process groups.
    * Used during app shutdown to clean up any running processes.
@@ -396,4 +723,12 @@ export class ContainerService extends EventEmitter {
   async killAllNativeProcessGroups(): Promise<void> {
     return this.nativeProcessManager.killAllProcessGroups()
   }
+
+  /**
+   * Kill the local `devcontainer exec` processes of container services.
+   * Used during app shutdown; containers are left running.
+   */
+  detachContainerCommands(): void {
+    this.execManager.detachAll()
+  }
 }
@@ -0,0 +1,66 @@
+import type { Service } from '../../shared/types'
+
+/**
+ * Thrown when services depend on each other in a loop.
+ * `cycle` lists the service ids along the loop, ending with the id it started from.
+ */
+export class DependencyCycleError extends Error {
+  readonly cycle: string[]
+
+  constructor(cycle: string[]) {
+    super(`Dependency cycle detected: ${cycle.join(' -> ')}`)
+    this.name = 'DependencyCycleError'
+    this.cycle = cycle
+  }
+}
+
+/**
+ * Sorts services so that every service comes after the services it depends on.
+ *
+ * Only dependencies within the given list are considered — a `dependsOn` entry
+ * pointing at a service that is not in the list (e.g. a hidden service) is ignored.
+ * Services without ordering constraints keep their original relative order.
+ *
+ * @throws DependencyCycleError if the dependency graph contains a cycle
+ */
+export function resolveStartOrder(services: Service[]): Service[] {
+  const byId = new Map(services.map((s) => [s.id, s]))
+  const visited = new Set<string>()
+  const visiting: string[] = []
+  const ordered: Service[] = []
+
+  const visit = (service: Service): void => {
+    if (visited.has(service.id)) return
+
+    const loopStart = visiting.indexOf(service.id)
+    if (loopStart !== -1) {
+      throw new DependencyCycleError([...visiting.slice(loopStart), service.id])
+    }
+
+    visiting.push(service.id)
+    for (const depId of service.dependsOn ?? []) {
+      const dependency = byId.get(depId)
+      if (dependency) visit(dependency)
+    }
+    visiting.pop()
+
+    visited.add(service.id)
+    ordered.push(service)
+  }
+
+  for (const service of services) {
+    visit(service)
+  }
+
+  return ordered
+}
+
+/**
+ * Returns services in the order they should be stopped: dependents first,
+ * then the services they depend on.
+ *
+ * @throws DependencyCycleError if the dependency graph contains a cycle
+ */
+export function resolveStopOrder(services: Service[]): Service[] {
+  return resolveStartOrder(services).reverse()
+}
@@ -0,0 +1,228 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+
+/** Languages with a dedicated devcontainer setup */
+export type ServiceLanguage = 'node' | 'python' | 'go' | 'rust' | 'ruby' | 'java'
+
+/** Devcontainer features: feature ID -> options */
+export type DevcontainerFeatures = Record<string, Record<string, string>>
+
+/**
+ * Base image, features and setup for a service's devcontainer.
+ */
+export interface DevcontainerProfile {
+  /** Detected language, or null for the generic fallback */
+  language: ServiceLanguage | null
+  image: string
+  features: DevcontainerFeatures
+  /** Installs dependencies (and debug tooling) after every container start */
+  postStartCommand?: string
+  /** Environment that points the language's debugger at the debug port */
+  containerEnv?: Record<string, string>
+}
+
+/** Files in a service directory */
+interface ServiceFiles {
+  has(name: string): boolean
+  read(name: string): Promise<string>
+}
+
+interface LanguageDetector {
+  language: ServiceLanguage
+  /** Manifest files that identify the language */
+  manifests: string[]
+  /** Matches commands that use the language's toolchain */
+  command: RegExp
+  profile(files: ServiceFiles, command: string, debugPort?: number): Promise<Omit<DevcontainerProfile, 'language'>>
+}
+
+const IMAGE_PREFIX = 'mcr.microsoft.com/devcontainers'
+
+/** Java versions with a devcontainers/java image */
+const JAVA_VERSIONS = ['8', '11', '17', '21']
+const DEFAULT_JAVA_VERSION = '21'
+
+function joinCommands(...commands: Array<string | undefined>): string | undefined {
+  const present = commands.filter((c): c is string => !!c)
+  return present.length > 0 ? present.join(' && ') : undefined
+}
+
+const pythonDetector: LanguageDetector = {
+  language: 'python',
+  manifests: ['pyproject.toml', 'requirements.txt'],
+  command: /\b(python3?|pip3?|poetry|uv|uvicorn|gunicorn|hypercorn|flask|fastapi|django-admin|celery)\b|manage\.py/,
+  async profile(files, _command, debugPort) {
+    let install: string | undefined
+    if (files.has('poetry.lock') || (files.has('pyproject.toml') && (await files.read('pyproject.toml')).includes('[tool.poetry]'))) {
+      install = 'pipx install poetry && poetry install'
+    } else if (files.has('uv.lock')) {
+      install = 'pipx install uv && uv sync'
+    } else if (files.has('requirements.txt')) {
+      install = 'pip install --user -r requirements.txt'
+    } else if (files.has('pyproject.toml')) {
+      install = 'pip install --user -e .'
+    }
+
+    return {
+      image: `${IMAGE_PREFIX}/python:3`,
+      features: {},
+      // debugpy serves the debug port: python -m debugpy --listen 0.0.0.0:<port> ...
+      postStartCommand: joinCommands(install, debugPort !== undefined ? 'pip install --user debugpy' : undefined),
+    }
+  },
+}
+
+const goDetector: LanguageDetector = {
+  language: 'go',
+  manifests: ['go.mod'],
+  command: /\bgo\s+(run|build|test)\b|\b(air|dlv)\b/,
+  async profile(files, _command, debugPort) {
+    return {
+      image: `${IMAGE_PREFIX}/go:1`,
+      features: {},
+      // Delve serves the debug port: dlv debug --headless --listen=:<port> ...
+      postStartCommand: joinCommands(
+        files.has('go.mod') ? 'go mod download' : undefined,
+        debugPort !== undefined ? 'go install github.com/go-delve/delve/cmd/dlv@latest' : undefined
+      ),
+    }
+  },
+}
+
+const rustDetector: LanguageDetector = {
+  language: 'rust',
+  manifests: ['Cargo.toml'],
+  command: /\bcargo\b/,
+  async profile(files) {
+    return {
+      image: `${IMAGE_PREFIX}/rust:1`,
+      features: {},
+      postStartCommand: files.has('Cargo.toml') ? 'cargo fetch' : undefined,
+    }
+  },
+}
+
+const rubyDetector: LanguageDetector = {
+  language: 'ruby',
+  manifests: ['Gemfile'],
+  command: /\b(ruby|bundle|rails|rake|puma|rackup|rdbg)\b/,
+  async profile(files, _command, debugPort) {
+    return {
+      image: `${IMAGE_PREFIX}/ruby:3`,
+      features: {},
+      postStartCommand: files.has('Gemfile') ? 'bundle install' : undefined,
+      // Read by the debug gem: rdbg --open, or require 'debug/open'
+      containerEnv: debugPort !== undefined
+        ? { RUBY_DEBUG_HOST: '0.0.0.0', RUBY_DEBUG_PORT: String(debugPort) }
+        : undefined,
+    }
+  },
+}
+
+const javaDetector: LanguageDetector = {
+  language: 'java',
+  manifests: ['pom.xml'],
+  command: /(^|\s|\/)(mvn|mvnw|java)\b/,
+  async profile(files) {
+    let version = DEFAULT_JAVA_VERSION
+    if (files.has('pom.xml')) {
+      const pom = await files.read('pom.xml')
+      const match = pom.match(/<(?:java\.version|maven\.compiler\.release|maven\.compiler\.target)>\s*(?:1\.)?(\d+)\s*</)
+      if (match && JAVA_VERSIONS.includes(match[1])) version = match[1]
+    }
+
+    const hasWrapper = files.has('mvnw')
+    // The Java image has no Maven; the feature adds it without reinstalling the JDK
+    const features: DevcontainerFeatures = hasWrapper
+      ? {}
+      : { 'ghcr.io/devcontainers/features/java:1': { version: 'none', installMaven: 'true', installGradle: 'false' } }
+    return {
+      image: `${IMAGE_PREFIX}/java:${version}`,
+      features,
+      postStartCommand: files.has('pom.xml')
+        ? `${hasWrapper ? './mvnw' : 'mvn'} -B dependency:resolve`
+        : undefined,
+    }
+  },
+}
+
+const nodeDetector: LanguageDetector = {
+  language: 'node',
+  manifests: ['package.json'],
+  command: /\b(npm|npx|pnpm|yarn|bun|bunx|node|nodemon|tsx|ts-node)\b/,
+  async profile(files, command) {
+    const isPnpm = files.has('pnpm-lock.yaml') || /\bpnpm\b/.test(command)
+    const isBun = files.has('bun.lockb') || files.has('bun.lock') || /\bbunx?\b/.test(command)
+    const isYarn = files.has('yarn.lock') || /\byarn\b/.test(command)
+
+    let postStartCommand = 'npm install'
+    if (isPnpm) {
+      postStartCommand = 'sudo corepack enable && CI=true pnpm install'
+    } else if (isBun) {
+      postStartCommand = 'bun install'
+    } else if (isYarn) {
+      postStartCommand = 'yarn install'
+    }
+
+    const features: DevcontainerFeatures = isBun ? { 'ghcr.io/devcontainers/features/bun:1': {} } : {}
+    return {
+      image: `${IMAGE_PREFIX}/javascript-node:20`,
+      features,
+      postStartCommand,
+    }
+  },
+}
+
+/**
+ * Detectors in manifest priority order. Node comes last because
+ * package.json often only holds frontend tooling for other stacks.
+ */
+const DETECTORS: LanguageDetector[] = [pythonDetector, goDetector, rustDetector, rubyDetector, javaDetector, nodeDetector]
+
+async function listServiceFiles(servicePath: string | undefined): Promise<ServiceFiles> {
+  let entries: string[] = []
+  if (servicePath) {
+    try {
+      entries = await fs.readdir(servicePath)
+    } catch {
+      // Missing or unreadable directory - detect from the command alone
+    }
+  }
+  const names = new Set(entries)
+
+  return {
+    has: (name) => names.has(name),
+    read: async (name) => {
+      try {
+        return await fs.readFile(path.join(servicePath!, name), 'utf-8')
+      } catch {
+        return ''
+      }
+    },
+  }
+}
+
+/**
+ * Detect a service's language and the devcontainer setup it needs.
+ * The toolchain used by the start command wins; otherwise the manifest
+ * files in the service directory decide.
+ * @param servicePath - Absolute path of the service directory, if known
+ * @param command - The service's start command
+ * @param debugPort - Debug port of the service; adds debugger tooling when set
+ */
+export async function detectDevcontainerProfile(
+  servicePath: string | undefined,
+  command: string,
+  debugPort?: number
+): Promise<DevcontainerProfile> {
+  const files = await listServiceFiles(servicePath)
+
+  const detector = DETECTORS.find((d) => d.command.test(command))
+    ?? DETECTORS.find((d) => d.manifests.some((m) => files.has(m)))
+
+  if (!detector) {
+    return { language: null, image: `${IMAGE_PREFIX}/base:ubuntu`, features: {} }
+  }
+
+  return { language: detector.language, ...(await detector.profile(files, command, debugPort)) }
+}
@@ -0,0 +1,266 @@
+import path from 'path'
+
+/** A bind or volume mount of a directly managed container */
+export interface DirectMount {
+  type: 'bind' | 'volume'
+  source: string
+  target: string
+  readOnly: boolean
+}
+
+/** A published port: host port -> container port */
+export interface DirectPortBinding {
+  hostPort: number
+  containerPort: number
+  hostIp?: string
+}
+
+/**
+ * Container settings resolved from a devcontainer.json that can be run
+ * through the Docker API without the devcontainer CLI.
+ */
+export interface DirectContainerSpec {
+  name?: string
+  image: string
+  /** Folder the workspace is mounted at inside the container */
+  workspaceFolder: string
+  mounts: DirectMount[]
+  ports: DirectPortBinding[]
+  containerEnv: Record<string, string>
+  remoteEnv: Record<string, string>
+  remoteUser?: string
+  labels: Record<string, string>
+  extraHosts: string[]
+  network?: string
+  /** Command run after every container start, as argv */
+  postStartCommand?: string[]
+}
+
+export type DirectSpecResult =
+  | { supported: true; spec: DirectContainerSpec }
+  | { supported: false; reason: string }
+
+/** Properties that have no effect on how the container is run */
+const IGNORED_KEYS = new Set(['$schema', 'name', 'customizations', 'otherPortsAttributes', 'portsAttributes'])
+
+/** Properties handled by resolveDirectContainerSpec */
+const HANDLED_KEYS = new Set([
+  'image',
+  'features',
+  'forwardPorts',
+  'mounts',
+  'runArgs',
+  'postStartCommand',
+  'workspaceFolder',
+  'containerEnv',
+  'remoteEnv',
+  'remoteUser',
+])
+
+/** `docker run` flags that can be mapped to the Docker API; all take a value */
+const RUN_ARG_FLAGS = new Set(['--name', '-e', '--env', '-p', '--publish', '-l', '--label', '--add-host', '--network'])
+
+function unsupported(reason: string): DirectSpecResult {
+  return { supported: false, reason }
+}
+
+function substituteVariables(value: string, workspaceFolder: string, containerWorkspaceFolder: string): string {
+  return value
+    .replace(/\$\{localWorkspaceFolder\}/g, workspaceFolder)
+    .replace(/\$\{localWorkspaceFolderBasename\}/g, path.basename(workspaceFolder))
+    .replace(/\$\{containerWorkspaceFolder\}/g, containerWorkspaceFolder)
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && Object.values(value).every((v) => typeof v === 'string')
+}
+
+/**
+ * Parse a mount in the `source=…,target=…,type=…` form used by devcontainer.json.
+ */
+export function parseMount(mount: string): DirectMount | null {
+  const fields: Record<string, string> = {}
+  let readOnly = false
+  for (const part of mount.split(',')) {
+    const [key, ...rest] = part.split('=')
+    const name = key.trim()
+    if (name === 'readonly' || name === 'ro') {
+      readOnly = rest.length === 0 || rest.join('=') !== 'false'
+      continue
+    }
+    fields[name === 'src' ? 'source' : name === 'dst' || name === 'destination' ? 'target' : name] = rest.join('=')
+  }
+
+  const type = fields.type ?? 'volume'
+  if ((type !== 'bind' && type !== 'volume') || !fields.source || !fields.target) return null
+  return { type, source: fields.source, target: fields.target, readOnly }
+}
+
+/**
+ * Parse a `-p` value: `[ip:]hostPort:containerPort` or `containerPort`.
+ * Port ranges and protocols other than TCP are not supported.
+ */
+function parsePublish(value: string): DirectPortBinding | null {
+  const parts = value.split(':')
+  if (parts.length > 3 || parts.some((p) => p === '')) return null
+  const ports = parts.slice(-2).map(Number)
+  if (ports.some((p) => !Number.isInteger(p))) return null
+
+  if (parts.length === 1) return { hostPort: ports[0], containerPort: ports[0] }
+  return {
+    hostPort: ports[0],
+    containerPort: ports[1],
+    ...(parts.length === 3 ? { hostIp: parts[0] } : {}),
+  }
+}
+
+/**
+ * Apply `docker run` arguments to the spec.
+ * @returns An error message for arguments that need the devcontainer CLI
+ */
+function applyRunArgs(spec: DirectContainerSpec, runArgs: string[]): string | null {
+  for (let i = 0; i < runArgs.length; i++) {
+    const arg = runArgs[i]
+    const eq = arg.indexOf('=')
+    const flag = arg.startsWith('--') && eq !== -1 ? arg.slice(0, eq) : arg
+    if (!RUN_ARG_FLAGS.has(flag)) return `runArgs: unsupported argument ${flag}`
+
+    let value: string | undefined
+    if (flag !== arg) {
+      value = arg.slice(eq + 1)
+    } else {
+      value = runArgs[++i]
+    }
+    if (value === undefined) return `runArgs: missing value for ${flag}`
+
+    switch (flag) {
+      case '--name':
+        spec.name = value
+        break
+      case '-e':
+      case '--env': {
+        const sep = value.indexOf('=')
+        if (sep === -1) return `runArgs: unsupported env without value "${value}"`
+        spec.containerEnv[value.slice(0, sep)] = value.slice(sep + 1)
+        break
+      }
+      case '-p':
+      case '--publish': {
+        const binding = parsePublish(value)
+        if (!binding) return `runArgs: unsupported port mapping "${value}"`
+        spec.ports.push(binding)
+        break
+      }
+      case '-l':
+      case '--label': {
+        const sep = value.indexOf('=')
+        spec.labels[sep === -1 ? value : value.slice(0, sep)] = sep === -1 ? '' : value.slice(sep + 1)
+        break
+      }
+      case '--add-host':
+        spec.extraHosts.push(value)
+        break
+      case '--network':
+        spec.network = value
+        break
+    }
+  }
+  return null
+}
+
+/**
+ * Resolve a devcontainer.json into settings for the Docker API.
+ * Configs using anything beyond a prebuilt image, ports, mounts, environment,
+ * simple run arguments and a postStartCommand (features, Dockerfiles, Compose,
+ * other lifecycle hooks, …) are reported as unsupported and need the devcontainer CLI.
+ * @param config - Parsed devcontainer.json
+ * @param workspaceFolder - Local folder the devcontainer is started for
+ */
+export function resolveDirectContainerSpec(config: unknown, workspaceFolder: string): DirectSpecResult {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    return unsupported('config is not an object')
+  }
+  const raw = config as Record<string, unknown>
+
+  for (const key of Object.keys(raw)) {
+    if (!IGNORED_KEYS.has(key) && !HANDLED_KEYS.has(key)) return unsupported(`unsupported property "${key}"`)
+  }
+
+  if (typeof raw.image !== 'string' || raw.image === '') return unsupported('no prebuilt image')
+  const features = raw.features
+  if (features !== undefined && (typeof features !== 'object' || features === null || Object.keys(features).length > 0)) {
+    return unsupported('uses features')
+  }
+
+  const containerWorkspaceFolder = typeof raw.workspaceFolder === 'string'
+    ? raw.workspaceFolder
+    : `/workspaces/${path.basename(workspaceFolder)}`
+  const substitute = (value: string) => substituteVariables(value, workspaceFolder, containerWorkspaceFolder)
+
+  const spec: DirectContainerSpec = {
+    image: raw.image,
+    workspaceFolder: containerWorkspaceFolder,
+    // The devcontainer CLI mounts the workspace folder by default
+    mounts: [{ type: 'bind', source: workspaceFolder, target: containerWorkspaceFolder, readOnly: false }],
+    ports: [],
+    containerEnv: {},
+    remoteEnv: {},
+    labels: {},
+    extraHosts: [],
+  }
+
+  if (raw.forwardPorts !== undefined) {
+    if (!Array.isArray(raw.forwardPorts)) return unsupported('forwardPorts is not an array')
+    for (const port of raw.forwardPorts) {
+      // "service:port" entries forward ports of other Compose services
+      if (typeof port !== 'number') return unsupported(`unsupported forwarded port "${port}"`)
+      spec.ports.push({ hostPort: port, containerPort: port, hostIp: '127.0.0.1' })
+    }
+  }
+
+  if (raw.mounts !== undefined) {
+    if (!Array.isArray(raw.mounts)) return unsupported('mounts is not an array')
+    for (const entry of raw.mounts) {
+      const mount = typeof entry === 'string'
+        ? parseMount(substitute(entry))
+        : typeof entry === 'object' && entry !== null
+          ? parseMount(Object.entries(entry).map(([k, v]) => `${k}=${substitute(String(v))}`).join(','))
+          : null
+      if (!mount) return unsupported(`unsupported mount ${JSON.stringify(entry)}`)
+      spec.mounts.push(mount)
+    }
+  }
+
+  for (const key of ['containerEnv', 'remoteEnv'] as const) {
+    if (raw[key] === undefined) continue
+    if (!isStringRecord(raw[key])) return unsupported(`${key} must map names to strings`)
+    for (const [name, value] of Object.entries(raw[key])) {
+      spec[key][name] = substitute(value)
+    }
+  }
+
+  if (raw.remoteUser !== undefined) {
+    if (typeof raw.remoteUser !== 'string') return unsupported('remoteUser is not a string')
+    spec.remoteUser = raw.remoteUser
+  }
+
+  if (raw.runArgs !== undefined) {
+    if (!Array.isArray(raw.runArgs) || raw.runArgs.some((a) => typeof a !== 'string')) {
+      return unsupported('runArgs is not a list of strings')
+    }
+    const error = applyRunArgs(spec, (raw.runArgs as string[]).map(substitute))
+    if (error) return unsupported(error)
+  }
+
+  const postStart = raw.postStartCommand
+  if (typeof postStart === 'string') {
+    spec.postStartCommand = ['/bin/sh', '-c', postStart]
+  } else if (Array.isArray(postStart) && postStart.every((a) => typeof a === 'string')) {
+    spec.postStartCommand = postStart as string[]
+  } else if (postStart !== undefined) {
+    return unsupported('postStartCommand with parallel commands')
+  }
+
+  return { supported: true, spec }
+}
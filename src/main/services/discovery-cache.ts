@@ -0,0 +1,114 @@
+import { createHash } from 'crypto'
+import * as path from 'path'
+import type { AiAgentId, ProjectConfig } from '../../shared/types'
+import type { FileSystemOperations, ScanResult } from './discovery'
+import { ensureIgnoredInProjectDir } from './project-gitignore'
+
+/** Content hash of each file discovery depends on, by path relative to the project */
+export type DiscoveryFingerprint = Record<string, string>
+
+/**
+ * AI discovery result saved with the agent that produced it, the fingerprint
+ * of the manifests it was discovered from and the port ranges it was
+ * allocated in.
+ */
+export interface DiscoveryCacheEntry {
+  version: 2
+  createdAt: string
+  agentId: AiAgentId
+  basePort: number
+  debugPortBase: number
+  fingerprint: DiscoveryFingerprint
+  config: ProjectConfig
+}
+
+const CACHE_VERSION = 2
+const CACHE_FILE = 'discovery-cache.json'
+
+export function getDiscoveryCachePath(projectPath: string): string {
+  return path.join(projectPath, '.simple-local', CACHE_FILE)
+}
+
+function hash(content: string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+/**
+ * Hashes the package.json, compose, .env, Makefile and tool config files
+ * found by the scan, plus the manifests the service detectors read.
+ * Tool directories hash their listing.
+ */
+export async function computeDiscoveryFingerprint(
+  projectPath: string,
+  scanResult: ScanResult,
+  detectorManifestPaths: string[],
+  fileSystem: Pick<FileSystemOperations, 'readFile' | 'readdir'>
+): Promise<DiscoveryFingerprint> {
+  const paths = [
+    ...detectorManifestPaths,
+    ...scanResult.packageJsonPaths,
+    ...scanResult.dockerComposePaths,
+    ...scanResult.envFiles,
+    ...scanResult.makefilePaths,
+    ...scanResult.toolConfigPaths,
+  ]
+  const fingerprint: DiscoveryFingerprint = {}
+
+  for (const filePath of [...new Set(paths)].sort()) {
+    const key = path.relative(projectPath, filePath)
+    try {
+      fingerprint[key] = hash(await fileSystem.readFile(filePath, 'utf-8'))
+    } catch {
+      try {
+        const entries = await fileSystem.readdir(filePath, { withFileTypes: true })
+        fingerprint[key] = hash(`dir\n${entries.map((e) => e.name).sort().join('\n')}`)
+      } catch {
+        // Deleted between scan and hashing: it counts as missing
+      }
+    }
+  }
+
+  return fingerprint
+}
+
+/**
+ * Files added, removed or edited between two fingerprints, sorted.
+ */
+export function diffDiscoveryFingerprints(previous: DiscoveryFingerprint, current: DiscoveryFingerprint): string[] {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(current)])
+  return [...keys].filter((key) => previous[key] !== current[key]).sort()
+}
+
+export async function readDiscoveryCache(
+  projectPath: string,
+  fileSystem: Pick<FileSystemOperations, 'readFile'>
+): Promise<DiscoveryCacheEntry | null> {
+  try {
+    const entry = JSON.parse(await fileSystem.readFile(getDiscoveryCachePath(projectPath), 'utf-8'))
+    if (
+      entry?.version !== CACHE_VERSION ||
+      typeof entry.agentId !== 'string' ||
+      typeof entry.fingerprint !== 'object' ||
+      !Array.isArray(entry.config?.services)
+    ) {
+      return null
+    }
+    return entry as DiscoveryCacheEntry
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Saves the entry and keeps the cache file out of git, as it is specific to this machine.
+ */
+export async function writeDiscoveryCache(
+  projectPath: string,
+  entry: Omit<DiscoveryCacheEntry, 'version'>,
+  fileSystem: Pick<FileSystemOperations, 'mkdir' | 'readFile' | 'writeFile'>
+): Promise<void> {
+  const cachePath = getDiscoveryCachePath(projectPath)
+  await fileSystem.mkdir(path.dirname(cachePath), { recursive: true })
+  await fileSystem.writeFile(cachePath, JSON.stringify({ version: CACHE_VERSION, ...entry }, null, 2))
+  await ensureIgnoredInProjectDir(projectPath, CACHE_FILE, fileSystem)
+}
@@ -7,6 +7,7 @@
 
 import * as path from "path";
 import type { Service } from "../../shared/types";
+import type { DetectedService } from "./service-detectors";
 
 // ====================
 // Validation utilities
@@ -84,6 +85,7 @@ Rules:
  * Template for project discovery prompt.
  * Placeholders:
  * - {{RESULT_FILE}} - Path where agent should write results
+ * - {{BASELINE}} - Services found without AI, or nothing
  */
 export const DISCOVERY_PROMPT_TEMPLATE = `Explore this project to discover runnable services AND 3rd party dev tools.
 
@@ -124,7 +126,7 @@ Use the Write tool to create the file with this JSON:
   "connections": []
 }
 
-## Step 1: Identify Tech Stack and Package Manager
+{{BASELINE}}## Step 1: Identify Tech Stack and Package Manager
 
 Find project markers. What stack, package manager, etc. is this project using?
 
@@ -150,9 +152,6 @@ Look for long-running dev tools that need to run alongside services:
 | inngest.json, inngest.ts, inngest/ | Inngest | 8288 |
 | temporal.yaml, temporal/ | Temporal | 7233 |
 | trigger.config.ts | Trigger.dev | 3030 |
-| docker-compose.yml (redis) | Redis | 6379 |
-| docker-compose.yml (postgres) | PostgreSQL | 5432 |
-| docker-compose.yml (localstack) | LocalStack | 4566 |
 | .stripe/ | Stripe CLI | - |
 | Makefile (dev/watch/serve) | Make | - |
 
@@ -160,6 +159,7 @@ Only include tools that:
 - Are long-running (stay running during dev)
 - Are actually used by this project (config files exist)
 - Don't duplicate already-discovered services
+- Aren't defined in a docker-compose file (Redis, PostgreSQL, LocalStack, etc.): those are imported automatically
 
 ## Step 4: Capture Environment Variables with Port References
 
@@ -292,6 +292,33 @@ export interface EnvAnalysisOptions {
 
 export interface DiscoveryPromptOptions {
   resultFilePath: string;
+  /** Services found by the deterministic detectors */
+  baseline?: DetectedService[];
+}
+
+/**
+ * Renders detected services as a starting point for the agent.
+ */
+function buildBaselineSection(baseline: DetectedService[] | undefined): string {
+  if (!baseline || baseline.length === 0) return "";
+
+  const entries = baseline.map(({ name, path: servicePath, command, port, dependsOn, source }) => ({
+    name,
+    path: servicePath,
+    command,
+    ...(port !== undefined ? { port } : {}),
+    ...(dependsOn && dependsOn.length > 0 ? { dependsOn } : {}),
+    foundIn: source,
+  }));
+
+  return `## Baseline
+
+A static scan of manifests, Procfiles and Makefiles found these services:
+${JSON.stringify(entries, null, 2)}
+
+Use them as a starting point: verify each one, correct commands and ports, drop entries that are not long-running dev processes, and add what the scan missed.
+
+`;
 }
 
 /**
@@ -310,12 +337,12 @@ export function buildEnvAnalysisPrompt(options: EnvAnalysisOptions): string {
  * Builds the stack-agnostic project discovery prompt.
  */
 export function buildDiscoveryPrompt(options: DiscoveryPromptOptions): string {
-  const { resultFilePath } = options;
+  const { resultFilePath, baseline } = options;
 
   return DISCOVERY_PROMPT_TEMPLATE.replace(
     "{{RESULT_FILE}}",
     sanitizePath(resultFilePath),
-  );
+  ).replace("{{BASELINE}}", () => buildBaselineSection(baseline));
 }
 
 export interface PortExtractionPromptOptions {
@@ -2,7 +2,7 @@ import * as fs from 'fs/promises'
 import * as path from 'path'
 import { exec } from 'child_process'
 import { promisify } from 'util'
-import type { ProjectConfig, Service, DiscoveryProgress, ContainerEnvOverride, HardcodedPort } from '../../shared/types'
+import type { ProjectConfig, Service, DiscoveryProgress, ContainerEnvOverride, HardcodedPort, DiscoveryMerge, ServiceMergeEntry, DiscoveryCacheStatus } from '../../shared/types'
 import { AgentTerminal } from '../modules/agent-terminal'
 import type { AiAgentId } from '../modules/agent-terminal'
 import { createLogger } from '../../shared/logger'
@@ -12,6 +12,24 @@ import {
   type ScanResult,
 } from './discovery-prompts'
 import { AIAgentRunner } from './ai-agent-runner'
+import { importComposeFile } from './compose-import'
+import { selectEnvFiles } from './env-files'
+import {
+  computeDiscoveryFingerprint,
+  diffDiscoveryFingerprints,
+  readDiscoveryCache,
+  writeDiscoveryCache,
+  type DiscoveryCacheEntry,
+  type DiscoveryFingerprint,
+} from './discovery-cache'
+import {
+  collectProjectFiles,
+  detectServices,
+  isDetectorManifest,
+  parsePackageManifest,
+  type DetectedService,
+  type PackageInfo,
+} from './service-detectors'
 
 const execAsync = promisify(exec)
 const log = createLogger('Discovery')
@@ -34,6 +52,7 @@ export interface FileSystemOperations {
   readdir(path: string, options: { withFileTypes: true }): Promise<{ name: string; isFile(): boolean; isDirectory(): boolean }[]>
   mkdir(path: string, options: { recursive: true }): Promise<void>
   unlink(path: string): Promise<void>
+  writeFile(path: string, content: string): Promise<void>
 }
 
 /**
@@ -57,6 +76,7 @@ const defaultFileSystem: FileSystemOperations = {
   readdir: (p, options) => fs.readdir(p, options) as Promise<{ name: string; isFile(): boolean; isDirectory(): boolean }[]>,
   mkdir: (p, options) => fs.mkdir(p, options).then(() => undefined),
   unlink: (p) => fs.unlink(p),
+  writeFile: (p, content) => fs.writeFile(p, content, 'utf-8'),
 }
 
 const defaultAgentTerminalFactory: AgentTerminalFactory = {
@@ -79,14 +99,6 @@ export interface DiscoveryServiceDeps {
 // Re-export ScanResult for backwards compatibility
 export type { ScanResult }
 
-interface PackageInfo {
-  name: string
-  devScript?: string
-  port?: number
-  framework?: string
-  dependencies: string[]
-}
-
 interface AIServiceOutput {
   id?: string
   name?: string
@@ -118,16 +130,6 @@ interface EnvAnalysisOutput {
   overrides: ContainerEnvOverride[]
 }
 
-const FRAMEWORK_PATTERNS: Record<string, RegExp> = {
-  next: /next/i,
-  react: /react-scripts|vite.*react/i,
-  vue: /vue/i,
-  express: /express/i,
-  fastify: /fastify/i,
-  nest: /@nestjs/i,
-  bun: /bun/i,
-}
-
 /**
  * Converts a string to a URL-friendly slug.
  * Used for generating deterministic service IDs.
@@ -279,6 +281,172 @@ export function extractScriptName(command: string): string | undefined {
   return match?.[1]
 }
 
+/**
+ * Fields a re-discovery refreshes on services that already exist.
+ * Everything else (env, mode, ports, overrides, …) stays as the user left it.
+ */
+const DISCOVERED_FIELDS = [
+  'type',
+  'command',
+  'debugCommand',
+  'discoveredPort',
+  'discoveredDebugPort',
+  'dependsOn',
+  'hardcodedPort',
+  'externalCallbackUrls',
+  'infrastructure',
+] as const satisfies readonly (keyof Service)[]
+
+/** Sets a field of the service, or leaves it out when the value is unset */
+function setField<K extends keyof Service>(service: Service, field: K, value: Service[K]): void {
+  if (value === undefined) delete service[field]
+  else service[field] = value
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Pairs discovered services with saved ones: same id and path first, then
+ * same id, then same path and type. Returns saved service by discovered id.
+ */
+function matchDiscoveredServices(existing: Service[], discovered: Service[]): Map<string, Service> {
+  const matches = new Map<string, Service>()
+  const claimed = new Set<Service>()
+  const passes: ((saved: Service, found: Service) => boolean)[] = [
+    (saved, found) => saved.id === found.id && saved.path === found.path,
+    (saved, found) => saved.id === found.id,
+    (saved, found) => saved.path === found.path && (saved.type ?? 'service') === (found.type ?? 'service'),
+  ]
+
+  for (const isMatch of passes) {
+    for (const found of discovered) {
+      if (matches.has(found.id)) continue
+      const saved = existing.find((s) => !claimed.has(s) && isMatch(s, found))
+      if (!saved) continue
+      matches.set(found.id, saved)
+      claimed.add(saved)
+    }
+  }
+
+  return matches
+}
+
+/**
+ * Points dependencies and `${services.<id>.…}` references of a discovered
+ * service at the ids the services keep after merging.
+ */
+function remapServiceIds(service: Service, idMap: Map<string, string>): Service {
+  const env = Object.fromEntries(
+    Object.entries(service.env).map(([key, value]) => [
+      key,
+      value.replace(/\$\{services\.([^.}]+)\./g, (match, id: string) =>
+        idMap.has(id) ? `\${services.${idMap.get(id)}.` : match
+      ),
+    ])
+  )
+  return {
+    ...service,
+    env,
+    ...(service.dependsOn ? { dependsOn: service.dependsOn.map((id) => idMap.get(id) ?? id) } : {}),
+  }
+}
+
+/**
+ * Moves the allocated ports of a new service off ports the saved services
+ * already use. Hardcoded ports stay as they are.
+ */
+function reserveServicePorts(service: Service, usedPorts: Set<number>, usedDebugPorts: Set<number>): Service {
+  const result = { ...service }
+
+  if (result.allocatedPort !== undefined) {
+    result.allocatedPort = allocatePort(result.allocatedPort, usedPorts)
+    if (!result.useOriginalPort) result.port = result.allocatedPort
+  }
+  if (result.port !== undefined) usedPorts.add(result.port)
+
+  if (result.infrastructure?.extraPorts) {
+    result.infrastructure = {
+      ...result.infrastructure,
+      extraPorts: result.infrastructure.extraPorts.map((extra) => {
+        const port = allocatePort(extra.port, usedPorts)
+        usedPorts.add(port)
+        return { ...extra, port }
+      }),
+    }
+  }
+
+  if (result.allocatedDebugPort !== undefined) {
+    result.allocatedDebugPort = allocatePort(result.allocatedDebugPort, usedDebugPorts)
+    result.debugPort = result.allocatedDebugPort
+    usedDebugPorts.add(result.allocatedDebugPort)
+  }
+
+  return result
+}
+
+/**
+ * Merges a fresh discovery into the saved config. Matched services keep
+ * their user-edited fields and take the discovered ones; unmatched discovered
+ * services are added with ports outside the saved ones, and saved services
+ * discovery no longer finds are reported as removed.
+ * @internal Exported for testing
+ */
+export function mergeDiscoveredConfig(existing: ProjectConfig, discovered: ProjectConfig): DiscoveryMerge {
+  const matches = matchDiscoveredServices(existing.services, discovered.services)
+  const idMap = new Map(discovered.services.map((s) => [s.id, matches.get(s.id)?.id ?? s.id]))
+  const matchedIds = new Map([...matches].map(([foundId, saved]) => [saved.id, foundId]))
+
+  const usedPorts = new Set<number>()
+  const usedDebugPorts = new Set<number>()
+  for (const service of existing.services) {
+    for (const port of [service.port, service.allocatedPort, ...(service.infrastructure?.extraPorts ?? []).map((p) => p.port)]) {
+      if (port !== undefined) usedPorts.add(port)
+    }
+    for (const port of [service.debugPort, service.allocatedDebugPort]) {
+      if (port !== undefined) usedDebugPorts.add(port)
+    }
+  }
+
+  const entries: ServiceMergeEntry[] = existing.services.map((saved) => {
+    const foundId = matchedIds.get(saved.id)
+    const found = foundId && discovered.services.find((s) => s.id === foundId)
+    if (!found) {
+      return { id: saved.id, kind: 'removed', existing: saved, changedFields: [] }
+    }
+
+    const refreshed = remapServiceIds(found, idMap)
+    const merged: Service = { ...saved }
+    for (const field of DISCOVERED_FIELDS) {
+      setField(merged, field, refreshed[field])
+    }
+    // A service on its original port follows that port when it moves
+    if (saved.useOriginalPort && merged.discoveredPort !== undefined) {
+      merged.port = merged.discoveredPort
+    }
+
+    const changedFields = ([...DISCOVERED_FIELDS, 'port'] as (keyof Service)[]).filter(
+      (field) => !isSameValue(saved[field], merged[field])
+    )
+    return {
+      id: saved.id,
+      kind: changedFields.length > 0 ? 'changed' : 'unchanged',
+      existing: saved,
+      merged,
+      changedFields,
+    }
+  })
+
+  for (const found of discovered.services) {
+    if (matches.has(found.id)) continue
+    const merged = reserveServicePorts(remapServiceIds(found, idMap), usedPorts, usedDebugPorts)
+    entries.push({ id: merged.id, kind: 'added', merged, changedFields: [] })
+  }
+
+  return { name: existing.name, profiles: existing.profiles, entries }
+}
+
 export class DiscoveryService {
   private readonly fs: FileSystemOperations
   private readonly agentRunner: AIAgentRunner
@@ -323,7 +491,7 @@ export class DiscoveryService {
           if (entry.isFile()) {
             if (entry.name === 'package.json') {
               result.packageJsonPaths.push(fullPath)
-            } else if (entry.name.match(/docker-compose\.ya?ml$/)) {
+            } else if (entry.name.match(/(^|docker-)compose\.ya?ml$/)) {
               result.dockerComposePaths.push(fullPath)
             } else if (entry.name.match(/^\.env(\..+)?$/)) {
               result.envFiles.push(fullPath)
@@ -359,34 +527,31 @@ export class DiscoveryService {
 
   async parsePackageJson(packageJsonPath: string): Promise<PackageInfo> {
     const content = await this.fs.readFile(packageJsonPath, 'utf-8')
-    const pkg = JSON.parse(content)
-
-    const devScript = pkg.scripts?.dev || pkg.scripts?.start
-    let port: number | undefined
-    let framework: string | undefined
-
-    // Extract port from script
-    const portMatch = devScript?.match(/-p\s*(\d+)|--port[=\s]*(\d+)|PORT[=\s]*(\d+)/)
-    if (portMatch) {
-      port = parseInt(portMatch[1] || portMatch[2] || portMatch[3], 10)
-    }
+    return parsePackageManifest(content, path.basename(path.dirname(packageJsonPath)))
+  }
 
-    // Detect framework
-    const allDeps = { ...pkg.dependencies, ...pkg.devDependencies }
-    for (const [fw, pattern] of Object.entries(FRAMEWORK_PATTERNS)) {
-      if (Object.keys(allDeps).some((dep) => pattern.test(dep)) || pattern.test(devScript || '')) {
-        framework = fw
-        break
-      }
-    }
+  /**
+   * Find services from manifests, Procfiles and Makefiles, without AI.
+   */
+  async detectServices(projectPath: string): Promise<DetectedService[]> {
+    const files = await collectProjectFiles(projectPath, this.fs)
+    const packageManager = (await detectPackageManager(projectPath, this.fs)) ?? 'npm'
+    return detectServices(files, { packageManager, projectName: path.basename(projectPath) })
+  }
 
-    return {
-      name: pkg.name || path.basename(path.dirname(packageJsonPath)),
-      devScript,
-      port,
-      framework,
-      dependencies: Object.keys(allDeps),
-    }
+  /**
+   * Merge mode for re-discovery: compares a fresh result with the saved
+   * config so each added, removed or changed service can be accepted or
+   * rejected before saving.
+   */
+  mergeWithExisting(existing: ProjectConfig, discovered: ProjectConfig): DiscoveryMerge {
+    const merge = mergeDiscoveredConfig(existing, discovered)
+    const counts = merge.entries.reduce<Record<string, number>>((acc, entry) => {
+      acc[entry.kind] = (acc[entry.kind] ?? 0) + 1
+      return acc
+    }, {})
+    log.info('Merged re-discovery:', JSON.stringify(counts))
+    return merge
   }
 
   buildEnvAnalysisPrompt(projectPath: string, service: Service, resultFilePath: string): string {
@@ -436,19 +601,75 @@ export class DiscoveryService {
     }
   }
 
+  /**
+   * Looks up the result cached by this agent for these port ranges and
+   * compares its fingerprint with the current manifests.
+   */
+  private async checkDiscoveryCache(
+    projectPath: string,
+    scanResult: ScanResult,
+    agentId: AiAgentId,
+    basePort: number,
+    debugPortBase: number
+  ): Promise<{ entry: DiscoveryCacheEntry | null; fingerprint: DiscoveryFingerprint; changedFiles: string[] }> {
+    const files = await collectProjectFiles(projectPath, this.fs)
+    const detectorManifests = files.paths.filter(isDetectorManifest).map((p) => path.join(projectPath, p))
+    const fingerprint = await computeDiscoveryFingerprint(projectPath, scanResult, detectorManifests, this.fs)
+    const cached = await readDiscoveryCache(projectPath, this.fs)
+    const entry =
+      cached && cached.agentId === agentId && cached.basePort === basePort && cached.debugPortBase === debugPortBase
+        ? cached
+        : null
+    const changedFiles = entry ? diffDiscoveryFingerprints(entry.fingerprint, fingerprint) : []
+    return { entry, fingerprint, changedFiles }
+  }
+
+  /**
+   * Reports whether re-discovery would reuse the cached AI result.
+   * Returns null when the agent has no cached result for these port ranges.
+   */
+  async getCacheStatus(
+    projectPath: string,
+    agentId: AiAgentId,
+    basePort: number,
+    debugPortBase: number
+  ): Promise<DiscoveryCacheStatus | null> {
+    const scanResult = await this.scanProjectStructure(projectPath)
+    const { entry, changedFiles } = await this.checkDiscoveryCache(projectPath, scanResult, agentId, basePort, debugPortBase)
+    return entry ? { cachedAt: entry.createdAt, changedFiles } : null
+  }
+
+  /**
+   * Runs the AI agent over the project. The result is cached in .simple-local/
+   * and returned as is while no manifest changes, unless `force` is set.
+   */
   async runAIDiscovery(
     projectPath: string,
     cliTool: AiAgentId = 'claude',
     onProgress?: (progress: DiscoveryProgress) => void,
     basePort: number = 3000,
-    debugPortBase: number = 9200
+    debugPortBase: number = 9200,
+    force = false
   ): Promise<ProjectConfig | null> {
     log.info('Starting AI discovery for:', projectPath)
 
+    const scanResult = await this.scanProjectStructure(projectPath)
+    const { entry, fingerprint, changedFiles } = await this.checkDiscoveryCache(projectPath, scanResult, cliTool, basePort, debugPortBase)
+    if (entry && !force) {
+      if (changedFiles.length === 0) {
+        log.info('Manifests unchanged since', entry.createdAt, '- using cached discovery result')
+        onProgress?.({ projectPath, step: 'complete', message: 'Using cached discovery result (no manifests changed)' })
+        return entry.config
+      }
+      log.info('Manifests changed since last discovery:', changedFiles.join(', '))
+      onProgress?.({ projectPath, step: 'scanning', message: `Manifests changed since last discovery: ${changedFiles.join(', ')}` })
+    }
+
     onProgress?.({ projectPath, step: 'ai-analysis', message: 'Starting AI exploration...' })
 
     const resultFile = path.join(projectPath, '.simple-local', 'discovery-result.json')
-    const prompt = buildDiscoveryPrompt({ resultFilePath: resultFile })
+    const baseline = await this.detectServices(projectPath)
+    const prompt = buildDiscoveryPrompt({ resultFilePath: resultFile, baseline })
 
     const result = await this.agentRunner.run<AIDiscoveryOutput>({
       cwd: projectPath,
@@ -470,10 +691,21 @@ export class DiscoveryService {
       onProgress?.({ projectPath, step: 'complete', message: 'Discovery complete' })
       const config = this.convertToProjectConfig(result.data, projectPath, basePort, debugPortBase)
       await this.resolveHardcodedPorts(config, projectPath)
+      this.assignEnvFiles(config, projectPath, scanResult.envFiles)
+      await this.addComposeServices(config, projectPath, scanResult.dockerComposePaths, basePort)
       // Debug: log final port state after all processing
       for (const s of config.services) {
         log.info(`Final: ${s.id} → port=${s.port}, discoveredPort=${s.discoveredPort}, allocatedPort=${s.allocatedPort}, useOriginal=${s.useOriginalPort}, hardcoded=${s.hardcodedPort?.value}`)
       }
+      try {
+        await writeDiscoveryCache(
+          projectPath,
+          { createdAt: new Date().toISOString(), agentId: cliTool, basePort, debugPortBase, fingerprint, config },
+          this.fs
+        )
+      } catch (error) {
+        log.warn('Failed to cache discovery result:', error)
+      }
       return config
     } else {
       log.error('AI discovery failed:', result.error)
@@ -644,6 +876,72 @@ export class DiscoveryService {
     }
   }
 
+  /**
+   * Sets the env files found in each service's folder, so that they are
+   * loaded when it starts as they would be by dotenv.
+   */
+  private assignEnvFiles(config: ProjectConfig, projectPath: string, envFiles: string[]): void {
+    for (const service of config.services) {
+      const files = selectEnvFiles(path.resolve(projectPath, service.path), envFiles)
+      if (files.length > 0) service.envFiles = files
+    }
+  }
+
+  /**
+   * Adds the services of the project's docker-compose files, with ports from
+   * the project range. Localhost references to their original ports in the
+   * env of any service become service references.
+   */
+  private async addComposeServices(
+    config: ProjectConfig,
+    projectPath: string,
+    composePaths: string[],
+    basePort: number
+  ): Promise<void> {
+    const usedIds = new Set(config.services.map((s) => s.id))
+    const usedPorts = new Set<number>()
+    for (const service of config.services) {
+      if (service.port !== undefined) usedPorts.add(service.port)
+      if (service.allocatedPort !== undefined) usedPorts.add(service.allocatedPort)
+    }
+
+    const imported: Service[] = []
+    for (const composePath of composePaths) {
+      try {
+        imported.push(...await importComposeFile(composePath, {
+          projectPath,
+          projectName: config.name,
+          nextPort: () => {
+            const port = allocatePort(basePort, usedPorts)
+            usedPorts.add(port)
+            return port
+          },
+          uniqueId: (name) => {
+            const id = makeUniqueId(slugify(name), usedIds)
+            usedIds.add(id)
+            return id
+          },
+          readFile: (p) => this.fs.readFile(p, 'utf-8'),
+        }))
+      } catch (err) {
+        log.error('Failed to import compose file:', composePath, err)
+      }
+    }
+    if (imported.length === 0) return
+    log.info('Imported', imported.length, 'services from compose files')
+
+    const portMapping = new Map<number, string>()
+    for (const service of imported) {
+      if (service.discoveredPort) portMapping.set(service.discoveredPort, service.id)
+    }
+    config.services.push(...imported)
+    for (const service of config.services) {
+      for (const [key, value] of Object.entries(service.env)) {
+        service.env[key] = replacePortReferences(value, portMapping)
+      }
+    }
+  }
+
   // Fallback: Basic discovery without AI
   async basicDiscovery(
     projectPath: string,
@@ -653,52 +951,56 @@ export class DiscoveryService {
     log.info('Starting basic discovery for:', projectPath)
 
     const scanResult = await this.scanProjectStructure(projectPath)
-    log.info('Basic scan found:', scanResult.packageJsonPaths.length, 'package.json files')
+    const detected = await this.detectServices(projectPath)
+    log.info('Basic discovery detected:', detected.map((d) => `${d.name} (${d.source})`).join(', ') || 'nothing')
 
-    const services: Service[] = []
+    const usedIds = new Set<string>()
     const usedPorts = new Set<number>()
     const usedDebugPorts = new Set<number>()
+    const idsByName = new Map<string, string>()
 
-    for (const pkgPath of scanResult.packageJsonPaths) {
-      try {
-        const info = await this.parsePackageJson(pkgPath)
-        log.info('Parsed package.json:', info.name, 'devScript:', info.devScript)
-
-        const relativePath = path.relative(projectPath, path.dirname(pkgPath))
-
-        if (info.devScript) {
-          const serviceId = info.name.toLowerCase().replace(/[^a-z0-9]/g, '-')
-
-          // Always allocate ports from project range
-          const allocatedPort = allocatePort(basePort, usedPorts)
-          usedPorts.add(allocatedPort)
-
-          // Allocate debug port from project's debug range
-          const allocatedDebugPort = allocatePort(debugPortBase, usedDebugPorts)
-          usedDebugPorts.add(allocatedDebugPort)
-
-          services.push({
-            id: serviceId,
-            name: info.name,
-            path: relativePath || '.',
-            command: `${scanResult.packageManager ?? 'npm'} run dev`,
-            port: allocatedPort,
-            debugPort: allocatedDebugPort,
-            discoveredPort: info.port,       // Original port from package.json
-            allocatedPort,                   // Port from project range
-            discoveredDebugPort: undefined,  // Not discovered from basic scan
-            allocatedDebugPort,              // Debug port from project range
-            useOriginalPort: false,          // Services use allocated ports
-            env: {},
-            devcontainer: `.simple-local/devcontainers/${serviceId}/devcontainer.json`,
-            active: true,
-            mode: 'native' as const,
-          })
-        }
-      } catch (err) {
-        log.error('Failed to parse:', pkgPath, err)
+    const services: Service[] = detected.map((d) => {
+      const serviceId = makeUniqueId(slugify(d.name), usedIds)
+      usedIds.add(serviceId)
+      if (!idsByName.has(d.name)) idsByName.set(d.name, serviceId)
+
+      // Always allocate ports from project range
+      const allocatedPort = allocatePort(basePort, usedPorts)
+      usedPorts.add(allocatedPort)
+
+      // Allocate debug port from project's debug range
+      const allocatedDebugPort = allocatePort(debugPortBase, usedDebugPorts)
+      usedDebugPorts.add(allocatedDebugPort)
+
+      // Hardcoded port means service can't use a remapped port
+      const hardcodedPort = detectHardcodedPort(d.command)
+      const useOriginalPort = !!hardcodedPort
+
+      return {
+        id: serviceId,
+        name: d.name,
+        path: d.path,
+        command: d.command,
+        port: useOriginalPort ? hardcodedPort!.value : allocatedPort,
+        debugPort: allocatedDebugPort,
+        discoveredPort: hardcodedPort?.value ?? d.port,  // Port found in the project
+        allocatedPort,                                   // Port from project range
+        discoveredDebugPort: undefined,                  // Not discovered from basic scan
+        allocatedDebugPort,                              // Debug port from project range
+        useOriginalPort,
+        env: {},
+        devcontainer: `.simple-local/devcontainers/${serviceId}/devcontainer.json`,
+        active: true,
+        mode: 'native' as const,
+        ...(hardcodedPort ? { hardcodedPort } : {}),
       }
-    }
+    })
+
+    // Map dependencies on detected names to service ids
+    detected.forEach((d, i) => {
+      const dependsOn = (d.dependsOn ?? []).flatMap((name) => idsByName.get(name) ?? [])
+      if (dependsOn.length > 0) services[i].dependsOn = dependsOn
+    })
 
     const config = {
       name: path.basename(projectPath),
@@ -706,6 +1008,8 @@ export class DiscoveryService {
     }
 
     await this.resolveHardcodedPorts(config, projectPath)
+    this.assignEnvFiles(config, projectPath, scanResult.envFiles)
+    await this.addComposeServices(config, projectPath, scanResult.dockerComposePaths, basePort)
     log.info('Basic discovery result:', JSON.stringify(config, null, 2))
     return config
   }
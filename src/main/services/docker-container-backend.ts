@@ -0,0 +1,431 @@
+import type Docker from 'dockerode'
+import type { Duplex } from 'stream'
+import { createHash } from 'crypto'
+import * as fs from 'fs/promises'
+import type { LogStream } from '../../shared/types'
+import type { DirectContainerSpec } from './devcontainer-spec'
+import type { InfrastructureContainerSpec } from './infrastructure-catalog'
+import type { ExecProcess } from './container-exec-manager'
+import { DockerLogDemuxer } from './docker-log-demuxer'
+
+/** Label holding a hash of the options a container was created with */
+export const CONFIG_HASH_LABEL = 'simple-local.config-hash'
+
+/** Image label with the devcontainer metadata of prebuilt devcontainer images */
+const METADATA_LABEL = 'devcontainer.metadata'
+
+/** Label naming the project a Simple Local network belongs to */
+export const PROJECT_LABEL = 'simple-local.project'
+
+/** Interval of infrastructure health checks, in nanoseconds as Docker expects */
+const HEALTH_CHECK_INTERVAL_NS = 2_000_000_000
+
+/** Keeps the container alive and stops promptly on SIGTERM, like the devcontainer CLI does */
+const KEEP_ALIVE_SCRIPT = 'echo Container started; trap "exit 0" TERM; while sleep 1 & wait $!; do :; done'
+
+/** Step of bringing up a container */
+export type ContainerProgressPhase = 'pull' | 'build' | 'create' | 'start' | 'exec'
+
+/** Structured progress reported while a container is brought up */
+export interface ContainerProgressEvent {
+  phase: ContainerProgressPhase
+  message: string
+  /** Bytes done and total, for image layer downloads */
+  current?: number
+  total?: number
+}
+
+/** A command to run inside a container */
+export interface ContainerExecOptions {
+  cmd: string[]
+  env: Record<string, string>
+  user?: string
+  workingDir: string
+}
+
+interface BuildEvent {
+  stream?: string
+  error?: string
+}
+
+interface PullEvent {
+  id?: string
+  status?: string
+  error?: string
+  progressDetail?: { current?: number; total?: number }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as { statusCode?: number } | null)?.statusCode === 404
+}
+
+function isConflict(error: unknown): boolean {
+  return (error as { statusCode?: number } | null)?.statusCode === 409
+}
+
+/**
+ * Build the options for creating a container from a devcontainer spec.
+ */
+export function buildCreateOptions(name: string, spec: DirectContainerSpec): Docker.ContainerCreateOptions {
+  const exposedPorts: Record<string, object> = {}
+  const portBindings: Record<string, Array<{ HostPort: string; HostIp?: string }>> = {}
+  for (const { hostPort, containerPort, hostIp } of spec.ports) {
+    const key = `${containerPort}/tcp`
+    exposedPorts[key] = {}
+    portBindings[key] = [...(portBindings[key] ?? []), { HostPort: String(hostPort), ...(hostIp ? { HostIp: hostIp } : {}) }]
+  }
+
+  return {
+    name,
+    Image: spec.image,
+    Entrypoint: ['/bin/sh', '-c', KEEP_ALIVE_SCRIPT],
+    Cmd: [],
+    Env: Object.entries(spec.containerEnv).map(([key, value]) => `${key}=${value}`),
+    Labels: spec.labels,
+    WorkingDir: spec.workspaceFolder,
+    ExposedPorts: exposedPorts,
+    HostConfig: {
+      Mounts: spec.mounts.map((m) => ({ Type: m.type, Source: m.source, Target: m.target, ReadOnly: m.readOnly })),
+      PortBindings: portBindings,
+      ExtraHosts: ['host.docker.internal:host-gateway', ...spec.extraHosts],
+      ...(spec.network ? { NetworkMode: spec.network } : {}),
+    },
+  }
+}
+
+/**
+ * Build the options for creating an infrastructure container: the image runs
+ * with its own entrypoint, attached to the project network under an alias.
+ */
+export function buildInfrastructureCreateOptions(
+  name: string,
+  spec: InfrastructureContainerSpec,
+  network: { name: string; alias: string }
+): Docker.ContainerCreateOptions {
+  const exposedPorts: Record<string, object> = {}
+  const portBindings: Record<string, Array<{ HostPort: string; HostIp: string }>> = {}
+  for (const { hostPort, containerPort } of spec.ports) {
+    const key = `${containerPort}/tcp`
+    exposedPorts[key] = {}
+    portBindings[key] = [{ HostPort: String(hostPort), HostIp: '127.0.0.1' }]
+  }
+
+  return {
+    name,
+    Image: spec.image,
+    ...(spec.entrypoint ? { Entrypoint: spec.entrypoint } : {}),
+    ...(spec.cmd ? { Cmd: spec.cmd } : {}),
+    Env: Object.entries(spec.env).map(([key, value]) => `${key}=${value}`),
+    ExposedPorts: exposedPorts,
+    ...(spec.healthCheck
+      ? { Healthcheck: { Test: spec.healthCheck, Interval: HEALTH_CHECK_INTERVAL_NS, Retries: 30 } }
+      : {}),
+    HostConfig: {
+      Mounts: spec.volume ? [{ Type: 'volume', Source: spec.volume.name, Target: spec.volume.target }] : [],
+      PortBindings: portBindings,
+      NetworkMode: network.name,
+    },
+    NetworkingConfig: {
+      EndpointsConfig: { [network.name]: { Aliases: [network.alias] } },
+    },
+  }
+}
+
+/**
+ * Runs devcontainers through the Docker API instead of the devcontainer CLI.
+ * Handles configs resolved by resolveDirectContainerSpec: a prebuilt image,
+ * mounts, published ports, environment, simple run arguments and a postStartCommand.
+ */
+export class DockerContainerBackend {
+  private readonly getDocker: () => Docker
+
+  /**
+   * @param getDocker - Returns the current Docker client (it changes with the socket setting)
+   */
+  constructor(getDocker: () => Docker) {
+    this.getDocker = getDocker
+  }
+
+  /**
+   * Pull an image unless it is available locally.
+   */
+  async pullImage(image: string, onProgress: (event: ContainerProgressEvent) => void): Promise<void> {
+    const docker = this.getDocker()
+    try {
+      await docker.getImage(image).inspect()
+      onProgress({ phase: 'pull', message: `Using local image ${image}` })
+      return
+    } catch (error) {
+      if (!isNotFound(error)) throw error
+    }
+
+    onProgress({ phase: 'pull', message: `Pulling ${image}` })
+    const stream = await docker.pull(image)
+    const layerStatus = new Map<string, string>()
+
+    await new Promise<void>((resolve, reject) => {
+      docker.modem.followProgress(
+        stream,
+        (err: Error | null) => (err ? reject(err) : resolve()),
+        (event: PullEvent) => {
+          if (event.error) {
+            reject(new Error(event.error))
+            return
+          }
+          if (!event.status) return
+          if (!event.id) {
+            onProgress({ phase: 'pull', message: event.status })
+            return
+          }
+          // Download and extract events repeat for every chunk; report each status change once
+          if (layerStatus.get(event.id) === event.status) return
+          layerStatus.set(event.id, event.status)
+          onProgress({
+            phase: 'pull',
+            message: `${event.id}: ${event.status}`,
+            current: event.progressDetail?.current,
+            total: event.progressDetail?.total,
+          })
+        }
+      )
+    })
+  }
+
+  /**
+   * Build an image from a Dockerfile, sending the whole context directory
+   * (minus .dockerignore entries) to the daemon.
+   */
+  async buildImage(
+    tag: string,
+    build: NonNullable<InfrastructureContainerSpec['build']>,
+    onProgress: (event: ContainerProgressEvent) => void
+  ): Promise<void> {
+    const docker = this.getDocker()
+    onProgress({ phase: 'build', message: `Building ${tag} from ${build.context}` })
+    const stream = await docker.buildImage(
+      { context: build.context, src: await fs.readdir(build.context) },
+      {
+        t: tag,
+        ...(build.dockerfile ? { dockerfile: build.dockerfile } : {}),
+        ...(build.target ? { target: build.target } : {}),
+        ...(build.args ? { buildargs: build.args } : {}),
+      }
+    )
+
+    await new Promise<void>((resolve, reject) => {
+      docker.modem.followProgress(
+        stream,
+        (err: Error | null) => (err ? reject(err) : resolve()),
+        (event: BuildEvent) => {
+          if (event.error) {
+            reject(new Error(event.error))
+            return
+          }
+          const message = event.stream?.trimEnd()
+          if (message) onProgress({ phase: 'build', message })
+        }
+      )
+    })
+  }
+
+  /**
+   * Create and start a container for a spec, reusing an existing container
+   * with the same name if it was created from the same options.
+   * @returns true if the container was started, false if it was already running
+   */
+  async up(name: string, spec: DirectContainerSpec, onProgress: (event: ContainerProgressEvent) => void): Promise<boolean> {
+    return this.upWithOptions(name, buildCreateOptions(name, spec), onProgress)
+  }
+
+  /**
+   * Create and start an infrastructure container on a project network,
+   * reusing an existing one created from the same options.
+   * @returns true if the container was started, false if it was already running
+   */
+  async upInfrastructure(
+    name: string,
+    spec: InfrastructureContainerSpec,
+    network: { name: string; alias: string },
+    onProgress: (event: ContainerProgressEvent) => void
+  ): Promise<boolean> {
+    return this.upWithOptions(name, buildInfrastructureCreateOptions(name, spec, network), onProgress)
+  }
+
+  private async upWithOptions(
+    name: string,
+    options: Docker.ContainerCreateOptions,
+    onProgress: (event: ContainerProgressEvent) => void
+  ): Promise<boolean> {
+    const docker = this.getDocker()
+    const hash = createHash('sha256').update(JSON.stringify(options)).digest('hex').slice(0, 16)
+    const container = docker.getContainer(name)
+
+    let info: Docker.ContainerInspectInfo | null = null
+    try {
+      info = await container.inspect()
+    } catch (error) {
+      if (!isNotFound(error)) throw error
+    }
+
+    if (info && info.Config.Labels?.[CONFIG_HASH_LABEL] !== hash) {
+      onProgress({ phase: 'create', message: `Configuration changed, removing container ${name}` })
+      await container.remove({ force: true })
+      info = null
+    }
+
+    if (!info) {
+      onProgress({ phase: 'create', message: `Creating container ${name}` })
+      await docker.createContainer({ ...options, Labels: { ...options.Labels, [CONFIG_HASH_LABEL]: hash } })
+    }
+
+    if (info?.State.Running) {
+      onProgress({ phase: 'start', message: `Container ${name} is already running` })
+      return false
+    }
+
+    onProgress({ phase: 'start', message: `Starting container ${name}` })
+    await container.start()
+    return true
+  }
+
+  /**
+   * Create a bridge network unless it exists.
+   * @returns true if the network was created
+   */
+  async ensureNetwork(name: string, projectName: string): Promise<boolean> {
+    const docker = this.getDocker()
+    try {
+      await docker.getNetwork(name).inspect()
+      return false
+    } catch (error) {
+      if (!isNotFound(error)) throw error
+    }
+
+    try {
+      await docker.createNetwork({ Name: name, Driver: 'bridge', Labels: { [PROJECT_LABEL]: projectName } })
+      return true
+    } catch (error) {
+      // Created concurrently by another service of the project
+      if (isConflict(error)) return false
+      throw error
+    }
+  }
+
+  /**
+   * Attach a container to a network under an alias that other containers
+   * on the network can resolve. Does nothing if it is already attached with the alias.
+   */
+  async connectToNetwork(containerName: string, networkName: string, alias: string): Promise<void> {
+    const docker = this.getDocker()
+    const info = await docker.getContainer(containerName).inspect()
+    const endpoint = info.NetworkSettings.Networks?.[networkName]
+    if (endpoint?.Aliases?.includes(alias)) return
+
+    const network = docker.getNetwork(networkName)
+    // Aliases can only be set when connecting
+    if (endpoint) await network.disconnect({ Container: containerName })
+    await network.connect({ Container: containerName, EndpointConfig: { Aliases: [alias] } })
+  }
+
+  /**
+   * Check whether a container's health check reports it as healthy.
+   */
+  async isHealthy(containerName: string): Promise<boolean> {
+    try {
+      const info = await this.getDocker().getContainer(containerName).inspect()
+      return info.State.Health?.Status === 'healthy'
+    } catch (error) {
+      if (isNotFound(error)) return false
+      throw error
+    }
+  }
+
+  /**
+   * User to run commands as: the spec's remoteUser, else the one declared
+   * in the image's devcontainer metadata, else the image default.
+   */
+  async getRemoteUser(spec: DirectContainerSpec): Promise<string | undefined> {
+    if (spec.remoteUser) return spec.remoteUser
+
+    try {
+      const image = await this.getDocker().getImage(spec.image).inspect()
+      const metadata: unknown = JSON.parse(image.Config?.Labels?.[METADATA_LABEL] ?? '[]')
+      if (!Array.isArray(metadata)) return undefined
+      // Later entries override earlier ones
+      for (const entry of [...metadata].reverse()) {
+        const user = entry?.remoteUser ?? entry?.containerUser
+        if (typeof user === 'string') return user
+      }
+    } catch {
+      // No usable metadata - run as the image default user
+    }
+    return undefined
+  }
+
+  /**
+   * Start a command in a container and stream its output.
+   * The returned process resolves with the command's exit code.
+   */
+  exec(
+    containerName: string,
+    options: ContainerExecOptions,
+    onLog: (data: string, stream?: LogStream) => void
+  ): ExecProcess {
+    let stream: Duplex | null = null
+    let killed = false
+
+    const run = async (): Promise<number | null> => {
+      const exec = await this.getDocker().getContainer(containerName).exec({
+        Cmd: options.cmd,
+        Env: Object.entries(options.env).map(([key, value]) => `${key}=${value}`),
+        User: options.user,
+        WorkingDir: options.workingDir,
+        AttachStdout: true,
+        AttachStderr: true,
+      })
+      const output = await exec.start({ hijack: true, stdin: false })
+      stream = output
+      if (killed) output.destroy()
+
+      const demuxer = new DockerLogDemuxer((line, source) => onLog(`${line}\n`, source))
+      output.on('data', (chunk: Buffer) => demuxer.push(chunk))
+      await new Promise<void>((resolve) => {
+        output.once('end', resolve)
+        output.once('close', resolve)
+        output.once('error', () => resolve())
+      })
+      demuxer.flush()
+
+      const result = await exec.inspect()
+      return result.Running ? null : result.ExitCode
+    }
+
+    const exited = run().catch((err: unknown) => {
+      onLog(`Process error: ${err instanceof Error ? err.message : String(err)}\n`)
+      return null
+    })
+
+    return {
+      exited,
+      kill: () => {
+        killed = true
+        stream?.destroy()
+      },
+    }
+  }
+
+  /**
+   * Run a command in a container to completion.
+   * @throws Error if the command exits with a non-zero code
+   */
+  async run(
+    containerName: string,
+    options: ContainerExecOptions,
+    onLog: (data: string, stream?: LogStream) => void
+  ): Promise<void> {
+    const code = await this.exec(containerName, options, onLog).exited
+    if (code !== 0) {
+      throw new Error(`${options.cmd.join(' ')} failed with code ${code ?? 'none'}`)
+    }
+  }
+}
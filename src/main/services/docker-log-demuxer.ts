@@ -0,0 +1,77 @@
+import { StringDecoder } from 'string_decoder'
+import type { LogStream } from '../../shared/types'
+
+/** Size of the header preceding each frame of a multiplexed Docker stream */
+const FRAME_HEADER_SIZE = 8
+
+/** Stream type byte of a frame header */
+const STREAM_TYPES: Record<number, LogStream> = { 1: 'stdout', 2: 'stderr' }
+
+/**
+ * Splits a Docker log stream into lines tagged with their output stream.
+ *
+ * Without a TTY, Docker multiplexes stdout and stderr into frames of
+ * [stream type, 0, 0, 0, payload size (uint32 BE)] followed by the payload.
+ * Chunks from the socket do not line up with frames, so partial frames are
+ * buffered until complete. Partial lines are buffered per stream as well,
+ * and multi-byte characters split across frames are decoded correctly.
+ *
+ * Containers with a TTY send raw output without frames; it is all reported as stdout.
+ */
+export class DockerLogDemuxer {
+  private readonly onLine: (line: string, stream: LogStream) => void
+  private readonly tty: boolean
+  private pending: Buffer = Buffer.alloc(0)
+  private readonly decoders: Record<LogStream, StringDecoder> = {
+    stdout: new StringDecoder('utf8'),
+    stderr: new StringDecoder('utf8'),
+  }
+  private readonly partialLines: Record<LogStream, string> = { stdout: '', stderr: '' }
+
+  constructor(onLine: (line: string, stream: LogStream) => void, tty = false) {
+    this.onLine = onLine
+    this.tty = tty
+  }
+
+  /**
+   * Feed a chunk of the raw log stream.
+   */
+  push(chunk: Buffer): void {
+    if (this.tty) {
+      this.write('stdout', chunk)
+      return
+    }
+
+    this.pending = this.pending.length > 0 ? Buffer.concat([this.pending, chunk]) : chunk
+
+    while (this.pending.length >= FRAME_HEADER_SIZE) {
+      const size = this.pending.readUInt32BE(4)
+      if (this.pending.length < FRAME_HEADER_SIZE + size) break
+
+      const stream = STREAM_TYPES[this.pending[0]]
+      const payload = this.pending.subarray(FRAME_HEADER_SIZE, FRAME_HEADER_SIZE + size)
+      this.pending = this.pending.subarray(FRAME_HEADER_SIZE + size)
+      // Stdin frames (type 0) only appear for attached streams and carry no output
+      if (stream) this.write(stream, payload)
+    }
+  }
+
+  /**
+   * Emit any buffered partial lines, e.g. when the stream ends.
+   */
+  flush(): void {
+    for (const stream of ['stdout', 'stderr'] as const) {
+      const rest = this.partialLines[stream] + this.decoders[stream].end()
+      this.partialLines[stream] = ''
+      if (rest) this.onLine(rest, stream)
+    }
+  }
+
+  private write(stream: LogStream, payload: Buffer): void {
+    const lines = (this.partialLines[stream] + this.decoders[stream].write(payload)).split('\n')
+    this.partialLines[stream] = lines.pop() ?? ''
+    for (const line of lines) {
+      this.onLine(line.endsWith('\r') ? line.slice(0, -1) : line, stream)
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { parseEnvFile } from './env-files'
+import type { MissingEnv, MissingEnvVar, Service } from '../../shared/types'
+
+/**
+ * Files in a service folder that document its env vars. Vars listed there
+ * but not set are reported as warnings.
+ */
+export const EXAMPLE_ENV_FILES = ['.env.example', '.env.sample', '.env.template', '.env.dist'] as const
+
+/**
+ * Thrown when a service is started without env vars listed in its `requiredEnv`.
+ */
+export class MissingEnvError extends Error {
+  readonly code = 'ENV_MISSING'
+  readonly missingEnv: MissingEnv
+
+  constructor(missingEnv: MissingEnv) {
+    const keys = missingEnv.missing.filter((v) => v.source === 'requiredEnv').map((v) => v.key)
+    super(`${missingEnv.serviceName} is missing required environment variables: ${keys.join(', ')}`)
+    this.name = 'MissingEnvError'
+    this.missingEnv = missingEnv
+  }
+}
+
+export interface FindMissingEnvOptions {
+  /** Environment native services inherit. Defaults to process.env */
+  hostEnv?: Record<string, string | undefined>
+  readFile?: (filePath: string) => Promise<string>
+}
+
+/**
+ * Compares the env a service is about to start with against its `requiredEnv`
+ * and the example env files in its folder. Required vars must be set and not
+ * empty; vars from example files only need to be set. Native services also
+ * see the host environment.
+ * @param env - Final env of the service
+ * @returns The missing vars, or null when nothing is missing
+ */
+export async function findMissingEnv(
+  projectPath: string,
+  service: Pick<Service, 'id' | 'name' | 'path' | 'requiredEnv'>,
+  env: Record<string, string>,
+  mode: 'native' | 'container',
+  options: FindMissingEnvOptions = {}
+): Promise<MissingEnv | null> {
+  const { hostEnv = process.env, readFile = (filePath: string) => fs.readFile(filePath, 'utf-8') } = options
+  const lookup = (key: string): string | undefined => env[key] ?? (mode === 'native' ? hostEnv[key] : undefined)
+
+  const missing: MissingEnvVar[] = []
+  const seen = new Set<string>()
+
+  for (const key of service.requiredEnv ?? []) {
+    if (seen.has(key)) continue
+    seen.add(key)
+    if (!lookup(key)) missing.push({ key, source: 'requiredEnv' })
+  }
+
+  const serviceDir = path.resolve(projectPath, service.path)
+  for (const file of EXAMPLE_ENV_FILES) {
+    let content: string
+    try {
+      content = await readFile(path.join(serviceDir, file))
+    } catch {
+      continue
+    }
+    for (const key of Object.keys(parseEnvFile(content))) {
+      if (seen.has(key)) continue
+      seen.add(key)
+      if (lookup(key) === undefined) missing.push({ key, source: file })
+    }
+  }
+
+  if (missing.length === 0) return null
+  return {
+    serviceId: service.id,
+    serviceName: service.name,
+    missing,
+    blocking: missing.some((v) => v.source === 'requiredEnv'),
+  }
+}
@@ -0,0 +1,99 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { validatePathWithinProject } from './validation'
+import type { EnvVarSource, Service } from '../../shared/types'
+
+/**
+ * Env files discovery assigns to a service, lowest precedence first, as
+ * dotenv-flow, Vite and Next.js load them in development.
+ */
+export const ENV_FILE_PRECEDENCE = ['.env', '.env.development', '.env.local', '.env.development.local'] as const
+
+/**
+ * A service's env before interpolation: its env files in order, each
+ * overriding the ones before, with `service.env` from the config on top.
+ */
+export interface LayeredEnv {
+  env: Record<string, string>
+  sources: Record<string, EnvVarSource>
+  warnings: string[]
+}
+
+/**
+ * Parse a dotenv file: `KEY=value` lines with optional `export`, quotes and comments.
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  const env: Record<string, string> = {}
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=\s*(.*)$/)
+    if (!match) continue
+    const [, key, rawValue] = match
+    const quoted = rawValue.match(/^(["'])(.*)\1\s*(?:#.*)?$/)
+    if (quoted) {
+      env[key] = quoted[1] === '"' ? quoted[2].replace(/\\n/g, '\n').replace(/\\(["\\])/g, '$1') : quoted[2]
+    } else {
+      env[key] = rawValue.replace(/\s+#.*$/, '').trim()
+    }
+  }
+  return env
+}
+
+/**
+ * The env files of the service folder at `serviceDir` among the files found
+ * by a project scan, in precedence order. Other variants such as
+ * `.env.example` or `.env.production` are left out.
+ */
+export function selectEnvFiles(serviceDir: string, envFiles: string[]): string[] {
+  const names = new Set(
+    envFiles.filter((file) => path.dirname(file) === path.resolve(serviceDir)).map((file) => path.basename(file))
+  )
+  return ENV_FILE_PRECEDENCE.filter((name) => names.has(name))
+}
+
+/**
+ * Loads `service.envFiles`, relative to the service folder, and layers
+ * `service.env` over them. Missing files are skipped, since files like
+ * `.env.local` usually exist on some machines only.
+ */
+export async function loadServiceEnv(
+  projectPath: string,
+  service: Pick<Service, 'path' | 'env' | 'envFiles'>,
+  readFile: (filePath: string) => Promise<string> = (filePath) => fs.readFile(filePath, 'utf-8')
+): Promise<LayeredEnv> {
+  const env: Record<string, string> = {}
+  const sources: Record<string, EnvVarSource> = {}
+  const warnings: string[] = []
+  const serviceDir = path.resolve(projectPath, service.path)
+
+  for (const file of service.envFiles ?? []) {
+    const filePath = path.resolve(serviceDir, file)
+    try {
+      validatePathWithinProject(projectPath, filePath)
+    } catch {
+      warnings.push(`Env file '${file}' is outside the project and was not loaded`)
+      continue
+    }
+
+    let content: string
+    try {
+      content = await readFile(filePath)
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        warnings.push(`Cannot read env file '${file}': ${err instanceof Error ? err.message : String(err)}`)
+      }
+      continue
+    }
+
+    for (const [key, value] of Object.entries(parseEnvFile(content))) {
+      env[key] = value
+      sources[key] = { type: 'file', file }
+    }
+  }
+
+  for (const [key, value] of Object.entries(service.env)) {
+    env[key] = value
+    sources[key] = { type: 'config' }
+  }
+
+  return { env, sources, warnings }
+}
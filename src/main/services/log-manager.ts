@@ -1,5 +1,7 @@
 import { createLogKey, matchesProject } from './log-key'
+import { getPartialSecretLength, maskSecrets } from './secrets'
 import { LOG_CONSTANTS } from '../../shared/constants'
+import type { LogEntry, LogStream } from '../../shared/types'
 
 const { MAX_LOG_LINES } = LOG_CONSTANTS
 
@@ -10,8 +12,10 @@ const { MAX_LOG_LINES } = LOG_CONSTANTS
  * Maps, making it easier to test and reset between tests.
  */
 export class LogManager {
-  private readonly buffers = new Map<string, string[]>()
+  private readonly buffers = new Map<string, LogEntry[]>()
   private readonly cleanupFns = new Map<string, () => void>()
+  private readonly secrets = new Map<string, string[]>()
+  private readonly heldOutput = new Map<string, Partial<Record<LogStream, string>>>()
   private readonly maxLines: number
 
   constructor(maxLines: number = MAX_LOG_LINES) {
@@ -22,21 +26,64 @@ export class LogManager {
    * Appends log data to the buffer for a service.
    * Trims the buffer to maxLines if it exceeds the limit.
    */
-  appendLog(projectId: string, serviceId: string, data: string): void {
+  appendLog(projectId: string, serviceId: string, data: string, stream?: LogStream): void {
     const key = createLogKey(projectId, serviceId)
     const buffer = this.buffers.get(key) || []
-    buffer.push(data)
+    buffer.push(stream ? { data, stream } : { data })
     if (buffer.length > this.maxLines) {
       buffer.splice(0, buffer.length - this.maxLines)
     }
     this.buffers.set(key, buffer)
   }
 
+  /**
+   * Sets the secret values to mask in a service's log output, replacing
+   * those of an earlier start.
+   */
+  setSecrets(projectId: string, serviceId: string, values: string[]): void {
+    const key = createLogKey(projectId, serviceId)
+    this.heldOutput.delete(key)
+    this.secrets.set(key, values)
+  }
+
+  /**
+   * Whether the secrets to mask were set for a service, even if it has none.
+   */
+  hasSecrets(projectId: string, serviceId: string): boolean {
+    return this.secrets.has(createLogKey(projectId, serviceId))
+  }
+
+  /**
+   * Returns log data with the service's secrets masked. Output arrives in
+   * arbitrary chunks, so an end that may be the start of a secret is held
+   * back and masked together with the next chunk of the same stream.
+   */
+  mask(projectId: string, serviceId: string, data: string, stream: LogStream = 'stdout'): string {
+    const key = createLogKey(projectId, serviceId)
+    const values = this.secrets.get(key)
+    if (!values?.length) return data
+
+    const held = this.heldOutput.get(key) ?? {}
+    const masked = maskSecrets((held[stream] ?? '') + data, values)
+    const partialLength = getPartialSecretLength(masked, values)
+    held[stream] = masked.slice(masked.length - partialLength)
+    this.heldOutput.set(key, held)
+    return masked.slice(0, masked.length - partialLength)
+  }
+
   /**
    * Returns the log buffer for a service.
    * Returns an empty array if no logs exist for the service.
    */
   getBuffer(projectId: string, serviceId: string): string[] {
+    return this.getEntries(projectId, serviceId).map((entry) => entry.data)
+  }
+
+  /**
+   * Returns the log buffer for a service with the stream of each entry.
+   * Returns an empty array if no logs exist for the service.
+   */
+  getEntries(projectId: string, serviceId: string): LogEntry[] {
     const key = createLogKey(projectId, serviceId)
     return this.buffers.get(key) || []
   }
@@ -80,12 +127,19 @@ export class LogManager {
    * This should be called when a project is removed.
    */
   cleanupProject(projectId: string): void {
-    // Collect all keys from both maps to ensure we clean up everything
-    const allKeys = new Set([...this.buffers.keys(), ...this.cleanupFns.keys()])
+    // Collect all keys from every map to ensure we clean up everything
+    const allKeys = new Set([
+      ...this.buffers.keys(),
+      ...this.cleanupFns.keys(),
+      ...this.secrets.keys(),
+      ...this.heldOutput.keys(),
+    ])
 
     for (const key of allKeys) {
       if (matchesProject(key, projectId)) {
         this.buffers.delete(key)
+        this.secrets.delete(key)
+        this.heldOutput.delete(key)
         const cleanup = this.cleanupFns.get(key)
         if (cleanup) {
           cleanup()
@@ -106,6 +160,8 @@ export class LogManager {
     }
     this.buffers.clear()
     this.cleanupFns.clear()
+    this.secrets.clear()
+    this.heldOutput.clear()
   }
 
   /**
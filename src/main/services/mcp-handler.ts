@@ -1,3 +1,8 @@
+import { PortConflictError, isPortConflictResolution } from "./port-conflict";
+import { MissingEnvError } from "./env-check";
+import { ProjectConfigError } from "./project-config";
+import type { PortConflictResolution } from "../../shared/types";
+
 export interface JsonRpcRequest {
   jsonrpc: "2.0";
   id?: number | string;
@@ -21,6 +26,7 @@ export interface McpHandlerDeps {
     name: string;
     path: string;
     status: string;
+    activeProfile: string | null;
   } | null>;
   listServices: (projectId: string) => Promise<
     Array<{
@@ -45,9 +51,80 @@ export interface McpHandlerDeps {
     projectId: string,
     serviceId: string,
     mode?: "native" | "container",
+    portConflictResolution?: PortConflictResolution,
   ) => Promise<{ restarted: boolean }>;
   stopService: (projectId: string, serviceId: string) => Promise<void>;
-  restartService: (projectId: string, serviceId: string) => Promise<void>;
+  restartService: (
+    projectId: string,
+    serviceId: string,
+    portConflictResolution?: PortConflictResolution,
+  ) => Promise<void>;
+}
+
+const ON_PORT_CONFLICT_ARG = {
+  type: "string",
+  enum: ["kill", "next-port"],
+  description:
+    "What to do if a process Simple Local did not start holds the service port: stop it, or move the service to the next free port. If omitted, the call fails with a PORT_CONFLICT error describing the process.",
+};
+
+/**
+ * Read the optional onPortConflict argument of start tools.
+ * @returns The resolution or undefined if absent; null for an invalid value
+ */
+function getPortConflictResolution(
+  args: Record<string, string>,
+): PortConflictResolution | undefined | null {
+  const value = args.onPortConflict;
+  if (value === undefined) return undefined;
+  return isPortConflictResolution(value) ? value : null;
+}
+
+interface ToolError {
+  content: Array<{ type: "text"; text: string }>;
+  structuredContent?: {
+    error: { code: string; message: string; details?: unknown };
+  };
+  isError: true;
+}
+
+/**
+ * Build a tool result reporting an error, with the code and details as structured content.
+ */
+function toolError(
+  text: string,
+  error?: { code: string; message: string; details?: unknown },
+): ToolError {
+  return {
+    content: [{ type: "text", text }],
+    ...(error && { structuredContent: { error } }),
+    isError: true,
+  };
+}
+
+/**
+ * Map an error thrown by a tool to its tool result, with a hint on how to recover.
+ */
+function toToolError(err: unknown): ToolError {
+  if (err instanceof PortConflictError) {
+    return toolError(
+      `Error: ${err.message}\nCode: ${err.code}\nRetry with onPortConflict set to "kill"${err.conflict.canUseNextPort ? ' or "next-port"' : ""}.\n${JSON.stringify(err.conflict, null, 2)}`,
+      { code: err.code, message: err.message, details: err.conflict },
+    );
+  }
+  if (err instanceof MissingEnvError) {
+    return toolError(
+      `Error: ${err.message}\nCode: ${err.code}\nSet the missing variables in the service's env, env files or config.local.json.\n${JSON.stringify(err.missingEnv, null, 2)}`,
+      { code: err.code, message: err.message, details: err.missingEnv },
+    );
+  }
+  if (err instanceof ProjectConfigError) {
+    return toolError(
+      `Error: ${err.message}\nCode: ${err.code}\nFix .simple-local/config.json and try again.`,
+      { code: err.code, message: err.message, details: err.issues },
+    );
+  }
+  return toolError(`Error: ${err instanceof Error ? err.message : "Unknown error"}`);
 }
 
 const TOOLS = [
@@ -125,6 +202,7 @@ const TOOLS = [
           description:
             "Run mode (native or container). If omitted, uses the configured default.",
         },
+        onPortConflict: ON_PORT_CONFLICT_ARG,
       },
       required: ["projectId", "serviceId"],
     },
@@ -149,6 +227,7 @@ const TOOLS = [
       properties: {
         projectId: { type: "string", description: "The project ID" },
         serviceId: { type: "string", description: "The service ID" },
+        onPortConflict: ON_PORT_CONFLICT_ARG,
       },
       required: ["projectId", "serviceId"],
     },
@@ -187,6 +266,19 @@ export class McpHandler {
         arguments: Record<string, string>;
       };
 
+      const portConflictResolution = getPortConflictResolution(args ?? {});
+      if (portConflictResolution === null) {
+        const message = 'onPortConflict must be "kill" or "next-port"';
+        return {
+          jsonrpc: "2.0",
+          id,
+          result: toolError(`Error: ${message}\nCode: INVALID_PARAMETER`, {
+            code: "INVALID_PARAMETER",
+            message,
+          }),
+        };
+      }
+
       try {
         let text: string;
 
@@ -210,7 +302,7 @@ export class McpHandler {
             if (!project) {
               text = `Project '${args.projectId}' not found.`;
             } else {
-              text = `Project: ${project.name}\nPath: ${project.path}\nStatus: ${project.status}`;
+              text = `Project: ${project.name}\nPath: ${project.path}\nStatus: ${project.status}\nProfile: ${project.activeProfile ?? "none"}`;
             }
             break;
           }
@@ -269,6 +361,7 @@ export class McpHandler {
               args.projectId,
               args.serviceId,
               mode,
+              portConflictResolution,
             );
             if (result.restarted) {
               text = `Restarted service '${args.serviceId}' in ${mode} mode.`;
@@ -284,7 +377,11 @@ export class McpHandler {
             break;
 
           case "restart_service":
-            await this.deps.restartService(args.projectId, args.serviceId);
+            await this.deps.restartService(
+              args.projectId,
+              args.serviceId,
+              portConflictResolution,
+            );
             text = `Restarted service '${args.serviceId}'.`;
             break;
 
@@ -302,19 +399,7 @@ export class McpHandler {
           result: { content: [{ type: "text", text }] },
         };
       } catch (err) {
-        return {
-          jsonrpc: "2.0",
-          id,
-          result: {
-            content: [
-              {
-                type: "text",
-                text: `Error: ${err instanceof Error ? err.message : "Unknown error"}`,
-              },
-            ],
-            isError: true,
-          },
-        };
+        return { jsonrpc: "2.0", id, result: toToolError(err) };
       }
     }
 
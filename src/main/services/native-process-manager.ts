@@ -1,9 +1,49 @@
 import { spawn, type ChildProcess } from 'child_process'
-import type { ServiceStatus } from '../../shared/types'
+import type { LogStream, RestartPolicy, ServiceRestartInfo, ServiceStatus } from '../../shared/types'
+import type { PersistedProcessGroup, ProcessGroupPersistence } from './process-group-store'
+
+export const DEFAULT_MAX_RETRIES = 5
+export const DEFAULT_BACKOFF_MS = 1_000
+export const DEFAULT_MAX_BACKOFF_MS = 30_000
+/** A process that stays up this long resets the consecutive-failure streak */
+export const STABLE_RUN_MS = 10_000
+/** Max difference between a recorded and an observed group start time to treat them as the same group */
+export const START_TIME_TOLERANCE_MS = 5_000
 
 interface ProcessGroup {
   pgid: number
-  childProcess: ChildProcess
+  /** Missing for groups adopted from a previous app session */
+  childProcess?: ChildProcess
+  /** Project the group was persisted for */
+  projectId?: string
+}
+
+/** Everything needed to spawn a service again after it exited */
+interface ServiceSpec {
+  command: string
+  cwd: string
+  env: Record<string, string>
+  onLog: (data: string, stream?: LogStream) => void
+  onStatusChange: (status: ServiceStatus['status']) => void
+  restartPolicy?: RestartPolicy
+  projectId?: string
+}
+
+interface RestartState {
+  restartCount: number
+  consecutiveFailures: number
+  lastExitCode: number | null
+  gaveUp: boolean
+  timer?: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Delay before the given restart attempt (1-based): backoffMs doubled per attempt, capped at maxBackoffMs.
+ */
+export function computeRestartDelay(policy: RestartPolicy, attempt: number): number {
+  const base = policy.backoffMs ?? DEFAULT_BACKOFF_MS
+  const max = policy.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS
+  return Math.min(base * 2 ** (attempt - 1), max)
 }
 
 /**
@@ -13,28 +53,58 @@ interface ProcessGroup {
  */
 export class NativeProcessManager {
   private processGroups = new Map<string, ProcessGroup>()
+  private readonly persistence?: ProcessGroupPersistence
+  private restartStates = new Map<string, RestartState>()
+  /** Services being stopped on purpose, whose exit must not trigger a restart */
+  private stoppingServices = new Set<string>()
+  /** Set on shutdown: groups spawned afterwards would outlive the app */
+  private restartsBlocked = false
   /** Timeout in ms before escalating from SIGTERM to SIGKILL */
   private readonly KILL_TIMEOUT_MS = 5000
   /** Polling interval for checking if process group is alive */
   private readonly POLL_INTERVAL_MS = 100
 
+  /**
+   * @param persistence - Optional storage that keeps track of running groups across app restarts
+   */
+  constructor(persistence?: ProcessGroupPersistence) {
+    this.persistence = persistence
+  }
+
   /**
    * Start a native service process in a new process group.
+   * Resets the restart history of the service.
    * @param serviceId - Unique identifier for the service
    * @param command - Command to run (will be split by spaces)
    * @param cwd - Working directory for the process
    * @param env - Environment variables
-   * @param onLog - Callback for stdout/stderr output
+   * @param onLog - Callback for output, tagged with the stream it was written to
    * @param onStatusChange - Callback for status changes
+   * @param restartPolicy - Optional policy for restarting the process after it exits
+   * @param projectId - Project of the service. Groups are only persisted with a project
    */
   startService(
     serviceId: string,
     command: string,
     cwd: string,
     env: Record<string, string>,
-    onLog: (data: string) => void,
-    onStatusChange: (status: ServiceStatus['status']) => void
+    onLog: (data: string, stream?: LogStream) => void,
+    onStatusChange: (status: ServiceStatus['status']) => void,
+    restartPolicy?: RestartPolicy,
+    projectId?: string
   ): void {
+    this.cancelPendingRestart(serviceId)
+    this.restartStates.set(serviceId, {
+      restartCount: 0,
+      consecutiveFailures: 0,
+      lastExitCode: null,
+      gaveUp: false,
+    })
+    this.spawnService(serviceId, { command, cwd, env, onLog, onStatusChange, restartPolicy, projectId })
+  }
+
+  private spawnService(serviceId: string, spec: ServiceSpec): void {
+    const { command, cwd, env, onLog, onStatusChange, projectId } = spec
     onStatusChange('starting')
 
     const [cmd, ...args] = command.split(' ')
@@ -46,10 +116,14 @@ export class NativeProcessManager {
     })
 
     const pgid = proc.pid!
-    this.processGroups.set(serviceId, { pgid, childProcess: proc })
+    const startedAt = Date.now()
+    this.processGroups.set(serviceId, { pgid, childProcess: proc, projectId })
+    if (pgid && projectId) {
+      this.persistence?.save({ projectId, serviceId, pgid, command, cwd, startedAt })
+    }
 
-    proc.stdout?.on('data', (data) => onLog(data.toString()))
-    proc.stderr?.on('data', (data) => onLog(data.toString()))
+    proc.stdout?.on('data', (data) => onLog(data.toString(), 'stdout'))
+    proc.stderr?.on('data', (data) => onLog(data.toString(), 'stderr'))
 
     proc.on('spawn', () => onStatusChange('running'))
     proc.on('error', (err) => {
@@ -58,30 +132,91 @@ export class NativeProcessManager {
     })
     proc.on('close', (code) => {
       if (!this.isProcessGroupAlive(pgid)) {
-        this.processGroups.delete(serviceId)
+        // Not tracked anymore means the service was stopped or started again meanwhile
+        const tracked = this.processGroups.get(serviceId)?.childProcess === proc
+        if (tracked) this.forgetGroup(serviceId)
+        const state = this.restartStates.get(serviceId)
+        if (state) state.lastExitCode = code
+
         if (code !== 0 && code !== null) {
           onStatusChange('error')
           onLog(`Process exited with code ${code}`)
         } else {
           onStatusChange('stopped')
         }
+        if (tracked) this.handleExit(serviceId, spec, code, Date.now() - startedAt)
       } else {
         onLog(`Parent exited, child processes still running\n`)
       }
     })
   }
 
+  /**
+   * Apply the restart policy after the whole process group exited on its own.
+   */
+  private handleExit(serviceId: string, spec: ServiceSpec, code: number | null, uptimeMs: number): void {
+    const policy = spec.restartPolicy
+    const state = this.restartStates.get(serviceId)
+    if (!policy || !state || this.restartsBlocked || this.stoppingServices.has(serviceId)) return
+    if (policy.policy === 'no') return
+    if (policy.policy === 'on-failure' && code === 0) return
+
+    if (uptimeMs >= STABLE_RUN_MS) {
+      state.consecutiveFailures = 0
+    }
+
+    const maxRetries = policy.maxRetries ?? DEFAULT_MAX_RETRIES
+    if (state.consecutiveFailures >= maxRetries) {
+      state.gaveUp = true
+      spec.onLog(`\nGiving up after ${maxRetries} restart attempts (last exit code: ${code ?? 'none'})\n`)
+      return
+    }
+
+    state.consecutiveFailures++
+    const delay = computeRestartDelay(policy, state.consecutiveFailures)
+    spec.onLog(`\nRestarting in ${delay}ms (attempt ${state.consecutiveFailures}/${maxRetries})\n`)
+
+    state.timer = setTimeout(() => {
+      state.timer = undefined
+      state.restartCount++
+      this.spawnService(serviceId, spec)
+    }, delay)
+  }
+
+  private cancelPendingRestart(serviceId: string): boolean {
+    const timer = this.restartStates.get(serviceId)?.timer
+    if (!timer) return false
+    clearTimeout(timer)
+    this.restartStates.get(serviceId)!.timer = undefined
+    return true
+  }
+
   /**
    * Stop a native service process group with graceful shutdown.
    * Sends SIGTERM to the entire process group first, then SIGKILL after timeout.
-   * @returns true if the process group was found and stop was initiated, false otherwise
+   * Also cancels a pending automatic restart.
+   * @returns true if the process group or a pending restart was found, false otherwise
    */
   async stopService(serviceId: string): Promise<boolean> {
+    const cancelledRestart = this.cancelPendingRestart(serviceId)
     const group = this.processGroups.get(serviceId)
-    if (!group) return false
+    if (!group) return cancelledRestart
 
-    const { pgid } = group
+    this.stoppingServices.add(serviceId)
+    try {
+      await this.terminateGroup(group.pgid)
+    } finally {
+      this.stoppingServices.delete(serviceId)
+    }
 
+    this.forgetGroup(serviceId)
+    return true
+  }
+
+  /**
+   * Send SIGTERM to a process group, then SIGKILL if it is still alive after the timeout.
+   */
+  private async terminateGroup(pgid: number): Promise<void> {
     try {
       process.kill(-pgid, 'SIGTERM')
     } catch {
@@ -97,9 +232,64 @@ export class NativeProcessManager {
         // Group may have already exited
       }
     }
+  }
+
+  /**
+   * Re-adopt process groups that were left running by a previous app session,
+   * e.g. after a crash or force-quit. Records of groups that exited meanwhile,
+   * or whose PGID now belongs to an unrelated process, are discarded.
+   * Output of adopted groups cannot be captured anymore.
+   * Groups are tracked by service id, so of two live groups for services with
+   * the same id only the first is tracked; the other is still returned.
+   * @param getGroupStartTime - Resolves the start time of a live process group
+   * @returns The live groups
+   */
+  async adoptOrphanedGroups(
+    getGroupStartTime: (pgid: number) => Promise<number | null>
+  ): Promise<PersistedProcessGroup[]> {
+    if (!this.persistence) return []
+
+    const adopted: PersistedProcessGroup[] = []
+    for (const record of this.persistence.load()) {
+      if (this.isTrackedProcessGroup(record.pgid)) continue
+
+      const startedAt = this.isProcessGroupAlive(record.pgid) ? await getGroupStartTime(record.pgid) : null
+      if (startedAt === null || Math.abs(startedAt - record.startedAt) > START_TIME_TOLERANCE_MS) {
+        this.persistence.remove(record.projectId, record.serviceId)
+        continue
+      }
+
+      if (!this.processGroups.has(record.serviceId)) {
+        this.processGroups.set(record.serviceId, { pgid: record.pgid, projectId: record.projectId })
+      }
+      adopted.push(record)
+    }
+    return adopted
+  }
+
+  /**
+   * Stop an adopted group no service claimed and forget it.
+   */
+  async stopOrphanedGroup(record: PersistedProcessGroup): Promise<void> {
+    await this.terminateGroup(record.pgid)
+    this.releaseOrphanedGroup(record)
+  }
+
+  /**
+   * Forget an adopted group no service claimed, leaving it running.
+   * It is not stopped on quit and not adopted again.
+   */
+  releaseOrphanedGroup(record: PersistedProcessGroup): void {
+    if (this.processGroups.get(record.serviceId)?.pgid === record.pgid) {
+      this.processGroups.delete(record.serviceId)
+    }
+    this.persistence?.remove(record.projectId, record.serviceId)
+  }
 
+  private forgetGroup(serviceId: string): void {
+    const group = this.processGroups.get(serviceId)
     this.processGroups.delete(serviceId)
-    return true
+    if (group?.projectId) this.persistence?.remove(group.projectId, serviceId)
   }
 
   /**
@@ -144,11 +334,37 @@ export class NativeProcessManager {
   /**
    * Check if a native service is currently running.
    * Checks if the process group is still alive, not just the parent process.
+   * Adopted groups have no close event, so they are forgotten here once they exit.
    */
   isRunning(serviceId: string): boolean {
     const group = this.processGroups.get(serviceId)
     if (!group) return false
-    return this.isProcessGroupAlive(group.pgid)
+    const alive = this.isProcessGroupAlive(group.pgid)
+    if (!alive && !group.childProcess) {
+      this.forgetGroup(serviceId)
+    }
+    return alive
+  }
+
+  /**
+   * Check if an automatic restart is scheduled for a service.
+   */
+  isRestartPending(serviceId: string): boolean {
+    return this.restartStates.get(serviceId)?.timer !== undefined
+  }
+
+  /**
+   * Get the restart history of a service since it was last started.
+   * @returns undefined if the service was never started
+   */
+  getRestartInfo(serviceId: string): ServiceRestartInfo | undefined {
+    const state = this.restartStates.get(serviceId)
+    if (!state) return undefined
+    return {
+      restartCount: state.restartCount,
+      lastExitCode: state.lastExitCode,
+      gaveUp: state.gaveUp,
+    }
   }
 
   /**
@@ -159,11 +375,27 @@ export class NativeProcessManager {
     return this.processGroups.get(serviceId)?.pgid
   }
 
+  /**
+   * Check whether a process group was started (or re-adopted) by this manager.
+   */
+  isTrackedProcessGroup(pgid: number): boolean {
+    for (const group of this.processGroups.values()) {
+      if (group.pgid === pgid) return true
+    }
+    return false
+  }
+
   /**
    * Kill all tracked process groups.
-   * Used during app shutdown to clean up any running processes.
+   * Used during app shutdown to clean up any running processes. Pending
+   * restarts are cancelled first and no new ones are scheduled, including
+   * those of services waiting in backoff, which have no group to stop.
    */
   async killAllProcessGroups(): Promise<void> {
+    this.restartsBlocked = true
+    for (const serviceId of this.restartStates.keys()) {
+      this.cancelPendingRestart(serviceId)
+    }
     const serviceIds = Array.from(this.processGroups.keys())
     await Promise.all(serviceIds.map((id) => this.stopService(id)))
   }
@@ -0,0 +1,48 @@
+import type { PortConflict, PortConflictResolution, Service } from '../../shared/types'
+
+const RESOLUTIONS: readonly PortConflictResolution[] = ['kill', 'next-port']
+
+/**
+ * Thrown when a service's port is held by a process Simple Local did not start
+ * and the caller has not said how to resolve it.
+ */
+export class PortConflictError extends Error {
+  readonly code = 'PORT_CONFLICT'
+  readonly conflict: PortConflict
+
+  constructor(conflict: PortConflict) {
+    const holders = conflict.holders.map((h) => `${h.name} (PID ${h.pid})`).join(', ')
+    super(`Port ${conflict.port} for ${conflict.serviceName} is in use by ${holders || 'an unidentified process'}`)
+    this.name = 'PortConflictError'
+    this.conflict = conflict
+  }
+}
+
+export function isPortConflictResolution(value: unknown): value is PortConflictResolution {
+  return RESOLUTIONS.includes(value as PortConflictResolution)
+}
+
+/**
+ * Find the first port in the project range that no other service is configured
+ * to use (including this service's debug port) and that nothing is listening on.
+ * @returns The port, or null if the range is exhausted
+ */
+export async function findNextFreePort(
+  portRange: [number, number],
+  services: Service[],
+  serviceId: string,
+  isInUse: (port: number) => Promise<boolean>
+): Promise<number | null> {
+  const reserved = new Set<number>()
+  for (const service of services) {
+    if (service.id !== serviceId && service.port !== undefined) reserved.add(service.port)
+    if (service.debugPort !== undefined) reserved.add(service.debugPort)
+  }
+
+  const [start, end] = portRange
+  for (let port = start; port <= end; port++) {
+    if (reserved.has(port)) continue
+    if (!(await isInUse(port))) return port
+  }
+  return null
+}
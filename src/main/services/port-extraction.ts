@@ -28,6 +28,7 @@ const defaultFileSystem: FileSystemOperations = {
   readdir: (p, options) => fs.readdir(p, options) as Promise<{ name: string; isFile(): boolean; isDirectory(): boolean }[]>,
   mkdir: (p, options) => fs.mkdir(p, options).then(() => undefined),
   unlink: (p) => fs.unlink(p),
+  writeFile: (p, content) => fs.writeFile(p, content, 'utf-8'),
 }
 
 const defaultAgentTerminalFactory: AgentTerminalFactory = {
@@ -0,0 +1,187 @@
+import { execFile as execFileCallback } from 'child_process'
+import { readFile, readdir, readlink } from 'fs/promises'
+import { join } from 'path'
+import { promisify } from 'util'
+import type { PortHolder } from '../../shared/types'
+import { parseProcStat } from './process-stats'
+
+const execFile = promisify(execFileCallback)
+
+/** Socket state of a listening TCP socket in /proc/net/tcp */
+const TCP_LISTEN_STATE = '0A'
+
+/**
+ * Result of inspecting a TCP port. A port can be in use without known holders
+ * when the listening process belongs to another user.
+ */
+export interface PortInspection {
+  inUse: boolean
+  holders: PortHolder[]
+}
+
+/**
+ * Thrown when the port cannot be inspected at all, e.g. because lsof is not installed.
+ * Callers must not treat this as "port is free".
+ */
+export class PortInspectionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PortInspectionError'
+  }
+}
+
+/**
+ * Platform-specific lookup of the processes listening on a TCP port.
+ */
+export interface PortInspector {
+  inspect(port: number): Promise<PortInspection>
+}
+
+/**
+ * Parse a /proc/net/tcp or /proc/net/tcp6 table.
+ * @returns Socket inodes of listening sockets bound to the given port
+ */
+export function parseListeningInodes(content: string, port: number): string[] {
+  const inodes: string[] = []
+
+  for (const line of content.split('\n').slice(1)) {
+    // sl local_address rem_address st tx_queue:rx_queue tr:tm->when retrnsmt uid timeout inode
+    const fields = line.trim().split(/\s+/)
+    if (fields.length < 10) continue
+
+    const localPort = parseInt(fields[1].split(':')[1] ?? '', 16)
+    if (localPort === port && fields[3] === TCP_LISTEN_STATE && fields[9] !== '0') {
+      inodes.push(fields[9])
+    }
+  }
+
+  return inodes
+}
+
+/**
+ * Finds port holders through the kernel socket tables on Linux,
+ * without depending on external binaries.
+ */
+export class ProcfsPortInspector implements PortInspector {
+  private readonly procRoot: string
+
+  constructor(procRoot = '/proc') {
+    this.procRoot = procRoot
+  }
+
+  async inspect(port: number): Promise<PortInspection> {
+    const inodes = new Set<string>()
+    for (const table of ['tcp', 'tcp6']) {
+      let content: string
+      try {
+        content = await readFile(join(this.procRoot, 'net', table), 'utf-8')
+      } catch {
+        // tcp6 is missing when IPv6 is disabled
+        continue
+      }
+      for (const inode of parseListeningInodes(content, port)) inodes.add(inode)
+    }
+
+    if (inodes.size === 0) return { inUse: false, holders: [] }
+    return { inUse: true, holders: await this.findSocketOwners(inodes) }
+  }
+
+  private async findSocketOwners(inodes: Set<string>): Promise<PortHolder[]> {
+    const holders: PortHolder[] = []
+
+    for (const entry of await readdir(this.procRoot)) {
+      if (!/^\d+$/.test(entry)) continue
+
+      let fds: string[]
+      try {
+        fds = await readdir(join(this.procRoot, entry, 'fd'))
+      } catch {
+        // Process exited, or belongs to another user
+        continue
+      }
+
+      for (const fd of fds) {
+        const target = await readlink(join(this.procRoot, entry, 'fd', fd)).catch(() => '')
+        const match = target.match(/^socket:\[(\d+)\]$/)
+        if (match && inodes.has(match[1])) {
+          holders.push(await this.describeProcess(parseInt(entry, 10)))
+          break
+        }
+      }
+    }
+
+    return holders
+  }
+
+  private async describeProcess(pid: number): Promise<PortHolder> {
+    const read = (file: string) => readFile(join(this.procRoot, String(pid), file), 'utf-8').catch(() => '')
+    const [comm, cmdline, stat] = await Promise.all([read('comm'), read('cmdline'), read('stat')])
+    const name = comm.trim() || String(pid)
+    const commandLine = cmdline.split('\0').filter(Boolean).join(' ') || name
+    return { pid, pgid: parseProcStat(stat)?.pgrp ?? null, name, commandLine }
+  }
+}
+
+/**
+ * Parse `lsof -F pc` output: a "p<pid>" line per process followed by a "c<command>" line.
+ */
+export function parseLsofOutput(output: string): Array<{ pid: number; name: string }> {
+  const processes: Array<{ pid: number; name: string }> = []
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith('p')) {
+      const pid = parseInt(line.slice(1), 10)
+      if (!Number.isNaN(pid)) processes.push({ pid, name: '' })
+    } else if (line.startsWith('c') && processes.length > 0) {
+      processes[processes.length - 1].name = line.slice(1)
+    }
+  }
+
+  return processes
+}
+
+/**
+ * Finds port holders with lsof, for platforms without procfs socket tables.
+ */
+export class LsofPortInspector implements PortInspector {
+  async inspect(port: number): Promise<PortInspection> {
+    let stdout: string
+    try {
+      ;({ stdout } = await execFile('lsof', ['-nP', `-iTCP:${port}`, '-sTCP:LISTEN', '-F', 'pc']))
+    } catch (err) {
+      const code = (err as { code?: unknown }).code
+      if (code === 'ENOENT') {
+        throw new PortInspectionError('Cannot inspect ports: lsof is not installed')
+      }
+      // lsof exits with 1 when nothing matches
+      if (code === 1) return { inUse: false, holders: [] }
+      throw new PortInspectionError(`Cannot inspect port ${port}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+
+    const processes = parseLsofOutput(stdout)
+    const holders = await Promise.all(
+      processes.map(async ({ pid, name }) => {
+        const details = await this.describeProcess(pid)
+        return { pid, pgid: details?.pgid ?? null, name, commandLine: details?.commandLine || name }
+      })
+    )
+    return { inUse: holders.length > 0, holders }
+  }
+
+  private async describeProcess(pid: number): Promise<{ pgid: number | null; commandLine: string } | null> {
+    try {
+      const { stdout } = await execFile('ps', ['-o', 'pgid=,command=', '-p', String(pid)])
+      const match = stdout.trim().match(/^(\d+)\s+(.*)$/)
+      return match ? { pgid: parseInt(match[1], 10), commandLine: match[2] } : null
+    } catch {
+      return null
+    }
+  }
+}
+
+/**
+ * Pick the port inspection backend for the current platform: procfs on Linux, lsof elsewhere.
+ */
+export function createPortInspector(platform: NodeJS.Platform = process.platform): PortInspector {
+  return platform === 'linux' ? new ProcfsPortInspector() : new LsofPortInspector()
+}
@@ -1,8 +1,10 @@
-import { execSync, exec as execCallback } from 'child_process'
+import { exec as execCallback } from 'child_process'
 import { promisify } from 'util'
 import { validatePort } from './validation'
+import { createProcessStatsProvider, type ProcessStatsProvider } from './process-stats'
+import { createPortInspector, type PortInspection, type PortInspector } from './port-inspection'
 import { createLogger } from '../../shared/logger'
-import type { ServiceResourceStats } from '../../shared/types'
+import type { PortHolder, ServiceResourceStats } from '../../shared/types'
 
 const exec = promisify(execCallback)
 const log = createLogger('PortManager')
@@ -22,10 +24,18 @@ function isExpectedKillError(error: unknown): boolean {
 }
 
 /**
- * Parse PIDs from lsof output.
+ * Parse a ps elapsed time in [[dd-]hh:]mm:ss format.
+ * @returns Elapsed time in ms, or null if the format is not recognized
  */
-function parsePids(output: string): string[] {
-  return output.split('\n').filter(Boolean)
+export function parseElapsedTime(etime: string): number | null {
+  const match = etime.trim().match(/^(?:(?:(\d+)-)?(\d+):)?(\d+):(\d+)$/)
+  if (!match) return null
+  const [, days, hours, minutes, seconds] = match
+  const totalSeconds =
+    (parseInt(days ?? '0', 10) * 24 + parseInt(hours ?? '0', 10)) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10)
+  return totalSeconds * 1000
 }
 
 /**
@@ -42,113 +52,89 @@ function handleKillError(pid: string, err: unknown): void {
  * Extracted from ContainerService to follow Single Responsibility Principle.
  */
 export class PortManager {
+  private readonly statsProvider: ProcessStatsProvider
+  private readonly portInspector: PortInspector
+  /** Time in ms a process gets to release its port after SIGTERM */
+  private readonly PORT_RELEASE_TIMEOUT_MS = 3000
+  /** Polling interval for checking if the port was released */
+  private readonly POLL_INTERVAL_MS = 100
+
   /**
-   * Kill any process listening on the specified port (synchronous).
-   * @returns true if a process was killed, false otherwise
+   * @param statsProvider - CPU and memory backend, chosen per platform by default
+   * @param portInspector - Port lookup backend, chosen per platform by default
    */
-  killProcessOnPort(port: number): boolean {
-    validatePort(port)
+  constructor(
+    statsProvider: ProcessStatsProvider = createProcessStatsProvider(),
+    portInspector: PortInspector = createPortInspector()
+  ) {
+    this.statsProvider = statsProvider
+    this.portInspector = portInspector
+  }
 
-    try {
-      const result = execSync(`lsof -ti tcp:${port}`, { encoding: 'utf-8' }).trim()
-      if (result) {
-        const pids = parsePids(result)
-        for (const pid of pids) {
-          try {
-            execSync(`kill -9 ${pid}`)
-          } catch (err) {
-            handleKillError(pid, err)
-          }
-        }
-        return true
-      }
-    } catch {
-      // No process on port or lsof failed
-    }
-    return false
+  /**
+   * Find the processes listening on a port.
+   * @throws PortInspectionError if the port cannot be inspected on this system
+   */
+  async inspectPort(port: number): Promise<PortInspection> {
+    validatePort(port)
+    return this.portInspector.inspect(port)
   }
 
   /**
-   * Kill any process listening on the specified port (async, non-blocking).
-   * @returns true if a process was killed, false otherwise
+   * Stop the processes listening on the specified port.
+   * Sends SIGTERM first and escalates to SIGKILL if the port is not released in time.
+   * @returns true if a process was signalled, false if nobody we can signal holds the port
+   * @throws PortInspectionError if the port cannot be inspected on this system
    */
   async killProcessOnPortAsync(port: number): Promise<boolean> {
-    validatePort(port)
+    const { holders } = await this.inspectPort(port)
+    if (holders.length === 0) return false
 
-    try {
-      const { stdout } = await exec(`lsof -ti tcp:${port}`)
-      const result = stdout.trim()
-      if (result) {
-        const pids = parsePids(result)
-        await Promise.all(
-          pids.map((pid) => exec(`kill -9 ${pid}`).catch((err) => handleKillError(pid, err)))
-        )
-        return true
+    this.signalHolders(holders, 'SIGTERM')
+
+    const deadline = Date.now() + this.PORT_RELEASE_TIMEOUT_MS
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, this.POLL_INTERVAL_MS))
+      const { inUse } = await this.portInspector.inspect(port)
+      if (!inUse) return true
+    }
+
+    this.signalHolders(holders, 'SIGKILL')
+    return true
+  }
+
+  private signalHolders(holders: PortHolder[], signal: NodeJS.Signals): void {
+    for (const { pid } of holders) {
+      try {
+        process.kill(pid, signal)
+      } catch (err) {
+        handleKillError(String(pid), err)
       }
-    } catch {
-      // No process on port or lsof failed
     }
-    return false
   }
 
   /**
    * Check if a port is in use (has a process listening on it).
    * @returns true if a process is listening on the port
+   * @throws PortInspectionError if the port cannot be inspected on this system
    */
   async isPortInUse(port: number): Promise<boolean> {
-    validatePort(port)
-
-    try {
-      const { stdout } = await exec(`lsof -ti tcp:${port}`)
-      return stdout.trim().length > 0
-    } catch {
-      // lsof failed or no process on port
-      return false
-    }
+    const { inUse } = await this.inspectPort(port)
+    return inUse
   }
 
   /**
    * Get resource stats for a process listening on a port.
-   * Uses top -l 2 for accurate CPU measurement (takes two samples).
    * @returns Resource stats or null if no process found
    */
   async getProcessStatsForPort(port: number): Promise<ServiceResourceStats | null> {
     validatePort(port)
 
     try {
-      // Get PID of process on port
-      const { stdout: pidOutput } = await exec(`lsof -ti tcp:${port}`)
-      const pid = pidOutput.trim().split('\n')[0]
-      if (!pid) return null
-
-      // Use top -l 2 for accurate CPU (takes two samples ~1 second apart)
-      // -stats pid,cpu,rsize gives us just the columns we need
-      // tail -1 gets the last (second) sample which has accurate CPU
-      const { stdout: topOutput } = await exec(
-        `top -l 2 -pid ${pid} -stats pid,cpu,rsize | grep "^${pid}" | tail -1`,
-        { timeout: 5000 }
-      )
-
-      const parts = topOutput.trim().split(/\s+/)
-      if (parts.length < 3) return null
-
-      // Format: PID CPU RSIZE (e.g., "12345 5.2 100M")
-      const cpuPercent = parseFloat(parts[1]) || 0
-      const memoryStr = parts[2] || '0'
-
-      // Parse memory (can be in K, M, G format)
-      let memoryMB = 0
-      const memMatch = memoryStr.match(/^([\d.]+)([KMG])?/)
-      if (memMatch) {
-        const value = parseFloat(memMatch[1])
-        const unit = memMatch[2]
-        if (unit === 'G') memoryMB = Math.round(value * 1024 * 10) / 10
-        else if (unit === 'M') memoryMB = Math.round(value * 10) / 10
-        else if (unit === 'K') memoryMB = Math.round(value / 1024 * 10) / 10
-        else memoryMB = Math.round(value / 1024 / 1024 * 10) / 10 // bytes
-      }
+      const { holders } = await this.inspectPort(port)
+      if (holders.length === 0) return null
 
-      return { cpuPercent, memoryMB }
+      return await this.statsProvider.getProcessStats(holders[0].pid)
     } catch {
       return null
     }
@@ -161,30 +147,30 @@ export class PortManager {
    * @returns Aggregated resource stats or null if no processes found
    */
   async getProcessGroupStats(pgid: number): Promise<ServiceResourceStats | null> {
+    return this.statsProvider.getProcessGroupStats(pgid)
+  }
+
+  /**
+   * Get the start time of the oldest process in a process group.
+   * Used to tell a group we spawned apart from an unrelated one that reused its PGID.
+   * @param pgid - Process group ID
+   * @returns Start time in epoch ms (1s precision) or null if no processes found
+   */
+  async getProcessGroupStartTime(pgid: number): Promise<number | null> {
     try {
-      // Get aggregated stats for all processes in the group
-      // ps -g {pgid} gets processes in that group
-      // -o %cpu=,rss= gives CPU% and RSS in KB without headers
-      const { stdout } = await exec(`ps -g ${pgid} -o %cpu=,rss=`)
-      const lines = stdout.trim().split('\n').filter(Boolean)
-
-      if (lines.length === 0) return null
-
-      let totalCpu = 0
-      let totalMemoryKB = 0
-
-      for (const line of lines) {
-        const parts = line.trim().split(/\s+/)
-        if (parts.length >= 2) {
-          totalCpu += parseFloat(parts[0]) || 0
-          totalMemoryKB += parseInt(parts[1], 10) || 0
+      const { stdout } = await exec('ps -A -o pgid=,etime=')
+      let oldestElapsedMs: number | null = null
+
+      for (const line of stdout.trim().split('\n')) {
+        const [groupId, etime] = line.trim().split(/\s+/)
+        if (parseInt(groupId, 10) !== pgid) continue
+        const elapsedMs = parseElapsedTime(etime ?? '')
+        if (elapsedMs !== null && (oldestElapsedMs === null || elapsedMs > oldestElapsedMs)) {
+          oldestElapsedMs = elapsedMs
         }
       }
 
-      return {
-        cpuPercent: Math.round(totalCpu * 10) / 10,
-        memoryMB: Math.round(totalMemoryKB / 1024 * 10) / 10,
-      }
+      return oldestElapsedMs === null ? null : Date.now() - oldestElapsedMs
     } catch {
       return null
     }
@@ -0,0 +1,56 @@
+import Store from 'electron-store'
+import { ConfigPaths } from './config-paths'
+import { createLogKey } from './log-key'
+
+/**
+ * A native process group as recorded when it was spawned.
+ */
+export interface PersistedProcessGroup {
+  projectId: string
+  serviceId: string
+  pgid: number
+  command: string
+  cwd: string
+  startedAt: number  // Epoch ms when the group leader was spawned
+}
+
+/**
+ * Storage for native process groups, so they can be found again after the app restarts.
+ */
+export interface ProcessGroupPersistence {
+  load(): PersistedProcessGroup[]
+  save(group: PersistedProcessGroup): void
+  remove(projectId: string, serviceId: string): void
+}
+
+/**
+ * Persists running native process groups to ~/.simple-local/processes.json.
+ * Entries are keyed by project and service and removed when a group exits
+ * or is stopped, so anything left on launch was running when the app
+ * crashed or was force-quit.
+ */
+export class ProcessGroupStore implements ProcessGroupPersistence {
+  private store: Store<{ processGroups: Record<string, PersistedProcessGroup> }>
+
+  constructor() {
+    this.store = new Store<{ processGroups: Record<string, PersistedProcessGroup> }>({
+      name: 'processes',
+      cwd: ConfigPaths.userDir(),
+      defaults: { processGroups: {} },
+    })
+  }
+
+  load(): PersistedProcessGroup[] {
+    return Object.values(this.store.get('processGroups') ?? {})
+  }
+
+  save(group: PersistedProcessGroup): void {
+    const key = createLogKey(group.projectId, group.serviceId)
+    this.store.set('processGroups', { ...this.store.get('processGroups'), [key]: group })
+  }
+
+  remove(projectId: string, serviceId: string): void {
+    const { [createLogKey(projectId, serviceId)]: _removed, ...rest } = this.store.get('processGroups') ?? {}
+    this.store.set('processGroups', rest)
+  }
+}
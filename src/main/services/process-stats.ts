@@ -0,0 +1,262 @@
+import { exec as execCallback } from 'child_process'
+import { readFile, readdir } from 'fs/promises'
+import { join } from 'path'
+import { promisify } from 'util'
+import type { ServiceResourceStats } from '../../shared/types'
+
+const exec = promisify(execCallback)
+
+/** Delay between the two CPU time samples taken by the procfs provider */
+const SAMPLE_INTERVAL_MS = 500
+
+/**
+ * Platform-specific source of CPU and memory usage for native processes.
+ * CPU is reported like top/ps: 100% equals one fully used core.
+ */
+export interface ProcessStatsProvider {
+  getProcessStats(pid: number): Promise<ServiceResourceStats | null>
+  getProcessGroupStats(pgid: number): Promise<ServiceResourceStats | null>
+}
+
+function roundStats(cpuPercent: number, memoryKB: number): ServiceResourceStats {
+  return {
+    cpuPercent: Math.round(cpuPercent * 10) / 10,
+    memoryMB: Math.round(memoryKB / 1024 * 10) / 10,
+  }
+}
+
+/**
+ * Stats via `top -l` and `ps`, as available on macOS.
+ */
+export class PsStatsProvider implements ProcessStatsProvider {
+  /**
+   * Uses top -l 2 for accurate CPU measurement (takes two samples).
+   */
+  async getProcessStats(pid: number): Promise<ServiceResourceStats | null> {
+    try {
+      // Use top -l 2 for accurate CPU (takes two samples ~1 second apart)
+      // -stats pid,cpu,rsize gives us just the columns we need
+      // tail -1 gets the last (second) sample which has accurate CPU
+      const { stdout: topOutput } = await exec(
+        `top -l 2 -pid ${pid} -stats pid,cpu,rsize | grep "^${pid}" | tail -1`,
+        { timeout: 5000 }
+      )
+
+      const parts = topOutput.trim().split(/\s+/)
+      if (parts.length < 3) return null
+
+      // Format: PID CPU RSIZE (e.g., "12345 5.2 100M")
+      const cpuPercent = parseFloat(parts[1]) || 0
+      const memoryStr = parts[2] || '0'
+
+      // Parse memory (can be in K, M, G format)
+      let memoryMB = 0
+      const memMatch = memoryStr.match(/^([\d.]+)([KMG])?/)
+      if (memMatch) {
+        const value = parseFloat(memMatch[1])
+        const unit = memMatch[2]
+        if (unit === 'G') memoryMB = Math.round(value * 1024 * 10) / 10
+        else if (unit === 'M') memoryMB = Math.round(value * 10) / 10
+        else if (unit === 'K') memoryMB = Math.round(value / 1024 * 10) / 10
+        else memoryMB = Math.round(value / 1024 / 1024 * 10) / 10 // bytes
+      }
+
+      return { cpuPercent, memoryMB }
+    } catch {
+      return null
+    }
+  }
+
+  async getProcessGroupStats(pgid: number): Promise<ServiceResourceStats | null> {
+    try {
+      // Get aggregated stats for all processes in the group
+      // ps -g {pgid} gets processes in that group
+      // -o %cpu=,rss= gives CPU% and RSS in KB without headers
+      const { stdout } = await exec(`ps -g ${pgid} -o %cpu=,rss=`)
+      const lines = stdout.trim().split('\n').filter(Boolean)
+
+      if (lines.length === 0) return null
+
+      let totalCpu = 0
+      let totalMemoryKB = 0
+
+      for (const line of lines) {
+        const parts = line.trim().split(/\s+/)
+        if (parts.length >= 2) {
+          totalCpu += parseFloat(parts[0]) || 0
+          totalMemoryKB += parseInt(parts[1], 10) || 0
+        }
+      }
+
+      return roundStats(totalCpu, totalMemoryKB)
+    } catch {
+      return null
+    }
+  }
+}
+
+export interface ProcStat {
+  pid: number
+  pgrp: number
+  /** utime + stime in clock ticks */
+  cpuTicks: number
+}
+
+/**
+ * Parse /proc/<pid>/stat. The command name is wrapped in parentheses
+ * and may itself contain spaces and parentheses, so fields are counted
+ * from the last closing parenthesis.
+ */
+export function parseProcStat(content: string): ProcStat | null {
+  const commEnd = content.lastIndexOf(')')
+  if (commEnd === -1) return null
+
+  const pid = parseInt(content, 10)
+  // Fields after comm start at field 3 (state); pgrp is field 5, utime 14, stime 15
+  const fields = content.slice(commEnd + 1).trim().split(/\s+/)
+  const pgrp = parseInt(fields[2], 10)
+  const utime = parseInt(fields[11], 10)
+  const stime = parseInt(fields[12], 10)
+  if ([pid, pgrp, utime, stime].some(Number.isNaN)) return null
+
+  return { pid, pgrp, cpuTicks: utime + stime }
+}
+
+/**
+ * Read the resident set size from /proc/<pid>/status.
+ * @returns VmRSS in KB, or 0 if missing (e.g. zombie processes)
+ */
+export function parseVmRss(content: string): number {
+  const match = content.match(/^VmRSS:\s+(\d+)\s+kB/m)
+  return match ? parseInt(match[1], 10) : 0
+}
+
+export interface SystemCpuTime {
+  /** Sum of all fields of the aggregate "cpu" line in clock ticks */
+  totalTicks: number
+  cpuCount: number
+}
+
+/**
+ * Parse the aggregate and per-core CPU lines of /proc/stat.
+ */
+export function parseSystemCpuTime(content: string): SystemCpuTime | null {
+  const lines = content.split('\n')
+  const total = lines.find((line) => line.startsWith('cpu '))
+  if (!total) return null
+
+  const totalTicks = total
+    .slice(4)
+    .trim()
+    .split(/\s+/)
+    .reduce((sum, value) => sum + (parseInt(value, 10) || 0), 0)
+  const cpuCount = lines.filter((line) => /^cpu\d+\s/.test(line)).length
+
+  return { totalTicks, cpuCount: Math.max(cpuCount, 1) }
+}
+
+interface ProcSample {
+  cpuTicks: number
+  memoryKB: number
+  totalTicks: number
+  cpuCount: number
+}
+
+/**
+ * Stats read directly from procfs, as available on Linux.
+ * CPU usage is the share of system CPU time used between two samples,
+ * scaled so one fully used core is 100%.
+ */
+export class ProcfsStatsProvider implements ProcessStatsProvider {
+  private readonly procRoot: string
+  private readonly sampleIntervalMs: number
+
+  constructor(procRoot = '/proc', sampleIntervalMs = SAMPLE_INTERVAL_MS) {
+    this.procRoot = procRoot
+    this.sampleIntervalMs = sampleIntervalMs
+  }
+
+  getProcessStats(pid: number): Promise<ServiceResourceStats | null> {
+    return this.measure(async () => [pid])
+  }
+
+  getProcessGroupStats(pgid: number): Promise<ServiceResourceStats | null> {
+    return this.measure(() => this.findGroupMembers(pgid))
+  }
+
+  private async measure(getPids: () => Promise<number[]>): Promise<ServiceResourceStats | null> {
+    try {
+      const first = await this.sample(await getPids())
+      if (!first) return null
+
+      await new Promise((resolve) => setTimeout(resolve, this.sampleIntervalMs))
+
+      const second = await this.sample(await getPids())
+      if (!second) return null
+
+      const totalDelta = second.totalTicks - first.totalTicks
+      // Members that exited between samples can make the process delta negative
+      const processDelta = Math.max(0, second.cpuTicks - first.cpuTicks)
+      const cpuPercent = totalDelta > 0 ? (processDelta / totalDelta) * second.cpuCount * 100 : 0
+
+      return roundStats(cpuPercent, second.memoryKB)
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Sum CPU ticks and memory of the given processes.
+   * @returns null if none of the processes exist anymore
+   */
+  private async sample(pids: number[]): Promise<ProcSample | null> {
+    const system = parseSystemCpuTime(await readFile(join(this.procRoot, 'stat'), 'utf-8'))
+    if (!system) return null
+
+    let found = false
+    let cpuTicks = 0
+    let memoryKB = 0
+
+    for (const pid of pids) {
+      try {
+        const [stat, status] = await Promise.all([
+          readFile(join(this.procRoot, String(pid), 'stat'), 'utf-8'),
+          readFile(join(this.procRoot, String(pid), 'status'), 'utf-8'),
+        ])
+        const parsed = parseProcStat(stat)
+        if (!parsed) continue
+        found = true
+        cpuTicks += parsed.cpuTicks
+        memoryKB += parseVmRss(status)
+      } catch {
+        // Process exited while reading
+      }
+    }
+
+    return found ? { cpuTicks, memoryKB, ...system } : null
+  }
+
+  private async findGroupMembers(pgid: number): Promise<number[]> {
+    const entries = await readdir(this.procRoot)
+    const members: number[] = []
+
+    for (const entry of entries) {
+      if (!/^\d+$/.test(entry)) continue
+      try {
+        const parsed = parseProcStat(await readFile(join(this.procRoot, entry, 'stat'), 'utf-8'))
+        if (parsed?.pgrp === pgid) members.push(parsed.pid)
+      } catch {
+        // Process exited while scanning
+      }
+    }
+
+    return members
+  }
+}
+
+/**
+ * Pick the stats backend for the current platform: procfs on Linux, top/ps elsewhere.
+ */
+export function createProcessStatsProvider(platform: NodeJS.Platform = process.platform): ProcessStatsProvider {
+  return platform === 'linux' ? new ProcfsStatsProvider() : new PsStatsProvider()
+}
@@ -1,7 +1,19 @@
 import * as fs from 'fs/promises'
 import * as path from 'path'
-import type { ProjectConfig, Service } from '../../shared/types'
+import type { z } from 'zod'
+import type { ConfigIssue, InvalidProjectConfig, LocalConfigOverrides, LocalProjectConfig, ProjectConfig, Service } from '../../shared/types'
+import { CURRENT_CONFIG_VERSION, localConfigSchema, projectConfigSchema } from '../../shared/config-schema'
+import { createLogger } from '../../shared/logger'
 import { ConfigPaths } from './config-paths'
+import { migrateProjectConfig } from './config-migrations'
+import { getLocalOverrides, mergeConfigLayers, setEnvVarLayer, splitConfigLayers } from './config-layers'
+import { detectDevcontainerProfile } from './devcontainer-detectors'
+import { getInfrastructureConnection } from './infrastructure-catalog'
+import { ensureIgnoredInProjectDir } from './project-gitignore'
+
+const log = createLogger('ProjectConfig')
+
+const LOCAL_CONFIG_FILE = 'config.local.json'
 
 /**
  * Properties that can be safely interpolated in environment variables.
@@ -14,6 +26,36 @@ function isAllowedProp(prop: string): prop is AllowedServiceProp {
   return (ALLOWED_SERVICE_PROPS as readonly string[]).includes(prop)
 }
 
+/**
+ * ${...} reference with an optional fallback: ${REF} or ${REF:-fallback}.
+ * Fallbacks are literal text.
+ */
+const REFERENCE_PATTERN = /\$\{([^}]*?)(?::-([^}]*))?\}/g
+
+/** A resolved reference, a value that is not set (the fallback applies), or an invalid reference */
+type Resolution = { value: string } | { missing: string } | { error: string }
+
+/**
+ * Where the interpolated env is used, for ${project.*}, ${env:*} and service urls
+ */
+export interface InterpolationContext {
+  project?: { name: string; path: string }
+  /** Mode of the service the env is for. Defaults to native */
+  mode?: 'native' | 'container'
+  /** Host environment for ${env:NAME}. Defaults to process.env */
+  hostEnv?: Record<string, string | undefined>
+}
+
+/**
+ * Host of a service as seen by a consumer running in `consumerMode`: containers
+ * reach native services through the Docker host and container services by
+ * their alias on the project network.
+ */
+function getServiceHost(service: Service, consumerMode: 'native' | 'container'): string {
+  if (consumerMode === 'native') return 'localhost'
+  return service.mode === 'container' ? service.id : 'host.docker.internal'
+}
+
 /**
  * Result of environment variable interpolation
  */
@@ -24,104 +66,324 @@ export interface InterpolateEnvResult {
   errors: string[]
 }
 
+/**
+ * Thrown when .simple-local/config.json exists but cannot be used:
+ * it is not valid JSON or does not match the config schema.
+ */
+export class ProjectConfigError extends Error {
+  readonly code = 'CONFIG_INVALID'
+  readonly configPath: string
+  readonly issues: ConfigIssue[]
+
+  constructor(configPath: string, issues: ConfigIssue[]) {
+    const lines = issues.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message))
+    super(`Invalid project config (${configPath}):\n${lines.join('\n')}`)
+    this.name = 'ProjectConfigError'
+    this.configPath = configPath
+    this.issues = issues
+  }
+
+  /** The error as sent to the renderer, which lists the issues */
+  toInvalidConfig(): InvalidProjectConfig {
+    return { error: this.code, configPath: this.configPath, issues: this.issues }
+  }
+}
+
+/** Formats a zod issue path as in the file, e.g. services[0].port */
+function formatIssuePath(issuePath: readonly PropertyKey[]): string {
+  return issuePath.reduce<string>((result, key) => {
+    if (typeof key === 'number') return `${result}[${key}]`
+    return result ? `${result}.${String(key)}` : String(key)
+  }, '')
+}
+
+function toConfigIssues(error: z.ZodError): ConfigIssue[] {
+  return error.issues.map((issue) => ({ path: formatIssuePath(issue.path), message: issue.message }))
+}
+
+function parseJson(content: string, configPath: string): unknown {
+  try {
+    return JSON.parse(content)
+  } catch (err) {
+    throw new ProjectConfigError(configPath, [
+      { path: '', message: `Invalid JSON: ${err instanceof Error ? err.message : String(err)}` },
+    ])
+  }
+}
+
+/** Reads a file, returning null when it does not exist */
+async function readOptionalFile(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw err
+  }
+}
+
+/**
+ * Parses config.local.json content.
+ * @throws ProjectConfigError listing every problem found
+ */
+export function parseLocalConfig(content: string, configPath: string): LocalProjectConfig {
+  const result = localConfigSchema.safeParse(parseJson(content, configPath))
+  if (!result.success) {
+    throw new ProjectConfigError(configPath, toConfigIssues(result.error))
+  }
+  return result.data
+}
+
+/**
+ * Parses config.json content, migrating older versions, applying the
+ * config.local.json overrides if given and validating the result.
+ * @throws ProjectConfigError listing every problem found
+ */
+export function parseProjectConfig(
+  content: string,
+  configPath: string,
+  local: LocalProjectConfig | null = null
+): ProjectConfig {
+  const { config, fromVersion, migrated } = migrateProjectConfig(parseJson(content, configPath))
+  const result = projectConfigSchema.safeParse(mergeConfigLayers(config, local))
+  if (!result.success) {
+    throw new ProjectConfigError(configPath, toConfigIssues(result.error))
+  }
+
+  if (migrated) {
+    log.info(`Migrated ${configPath} from version ${fromVersion} to ${CURRENT_CONFIG_VERSION}`)
+  }
+  return result.data
+}
+
 export class ProjectConfigService {
   private getConfigPath(projectPath: string): string {
     return ConfigPaths.projectConfig(projectPath)
   }
 
+  /**
+   * Loads the project's config.json, migrated to the current version, with
+   * the machine-local config.local.json merged over it.
+   * Returns null when the project has no config yet.
+   * @throws ProjectConfigError when either file exists but is invalid
+   */
   async loadConfig(projectPath: string): Promise<ProjectConfig | null> {
     const configPath = this.getConfigPath(projectPath)
 
     try {
       await fs.access(configPath)
-      const content = await fs.readFile(configPath, 'utf-8')
-      return JSON.parse(content) as ProjectConfig
     } catch {
       return null
     }
+
+    const content = await fs.readFile(configPath, 'utf-8')
+    const local = await this.loadLocalConfig(projectPath)
+    return parseProjectConfig(content, configPath, local)
+  }
+
+  /**
+   * Values of the loaded config that come from config.local.json, by service id.
+   * @throws ProjectConfigError when config.local.json is invalid
+   */
+  async loadLocalOverrides(projectPath: string): Promise<LocalConfigOverrides> {
+    return getLocalOverrides(await this.loadLocalConfig(projectPath))
   }
 
+  /**
+   * Saves the config, split between the layers: machine-specific values
+   * (ports, active, mode) and values already overridden locally go to
+   * config.local.json, everything else to config.json.
+   */
   async saveConfig(projectPath: string, config: ProjectConfig): Promise<void> {
     const configDir = ConfigPaths.projectDir(projectPath)
     const configPath = this.getConfigPath(projectPath)
+    const localPath = ConfigPaths.projectLocalConfig(projectPath)
+
+    // The files are being replaced, so unreadable ones are treated as empty
+    const sharedContent = await readOptionalFile(configPath).catch(() => null)
+    const localContent = await readOptionalFile(localPath).catch(() => null)
+    const shared = sharedContent ? this.tryParse(() => parseProjectConfig(sharedContent, configPath)) : null
+    const local = localContent ? this.tryParse(() => parseLocalConfig(localContent, localPath)) : null
 
     await fs.mkdir(configDir, { recursive: true })
-    await fs.writeFile(configPath, JSON.stringify(config, null, 2), 'utf-8')
+    await this.writeLayers(projectPath, splitConfigLayers(config, shared, local), localContent !== null)
   }
 
   /**
-   * Interpolates service references in environment variables.
+   * Moves an env var of a service to config.local.json, so that its value
+   * stays on this machine, or back to config.json.
+   * @throws ProjectConfigError when either file is invalid
+   */
+  async setEnvVarLocal(projectPath: string, serviceId: string, key: string, local: boolean): Promise<void> {
+    const configPath = this.getConfigPath(projectPath)
+    const shared = parseProjectConfig(await fs.readFile(configPath, 'utf-8'), configPath)
+    const localConfig = await this.loadLocalConfig(projectPath)
+
+    await this.writeLayers(projectPath, setEnvVarLayer(shared, localConfig, serviceId, key, local), localConfig !== null)
+  }
+
+  /** Writes both layers; config.local.json only when it exists or has values */
+  private async writeLayers(
+    projectPath: string,
+    layers: { shared: ProjectConfig; local: LocalProjectConfig },
+    localExists: boolean
+  ): Promise<void> {
+    const { version: _version, ...rest } = layers.shared
+    await fs.writeFile(
+      this.getConfigPath(projectPath),
+      JSON.stringify({ version: CURRENT_CONFIG_VERSION, ...rest }, null, 2),
+      'utf-8'
+    )
+
+    if (localExists || Object.keys(layers.local.services).length > 0) {
+      await fs.writeFile(ConfigPaths.projectLocalConfig(projectPath), JSON.stringify(layers.local, null, 2), 'utf-8')
+      await ensureIgnoredInProjectDir(projectPath, LOCAL_CONFIG_FILE)
+    }
+  }
+
+  private async loadLocalConfig(projectPath: string): Promise<LocalProjectConfig | null> {
+    const localPath = ConfigPaths.projectLocalConfig(projectPath)
+    const content = await readOptionalFile(localPath)
+    return content === null ? null : parseLocalConfig(content, localPath)
+  }
+
+  private tryParse<T>(parse: () => T): T | null {
+    try {
+      return parse()
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Interpolates references in environment variables:
    *
-   * Supports pattern: ${services.SERVICEID.PROPERTY}
-   * Example: ${services.backend.port} resolves to the backend service's port
+   * - ${services.ID.PROPERTY}: a property of another service, e.g. ${services.backend.port}.
+   *   Available properties: id, name, path, command, port, debugPort, mode, and url,
+   *   which is http://localhost:PORT for native consumers and the address reachable
+   *   from the container for container consumers. Infrastructure services also
+   *   provide their connection values, e.g. ${services.postgres.url}
+   * - ${VAR}: another variable of the same env, e.g. ${API_HOST}
+   * - ${env:NAME}: a variable of the host environment, e.g. ${env:HOME}
+   * - ${project.name}, ${project.path}
    *
-   * Available properties: id, name, path, command, port, debugPort, mode
+   * Any reference can have a fallback for when the value is unset or empty,
+   * e.g. ${env:AWS_PROFILE:-default}. References that cannot be resolved are
+   * kept as written and reported in `errors`, as are circular references.
    *
    * @returns Object containing interpolated env vars and any errors
    */
-  interpolateEnv(env: Record<string, string>, services: Service[]): InterpolateEnvResult {
+  interpolateEnv(
+    env: Record<string, string>,
+    services: Service[],
+    context: InterpolationContext = {}
+  ): InterpolateEnvResult {
+    const { project, mode = 'native', hostEnv = process.env } = context
     const result: Record<string, string> = {}
     const errors: string[] = []
-    const serviceIdPattern = /\$\{services\.(\w+)\.(\w+)\}/g
+    const resolving: string[] = []
 
-    for (const [key, value] of Object.entries(env)) {
-      result[key] = value.replace(serviceIdPattern, (match, serviceId: string, prop: string) => {
-        const service = services.find((s) => s.id === serviceId)
+    const resolveServiceRef = (key: string, serviceId: string, prop: string): Resolution => {
+      const service = services.find((s) => s.id === serviceId)
+      if (!service) {
+        return { error: `Unknown service '${serviceId}' in env var '${key}'. Available services: ${services.map((s) => s.id).join(', ') || 'none'}` }
+      }
 
-        if (!service) {
-          const error = `Unknown service '${serviceId}' in env var '${key}'. Available services: ${services.map((s) => s.id).join(', ') || 'none'}`
-          errors.push(error)
-          return match // Keep original pattern to make error visible
+      const connection = getInfrastructureConnection(service)
+      if (Object.hasOwn(connection, prop)) {
+        return { value: connection[prop] }
+      }
+
+      if (prop === 'url') {
+        if (service.port === undefined) {
+          return { missing: `Property 'url' is undefined on service '${serviceId}' in env var '${key}': it has no port` }
         }
+        return { value: `http://${getServiceHost(service, mode)}:${service.port}` }
+      }
+
+      if (!isAllowedProp(prop)) {
+        const allowedList = [...ALLOWED_SERVICE_PROPS, 'url', ...Object.keys(connection)].join(', ')
+        return { error: `Property '${prop}' is not allowed in interpolation for env var '${key}'. Allowed properties: ${allowedList}` }
+      }
+
+      const propValue = service[prop]
+      if (propValue === undefined || propValue === null) {
+        return { missing: `Property '${prop}' is undefined on service '${serviceId}' in env var '${key}'` }
+      }
+      return { value: String(propValue) }
+    }
+
+    const resolveRef = (key: string, ref: string): Resolution => {
+      const serviceRef = ref.match(/^services\.([\w-]+)\.(\w+)$/)
+      if (serviceRef) return resolveServiceRef(key, serviceRef[1], serviceRef[2])
+
+      if (ref.startsWith('env:')) {
+        const name = ref.slice('env:'.length)
+        const value = hostEnv[name]
+        return value !== undefined ? { value } : { missing: `Host environment variable '${name}' is not set (env var '${key}')` }
+      }
+
+      if (ref === 'project.name' || ref === 'project.path') {
+        const value = project?.[ref === 'project.name' ? 'name' : 'path']
+        return value ? { value } : { missing: `'${ref}' is not available in env var '${key}'` }
+      }
 
-        if (!isAllowedProp(prop)) {
-          const allowedList = ALLOWED_SERVICE_PROPS.join(', ')
-          const error = `Property '${prop}' is not allowed in interpolation for env var '${key}'. Allowed properties: ${allowedList}`
-          errors.push(error)
-          return match // Keep original pattern to make error visible
+      if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(ref)) {
+        if (!Object.hasOwn(env, ref)) {
+          return { missing: `Unknown variable '${ref}' in env var '${key}'` }
         }
+        if (resolving.includes(ref)) {
+          return { error: `Circular reference in env var '${key}': ${[...resolving.slice(resolving.indexOf(ref)), ref].join(' -> ')}` }
+        }
+        return { value: resolveVar(ref) }
+      }
+
+      return { error: `Unsupported reference '\${${ref}}' in env var '${key}'` }
+    }
 
-        const propValue = service[prop]
+    const resolveVar = (key: string): string => {
+      if (Object.hasOwn(result, key)) return result[key]
 
-        if (propValue === undefined || propValue === null) {
-          const error = `Property '${prop}' is undefined on service '${serviceId}' in env var '${key}'`
-          errors.push(error)
-          return match // Keep original pattern to make error visible
+      resolving.push(key)
+      const value = env[key].replace(REFERENCE_PATTERN, (match, ref: string, fallback: string | undefined) => {
+        const resolution = resolveRef(key, ref)
+        if ('value' in resolution) {
+          // Like the shell's ${VAR:-fallback}, the fallback also replaces empty values
+          return resolution.value === '' && fallback !== undefined ? fallback : resolution.value
         }
+        if ('missing' in resolution && fallback !== undefined) return fallback
 
-        return String(propValue)
+        errors.push('error' in resolution ? resolution.error : resolution.missing)
+        return match // Keep original pattern to make error visible
       })
+      resolving.pop()
+
+      result[key] = value
+      return value
     }
 
-    return { env: result, errors }
-  }
+    for (const key of Object.keys(env)) {
+      resolveVar(key)
+    }
 
-  async generateDevcontainerConfig(service: Service, projectName: string): Promise<object> {
-    const isNode = service.command.includes('npm') || service.command.includes('pnpm') || service.command.includes('bun') || service.command.includes('node')
-    const isPnpm = service.command.includes('pnpm')
-    const isBun = service.command.includes('bun')
+    return { env: Object.fromEntries(Object.keys(env).map((key) => [key, result[key]])), errors }
+  }
 
-    let postStartCommand: string | undefined
-    if (isNode) {
-      if (isPnpm) {
-        postStartCommand = 'sudo corepack enable && CI=true pnpm install'
-      } else if (isBun) {
-        postStartCommand = 'bun install'
-      } else {
-        postStartCommand = 'npm install'
-      }
-    }
+  /**
+   * Generate a devcontainer.json for a service, with the base image, features
+   * and install step of the language detected from its command and manifests.
+   * @param projectPath - Project root; the service's manifests are read from its folder
+   */
+  async generateDevcontainerConfig(service: Service, projectName: string, projectPath?: string): Promise<object> {
+    const servicePath = projectPath ? path.join(projectPath, service.path) : undefined
+    const profile = await detectDevcontainerProfile(servicePath, service.command, service.debugPort)
 
     return {
       name: `${projectName}-${service.id}`,
-      image: isNode
-        ? 'mcr.microsoft.com/devcontainers/javascript-node:20'
-        : 'mcr.microsoft.com/devcontainers/base:ubuntu',
-      features: isBun
-        ? { 'ghcr.io/devcontainers/features/bun:1': {} }
-        : {},
+      image: profile.image,
+      features: profile.features,
       forwardPorts: [service.port, service.debugPort].filter(Boolean),
-      postStartCommand,
+      postStartCommand: profile.postStartCommand,
+      ...(profile.containerEnv ? { containerEnv: profile.containerEnv } : {}),
       mounts: [
         `source=\${localWorkspaceFolder},target=/workspace,type=bind`
       ],
@@ -0,0 +1,31 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { ConfigPaths } from './config-paths'
+
+/** File access needed to update .simple-local/.gitignore */
+export interface GitignoreFileSystem {
+  readFile(path: string, encoding: 'utf-8'): Promise<string>
+  writeFile(path: string, content: string): Promise<void>
+}
+
+/**
+ * Adds a file of the project's .simple-local directory to .simple-local/.gitignore
+ * so it is never committed, e.g. config.local.json or discovery-cache.json.
+ */
+export async function ensureIgnoredInProjectDir(
+  projectPath: string,
+  fileName: string,
+  fileSystem: GitignoreFileSystem = { readFile: fs.readFile, writeFile: (p, content) => fs.writeFile(p, content, 'utf-8') }
+): Promise<void> {
+  const gitignorePath = path.join(ConfigPaths.projectDir(projectPath), '.gitignore')
+  let content = ''
+  try {
+    content = await fileSystem.readFile(gitignorePath, 'utf-8')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+  }
+  if (content.split('\n').some((line) => line.trim() === fileName)) return
+
+  const prefix = content && !content.endsWith('\n') ? '\n' : ''
+  await fileSystem.writeFile(gitignorePath, `${content}${prefix}${fileName}\n`)
+}
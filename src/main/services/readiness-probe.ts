@@ -0,0 +1,246 @@
+import * as http from 'http'
+import * as net from 'net'
+import type { ReadinessProbe } from '../../shared/types'
+
+export const DEFAULT_PROBE_TIMEOUT_MS = 60_000
+export const DEFAULT_PROBE_INTERVAL_MS = 1_000
+
+/** Upper bound for a single HTTP request or TCP connect attempt */
+const ATTEMPT_TIMEOUT_MS = 2_000
+
+/** Longest partial line a log probe keeps between chunks; output without newlines is cut to its end */
+const MAX_PENDING_LINE_LENGTH = 4_096
+
+export type ReadinessResult =
+  | { ready: true }
+  | { ready: false; reason: string; aborted: boolean }
+
+/**
+ * Send a GET request to localhost and check the response status.
+ * Without expectedStatus, any 2xx or 3xx response counts as ready.
+ */
+export function checkHttp(port: number, path: string, expectedStatus?: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const req = http.get({ host: 'localhost', port, path, timeout: ATTEMPT_TIMEOUT_MS }, (res) => {
+      res.resume()
+      const status = res.statusCode ?? 0
+      resolve(expectedStatus !== undefined ? status === expectedStatus : status >= 200 && status < 400)
+    })
+    req.on('timeout', () => req.destroy())
+    req.on('error', () => resolve(false))
+  })
+}
+
+/**
+ * Check whether something accepts TCP connections on a localhost port.
+ */
+export function checkTcp(port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ host: 'localhost', port })
+    const finish = (result: boolean) => {
+      socket.destroy()
+      resolve(result)
+    }
+    socket.setTimeout(ATTEMPT_TIMEOUT_MS, () => finish(false))
+    socket.once('connect', () => finish(true))
+    socket.once('error', () => finish(false))
+  })
+}
+
+/**
+ * A single run of a readiness probe for a starting service.
+ *
+ * HTTP, TCP and health probes poll until they succeed or the timeout expires.
+ * Log probes are fed service output via feedLog() and pass on the first matching line.
+ * The owner settles the check early with fail() (e.g. the process exited)
+ * or abort() (e.g. the user stopped the service).
+ */
+export class ReadinessCheck {
+  readonly description: string
+  private readonly probe: ReadinessProbe
+  private readonly port: number | undefined
+  private readonly checkHealth: (() => Promise<boolean>) | undefined
+  private readonly logPattern: RegExp | null = null
+  private readonly configError: string | null = null
+  private pendingLine = ''
+  private logMatched = false
+  private outcome: ReadinessResult | null = null
+  private wake: (() => void) | null = null
+
+  /**
+   * @param checkHealth - Reads the container's health check result, for health probes
+   */
+  constructor(probe: ReadinessProbe, port: number | undefined, checkHealth?: () => Promise<boolean>) {
+    this.probe = probe
+    this.port = probe.port ?? port
+    this.checkHealth = checkHealth
+
+    if (probe.type === 'health') {
+      this.description = 'container health check'
+      if (!checkHealth) {
+        this.configError = 'Health probe requires a container service'
+      }
+    } else if (probe.type === 'log') {
+      this.description = `log line matching /${probe.pattern ?? ''}/`
+      if (!probe.pattern) {
+        this.configError = 'Log probe requires a pattern'
+      } else {
+        try {
+          this.logPattern = new RegExp(probe.pattern)
+        } catch (err) {
+          this.configError = `Invalid log pattern: ${err instanceof Error ? err.message : String(err)}`
+        }
+      }
+    } else {
+      this.description = probe.type === 'http'
+        ? `HTTP GET ${probe.path ?? '/'} on port ${this.port}`
+        : `TCP connect on port ${this.port}`
+      if (this.port === undefined) {
+        this.configError = `${probe.type.toUpperCase()} probe requires a port`
+      }
+    }
+  }
+
+  /**
+   * Whether the check already passed, failed, or was aborted.
+   */
+  get settled(): boolean {
+    return this.outcome !== null
+  }
+
+  /**
+   * Feed service output to a log probe. Ignored for other probe types.
+   */
+  feedLog(data: string): void {
+    if (!this.logPattern || this.logMatched) return
+
+    // Progress output redraws its line with \r instead of ending it
+    const lines = (this.pendingLine + data).split(/\r\n|\r|\n/)
+    this.pendingLine = (lines.pop() ?? '').slice(-MAX_PENDING_LINE_LENGTH)
+    // A partial line may already contain the match (e.g. a prompt without newline)
+    if ([...lines, this.pendingLine].some((line) => this.logPattern!.test(line))) {
+      this.logMatched = true
+      this.wake?.()
+    }
+  }
+
+  /**
+   * Settle the check as failed, e.g. when the process exited before becoming ready.
+   */
+  fail(reason: string): void {
+    this.settle({ ready: false, reason, aborted: false })
+  }
+
+  /**
+   * Settle the check without reporting an error, e.g. when the service was stopped.
+   */
+  abort(): void {
+    this.settle({ ready: false, reason: 'Readiness check aborted', aborted: true })
+  }
+
+  /**
+   * Poll the probe until it passes, fails, or the timeout expires.
+   */
+  async wait(): Promise<ReadinessResult> {
+    if (this.configError) return { ready: false, reason: this.configError, aborted: false }
+
+    const timeoutMs = this.probe.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS
+    const intervalMs = this.probe.intervalMs ?? DEFAULT_PROBE_INTERVAL_MS
+    const deadline = Date.now() + timeoutMs
+
+    while (!this.outcome) {
+      if (await this.attempt()) {
+        this.settle({ ready: true })
+        break
+      }
+      if (this.outcome) break
+      if (Date.now() >= deadline) {
+        this.settle({
+          ready: false,
+          reason: `Timed out after ${timeoutMs}ms waiting for ${this.description}`,
+          aborted: false,
+        })
+        break
+      }
+      await this.sleep(Math.min(intervalMs, Math.max(0, deadline - Date.now())))
+    }
+
+    return this.outcome!
+  }
+
+  private attempt(): Promise<boolean> {
+    switch (this.probe.type) {
+      case 'http':
+        return checkHttp(this.port!, this.probe.path ?? '/', this.probe.expectedStatus)
+      case 'tcp':
+        return checkTcp(this.port!)
+      case 'log':
+        return Promise.resolve(this.logMatched)
+      case 'health':
+        return this.checkHealth!().catch(() => false)
+    }
+  }
+
+  private settle(outcome: ReadinessResult): void {
+    if (this.outcome) return
+    this.outcome = outcome
+    this.wake?.()
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer)
+        this.wake = null
+        resolve()
+      }
+      const timer = setTimeout(done, ms)
+      this.wake = done
+    })
+  }
+}
+
+/**
+ * Tracks readiness state per service so status queries can report
+ * 'starting' while a probe is running and 'error' after it failed,
+ * even though the underlying process or container is already up.
+ */
+export class ReadinessTracker {
+  private readonly pending = new Map<string, ReadinessCheck>()
+  private readonly failed = new Set<string>()
+
+  /**
+   * Register a new check for a service, aborting any previous one.
+   */
+  begin(key: string, check: ReadinessCheck): void {
+    this.clear(key)
+    this.pending.set(key, check)
+  }
+
+  /**
+   * Record the outcome of a check. Ignored if the check was replaced or cleared meanwhile.
+   */
+  complete(key: string, check: ReadinessCheck, ready: boolean): void {
+    if (this.pending.get(key) !== check) return
+    this.pending.delete(key)
+    if (!ready) this.failed.add(key)
+  }
+
+  /**
+   * Forget all readiness state for a service, aborting a running check.
+   */
+  clear(key: string): void {
+    this.pending.get(key)?.abort()
+    this.pending.delete(key)
+    this.failed.delete(key)
+  }
+
+  /**
+   * @returns 'starting' while a check is running, 'error' after it failed, null otherwise
+   */
+  getStatus(key: string): 'starting' | 'error' | null {
+    if (this.pending.has(key)) return 'starting'
+    if (this.failed.has(key)) return 'error'
+    return null
+  }
+}
@@ -1,5 +1,20 @@
 import { createLogKey, matchesProject } from './log-key'
-import type { ServiceRuntimeEnv } from '../../shared/types'
+import type { Service, ServiceRuntimeEnv } from '../../shared/types'
+
+function isSameEnv(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keys = Object.keys(a)
+  return keys.length === Object.keys(b).length && keys.every((key) => b[key] === a[key])
+}
+
+function isSameList(a: string[] = [], b: string[] = []): boolean {
+  return a.length === b.length && a.every((item, i) => item === b[i])
+}
+
+/** The part of the raw env that came from service.env */
+function getConfigEnv(runtime: ServiceRuntimeEnv): Record<string, string> {
+  if (!runtime.sources) return runtime.raw
+  return Object.fromEntries(Object.entries(runtime.raw).filter(([key]) => runtime.sources?.[key]?.type === 'config'))
+}
 
 /**
  * Manages runtime environment variables for running services.
@@ -27,6 +42,25 @@ export class RuntimeEnvManager {
     return this.envs.get(key) ?? null
   }
 
+  /**
+   * Whether a service runs with settings that differ from its current config:
+   * its command, env, env files or port changed, or, for container services, its
+   * devcontainer.json was modified after the start.
+   * Returns false for services without runtime env.
+   */
+  needsRestart(projectId: string, service: Service, devcontainerModifiedAt?: number): boolean {
+    const runtime = this.get(projectId, service.id)
+    if (!runtime) return false
+
+    return (
+      runtime.command !== service.command ||
+      runtime.port !== service.port ||
+      !isSameEnv(getConfigEnv(runtime), service.env) ||
+      !isSameList(runtime.envFiles, service.envFiles) ||
+      (runtime.mode === 'container' && devcontainerModifiedAt !== undefined && devcontainerModifiedAt > runtime.startedAt)
+    )
+  }
+
   /**
    * Clears the runtime environment for a service.
    * Should be called when a service stops.
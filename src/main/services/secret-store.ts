@@ -0,0 +1,65 @@
+import Store from 'electron-store'
+import { safeStorage } from 'electron'
+import { ConfigPaths } from './config-paths'
+import type { SecretProvider } from './secrets'
+
+/**
+ * Encrypts strings with a key kept outside the store. Matches Electron's safeStorage.
+ */
+export interface SecretCipher {
+  isEncryptionAvailable(): boolean
+  encryptString(plainText: string): Buffer
+  decryptString(encrypted: Buffer): string
+}
+
+const SECRET_NAME_PATTERN = /^[A-Za-z0-9_.-]+$/
+
+/**
+ * Secrets kept on this machine in ~/.simple-local/secrets.json, encrypted with
+ * Electron's safeStorage, whose key is held by the OS keychain. Resolves
+ * `secret://local/<name>`.
+ */
+export class LocalSecretStore implements SecretProvider {
+  readonly id = 'local'
+  private store: Store<{ secrets: Record<string, string> }>
+
+  constructor(private readonly cipher: SecretCipher = safeStorage) {
+    this.store = new Store<{ secrets: Record<string, string> }>({
+      name: 'secrets',
+      cwd: ConfigPaths.userDir(),
+      defaults: { secrets: {} },
+    })
+  }
+
+  /** Names of the stored secrets. Values never leave the main process. */
+  list(): string[] {
+    return Object.keys(this.store.get('secrets') ?? {}).sort()
+  }
+
+  /**
+   * @throws Error if the name is invalid or encryption is not available
+   */
+  set(name: string, value: string): void {
+    if (!SECRET_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid secret name '${name}': use letters, digits, '_', '.' and '-'`)
+    }
+    if (!this.cipher.isEncryptionAvailable()) {
+      throw new Error('Encryption is not available on this machine')
+    }
+    const encrypted = this.cipher.encryptString(value).toString('base64')
+    this.store.set('secrets', { ...this.store.get('secrets'), [name]: encrypted })
+  }
+
+  delete(name: string): void {
+    const { [name]: _removed, ...rest } = this.store.get('secrets') ?? {}
+    this.store.set('secrets', rest)
+  }
+
+  async resolve(name: string): Promise<string> {
+    const encrypted = this.store.get('secrets')?.[name]
+    if (encrypted === undefined) {
+      throw new Error(`No local secret named '${name}'`)
+    }
+    return this.cipher.decryptString(Buffer.from(encrypted, 'base64'))
+  }
+}
@@ -0,0 +1,228 @@
+import { execFile as execFileCallback } from 'child_process'
+import { promisify } from 'util'
+
+const execFileAsync = promisify(execFileCallback)
+
+/** Prefix of env values resolved through a secret provider, e.g. `secret://local/STRIPE_KEY` */
+export const SECRET_REF_PREFIX = 'secret://'
+
+/** Shown instead of resolved secret values */
+export const SECRET_MASK = '********'
+
+/** Shorter secrets are not masked inside other text, where they would hide unrelated output */
+const MIN_MASKED_LENGTH = 4
+
+/** Provider commands may wait for the user to unlock a vault */
+const COMMAND_TIMEOUT_MS = 60_000
+
+/**
+ * Resolves `secret://<id>/<ref>` references.
+ */
+export interface SecretProvider {
+  readonly id: string
+  resolve(ref: string): Promise<string>
+}
+
+export type ExecFile = (file: string, args: string[], options: { timeout: number }) => Promise<{ stdout: string }>
+
+const defaultExecFile: ExecFile = (file, args, options) => execFileAsync(file, args, { ...options, encoding: 'utf8' })
+
+export interface SecretRef {
+  provider: string
+  ref: string
+}
+
+/**
+ * Splits `secret://<provider>/<ref>`. The ref may contain further slashes.
+ * @returns null for values that are not a valid secret reference
+ */
+export function parseSecretRef(value: string): SecretRef | null {
+  if (!value.startsWith(SECRET_REF_PREFIX)) return null
+  const rest = value.slice(SECRET_REF_PREFIX.length)
+  const slash = rest.indexOf('/')
+  if (slash <= 0 || slash === rest.length - 1) return null
+  return { provider: rest.slice(0, slash), ref: rest.slice(slash + 1) }
+}
+
+/**
+ * A provider that runs a command without a shell and returns its output.
+ * @param buildArgs - Command arguments for a ref
+ * @param parseOutput - Picks the secret from stdout. Defaults to stdout without the trailing newline
+ */
+export function createCommandProvider(
+  id: string,
+  command: string,
+  buildArgs: (ref: string) => string[],
+  parseOutput: (stdout: string) => string = (stdout) => stdout.replace(/\r?\n$/, ''),
+  execFile: ExecFile = defaultExecFile
+): SecretProvider {
+  return {
+    id,
+    async resolve(ref: string): Promise<string> {
+      try {
+        const { stdout } = await execFile(command, buildArgs(ref), { timeout: COMMAND_TIMEOUT_MS })
+        return parseOutput(stdout)
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+          throw new Error(`'${command}' is not installed`)
+        }
+        const stderr = (err as { stderr?: string }).stderr?.trim()
+        throw new Error(stderr || (err instanceof Error ? err.message : String(err)))
+      }
+    },
+  }
+}
+
+/**
+ * `secret://keychain/<service>` or `secret://keychain/<service>/<account>`:
+ * a generic password in the macOS Keychain, or an item with matching
+ * `service` and `account` attributes in the Secret Service on Linux.
+ */
+export function createKeychainProvider(
+  platform: NodeJS.Platform = process.platform,
+  execFile: ExecFile = defaultExecFile
+): SecretProvider {
+  const splitRef = (ref: string): [string, string | undefined] => {
+    const slash = ref.indexOf('/')
+    return slash === -1 ? [ref, undefined] : [ref.slice(0, slash), ref.slice(slash + 1)]
+  }
+
+  if (platform === 'darwin') {
+    return createCommandProvider('keychain', 'security', (ref) => {
+      const [service, account] = splitRef(ref)
+      return ['find-generic-password', '-s', service, ...(account ? ['-a', account] : []), '-w']
+    }, undefined, execFile)
+  }
+  if (platform === 'linux') {
+    return createCommandProvider('keychain', 'secret-tool', (ref) => {
+      const [service, account] = splitRef(ref)
+      return ['lookup', 'service', service, ...(account ? ['account', account] : [])]
+    }, undefined, execFile)
+  }
+  return {
+    id: 'keychain',
+    resolve: async () => {
+      throw new Error(`The OS keychain is not supported on ${platform}`)
+    },
+  }
+}
+
+/** `secret://op/<vault>/<item>/<field>`, read with the 1Password CLI */
+export function createOnePasswordProvider(execFile?: ExecFile): SecretProvider {
+  return createCommandProvider('op', 'op', (ref) => ['read', `op://${ref}`], undefined, execFile)
+}
+
+/** `secret://pass/<path>`: the first line of a pass entry, by pass convention the password */
+export function createPassProvider(execFile?: ExecFile): SecretProvider {
+  return createCommandProvider('pass', 'pass', (ref) => ['show', ref], (stdout) => stdout.split(/\r?\n/)[0], execFile)
+}
+
+export interface ResolvedSecrets {
+  env: Record<string, string>
+  /** Keys whose value came from a secret reference */
+  secretKeys: string[]
+  /** The resolved values, for masking */
+  values: string[]
+  warnings: string[]
+}
+
+/**
+ * Resolves `secret://` env values through the registered providers.
+ */
+export class SecretResolver {
+  private readonly providers = new Map<string, SecretProvider>()
+
+  constructor(providers: SecretProvider[] = []) {
+    for (const provider of providers) this.register(provider)
+  }
+
+  register(provider: SecretProvider): void {
+    this.providers.set(provider.id, provider)
+  }
+
+  /**
+   * Replaces secret references in `env` with their values. Variables whose
+   * secret cannot be resolved are left out and reported as warnings, so that
+   * a reference is never passed to a service as its value.
+   */
+  async resolveEnv(env: Record<string, string>): Promise<ResolvedSecrets> {
+    const result: ResolvedSecrets = { env: {}, secretKeys: [], values: [], warnings: [] }
+
+    for (const [key, value] of Object.entries(env)) {
+      if (!value.startsWith(SECRET_REF_PREFIX)) {
+        result.env[key] = value
+        continue
+      }
+
+      const secretRef = parseSecretRef(value)
+      if (!secretRef) {
+        result.warnings.push(`Invalid secret reference for '${key}': expected secret://<provider>/<name>`)
+        continue
+      }
+      const provider = this.providers.get(secretRef.provider)
+      if (!provider) {
+        result.warnings.push(`Unknown secret provider '${secretRef.provider}' for '${key}'`)
+        continue
+      }
+
+      try {
+        const secret = await provider.resolve(secretRef.ref)
+        result.env[key] = secret
+        result.secretKeys.push(key)
+        if (secret) result.values.push(secret)
+      } catch (err) {
+        result.warnings.push(`Cannot resolve secret for '${key}': ${err instanceof Error ? err.message : String(err)}`)
+      }
+    }
+
+    return result
+  }
+}
+
+/**
+ * The providers available by default, with `local` from the given store.
+ */
+export function createSecretResolver(local: SecretProvider): SecretResolver {
+  return new SecretResolver([local, createKeychainProvider(), createOnePasswordProvider(), createPassProvider()])
+}
+
+/**
+ * Replaces each occurrence of the secret values in `text` with the mask.
+ * Longer values go first, so that a secret containing another is masked whole.
+ */
+export function maskSecrets(text: string, values: string[]): string {
+  let masked = text
+  const sorted = values.filter((value) => value.length >= MIN_MASKED_LENGTH).sort((a, b) => b.length - a.length)
+  for (const value of sorted) {
+    masked = masked.split(value).join(SECRET_MASK)
+  }
+  return masked
+}
+
+/**
+ * Length of the longest end of `text` that is the start of a secret value,
+ * i.e. of a secret that may continue in the next chunk of output.
+ */
+export function getPartialSecretLength(text: string, values: string[]): number {
+  let longest = 0
+  for (const value of values) {
+    if (value.length < MIN_MASKED_LENGTH) continue
+    for (let length = Math.min(value.length - 1, text.length); length > longest; length--) {
+      if (text.endsWith(value.slice(0, length))) {
+        longest = length
+        break
+      }
+    }
+  }
+  return longest
+}
+
+/**
+ * An env safe to show: secret variables are masked entirely, and secrets
+ * interpolated into other variables are masked where they appear.
+ */
+export function maskEnv(env: Record<string, string>, secretKeys: string[], values: string[]): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(env).map(([key, value]) => [key, secretKeys.includes(key) ? SECRET_MASK : maskSecrets(value, values)])
+  )
+}
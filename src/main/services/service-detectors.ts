@@ -0,0 +1,601 @@
+import * as path from 'path'
+import { parse as parseYaml } from 'yaml'
+import type { FileSystemOperations } from './discovery'
+
+/** Package managers of JavaScript projects */
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun'
+
+/** Detector that found a service */
+export type ServiceSource =
+  | 'procfile-dev'
+  | 'nx'
+  | 'workspace'
+  | 'rails'
+  | 'python'
+  | 'go'
+  | 'package-json'
+  | 'procfile'
+  | 'makefile'
+
+/**
+ * A service found in the project's files, before ids and ports are assigned.
+ */
+export interface DetectedService {
+  name: string
+  /** Directory the command runs in, relative to the project root */
+  path: string
+  command: string
+  /** Port the service listens on unless told otherwise */
+  port?: number
+  /** Names of detected services to start first */
+  dependsOn?: string[]
+  source: ServiceSource
+}
+
+/** Files of the project, as relative paths with forward slashes */
+export interface ProjectFiles {
+  /** Every file found, in walk order */
+  paths: string[]
+  has(relativePath: string): boolean
+  /** Contents of a file, or null if it cannot be read */
+  read(relativePath: string): Promise<string | null>
+}
+
+export interface PackageInfo {
+  name: string
+  /** `dev` or `start`, whichever script exists first */
+  scriptName?: 'dev' | 'start'
+  devScript?: string
+  port?: number
+  framework?: string
+  dependencies: string[]
+}
+
+export interface DetectionContext {
+  packageManager: PackageManager
+  /** Name for services in the project root */
+  projectName: string
+}
+
+interface ServiceDetector {
+  source: ServiceSource
+  detect(files: ProjectFiles, context: DetectionContext): Promise<DetectedService[]>
+}
+
+/** Dependency, build output and virtualenv directories; hidden directories are skipped too */
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'vendor', 'venv', '__pycache__', 'dist', 'build', 'target', 'tmp'])
+
+const FRAMEWORK_PATTERNS: Record<string, RegExp> = {
+  next: /next/i,
+  react: /react-scripts|vite.*react/i,
+  vue: /vue/i,
+  express: /express/i,
+  fastify: /fastify/i,
+  nest: /@nestjs/i,
+  bun: /bun/i,
+}
+
+const PORT_PATTERN = /-p[=\s]*(\d{2,5})\b|--port[=\s]*(\d{2,5})\b|PORT[=\s]*(\d{2,5})\b|\$\{PORT:-(\d{2,5})\}/
+
+/**
+ * Port set by a command: -p, --port, PORT=, or the default of ${PORT:-...}.
+ * @internal Exported for testing
+ */
+export function findCommandPort(command: string): number | undefined {
+  const match = command.match(PORT_PATTERN)
+  const value = match?.slice(1).find((group) => group !== undefined)
+  return value ? parseInt(value, 10) : undefined
+}
+
+function dirOf(relativePath: string): string {
+  const dir = path.posix.dirname(relativePath)
+  return dir === '' ? '.' : dir
+}
+
+function joinPath(dir: string, name: string): string {
+  return dir === '.' ? name : `${dir}/${name}`
+}
+
+function isWithin(relativePath: string, dir: string): boolean {
+  return dir === '.' || relativePath.startsWith(`${dir}/`)
+}
+
+function nameFor(dir: string, context: DetectionContext): string {
+  return dir === '.' ? context.projectName : path.posix.basename(dir)
+}
+
+/** Directory among `dirs` that most closely contains a file */
+function ownerOf(relativePath: string, dirs: string[]): string | undefined {
+  return dirs
+    .filter((dir) => isWithin(relativePath, dir))
+    .sort((a, b) => b.length - a.length)[0]
+}
+
+function parseJson(content: string | null): Record<string, unknown> | null {
+  if (!content) return null
+  try {
+    const value = JSON.parse(content)
+    return typeof value === 'object' && value !== null ? value : null
+  } catch {
+    return null
+  }
+}
+
+function runScript(packageManager: PackageManager, script: string): string {
+  return `${packageManager} run ${script}`
+}
+
+function execBinary(packageManager: PackageManager, command: string): string {
+  const prefix = { npm: 'npx', pnpm: 'pnpm exec', yarn: 'yarn', bun: 'bunx' }[packageManager]
+  return `${prefix} ${command}`
+}
+
+/**
+ * Read the facts discovery needs from a package.json.
+ * @param fallbackName - Name to use when the manifest has none
+ */
+export function parsePackageManifest(content: string, fallbackName: string): PackageInfo {
+  const pkg = JSON.parse(content)
+
+  const scriptName = pkg.scripts?.dev ? 'dev' : pkg.scripts?.start ? 'start' : undefined
+  const devScript: string | undefined = scriptName ? pkg.scripts[scriptName] : undefined
+  const port = devScript ? findCommandPort(devScript) : undefined
+
+  let framework: string | undefined
+  const allDeps = { ...pkg.dependencies, ...pkg.devDependencies }
+  for (const [fw, pattern] of Object.entries(FRAMEWORK_PATTERNS)) {
+    if (Object.keys(allDeps).some((dep) => pattern.test(dep)) || pattern.test(devScript || '')) {
+      framework = fw
+      break
+    }
+  }
+
+  return {
+    name: pkg.name || fallbackName,
+    scriptName,
+    devScript,
+    port,
+    framework,
+    dependencies: Object.keys(allDeps),
+  }
+}
+
+/**
+ * Parse `name: command` lines of a Procfile.
+ * @internal Exported for testing
+ */
+export function parseProcfile(content: string): Array<{ name: string; command: string }> {
+  const entries: Array<{ name: string; command: string }> = []
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^([A-Za-z0-9_-]+)\s*:\s*(.+)$/)
+    if (match) entries.push({ name: match[1], command: match[2].trim() })
+  }
+  return entries
+}
+
+/**
+ * Targets of a Makefile that run something: dev, run, serve and start, with
+ * their recipes. Suffixed targets (run-api, dev_web) are returned instead of
+ * the bare ones when present, since the bare target usually starts all of them.
+ * @internal Exported for testing
+ */
+export function parseMakefileRunTargets(content: string): Array<{ target: string; suffix?: string; recipe: string }> {
+  const lines = content.split(/\r?\n/)
+  const targets: Array<{ target: string; suffix?: string; recipe: string }> = []
+
+  lines.forEach((line, index) => {
+    const match = line.match(/^((?:dev|run|serve|start)(?:[-_]([A-Za-z0-9-]+))?)\s*:(?!=)/)
+    if (!match) return
+    const recipe: string[] = []
+    for (let i = index + 1; i < lines.length && lines[i].startsWith('\t'); i++) {
+      recipe.push(lines[i].trim())
+    }
+    targets.push({ target: match[1], ...(match[2] ? { suffix: match[2] } : {}), recipe: recipe.join('\n') })
+  })
+
+  const suffixed = targets.filter((t) => t.suffix)
+  return suffixed.length > 0 ? suffixed : targets.slice(0, 1)
+}
+
+function procfileDetector(fileName: string, source: ServiceSource): ServiceDetector {
+  return {
+    source,
+    async detect(files) {
+      const services: DetectedService[] = []
+      for (const file of files.paths.filter((p) => path.posix.basename(p) === fileName)) {
+        for (const entry of parseProcfile((await files.read(file)) ?? '')) {
+          services.push({ name: entry.name, path: dirOf(file), command: entry.command, port: findCommandPort(entry.command), source })
+        }
+      }
+      return services
+    },
+  }
+}
+
+const NX_TARGETS = ['serve', 'dev', 'start']
+
+const nxDetector: ServiceDetector = {
+  source: 'nx',
+  async detect(files, context) {
+    if (!files.has('nx.json')) return []
+    const services: DetectedService[] = []
+
+    for (const file of files.paths.filter((p) => path.posix.basename(p) === 'project.json')) {
+      const project = parseJson(await files.read(file))
+      const targets = (project?.targets ?? {}) as Record<string, { options?: { port?: number } }>
+      const target = NX_TARGETS.find((t) => targets[t])
+      if (!project || !target) continue
+
+      const dir = dirOf(file)
+      const name = typeof project.name === 'string' ? project.name : nameFor(dir, context)
+      const implicit = Array.isArray(project.implicitDependencies) ? project.implicitDependencies.map(String) : []
+      services.push({
+        name,
+        path: dir,
+        command: execBinary(context.packageManager, `nx run ${name}:${target}`),
+        port: typeof targets[target].options?.port === 'number' ? targets[target].options!.port : undefined,
+        dependsOn: implicit.filter((dep) => !dep.startsWith('!')),
+        source: 'nx',
+      })
+    }
+    return services
+  },
+}
+
+/**
+ * Match a workspace glob (`packages/*`, `apps/**`) against a directory.
+ */
+function matchesWorkspaceGlob(dir: string, glob: string): boolean {
+  const pattern = glob.replace(/^\.\//, '').replace(/\/$/, '')
+  const regex = pattern
+    .split('/')
+    .map((segment) => (segment === '**' ? '.*' : segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*')))
+    .join('/')
+  return new RegExp(`^${regex}$`).test(dir)
+}
+
+async function readWorkspaceGlobs(files: ProjectFiles): Promise<string[]> {
+  const pkg = parseJson(await files.read('package.json'))
+  const workspaces = pkg?.workspaces
+  if (Array.isArray(workspaces)) return workspaces.map(String)
+  if (workspaces && typeof workspaces === 'object' && Array.isArray((workspaces as { packages?: unknown }).packages)) {
+    return (workspaces as { packages: unknown[] }).packages.map(String)
+  }
+
+  const pnpmWorkspace = await files.read('pnpm-workspace.yaml')
+  if (pnpmWorkspace) {
+    try {
+      const packages = (parseYaml(pnpmWorkspace) as { packages?: unknown } | null)?.packages
+      if (Array.isArray(packages)) return packages.map(String)
+    } catch {
+      // Malformed workspace file - no workspace packages
+    }
+  }
+  return []
+}
+
+/** Names of turbo tasks marked persistent, i.e. long-running dev servers */
+async function readTurboPersistentTasks(files: ProjectFiles): Promise<string[]> {
+  const turbo = parseJson(await files.read('turbo.json'))
+  const tasks = (turbo?.tasks ?? turbo?.pipeline ?? {}) as Record<string, { persistent?: boolean }>
+  return Object.entries(tasks)
+    .filter(([, task]) => task?.persistent)
+    .map(([name]) => name.split('#').pop()!)
+}
+
+const workspaceDetector: ServiceDetector = {
+  source: 'workspace',
+  async detect(files, context) {
+    const globs = await readWorkspaceGlobs(files)
+    if (globs.length === 0) return []
+    const include = globs.filter((g) => !g.startsWith('!'))
+    const exclude = globs.filter((g) => g.startsWith('!')).map((g) => g.slice(1))
+    const scripts = [...new Set([...(await readTurboPersistentTasks(files)), 'dev', 'start'])]
+
+    const packages: Array<{ dir: string; name: string; script: string; body: string; dependencies: string[] }> = []
+    for (const file of files.paths.filter((p) => path.posix.basename(p) === 'package.json' && p !== 'package.json')) {
+      const dir = dirOf(file)
+      if (!include.some((g) => matchesWorkspaceGlob(dir, g)) || exclude.some((g) => matchesWorkspaceGlob(dir, g))) continue
+      const pkg = parseJson(await files.read(file))
+      const pkgScripts = (pkg?.scripts ?? {}) as Record<string, string>
+      const script = scripts.find((s) => pkgScripts[s])
+      if (!pkg || !script) continue
+      packages.push({
+        dir,
+        name: typeof pkg.name === 'string' ? pkg.name : path.posix.basename(dir),
+        script,
+        body: pkgScripts[script],
+        dependencies: Object.keys({ ...(pkg.dependencies as object), ...(pkg.devDependencies as object) }),
+      })
+    }
+
+    const names = new Set(packages.map((p) => p.name))
+    return packages.map((p) => ({
+      name: p.name,
+      path: p.dir,
+      command: runScript(context.packageManager, p.script),
+      port: findCommandPort(p.body),
+      dependsOn: p.dependencies.filter((dep) => names.has(dep)),
+      source: 'workspace' as const,
+    }))
+  },
+}
+
+const railsDetector: ServiceDetector = {
+  source: 'rails',
+  async detect(files, context) {
+    const services: DetectedService[] = []
+    for (const file of files.paths.filter((p) => path.posix.basename(p) === 'Gemfile')) {
+      const dir = dirOf(file)
+      if (!files.has(joinPath(dir, 'config/application.rb'))) continue
+      if (!/^\s*gem\s+['"]rails['"]/m.test((await files.read(file)) ?? '')) continue
+
+      const rails = files.has(joinPath(dir, 'bin/rails')) ? 'bin/rails' : 'bundle exec rails'
+      services.push({
+        name: nameFor(dir, context),
+        path: dir,
+        command: `${rails} server -b 0.0.0.0 -p \${PORT:-3000}`,
+        port: 3000,
+        source: 'rails',
+      })
+    }
+    return services
+  },
+}
+
+const PYTHON_MANIFESTS = ['manage.py', 'pyproject.toml', 'requirements.txt', 'Pipfile', 'setup.py']
+
+async function pythonRunner(files: ProjectFiles, dir: string): Promise<string> {
+  if (files.has(joinPath(dir, 'poetry.lock')) || ((await files.read(joinPath(dir, 'pyproject.toml'))) ?? '').includes('[tool.poetry]')) {
+    return 'poetry run '
+  }
+  if (files.has(joinPath(dir, 'uv.lock'))) return 'uv run '
+  if (files.has(joinPath(dir, 'Pipfile'))) return 'pipenv run '
+  return ''
+}
+
+const pythonDetector: ServiceDetector = {
+  source: 'python',
+  async detect(files, context) {
+    const projectDirs = [
+      ...new Set(files.paths.filter((p) => PYTHON_MANIFESTS.includes(path.posix.basename(p))).map(dirOf)),
+    ]
+    const services: DetectedService[] = []
+
+    for (const dir of projectDirs) {
+      const runner = await pythonRunner(files, dir)
+      const name = nameFor(dir, context)
+
+      if (files.has(joinPath(dir, 'manage.py'))) {
+        services.push({
+          name,
+          path: dir,
+          command: `${runner}python manage.py runserver 0.0.0.0:\${PORT:-8000}`,
+          port: 8000,
+          source: 'python',
+        })
+        continue
+      }
+
+      // Apps are module-level FastAPI() or Flask() instances near the project root
+      const sources = files.paths.filter((p) => {
+        if (!p.endsWith('.py') || ownerOf(p, projectDirs) !== dir) return false
+        const relative = dir === '.' ? p : p.slice(dir.length + 1)
+        return relative.split('/').length <= 2 && !/(^|\/)tests?\//.test(relative)
+      })
+      for (const file of sources) {
+        const content = (await files.read(file)) ?? ''
+        const app = content.match(/^(\w+)\s*=\s*(FastAPI|Flask)\(/m)
+        if (!app) continue
+
+        const relative = dir === '.' ? file : file.slice(dir.length + 1)
+        const target = `${relative.replace(/\.py$/, '').replace(/\//g, '.')}:${app[1]}`
+        services.push(
+          app[2] === 'FastAPI'
+            ? {
+                name,
+                path: dir,
+                command: `${runner}uvicorn ${target} --reload --host 0.0.0.0 --port \${PORT:-8000}`,
+                port: 8000,
+                source: 'python',
+              }
+            : {
+                name,
+                path: dir,
+                command: `${runner}flask --app ${target} run --debug --host 0.0.0.0 --port \${PORT:-5000}`,
+                port: 5000,
+                source: 'python',
+              }
+        )
+        break
+      }
+    }
+    return services
+  },
+}
+
+/** Calls that start a server: net/http, gin/echo, fiber, gRPC */
+const GO_SERVER_PATTERN = /\b(ListenAndServe(?:TLS)?|Listen|Serve)\(|\.(?:Run|Start)\(/
+
+const goDetector: ServiceDetector = {
+  source: 'go',
+  async detect(files, context) {
+    const moduleDirs = files.paths.filter((p) => path.posix.basename(p) === 'go.mod').map(dirOf)
+    const sourcesByDir = new Map<string, string[]>()
+    for (const file of files.paths) {
+      if (!file.endsWith('.go') || file.endsWith('_test.go') || !ownerOf(file, moduleDirs)) continue
+      sourcesByDir.set(dirOf(file), [...(sourcesByDir.get(dirOf(file)) ?? []), file])
+    }
+
+    const services: DetectedService[] = []
+    for (const [dir, sources] of sourcesByDir) {
+      const contents = await Promise.all(sources.map(async (file) => (await files.read(file)) ?? ''))
+      const isMain = contents.some((c) => /^package main\b/m.test(c) && /\bfunc main\(\)/.test(c))
+      // Servers only; CLIs such as cmd/migrate are not services
+      if (!isMain || !contents.some((c) => GO_SERVER_PATTERN.test(c))) continue
+
+      const moduleDir = ownerOf(joinPath(dir, 'main.go'), moduleDirs)!
+      const packagePath = moduleDir === '.' ? dir : dir === moduleDir ? '.' : dir.slice(moduleDir.length + 1)
+      const portMatch = contents.join('\n').match(/"[\w.-]*:(\d{2,5})"|"PORT"\s*,\s*"(\d{2,5})"/)
+      services.push({
+        name: dir === moduleDir ? nameFor(moduleDir, context) : path.posix.basename(dir),
+        path: moduleDir,
+        command: packagePath === '.' ? 'go run .' : `go run ./${packagePath}`,
+        port: portMatch ? parseInt(portMatch[1] ?? portMatch[2], 10) : undefined,
+        source: 'go',
+      })
+    }
+    return services
+  },
+}
+
+const packageJsonDetector: ServiceDetector = {
+  source: 'package-json',
+  async detect(files, context) {
+    const services: DetectedService[] = []
+    // Same reach as the scan for AI hints: package.json files up to two directories deep
+    for (const file of files.paths.filter((p) => path.posix.basename(p) === 'package.json' && p.split('/').length <= 3)) {
+      const content = await files.read(file)
+      if (!content) continue
+      const pkg = parseJson(content)
+      // A workspace root's dev script runs the workspace packages
+      if (pkg?.workspaces || files.has(joinPath(dirOf(file), 'pnpm-workspace.yaml'))) continue
+
+      let info: PackageInfo
+      try {
+        info = parsePackageManifest(content, nameFor(dirOf(file), context))
+      } catch {
+        continue
+      }
+      if (!info.scriptName) continue
+      services.push({
+        name: info.name,
+        path: dirOf(file),
+        command: runScript(context.packageManager, info.scriptName),
+        port: info.port,
+        source: 'package-json',
+      })
+    }
+    return services
+  },
+}
+
+const makefileDetector: ServiceDetector = {
+  source: 'makefile',
+  async detect(files, context) {
+    const services: DetectedService[] = []
+    for (const file of files.paths.filter((p) => /^(GNUmakefile|[Mm]akefile)$/.test(path.posix.basename(p)))) {
+      const dir = dirOf(file)
+      for (const { target, suffix, recipe } of parseMakefileRunTargets((await files.read(file)) ?? '')) {
+        services.push({
+          name: suffix ?? nameFor(dir, context),
+          path: dir,
+          command: `make ${target}`,
+          port: findCommandPort(recipe),
+          source: 'makefile',
+        })
+      }
+    }
+    return services
+  },
+}
+
+/**
+ * Detectors from most to least specific. A directory that yields services
+ * for one detector is skipped by the ones after it, so e.g. a Procfile.dev
+ * wins over the package.json next to it.
+ */
+const DETECTORS: ServiceDetector[] = [
+  procfileDetector('Procfile.dev', 'procfile-dev'),
+  nxDetector,
+  workspaceDetector,
+  railsDetector,
+  pythonDetector,
+  goDetector,
+  packageJsonDetector,
+  procfileDetector('Procfile', 'procfile'),
+  makefileDetector,
+]
+
+const DETECTOR_MANIFESTS = new Set([
+  'Procfile', 'Procfile.dev', 'nx.json', 'project.json', 'turbo.json', 'pnpm-workspace.yaml', 'package.json',
+  'Gemfile', 'go.mod', 'poetry.lock', 'uv.lock', ...PYTHON_MANIFESTS,
+])
+
+/**
+ * Whether the detectors read or look for this file, by path relative to the
+ * project. Source files the Go and Python detectors scan are not included.
+ */
+export function isDetectorManifest(relativePath: string): boolean {
+  const name = path.posix.basename(relativePath)
+  return DETECTOR_MANIFESTS.has(name) ||
+    /^(GNUmakefile|[Mm]akefile)$/.test(name) ||
+    /(^|\/)(config\/application\.rb|bin\/rails)$/.test(relativePath)
+}
+
+/**
+ * List the project's files, skipping hidden, dependency and build directories.
+ * Contents are read on demand and cached.
+ */
+export async function collectProjectFiles(
+  projectPath: string,
+  fileSystem: Pick<FileSystemOperations, 'readFile' | 'readdir'>,
+  depth = 4
+): Promise<ProjectFiles> {
+  const paths: string[] = []
+
+  const walk = async (relativeDir: string, currentDepth: number): Promise<void> => {
+    let entries: Awaited<ReturnType<FileSystemOperations['readdir']>>
+    try {
+      entries = await fileSystem.readdir(path.join(projectPath, relativeDir), { withFileTypes: true })
+    } catch {
+      return
+    }
+    for (const entry of entries) {
+      const relativePath = joinPath(relativeDir, entry.name)
+      if (entry.isFile()) {
+        paths.push(relativePath)
+      } else if (entry.isDirectory() && currentDepth < depth && !entry.name.startsWith('.') && !SKIPPED_DIRECTORIES.has(entry.name)) {
+        await walk(relativePath, currentDepth + 1)
+      }
+    }
+  }
+  await walk('.', 0)
+
+  const known = new Set(paths)
+  const contents = new Map<string, Promise<string | null>>()
+  return {
+    paths,
+    has: (relativePath) => known.has(relativePath),
+    read: (relativePath) => {
+      if (!known.has(relativePath)) return Promise.resolve(null)
+      if (!contents.has(relativePath)) {
+        contents.set(
+          relativePath,
+          fileSystem.readFile(path.join(projectPath, relativePath), 'utf-8').catch(() => null)
+        )
+      }
+      return contents.get(relativePath)!
+    },
+  }
+}
+
+/**
+ * Find runnable services without AI: Procfiles, Makefile run targets, nx
+ * projects, npm/pnpm/yarn workspaces (with turbo's persistent tasks),
+ * package.json scripts, Rails apps, Django/FastAPI/Flask apps and Go servers.
+ */
+export async function detectServices(
+  files: ProjectFiles,
+  context: DetectionContext
+): Promise<DetectedService[]> {
+  const services: DetectedService[] = []
+  const claimed = new Set<string>()
+
+  for (const detector of DETECTORS) {
+    const found = (await detector.detect(files, context)).filter((s) => !claimed.has(s.path))
+    services.push(...found)
+    for (const service of found) claimed.add(service.path)
+  }
+  return services
+}
@@ -1,5 +1,6 @@
 import type { RegistryService } from './registry'
-import type { ProjectConfigService } from './project-config'
+import { ProjectConfigError, type ProjectConfigService } from './project-config'
+import { applyProfile } from '../../shared/profiles'
 import type { Service, ProjectConfig } from '../../shared/types'
 
 export interface Project {
@@ -66,18 +67,19 @@ export async function getServiceContext(
   }
 }
 
-// Non-throwing variants for API use (return null on failure)
+// Non-throwing variants for API use (return null on failure).
+// The config has the project's active profile applied, as its services run with it.
 
-export type ProjectLookupError = 'PROJECT_NOT_FOUND' | 'CONFIG_NOT_FOUND'
+export type ProjectLookupError = 'PROJECT_NOT_FOUND' | 'CONFIG_NOT_FOUND' | 'CONFIG_INVALID'
 export type ServiceLookupError = ProjectLookupError | 'SERVICE_NOT_FOUND'
 
 export type TryProjectResult =
   | { success: true; data: ProjectLookupResult }
-  | { success: false; error: ProjectLookupError }
+  | { success: false; error: ProjectLookupError; configError?: ProjectConfigError }
 
 export type TryServiceResult =
   | { success: true; data: ServiceLookupResult }
-  | { success: false; error: ServiceLookupError }
+  | { success: false; error: ServiceLookupError; configError?: ProjectConfigError }
 
 export async function tryGetProjectContext(
   registry: RegistryService,
@@ -87,10 +89,17 @@ export async function tryGetProjectContext(
   const project = findProject(registry, projectId)
   if (!project) return { success: false, error: 'PROJECT_NOT_FOUND' }
 
-  const projectConfig = await config.loadConfig(project.path)
+  let projectConfig: ProjectConfig | null
+  try {
+    projectConfig = await config.loadConfig(project.path)
+  } catch (err) {
+    if (err instanceof ProjectConfigError) return { success: false, error: 'CONFIG_INVALID', configError: err }
+    throw err
+  }
   if (!projectConfig) return { success: false, error: 'CONFIG_NOT_FOUND' }
 
-  return { success: true, data: { project, projectConfig } }
+  const activeProfile = registry.getRegistry().projects.find((p) => p.id === projectId)?.activeProfile
+  return { success: true, data: { project, projectConfig: applyProfile(projectConfig, activeProfile) } }
 }
 
 export async function tryGetServiceContext(
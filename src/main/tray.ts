@@ -1,10 +1,18 @@
 import { app, Menu, Tray, nativeImage, BrowserWindow } from "electron";
 import "./electron-types";
 import * as path from "path";
+import type { Project } from "../shared/types";
 
 let tray: Tray | null = null;
+let updateContextMenu: (() => void) | null = null;
 
-export function setupTray(mainWindow: BrowserWindow): void {
+/**
+ * @param getProjects - Projects listed in the menu with their active profile
+ */
+export function setupTray(
+  mainWindow: BrowserWindow,
+  getProjects: () => Project[] = () => [],
+): void {
   // Create tray icon (use a simple icon for now)
   const iconPath = path.join(__dirname, "../../resources/icon.png");
 
@@ -23,7 +31,14 @@ export function setupTray(mainWindow: BrowserWindow): void {
   tray = new Tray(icon);
   tray.setToolTip("Simple Local");
 
-  const updateContextMenu = () => {
+  updateContextMenu = () => {
+    const profiles: Electron.MenuItemConstructorOptions[] = getProjects()
+      .filter((project) => project.activeProfile)
+      .map((project) => ({
+        label: `${project.name}: ${project.activeProfile}`,
+        enabled: false,
+      }));
+
     const contextMenu = Menu.buildFromTemplate([
       {
         label: "Show Window",
@@ -33,6 +48,13 @@ export function setupTray(mainWindow: BrowserWindow): void {
         },
       },
       { type: "separator" },
+      ...(profiles.length > 0
+        ? [
+            { label: "Active Profiles", enabled: false },
+            ...profiles,
+            { type: "separator" as const },
+          ]
+        : []),
       {
         label: "Quit",
         click: () => {
@@ -65,10 +87,16 @@ export function setupTray(mainWindow: BrowserWindow): void {
   });
 }
 
+// Call this after a project's active profile changed
+export function refreshTray(): void {
+  updateContextMenu?.();
+}
+
 // Call this before app.quit()
 export function destroyTray(): void {
   if (tray) {
     tray.destroy();
     tray = null;
+    updateContextMenu = null;
   }
 }
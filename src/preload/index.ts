@@ -1,5 +1,5 @@
 import { contextBridge, ipcRenderer } from 'electron'
-import type { Registry, Project, ProjectConfig, ServiceStatus, ServiceResourceStats, ServiceRuntimeEnv, GlobalSettings, DiscoveryProgress, PrerequisitesResult, AppSettings, AiAgentId, AgentEvent, AgentSessionInfo, ContainerEnvOverride, PortExtractionResult, UpdateState } from '../shared/types'
+import type { Registry, Project, ProjectConfig, LocalConfigOverrides, InvalidProjectConfig, MissingEnv, ProfileSwitchResult, ServiceStatus, ServiceRestartInfo, ServiceResourceStats, ServiceRuntimeEnv, GlobalSettings, DiscoveryProgress, PrerequisitesResult, AppSettings, AiAgentId, AgentEvent, AgentSessionInfo, ContainerEnvOverride, PortExtractionResult, UpdateState, PortConflict, PortConflictResolution, LogEntry, LogStream, InfrastructureTemplateId, InfrastructureTemplateInfo, DiscoveryMerge, DiscoveryCacheStatus, ProjectConfigChange, OrphanedProcessGroup } from '../shared/types'
 
 const api = {
   // Registry
@@ -14,10 +14,36 @@ const api = {
     ipcRenderer.invoke('registry:reallocatePortRange', projectId, newStartPort),
 
   // Services
-  startService: (projectId: string, serviceId: string): Promise<void> =>
-    ipcRenderer.invoke('service:start', projectId, serviceId),
+  // Start calls resolve to a PortConflict instead of starting when a foreign process holds the port
+  startService: (projectId: string, serviceId: string, portConflictResolution?: PortConflictResolution): Promise<PortConflict | null> =>
+    ipcRenderer.invoke('service:start', projectId, serviceId, portConflictResolution),
+  // Env vars the service would start without, checked before starting it
+  checkServiceEnv: (projectId: string, serviceId: string): Promise<MissingEnv | null> =>
+    ipcRenderer.invoke('service:check-env', projectId, serviceId),
   stopService: (projectId: string, serviceId: string): Promise<void> =>
     ipcRenderer.invoke('service:stop', projectId, serviceId),
+  restartService: (projectId: string, serviceId: string, portConflictResolution?: PortConflictResolution): Promise<PortConflict | null> =>
+    ipcRenderer.invoke('service:restart', projectId, serviceId, portConflictResolution),
+  // Start All stops at the first service with a port conflict or missing required env and resolves to it
+  startProject: (projectId: string): Promise<PortConflict | MissingEnv | null> =>
+    ipcRenderer.invoke('project:start', projectId),
+  stopProject: (projectId: string): Promise<void> =>
+    ipcRenderer.invoke('project:stop', projectId),
+  // Resolves to the ids of the running services the switch restarted or stopped
+  setProjectProfile: (projectId: string, profile: string | null): Promise<ProfileSwitchResult> =>
+    ipcRenderer.invoke('project:set-profile', projectId, profile),
+  // Process groups from a previous session that no service claimed; process:orphans:found is pushed after adoption
+  getOrphanedProcesses: (): Promise<OrphanedProcessGroup[]> =>
+    ipcRenderer.invoke('process:orphans'),
+  stopOrphanedProcess: (pgid: number): Promise<void> =>
+    ipcRenderer.invoke('process:orphans:stop', pgid),
+  keepOrphanedProcess: (pgid: number): Promise<void> =>
+    ipcRenderer.invoke('process:orphans:keep', pgid),
+  onOrphanedProcessesFound: (callback: (orphans: OrphanedProcessGroup[]) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, orphans: OrphanedProcessGroup[]) => callback(orphans)
+    ipcRenderer.on('process:orphans:found', handler)
+    return () => ipcRenderer.removeListener('process:orphans:found', handler)
+  },
   getServiceStatus: (projectId: string): Promise<ServiceStatus[]> =>
     ipcRenderer.invoke('service:status', projectId),
   getServiceStats: (projectId: string, serviceId: string): Promise<ServiceResourceStats | null> =>
@@ -30,17 +56,17 @@ const api = {
     ipcRenderer.invoke('service:logs:start', projectId, serviceId),
   stopLogStream: (projectId: string, serviceId: string): Promise<void> =>
     ipcRenderer.invoke('service:logs:stop', projectId, serviceId),
-  getLogs: (projectId: string, serviceId: string): Promise<string[]> =>
+  getLogs: (projectId: string, serviceId: string): Promise<LogEntry[]> =>
     ipcRenderer.invoke('service:logs:get', projectId, serviceId),
   clearLogs: (projectId: string, serviceId: string): Promise<void> =>
     ipcRenderer.invoke('service:logs:clear', projectId, serviceId),
-  onLogData: (callback: (data: { projectId: string; serviceId: string; data: string }) => void) => {
-    const handler = (_event: Electron.IpcRendererEvent, data: { projectId: string; serviceId: string; data: string }) => callback(data)
+  onLogData: (callback: (data: { projectId: string; serviceId: string; data: string; stream?: LogStream }) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: { projectId: string; serviceId: string; data: string; stream?: LogStream }) => callback(data)
     ipcRenderer.on('service:logs:data', handler)
     return () => ipcRenderer.removeListener('service:logs:data', handler)
   },
-  onStatusChange: (callback: (data: { projectId: string; serviceId: string; status: string }) => void) => {
-    const handler = (_event: Electron.IpcRendererEvent, data: { projectId: string; serviceId: string; status: string }) => callback(data)
+  onStatusChange: (callback: (data: { projectId: string; serviceId: string; status: string; restart?: ServiceRestartInfo }) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: { projectId: string; serviceId: string; status: string; restart?: ServiceRestartInfo }) => callback(data)
     ipcRenderer.on('service:status:change', handler)
     return () => ipcRenderer.removeListener('service:status:change', handler)
   },
@@ -51,14 +77,48 @@ const api = {
   },
 
   // Config
-  loadProjectConfig: (projectPath: string): Promise<ProjectConfig> =>
+  loadProjectConfig: (projectPath: string): Promise<ProjectConfig | InvalidProjectConfig> =>
     ipcRenderer.invoke('config:load', projectPath),
   saveProjectConfig: (projectPath: string, config: ProjectConfig): Promise<void> =>
     ipcRenderer.invoke('discovery:save', projectPath, config),
+  getLocalConfigOverrides: (projectPath: string): Promise<LocalConfigOverrides> =>
+    ipcRenderer.invoke('config:local-overrides', projectPath),
+  setEnvVarLocal: (projectPath: string, serviceId: string, key: string, local: boolean): Promise<void> =>
+    ipcRenderer.invoke('config:set-env-local', projectPath, serviceId, key, local),
+  // Hot-reload: config:changed is pushed while a project is watched
+  watchProjectConfig: (projectId: string): Promise<void> =>
+    ipcRenderer.invoke('config:watch', projectId),
+  unwatchProjectConfig: (projectId: string): Promise<void> =>
+    ipcRenderer.invoke('config:unwatch', projectId),
+  onConfigChanged: (callback: (change: ProjectConfigChange) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, change: ProjectConfigChange) => callback(change)
+    ipcRenderer.on('config:changed', handler)
+    return () => ipcRenderer.removeListener('config:changed', handler)
+  },
+
+  // Secrets stored on this machine, referenced as secret://local/<name>
+  listSecrets: (): Promise<string[]> =>
+    ipcRenderer.invoke('secrets:list'),
+  setSecret: (name: string, value: string): Promise<void> =>
+    ipcRenderer.invoke('secrets:set', name, value),
+  deleteSecret: (name: string): Promise<void> =>
+    ipcRenderer.invoke('secrets:delete', name),
+
+  // Infrastructure catalog
+  getInfrastructureTemplates: (): Promise<InfrastructureTemplateInfo[]> =>
+    ipcRenderer.invoke('infrastructure:templates'),
+  addInfrastructureService: (projectId: string, templateId: InfrastructureTemplateId): Promise<ProjectConfig> =>
+    ipcRenderer.invoke('infrastructure:add', projectId, templateId),
 
   // Discovery (runs AI analysis)
-  analyzeProject: (projectPath: string, agentId?: AiAgentId): Promise<ProjectConfig> =>
-    ipcRenderer.invoke('discovery:analyze', projectPath, agentId),
+  // A cached AI result is reused while no manifest changed; force runs the agent anyway
+  analyzeProject: (projectPath: string, agentId?: AiAgentId, force?: boolean): Promise<ProjectConfig> =>
+    ipcRenderer.invoke('discovery:analyze', projectPath, agentId, force),
+  getDiscoveryCacheStatus: (projectPath: string, agentId?: AiAgentId): Promise<DiscoveryCacheStatus | null> =>
+    ipcRenderer.invoke('discovery:cache-status', projectPath, agentId),
+  // Resolves to null when the project has no saved config to merge into
+  mergeDiscovery: (projectPath: string, config: ProjectConfig): Promise<DiscoveryMerge | null> =>
+    ipcRenderer.invoke('discovery:merge', projectPath, config),
   reanalyzeServiceEnv: (projectId: string, serviceId: string, agentId?: AiAgentId): Promise<ContainerEnvOverride[]> =>
     ipcRenderer.invoke('service:reanalyze-env', projectId, serviceId, agentId),
   onDiscoveryProgress: (callback: (progress: DiscoveryProgress) => void) => {
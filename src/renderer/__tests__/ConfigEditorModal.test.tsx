@@ -0,0 +1,43 @@
+import React from 'react'
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { ConfigEditorModal, findLocalOverrideLines } from '../src/components/ConfigEditorModal'
+import type { ProjectConfig } from '../../shared/types'
+
+vi.mock('@monaco-editor/react', () => ({ default: () => null }))
+
+const config: ProjectConfig = {
+  name: 'shop',
+  services: [
+    { id: 'web', name: 'Web', path: 'web', command: 'npm run dev', port: 3000, env: {}, active: true, mode: 'native' },
+    { id: 'api', name: 'API', path: 'api', command: 'npm start', port: 3001, env: { LOG_LEVEL: 'info', API_KEY: 'x' }, active: true, mode: 'native' },
+  ],
+}
+
+describe('findLocalOverrideLines', () => {
+  it('finds the lines of local values in the formatted config', () => {
+    const lines = JSON.stringify(config, null, 2).split('\n')
+
+    const found = findLocalOverrideLines(config, { api: ['port', 'env.API_KEY'], web: ['active'] })
+
+    expect(found.map((line) => lines[line - 1].trim())).toEqual(['"active": true,', '"port": 3001,', '"API_KEY": "x"'])
+  })
+
+  it('marks every line of an overridden object', () => {
+    const lines = JSON.stringify(config, null, 2).split('\n')
+
+    const found = findLocalOverrideLines(config, { api: ['env'] })
+
+    expect(found.map((line) => lines[line - 1].trim())).toEqual(['"env": {', '"LOG_LEVEL": "info",', '"API_KEY": "x"', '},'])
+  })
+})
+
+describe('ConfigEditorModal', () => {
+  it('tells how many values come from config.local.json', () => {
+    render(
+      <ConfigEditorModal isOpen config={config} localOverrides={{ api: ['port', 'env.API_KEY'] }} onClose={vi.fn()} onSave={vi.fn()} />
+    )
+
+    expect(screen.getByText(/2 values from config.local.json/)).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,70 @@
+import React from 'react'
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { DiscoveryMergeReview } from '../src/components/discovery/DiscoveryMergeReview'
+import type { DiscoveryMerge, Service } from '../../shared/types'
+
+const service = (id: string, overrides: Partial<Service> = {}): Service => ({
+  id,
+  name: id,
+  path: `apps/${id}`,
+  command: 'npm run dev',
+  env: {},
+  active: true,
+  mode: 'native',
+  ...overrides,
+})
+
+const merge: DiscoveryMerge = {
+  name: 'shop',
+  entries: [
+    { id: 'web', kind: 'unchanged', existing: service('web'), merged: service('web'), changedFields: [] },
+    {
+      id: 'api',
+      kind: 'changed',
+      existing: service('api', { mode: 'container' }),
+      merged: service('api', { mode: 'container', command: 'pnpm dev' }),
+      changedFields: ['command'],
+    },
+    { id: 'legacy', kind: 'removed', existing: service('legacy'), changedFields: [] },
+    { id: 'worker', kind: 'added', merged: service('worker'), changedFields: [] },
+  ],
+}
+
+describe('DiscoveryMergeReview', () => {
+  it('shows changed fields and the number of unchanged services', () => {
+    render(<DiscoveryMergeReview merge={merge} onConfirm={vi.fn()} onCancel={vi.fn()} />)
+
+    expect(screen.getByText('Changed')).toBeInTheDocument()
+    expect(screen.getByText('Removed')).toBeInTheDocument()
+    expect(screen.getByText('Added')).toBeInTheDocument()
+    expect(screen.getByText(/command: npm run dev/)).toHaveTextContent('command: npm run dev → pnpm dev')
+    expect(screen.getByText('1 unchanged service will be kept as is')).toBeInTheDocument()
+  })
+
+  it('applies additions and changes but keeps removed services by default', () => {
+    const onConfirm = vi.fn()
+    render(<DiscoveryMergeReview merge={merge} onConfirm={onConfirm} onCancel={vi.fn()} />)
+
+    fireEvent.click(screen.getByText('Apply Changes'))
+
+    expect(onConfirm).toHaveBeenCalledWith([
+      merge.entries[0].merged,
+      merge.entries[1].merged,
+      merge.entries[2].existing,
+      merge.entries[3].merged,
+    ])
+  })
+
+  it('keeps the saved service for rejected entries', () => {
+    const onConfirm = vi.fn()
+    render(<DiscoveryMergeReview merge={merge} onConfirm={onConfirm} onCancel={vi.fn()} />)
+
+    fireEvent.click(screen.getByText('api'))
+    fireEvent.click(screen.getByText('legacy'))
+    fireEvent.click(screen.getByText('worker'))
+    fireEvent.click(screen.getByText('Apply Changes'))
+
+    expect(onConfirm).toHaveBeenCalledWith([merge.entries[0].merged, merge.entries[1].existing])
+  })
+})
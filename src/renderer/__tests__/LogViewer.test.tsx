@@ -1,9 +1,11 @@
 import React from 'react'
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { render, screen, act } from '@testing-library/react'
-import { LogViewer } from '../src/components/LogViewer'
+import { LogViewer, formatLogEntry } from '../src/components/LogViewer'
 import { mockApi } from './setup'
 
+const terminals = vi.hoisted(() => [] as Array<{ write: ReturnType<typeof vi.fn> }>)
+
 // Mock xterm.js - it doesn't work in JSDOM (no canvas)
 vi.mock('@xterm/xterm', () => {
   const MockTerminal = class {
@@ -13,6 +15,9 @@ vi.mock('@xterm/xterm', () => {
     clear = vi.fn()
     reset = vi.fn()
     dispose = vi.fn()
+    constructor() {
+      terminals.push(this)
+    }
   }
   return { Terminal: MockTerminal }
 })
@@ -25,11 +30,12 @@ vi.mock('@xterm/addon-fit', () => {
 })
 
 describe('LogViewer', () => {
-  let logDataCallback: ((data: { projectId: string; serviceId: string; data: string }) => void) | null = null
+  let logDataCallback: ((data: { projectId: string; serviceId: string; data: string; stream?: 'stdout' | 'stderr' }) => void) | null = null
 
   beforeEach(() => {
     vi.useFakeTimers()
     vi.clearAllMocks()
+    terminals.length = 0
     mockApi.getLogs.mockResolvedValue([])
     mockApi.startLogStream.mockResolvedValue(undefined)
     mockApi.stopLogStream.mockResolvedValue(undefined)
@@ -83,7 +89,7 @@ describe('LogViewer', () => {
   })
 
   it('fetches existing logs on mount', async () => {
-    mockApi.getLogs.mockResolvedValue(['line 1', 'line 2'])
+    mockApi.getLogs.mockResolvedValue([{ data: 'line 1', stream: 'stdout' }, { data: 'line 2' }])
 
     render(
       <LogViewer
@@ -98,6 +104,33 @@ describe('LogViewer', () => {
     })
 
     expect(mockApi.getLogs).toHaveBeenCalledWith('p1', 's1')
+    expect(terminals[0].write).toHaveBeenCalledWith('line 1\r\nline 2\r\n')
+  })
+
+  it('writes stderr lines in a different color', async () => {
+    render(
+      <LogViewer
+        projectId="p1"
+        serviceId="s1"
+        serviceName="Test Service"
+      />
+    )
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(0)
+    })
+
+    act(() => {
+      logDataCallback?.({ projectId: 'p1', serviceId: 's1', data: 'listening', stream: 'stdout' })
+      logDataCallback?.({ projectId: 'p1', serviceId: 's1', data: 'deprecated option', stream: 'stderr' })
+    })
+
+    expect(terminals[0].write).toHaveBeenCalledWith('listening\r\n')
+    expect(terminals[0].write).toHaveBeenCalledWith('\x1b[31mdeprecated option\x1b[0m\r\n')
+  })
+
+  it('leaves messages without a stream uncolored', () => {
+    expect(formatLogEntry({ data: 'Restarting in 1000ms' })).toBe('Restarting in 1000ms')
   })
 
   it('subscribes to log data events', async () => {
@@ -1,6 +1,6 @@
 import React from 'react'
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { render, waitFor, act } from '@testing-library/react'
+import { render, waitFor, act, fireEvent } from '@testing-library/react'
 import { ProjectView } from '../src/components/ProjectView'
 import { mockApi } from './setup'
 
@@ -168,3 +168,356 @@ describe('ProjectView - polling and events', () => {
     // The actual UI change is tested implicitly by the component not crashing
   })
 })
+
+describe('ProjectView - port conflicts', () => {
+  const conflict = {
+    serviceId: 's1',
+    serviceName: 'Service 1',
+    port: 3000,
+    holders: [{ pid: 777, pgid: 777, name: 'postgres', commandLine: '/usr/bin/postgres -p 3000' }],
+    canUseNextPort: true,
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockApi.loadProjectConfig.mockResolvedValue(testConfig)
+    mockApi.getServiceStatus.mockResolvedValue([
+      { serviceId: 's1', status: 'stopped' },
+      { serviceId: 's2', status: 'stopped' },
+    ])
+    mockApi.onStatusChange.mockReturnValue(vi.fn())
+    mockApi.getLogs.mockResolvedValue([])
+    mockApi.startLogStream.mockResolvedValue(undefined)
+    mockApi.onLogData.mockReturnValue(vi.fn())
+  })
+
+  it('asks how to resolve a conflict from Start All and resumes after killing', async () => {
+    mockApi.startProject.mockResolvedValueOnce(conflict).mockResolvedValueOnce(null)
+    mockApi.startService.mockResolvedValue(null)
+    const { getByText, queryByText } = render(<ProjectView project={testProject} registry={testRegistry} />)
+
+    await waitFor(() => expect(getByText('Start All')).toBeTruthy())
+    await act(async () => {
+      getByText('Start All').click()
+    })
+
+    await waitFor(() => expect(getByText('Port 3000 is in use')).toBeTruthy())
+    expect(getByText('/usr/bin/postgres -p 3000')).toBeTruthy()
+    expect(getByText('Use next free port')).toBeTruthy()
+
+    await act(async () => {
+      getByText('Kill process').click()
+    })
+
+    await waitFor(() => expect(mockApi.startProject).toHaveBeenCalledTimes(2))
+    expect(mockApi.startService).toHaveBeenCalledWith('test-project', 's1', 'kill')
+    expect(queryByText('Port 3000 is in use')).toBeNull()
+  })
+
+  it('closes without starting on cancel', async () => {
+    mockApi.startProject.mockResolvedValue(conflict)
+    const { getByText, queryByText } = render(<ProjectView project={testProject} registry={testRegistry} />)
+
+    await waitFor(() => expect(getByText('Start All')).toBeTruthy())
+    await act(async () => {
+      getByText('Start All').click()
+    })
+    await waitFor(() => expect(getByText('Port 3000 is in use')).toBeTruthy())
+
+    await act(async () => {
+      getByText('Cancel').click()
+    })
+
+    expect(queryByText('Port 3000 is in use')).toBeNull()
+    expect(mockApi.startService).not.toHaveBeenCalled()
+  })
+})
+
+describe('ProjectView - missing env pre-flight', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockApi.loadProjectConfig.mockResolvedValue(testConfig)
+    mockApi.getServiceStatus.mockResolvedValue([
+      { serviceId: 's1', status: 'stopped' },
+      { serviceId: 's2', status: 'stopped' },
+    ])
+    mockApi.onStatusChange.mockReturnValue(vi.fn())
+    mockApi.getLogs.mockResolvedValue([])
+    mockApi.startLogStream.mockResolvedValue(undefined)
+    mockApi.onLogData.mockReturnValue(vi.fn())
+    mockApi.startService.mockResolvedValue(null)
+  })
+
+  it('warns about vars from example files and starts anyway on confirm', async () => {
+    mockApi.checkServiceEnv.mockResolvedValueOnce({
+      serviceId: 's1',
+      serviceName: 'Service 1',
+      missing: [{ key: 'SENTRY_DSN', source: '.env.example' }],
+      blocking: false,
+    })
+    const { getAllByText, getByText, queryByText } = render(<ProjectView project={testProject} registry={testRegistry} />)
+
+    await waitFor(() => expect(getAllByText('Start').length).toBeGreaterThan(0))
+    await act(async () => {
+      getAllByText('Start')[0].click()
+    })
+
+    await waitFor(() => expect(getByText('Missing environment variables')).toBeTruthy())
+    expect(getByText('SENTRY_DSN')).toBeTruthy()
+    expect(getByText('listed in .env.example')).toBeTruthy()
+    expect(mockApi.startService).not.toHaveBeenCalled()
+
+    await act(async () => {
+      getByText('Start anyway').click()
+    })
+
+    expect(mockApi.startService).toHaveBeenCalledWith('test-project', 's1')
+    expect(queryByText('Missing environment variables')).toBeNull()
+  })
+
+  it('does not offer to start without required vars', async () => {
+    mockApi.checkServiceEnv.mockResolvedValueOnce({
+      serviceId: 's1',
+      serviceName: 'Service 1',
+      missing: [{ key: 'STRIPE_KEY', source: 'requiredEnv' }],
+      blocking: true,
+    })
+    const { getAllByText, getByText, queryByText } = render(<ProjectView project={testProject} registry={testRegistry} />)
+
+    await waitFor(() => expect(getAllByText('Start').length).toBeGreaterThan(0))
+    await act(async () => {
+      getAllByText('Start')[0].click()
+    })
+
+    await waitFor(() => expect(getByText('STRIPE_KEY')).toBeTruthy())
+    expect(queryByText('Start anyway')).toBeNull()
+
+    await act(async () => {
+      getByText('Close').click()
+    })
+
+    expect(queryByText('Missing environment variables')).toBeNull()
+    expect(mockApi.startService).not.toHaveBeenCalled()
+  })
+
+  it('shows the required vars that stopped Start All', async () => {
+    mockApi.startProject.mockResolvedValueOnce({
+      serviceId: 's2',
+      serviceName: 'Service 2',
+      missing: [{ key: 'STRIPE_KEY', source: 'requiredEnv' }],
+      blocking: true,
+    })
+    const { getByText, queryByText } = render(<ProjectView project={testProject} registry={testRegistry} />)
+
+    await waitFor(() => expect(getByText('Start All')).toBeTruthy())
+    await act(async () => {
+      getByText('Start All').click()
+    })
+
+    await waitFor(() => expect(getByText('Missing environment variables')).toBeTruthy())
+    expect(getByText('STRIPE_KEY')).toBeTruthy()
+    expect(queryByText('Start anyway')).toBeNull()
+  })
+})
+
+describe('ProjectView - invalid config', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockApi.getServiceStatus.mockResolvedValue([])
+    mockApi.onStatusChange.mockReturnValue(vi.fn())
+  })
+
+  it('lists each validation issue and retries loading', async () => {
+    mockApi.loadProjectConfig.mockResolvedValueOnce({
+      error: 'CONFIG_INVALID',
+      configPath: '/test/path/.simple-local/config.json',
+      issues: [
+        { path: 'services[0].port', message: 'Port must be at most 65535' },
+        { path: 'services[1]', message: 'Unrecognized key: "comand"' },
+        { path: '', message: 'Invalid JSON: Unexpected token\nin JSON at position 12' },
+      ],
+    })
+    const { getByText, queryByText } = render(<ProjectView project={testProject} registry={testRegistry} />)
+
+    await waitFor(() => expect(getByText('Invalid configuration')).toBeTruthy())
+    expect(getByText('/test/path/.simple-local/config.json')).toBeTruthy()
+    expect(getByText('services[0].port: Port must be at most 65535')).toBeTruthy()
+    expect(getByText('services[1]: Unrecognized key: "comand"')).toBeTruthy()
+    expect(getByText(/Invalid JSON: Unexpected token/)).toBeTruthy()
+
+    mockApi.loadProjectConfig.mockResolvedValue(testConfig)
+    await act(async () => {
+      getByText('Retry').click()
+    })
+
+    await waitFor(() => expect(queryByText('Invalid configuration')).toBeNull())
+    expect(mockApi.loadProjectConfig).toHaveBeenCalledTimes(2)
+  })
+
+  it('shows validation issues pushed by the config watcher', async () => {
+    let onConfigChanged: ((change: unknown) => void) | null = null
+    mockApi.loadProjectConfig.mockResolvedValue(testConfig)
+    mockApi.onConfigChanged.mockImplementation((callback) => {
+      onConfigChanged = callback
+      return vi.fn()
+    })
+    const { getByText, getAllByText } = render(<ProjectView project={testProject} registry={testRegistry} />)
+    await waitFor(() => expect(getAllByText('Service 1').length).toBeGreaterThan(0))
+
+    await act(async () => {
+      onConfigChanged!({
+        projectId: 'test-project',
+        invalid: {
+          error: 'CONFIG_INVALID',
+          configPath: '/test/path/.simple-local/config.json',
+          issues: [{ path: 'services[0].port', message: 'Port must be at most 65535' }],
+        },
+        restartNeeded: [],
+      })
+    })
+
+    expect(getByText('Invalid configuration')).toBeTruthy()
+    expect(getByText('services[0].port: Port must be at most 65535')).toBeTruthy()
+  })
+})
+
+describe('ProjectView - config hot-reload', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockApi.loadProjectConfig.mockResolvedValue(testConfig)
+    mockApi.getServiceStatus.mockResolvedValue([
+      { serviceId: 's1', status: 'running' },
+      { serviceId: 's2', status: 'stopped' },
+    ])
+    mockApi.onStatusChange.mockReturnValue(vi.fn())
+  })
+
+  it('watches the project and applies pushed config changes', async () => {
+    let onConfigChanged: ((change: unknown) => void) | null = null
+    mockApi.onConfigChanged.mockImplementation((callback) => {
+      onConfigChanged = callback
+      return vi.fn()
+    })
+    const { getByText, getAllByText, queryAllByText, unmount } = render(<ProjectView project={testProject} registry={testRegistry} />)
+
+    await waitFor(() => expect(getAllByText('Service 1').length).toBeGreaterThan(0))
+    expect(mockApi.watchProjectConfig).toHaveBeenCalledWith('test-project')
+
+    await act(async () => {
+      onConfigChanged!({
+        projectId: 'test-project',
+        config: {
+          ...testConfig,
+          services: [{ ...testConfig.services[0], name: 'Renamed Service' }, testConfig.services[1]],
+        },
+        restartNeeded: ['s1'],
+      })
+    })
+
+    expect(getAllByText('Renamed Service').length).toBeGreaterThan(0)
+    expect(getByText('Restart needed')).toBeTruthy()
+    expect(queryAllByText('Service 1')).toHaveLength(0)
+
+    unmount()
+    expect(mockApi.unwatchProjectConfig).toHaveBeenCalledWith('test-project')
+  })
+})
+
+describe('ProjectView - environment profiles', () => {
+  const profileConfig = {
+    ...testConfig,
+    profiles: {
+      staging: { services: { s2: { active: false } } },
+    },
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockApi.loadProjectConfig.mockResolvedValue(profileConfig)
+    mockApi.getServiceStatus.mockResolvedValue([])
+    mockApi.onStatusChange.mockReturnValue(vi.fn())
+    mockApi.getLogs.mockResolvedValue([])
+    mockApi.startLogStream.mockResolvedValue(undefined)
+    mockApi.onLogData.mockReturnValue(vi.fn())
+  })
+
+  it('shows services as the active profile runs them', async () => {
+    const { findByText, getByLabelText } = render(
+      <ProjectView project={{ ...testProject, activeProfile: 'staging' }} registry={testRegistry} />
+    )
+
+    // Service 2 is hidden by the profile
+    await findByText('0 of 1 services running')
+    expect((getByLabelText('Environment profile') as HTMLSelectElement).value).toBe('staging')
+  })
+
+  it('switches the profile and refreshes the registry', async () => {
+    const onRegistryChanged = vi.fn()
+    const { getByLabelText } = render(
+      <ProjectView project={testProject} registry={testRegistry} onRegistryChanged={onRegistryChanged} />
+    )
+
+    await waitFor(() => expect(getByLabelText('Environment profile')).toBeTruthy())
+    await act(async () => {
+      fireEvent.change(getByLabelText('Environment profile'), { target: { value: 'staging' } })
+    })
+
+    expect(mockApi.setProjectProfile).toHaveBeenCalledWith('test-project', 'staging')
+    expect(onRegistryChanged).toHaveBeenCalled()
+  })
+
+  it('shows the services that failed to restart after a switch', async () => {
+    mockApi.setProjectProfile.mockResolvedValueOnce({ affected: ['s1'], failures: ['Service 1: spawn failed'] })
+    const { getByLabelText, findByText } = render(<ProjectView project={testProject} registry={testRegistry} />)
+
+    await waitFor(() => expect(getByLabelText('Environment profile')).toBeTruthy())
+    await act(async () => {
+      fireEvent.change(getByLabelText('Environment profile'), { target: { value: 'staging' } })
+    })
+
+    await findByText(/Service 1: spawn failed/)
+  })
+})
+
+describe('ProjectView - local env values', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockApi.loadProjectConfig.mockResolvedValue(testConfig)
+    mockApi.getServiceStatus.mockResolvedValue([{ serviceId: 's1', status: 'running' }])
+    mockApi.onStatusChange.mockReturnValue(vi.fn())
+    mockApi.getLogs.mockResolvedValue([])
+    mockApi.startLogStream.mockResolvedValue(undefined)
+    mockApi.onLogData.mockReturnValue(vi.fn())
+    mockApi.getServiceEnv.mockResolvedValue({
+      command: 'npm start',
+      raw: { API_KEY: 'dev-key', LOG_LEVEL: 'debug' },
+      final: { API_KEY: 'dev-key', LOG_LEVEL: 'debug', PORT: '3000' },
+      sources: { API_KEY: { type: 'config' }, LOG_LEVEL: { type: 'config' }, PORT: { type: 'injected' } },
+      warnings: [],
+      mode: 'native',
+      startedAt: Date.now(),
+    })
+  })
+
+  it('keeps an env var in config.local.json when marked local', async () => {
+    mockApi.getLocalConfigOverrides
+      .mockResolvedValueOnce({ s1: ['env.LOG_LEVEL'] })
+      .mockResolvedValueOnce({ s1: ['env.API_KEY', 'env.LOG_LEVEL'] })
+    const { container, findByText, getAllByText } = render(<ProjectView project={testProject} registry={testRegistry} />)
+
+    await waitFor(() => expect(container.querySelector('[data-tooltip="Environment"]')).toBeTruthy())
+    fireEvent.click(container.querySelector('[data-tooltip="Environment"]')!)
+    await findByText('Environment Variables')
+
+    // The injected PORT cannot be kept locally
+    const localButtons = getAllByText('local')
+    expect(localButtons.map((b) => b.getAttribute('aria-pressed'))).toEqual(['false', 'true'])
+
+    await act(async () => {
+      fireEvent.click(localButtons[0])
+    })
+
+    expect(mockApi.setEnvVarLocal).toHaveBeenCalledWith('/test/path', 's1', 'API_KEY', true)
+    await waitFor(() => expect(getAllByText('local')[0].getAttribute('aria-pressed')).toBe('true'))
+  })
+})
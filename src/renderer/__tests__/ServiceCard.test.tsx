@@ -102,3 +102,62 @@ describe('ServiceCard - memoization', () => {
     expect(renderCount.current).toBe(2)
   })
 })
+
+describe('ServiceCard - restart info', () => {
+  const renderCard = (restartInfo?: React.ComponentProps<typeof ServiceCard>['restartInfo']) =>
+    render(
+      <ServiceCard
+        projectId="p1"
+        service={testService}
+        status="running"
+        restartInfo={restartInfo}
+        isSelected={false}
+        onSelect={() => {}}
+        onStart={() => {}}
+        onStop={() => {}}
+        onRestart={() => {}}
+      />
+    )
+
+  it('shows restart count and last exit code', () => {
+    const { getByText } = renderCard({ restartCount: 2, lastExitCode: 1, gaveUp: false })
+    expect(getByText('2 restarts · exit 1')).toBeInTheDocument()
+  })
+
+  it('marks services that hit the restart limit', () => {
+    const { getByText } = renderCard({ restartCount: 1, lastExitCode: 137, gaveUp: true })
+    expect(getByText('1 restart · exit 137 · gave up')).toBeInTheDocument()
+  })
+
+  it('shows nothing before the first automatic restart', () => {
+    const { queryByText } = renderCard({ restartCount: 0, lastExitCode: null, gaveUp: false })
+    expect(queryByText(/restart/)).not.toBeInTheDocument()
+  })
+})
+
+describe('ServiceCard - restart needed', () => {
+  const renderCard = (status: React.ComponentProps<typeof ServiceCard>['status'], restartNeeded: boolean) =>
+    render(
+      <ServiceCard
+        projectId="p1"
+        service={testService}
+        status={status}
+        restartNeeded={restartNeeded}
+        isSelected={false}
+        onSelect={() => {}}
+        onStart={() => {}}
+        onStop={() => {}}
+        onRestart={() => {}}
+      />
+    )
+
+  it('flags running services whose config changed', () => {
+    const { getByText } = renderCard('running', true)
+    expect(getByText('Restart needed')).toBeInTheDocument()
+  })
+
+  it('does not flag stopped services', () => {
+    const { queryByText } = renderCard('stopped', true)
+    expect(queryByText('Restart needed')).not.toBeInTheDocument()
+  })
+})
@@ -28,9 +28,29 @@ Object.defineProperty(window, 'matchMedia', {
 const mockApi = {
   loadProjectConfig: vi.fn(),
   saveProjectConfig: vi.fn(),
+  getLocalConfigOverrides: vi.fn().mockResolvedValue({}),
+  setEnvVarLocal: vi.fn().mockResolvedValue(undefined),
+  listSecrets: vi.fn().mockResolvedValue([]),
+  setSecret: vi.fn().mockResolvedValue(undefined),
+  deleteSecret: vi.fn().mockResolvedValue(undefined),
+  watchProjectConfig: vi.fn().mockResolvedValue(undefined),
+  unwatchProjectConfig: vi.fn().mockResolvedValue(undefined),
+  onConfigChanged: vi.fn(() => vi.fn()),
+  getInfrastructureTemplates: vi.fn().mockResolvedValue([]),
+  addInfrastructureService: vi.fn(),
   startService: vi.fn(),
+  checkServiceEnv: vi.fn().mockResolvedValue(null),
   stopService: vi.fn(),
+  restartService: vi.fn(),
+  startProject: vi.fn(),
+  stopProject: vi.fn(),
+  setProjectProfile: vi.fn().mockResolvedValue({ affected: [], failures: [] }),
+  getOrphanedProcesses: vi.fn().mockResolvedValue([]),
+  stopOrphanedProcess: vi.fn().mockResolvedValue(undefined),
+  keepOrphanedProcess: vi.fn().mockResolvedValue(undefined),
+  onOrphanedProcessesFound: vi.fn(() => vi.fn()),
   getServiceStatus: vi.fn(),
+  getServiceEnv: vi.fn().mockResolvedValue(null),
   startLogStream: vi.fn(),
   stopLogStream: vi.fn(),
   getLogs: vi.fn(),
@@ -39,6 +59,8 @@ const mockApi = {
   onStatusChange: vi.fn(() => vi.fn()),
   onStatsUpdate: vi.fn(() => vi.fn()),
   reanalyzeServiceEnv: vi.fn(),
+  mergeDiscovery: vi.fn().mockResolvedValue(null),
+  getDiscoveryCacheStatus: vi.fn().mockResolvedValue(null),
   reallocatePortRange: vi.fn(),
   // Setup-related API methods
   checkPrerequisites: vi.fn(),
@@ -4,10 +4,12 @@ import { Header } from "./components/Header";
 import { ProjectView } from "./components/ProjectView";
 import { ConfirmModal } from "./components/ConfirmModal";
 import { UpdateModal } from "./components/UpdateModal";
+import { OrphanedProcessesModal } from "./components/OrphanedProcessesModal";
 import { DiscoveryScreen } from "./components/discovery";
 import { SetupScreen } from "./components/SetupScreen";
 import { Layers } from "lucide-react";
 import type {
+  OrphanedProcessGroup,
   Project,
   Registry,
   Service,
@@ -81,6 +83,33 @@ function App() {
     window.api.getRegistry().then(setRegistry);
   }, []);
 
+  // Processes from a previous session that no service claimed
+  const [orphans, setOrphans] = useState<OrphanedProcessGroup[]>([]);
+
+  useEffect(() => {
+    window.api.getOrphanedProcesses().then(setOrphans);
+    const unsubscribe = window.api.onOrphanedProcessesFound(setOrphans);
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+
+  const handleOrphan = async (
+    orphan: OrphanedProcessGroup,
+    action: "stop" | "keep",
+  ) => {
+    setOrphans((prev) => prev.filter((o) => o.pgid !== orphan.pgid));
+    try {
+      if (action === "stop") {
+        await window.api.stopOrphanedProcess(orphan.pgid);
+      } else {
+        await window.api.keepOrphanedProcess(orphan.pgid);
+      }
+    } catch (err) {
+      log.error(`Failed to ${action} orphaned process group:`, err);
+    }
+  };
+
   const selectedProject = registry?.projects.find(
     (p) => p.id === selectedProjectId,
   );
@@ -112,7 +141,7 @@ function App() {
     setLoadingProjectPath(folderPath);
   };
 
-  const handleDiscoveryComplete = async (services: Service[]) => {
+  const handleDiscoveryComplete = async (services: Service[], profiles?: ProjectConfig["profiles"]) => {
     log.info(
       "handleDiscoveryComplete called with",
       services.length,
@@ -127,6 +156,7 @@ function App() {
       const config: ProjectConfig = {
         name: loadingProjectPath.split("/").pop() || "project",
         services,
+        ...(profiles && { profiles }),
       };
 
       log.info("Saving project config to:", loadingProjectPath);
@@ -195,26 +225,6 @@ function App() {
     setLoadingProjectPath(selectedProject.path);
   };
 
-  const handleStartAll = async () => {
-    if (!selectedProject) return;
-    const config = await window.api.loadProjectConfig(selectedProject.path);
-    await Promise.allSettled(
-      config.services.map((service) =>
-        window.api.startService(selectedProject.id, service.id)
-      )
-    );
-  };
-
-  const handleStopAll = async () => {
-    if (!selectedProject) return;
-    const config = await window.api.loadProjectConfig(selectedProject.path);
-    await Promise.allSettled(
-      config.services.map((service) =>
-        window.api.stopService(selectedProject.id, service.id)
-      )
-    );
-  };
-
   const handleDeleteProject = async () => {
     if (!projectToDelete) return;
 
@@ -283,6 +293,13 @@ function App() {
         onCancel={() => setProjectToDelete(null)}
       />
 
+      <OrphanedProcessesModal
+        orphans={orphans}
+        onStop={(orphan) => handleOrphan(orphan, "stop")}
+        onKeep={(orphan) => handleOrphan(orphan, "keep")}
+        onClose={() => setOrphans([])}
+      />
+
       {showUpdateModal && (
         <UpdateModal
           state={updateState}
@@ -293,11 +310,7 @@ function App() {
       )}
 
       <div className="flex flex-1 flex-col overflow-hidden">
-        <Header
-          projectName={selectedProject?.name}
-          onStartAll={handleStartAll}
-          onStopAll={handleStopAll}
-        />
+        <Header projectName={selectedProject?.name} />
 
         <main className="flex-1 overflow-auto p-6">
           {addError && (
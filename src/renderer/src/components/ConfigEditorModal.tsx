@@ -1,19 +1,67 @@
 import { useState, useEffect } from 'react'
 import { X, Code2, AlertCircle, WandSparkles } from 'lucide-react'
-import Editor from '@monaco-editor/react'
-import type { ProjectConfig } from '../../../shared/types'
+import Editor, { type OnMount } from '@monaco-editor/react'
+import type { LocalConfigOverrides, ProjectConfig } from '../../../shared/types'
+
+type CodeEditor = Parameters<OnMount>[0]
 
 interface ConfigEditorModalProps {
   isOpen: boolean
   config: ProjectConfig
+  /** Values of `config` that come from config.local.json, highlighted in the editor */
+  localOverrides?: LocalConfigOverrides
   onClose: () => void
   onSave: (config: ProjectConfig) => void
 }
 
-export function ConfigEditorModal({ isOpen, config, onClose, onSave }: ConfigEditorModalProps) {
+function lineCount(value: unknown): number {
+  return JSON.stringify(value, null, 2).split('\n').length
+}
+
+/** Marks the lines of the entries of `value`, which starts at `firstLine`, that are in `paths` */
+function collectLines(value: object, firstLine: number, prefix: string, paths: string[], lines: number[]): void {
+  let line = firstLine + 1
+  for (const [key, child] of Object.entries(value)) {
+    if (child === undefined) continue
+    const childPath = `${prefix}${key}`
+    const size = lineCount(child)
+
+    if (paths.includes(childPath)) {
+      for (let i = 0; i < size; i++) lines.push(line + i)
+    } else if (typeof child === 'object' && child !== null && paths.some((p) => p.startsWith(`${childPath}.`))) {
+      collectLines(child, line, `${childPath}.`, paths, lines)
+    }
+    line += size
+  }
+}
+
+/**
+ * Line numbers (1-based) of the values from config.local.json in the config
+ * as shown in the editor, i.e. formatted with JSON.stringify(config, null, 2).
+ */
+export function findLocalOverrideLines(config: ProjectConfig, overrides: LocalConfigOverrides): number[] {
+  const lines: number[] = []
+  let line = 2
+  for (const [key, value] of Object.entries(config)) {
+    if (value === undefined) continue
+    if (key === 'services') {
+      let serviceLine = line + 1
+      for (const service of config.services) {
+        collectLines(service, serviceLine, '', overrides[service.id] ?? [], lines)
+        serviceLine += lineCount(service)
+      }
+    }
+    line += lineCount(value)
+  }
+  return lines
+}
+
+export function ConfigEditorModal({ isOpen, config, localOverrides = {}, onClose, onSave }: ConfigEditorModalProps) {
   const [jsonString, setJsonString] = useState('')
   const [error, setError] = useState<string | null>(null)
   const [isDirty, setIsDirty] = useState(false)
+  const [editor, setEditor] = useState<CodeEditor | null>(null)
+  const localValueCount = Object.values(localOverrides).reduce((count, paths) => count + paths.length, 0)
 
   useEffect(() => {
     if (isOpen) {
@@ -21,9 +69,29 @@ export function ConfigEditorModal({ isOpen, config, onClose, onSave }: ConfigEdi
       setJsonString(formatted)
       setError(null)
       setIsDirty(false)
+    } else {
+      // The editor is disposed when the modal closes
+      setEditor(null)
     }
   }, [isOpen, config])
 
+  // Decorations follow their lines as the text is edited, so they are only set for the loaded config
+  useEffect(() => {
+    if (!isOpen || !editor) return
+
+    const decorations = editor.createDecorationsCollection(
+      findLocalOverrideLines(config, localOverrides).map((line) => ({
+        range: { startLineNumber: line, startColumn: 1, endLineNumber: line, endColumn: 1 },
+        options: {
+          isWholeLine: true,
+          linesDecorationsClassName: 'config-local-line',
+          hoverMessage: { value: 'From `config.local.json` (this machine only)' },
+        },
+      }))
+    )
+    return () => decorations.clear()
+  }, [isOpen, editor, config, localOverrides])
+
   const handleChange = (value: string | undefined) => {
     if (value !== undefined) {
       setJsonString(value)
@@ -170,8 +238,9 @@ export function ConfigEditorModal({ isOpen, config, onClose, onSave }: ConfigEdi
                   },
                 })
               }}
-              onMount={(_editor, monaco) => {
+              onMount={(mountedEditor, monaco) => {
                 monaco.editor.setTheme('simple-local-dark')
+                setEditor(mountedEditor)
               }}
             />
           </div>
@@ -182,9 +251,15 @@ export function ConfigEditorModal({ isOpen, config, onClose, onSave }: ConfigEdi
           className="flex items-center justify-between px-5 py-4"
           style={{ borderTop: '1px solid var(--border-subtle)' }}
         >
-          <span className="text-xs" style={{ color: 'var(--text-muted)' }}>
-            .simple-local/config.json
-          </span>
+          <div className="flex flex-col gap-1 text-xs" style={{ color: 'var(--text-muted)' }}>
+            <span>.simple-local/config.json</span>
+            {localValueCount > 0 && (
+              <span className="flex items-center gap-2">
+                <span className="inline-block h-3 w-[3px]" style={{ background: 'var(--status-starting)' }} />
+                {localValueCount} {localValueCount === 1 ? 'value' : 'values'} from config.local.json, saved to this machine only
+              </span>
+            )}
+          </div>
           <div className="flex gap-3">
             <button onClick={handleFormat} className="btn btn-ghost">
               <WandSparkles className="h-4 w-4" />
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react'
 import { X, Loader2, Check, AlertCircle } from 'lucide-react'
-import type { ProjectConfig, Service } from '../../../shared/types'
+import { DiscoveryMergeReview } from './discovery/DiscoveryMergeReview'
+import type { DiscoveryMerge, ProjectConfig, Service } from '../../../shared/types'
 
 interface DiscoveryModalProps {
   isOpen: boolean
@@ -9,11 +10,12 @@ interface DiscoveryModalProps {
   onConfirm: (config: ProjectConfig) => void
 }
 
-type DiscoveryState = 'analyzing' | 'preview' | 'error'
+type DiscoveryState = 'analyzing' | 'preview' | 'merge' | 'error'
 
 export function DiscoveryModal({ isOpen, projectPath, onClose, onConfirm }: DiscoveryModalProps) {
   const [state, setState] = useState<DiscoveryState>('analyzing')
   const [config, setConfig] = useState<ProjectConfig | null>(null)
+  const [merge, setMerge] = useState<DiscoveryMerge | null>(null)
   const [error, setError] = useState<string | null>(null)
 
   const startAnalysis = async () => {
@@ -22,8 +24,10 @@ export function DiscoveryModal({ isOpen, projectPath, onClose, onConfirm }: Disc
 
     try {
       const result = await window.api.analyzeProject(projectPath)
+      const existingMerge = await window.api.mergeDiscovery(projectPath, result)
       setConfig(result)
-      setState('preview')
+      setMerge(existingMerge)
+      setState(existingMerge ? 'merge' : 'preview')
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Analysis failed')
       setState('error')
@@ -47,6 +51,7 @@ export function DiscoveryModal({ isOpen, projectPath, onClose, onConfirm }: Disc
           <h3 className="text-lg font-medium">
             {state === 'analyzing' && 'Analyzing Project...'}
             {state === 'preview' && 'Project Configuration'}
+            {state === 'merge' && 'Review Changes'}
             {state === 'error' && 'Analysis Failed'}
           </h3>
           <button onClick={onClose} className="text-gray-400 hover:text-white">
@@ -100,12 +105,20 @@ export function DiscoveryModal({ isOpen, projectPath, onClose, onConfirm }: Disc
                 <ul className="mt-1 list-inside list-disc text-sm text-gray-300">
                   <li>.simple-local/config.json</li>
                   {config.services.map((s) => (
-                    <li key={s.id}>.simple-local/devcontainers/{s.id}.json</li>
+                    <li key={s.id}>.simple-local/devcontainers/{s.id}/devcontainer.json</li>
                   ))}
                 </ul>
               </div>
             </div>
           )}
+
+          {state === 'merge' && merge && (
+            <DiscoveryMergeReview
+              merge={merge}
+              onConfirm={(services) => onConfirm({ name: merge.name, services, profiles: merge.profiles })}
+              onCancel={onClose}
+            />
+          )}
         </div>
 
         {/* Footer */}
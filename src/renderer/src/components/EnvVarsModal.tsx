@@ -1,15 +1,17 @@
 import { useState } from 'react'
-import { X, Copy, Check, Variable } from 'lucide-react'
+import { X, Copy, Check, Variable, Lock } from 'lucide-react'
 import type { ServiceRuntimeEnv } from '../../../shared/types'
 
 interface EnvVarsModalProps {
   isOpen: boolean
   serviceName: string
   env: ServiceRuntimeEnv | null
+  localKeys?: string[]              // Config vars whose value is in config.local.json
+  onToggleLocal?: (key: string, local: boolean) => void
   onClose: () => void
 }
 
-export function EnvVarsModal({ isOpen, serviceName, env, onClose }: EnvVarsModalProps) {
+export function EnvVarsModal({ isOpen, serviceName, env, localKeys = [], onToggleLocal, onClose }: EnvVarsModalProps) {
   const [copiedKey, setCopiedKey] = useState<string | null>(null)
   const [copiedAll, setCopiedAll] = useState(false)
 
@@ -17,10 +19,24 @@ export function EnvVarsModal({ isOpen, serviceName, env, onClose }: EnvVarsModal
 
   const entries = Object.entries(env.final).sort(([a], [b]) => a.localeCompare(b))
 
+  const isSecret = (key: string): boolean => env.secrets?.includes(key) ?? false
+
+  // Secret values are masked; copies use the secret:// reference instead
+  const getCopyValue = (key: string, value: string): string => (isSecret(key) ? env.raw[key] ?? value : value)
+
   const isAutoInjected = (key: string): boolean => {
-    return key === 'PORT' || key === 'DEBUG_PORT'
+    return key === 'PORT' || key === 'DEBUG_PORT' || env.sources?.[key]?.type === 'injected'
+  }
+
+  // Env file the value came from; values from the config are not labeled
+  const getSourceFile = (key: string): string | null => {
+    const source = env.sources?.[key]
+    return source?.type === 'file' ? source.file : null
   }
 
+  // Only values from the config can be kept in config.local.json
+  const isFromConfig = (key: string): boolean => env.sources?.[key]?.type === 'config'
+
   const wasInterpolated = (key: string): boolean => {
     const rawValue = env.raw[key]
     const finalValue = env.final[key]
@@ -35,7 +51,7 @@ export function EnvVarsModal({ isOpen, serviceName, env, onClose }: EnvVarsModal
   }
 
   const handleCopyAll = async () => {
-    const envContent = entries.map(([key, value]) => `${key}=${value}`).join('\n')
+    const envContent = entries.map(([key, value]) => `${key}=${getCopyValue(key, value)}`).join('\n')
     await navigator.clipboard.writeText(envContent)
     setCopiedAll(true)
     setTimeout(() => setCopiedAll(false), 2000)
@@ -111,7 +127,7 @@ export function EnvVarsModal({ isOpen, serviceName, env, onClose }: EnvVarsModal
               className="mb-1 text-xs font-medium"
               style={{ color: 'var(--status-warning)' }}
             >
-              Interpolation warnings:
+              Environment warnings:
             </p>
             <ul className="list-inside list-disc text-xs" style={{ color: 'var(--text-secondary)' }}>
               {env.warnings.map((warning, i) => (
@@ -149,7 +165,11 @@ export function EnvVarsModal({ isOpen, serviceName, env, onClose }: EnvVarsModal
               <tbody>
                 {entries.map(([key, value]) => {
                   const auto = isAutoInjected(key)
+                  const secret = isSecret(key)
                   const interpolated = wasInterpolated(key)
+                  const sourceFile = auto ? null : getSourceFile(key)
+                  const local = localKeys.includes(key)
+                  const canToggleLocal = !auto && onToggleLocal !== undefined && isFromConfig(key)
                   const isCopied = copiedKey === key
 
                   return (
@@ -180,6 +200,32 @@ export function EnvVarsModal({ isOpen, serviceName, env, onClose }: EnvVarsModal
                               auto
                             </span>
                           )}
+                          {sourceFile && (
+                            <span
+                              className="rounded px-1.5 py-0.5 text-[9px] font-medium"
+                              style={{
+                                fontFamily: 'var(--font-mono)',
+                                background: 'var(--bg-hover)',
+                                color: 'var(--text-secondary)',
+                              }}
+                              title={`Loaded from ${sourceFile}`}
+                            >
+                              {sourceFile}
+                            </span>
+                          )}
+                          {secret && (
+                            <span
+                              className="flex items-center gap-1 rounded px-1.5 py-0.5 text-[9px] font-medium uppercase"
+                              style={{
+                                background: 'var(--bg-hover)',
+                                color: 'var(--text-secondary)',
+                              }}
+                              title={`Resolved from ${env.raw[key]}`}
+                            >
+                              <Lock className="h-2.5 w-2.5" />
+                              secret
+                            </span>
+                          )}
                           {interpolated && (
                             <span
                               className="rounded px-1.5 py-0.5 text-[9px] font-medium uppercase"
@@ -191,6 +237,26 @@ export function EnvVarsModal({ isOpen, serviceName, env, onClose }: EnvVarsModal
                               interpolated
                             </span>
                           )}
+                          {canToggleLocal && (
+                            <button
+                              onClick={() => onToggleLocal(key, !local)}
+                              className={`rounded px-1.5 py-0.5 text-[9px] font-medium uppercase transition-opacity ${
+                                local ? '' : 'opacity-0 group-hover:opacity-100'
+                              }`}
+                              style={{
+                                background: local ? 'var(--warning-muted)' : 'var(--bg-hover)',
+                                color: local ? 'var(--warning)' : 'var(--text-secondary)',
+                              }}
+                              aria-pressed={local}
+                              title={
+                                local
+                                  ? 'Value kept in config.local.json on this machine. Click to save it to config.json'
+                                  : 'Keep the value in config.local.json on this machine only'
+                              }
+                            >
+                              local
+                            </button>
+                          )}
                         </div>
                         {interpolated && (
                           <div
@@ -217,9 +283,9 @@ export function EnvVarsModal({ isOpen, serviceName, env, onClose }: EnvVarsModal
                       </td>
                       <td className="py-2">
                         <button
-                          onClick={() => handleCopyValue(key, value)}
+                          onClick={() => handleCopyValue(key, getCopyValue(key, value))}
                           className="btn-icon opacity-0 transition-opacity group-hover:opacity-100"
-                          title="Copy value"
+                          title={secret ? 'Copy secret reference' : 'Copy value'}
                         >
                           {isCopied ? (
                             <Check className="h-3.5 w-3.5" style={{ color: 'var(--status-running)' }} />
@@ -1,12 +1,10 @@
-import { Play, Square, Activity } from 'lucide-react'
+import { Activity } from 'lucide-react'
 
 interface HeaderProps {
   projectName?: string
-  onStartAll?: () => void
-  onStopAll?: () => void
 }
 
-export function Header({ projectName, onStartAll, onStopAll }: HeaderProps) {
+export function Header({ projectName }: HeaderProps) {
   return (
     <header
       className="flex h-14 items-center justify-between px-6"
@@ -38,25 +36,6 @@ export function Header({ projectName, onStartAll, onStopAll }: HeaderProps) {
           </h2>
         )}
       </div>
-
-      {projectName && (
-        <div className="flex gap-3">
-          <button
-            onClick={onStartAll}
-            className="btn btn-primary"
-          >
-            <Play className="h-4 w-4" />
-            Launch All
-          </button>
-          <button
-            onClick={onStopAll}
-            className="btn btn-ghost"
-          >
-            <Square className="h-4 w-4" />
-            Stop All
-          </button>
-        </div>
-      )}
     </header>
   )
 }
@@ -2,6 +2,7 @@ import { useEffect, useRef } from 'react'
 import { Terminal as XTerm } from '@xterm/xterm'
 import { FitAddon } from '@xterm/addon-fit'
 import { Terminal, Download, Trash2 } from 'lucide-react'
+import type { LogEntry } from '../../../shared/types'
 
 interface LogViewerProps {
   projectId: string
@@ -34,6 +35,17 @@ const XTERM_THEME = {
   brightWhite: '#E6EDF3',
 }
 
+/** ANSI red, mapped to the theme's red above */
+const STDERR_COLOR = '\x1b[31m'
+const RESET_COLOR = '\x1b[0m'
+
+/**
+ * Render a log entry for the terminal, with stderr output in red.
+ */
+export function formatLogEntry(entry: LogEntry): string {
+  return entry.stream === 'stderr' ? `${STDERR_COLOR}${entry.data}${RESET_COLOR}` : entry.data
+}
+
 export function LogViewer({ projectId, serviceId, serviceName }: LogViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null)
   const xtermRef = useRef<XTerm | null>(null)
@@ -74,7 +86,7 @@ export function LogViewer({ projectId, serviceId, serviceName }: LogViewerProps)
       if (!mounted) return
 
       if (storedLogs.length > 0) {
-        terminal.write(storedLogs.join('\r\n') + '\r\n')
+        terminal.write(storedLogs.map(formatLogEntry).join('\r\n') + '\r\n')
       }
 
       await window.api.startLogStream(projectId, serviceId)
@@ -89,7 +101,7 @@ export function LogViewer({ projectId, serviceId, serviceName }: LogViewerProps)
 
     const unsubscribe = window.api.onLogData((data) => {
       if (data.projectId === projectId && data.serviceId === serviceId) {
-        terminal.write(data.data + '\r\n')
+        terminal.write(formatLogEntry(data) + '\r\n')
       }
     })
 
@@ -114,7 +126,7 @@ export function LogViewer({ projectId, serviceId, serviceName }: LogViewerProps)
 
   const downloadLogs = async () => {
     const logs = await window.api.getLogs(projectId, serviceId)
-    const blob = new Blob([logs.join('\n')], { type: 'text/plain' })
+    const blob = new Blob([logs.map((entry) => entry.data).join('\n')], { type: 'text/plain' })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
@@ -0,0 +1,108 @@
+import { X, AlertTriangle, AlertCircle } from 'lucide-react'
+import type { MissingEnv } from '../../../shared/types'
+
+interface MissingEnvModalProps {
+  missingEnv: MissingEnv | null
+  onStartAnyway: () => void
+  onCancel: () => void
+}
+
+/**
+ * Pre-flight panel for env vars a service would start without. Vars from its
+ * requiredEnv block the start; vars only listed in example env files can be
+ * ignored.
+ */
+export function MissingEnvModal({ missingEnv, onStartAnyway, onCancel }: MissingEnvModalProps) {
+  if (!missingEnv) return null
+
+  const { blocking } = missingEnv
+  const color = blocking ? 'var(--danger)' : 'var(--warning)'
+  const Icon = blocking ? AlertCircle : AlertTriangle
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center"
+      style={{ background: 'rgba(0, 0, 0, 0.7)', backdropFilter: 'blur(4px)' }}
+    >
+      <div
+        className="w-full max-w-lg animate-fade-up rounded-xl overflow-hidden"
+        style={{
+          background: 'var(--bg-surface)',
+          border: '1px solid var(--border-subtle)',
+          boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.5)',
+        }}
+      >
+        {/* Header */}
+        <div
+          className="flex items-center justify-between px-5 py-4"
+          style={{ borderBottom: '1px solid var(--border-subtle)' }}
+        >
+          <div className="flex items-center gap-3">
+            <div
+              className="flex h-9 w-9 items-center justify-center rounded-lg"
+              style={{
+                background: blocking ? 'var(--danger-muted)' : 'var(--warning-muted)',
+                border: `1px solid ${color}`,
+              }}
+            >
+              <Icon className="h-5 w-5" style={{ color }} />
+            </div>
+            <h3
+              className="text-lg font-semibold"
+              style={{
+                fontFamily: 'var(--font-display)',
+                color: 'var(--text-primary)',
+              }}
+            >
+              Missing environment variables
+            </h3>
+          </div>
+          <button onClick={onCancel} className="btn-icon">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-5 py-4" style={{ color: 'var(--text-secondary)', lineHeight: 1.6 }}>
+          <p>
+            {blocking
+              ? `${missingEnv.serviceName} cannot start until these variables are set:`
+              : `${missingEnv.serviceName} is about to start without these variables:`}
+          </p>
+          <ul className="my-3 space-y-2">
+            {missingEnv.missing.map(({ key, source }) => (
+              <li
+                key={key}
+                className="flex items-center justify-between rounded-lg px-3 py-2"
+                style={{ background: 'var(--bg-elevated)', border: '1px solid var(--border-subtle)' }}
+              >
+                <span style={{ fontFamily: 'var(--font-mono)', color: 'var(--text-primary)' }}>{key}</span>
+                <span className="text-xs" style={{ color: source === 'requiredEnv' ? 'var(--danger)' : 'var(--text-muted)' }}>
+                  {source === 'requiredEnv' ? 'required' : `listed in ${source}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+            Set them in the service&apos;s env, one of its env files or config.local.json.
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div
+          className="flex justify-end gap-3 px-5 py-4"
+          style={{ borderTop: '1px solid var(--border-subtle)' }}
+        >
+          <button onClick={onCancel} className="btn btn-ghost">
+            {blocking ? 'Close' : 'Cancel'}
+          </button>
+          {!blocking && (
+            <button onClick={onStartAnyway} className="btn btn-primary">
+              Start anyway
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
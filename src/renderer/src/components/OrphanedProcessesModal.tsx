@@ -0,0 +1,110 @@
+import { X, AlertTriangle } from 'lucide-react'
+import type { OrphanedProcessGroup } from '../../../shared/types'
+
+interface OrphanedProcessesModalProps {
+  orphans: OrphanedProcessGroup[]
+  onStop: (orphan: OrphanedProcessGroup) => void
+  onKeep: (orphan: OrphanedProcessGroup) => void
+  onClose: () => void
+}
+
+/**
+ * Offers to clean up processes left running by a previous session that no service claimed.
+ * Groups the user does not decide on are stopped on quit.
+ */
+export function OrphanedProcessesModal({ orphans, onStop, onKeep, onClose }: OrphanedProcessesModalProps) {
+  if (orphans.length === 0) return null
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center"
+      style={{ background: 'rgba(0, 0, 0, 0.7)', backdropFilter: 'blur(4px)' }}
+    >
+      <div
+        className="w-full max-w-lg animate-fade-up rounded-xl overflow-hidden"
+        style={{
+          background: 'var(--bg-surface)',
+          border: '1px solid var(--border-subtle)',
+          boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.5)',
+        }}
+      >
+        {/* Header */}
+        <div
+          className="flex items-center justify-between px-5 py-4"
+          style={{ borderBottom: '1px solid var(--border-subtle)' }}
+        >
+          <div className="flex items-center gap-3">
+            <div
+              className="flex h-9 w-9 items-center justify-center rounded-lg"
+              style={{
+                background: 'var(--warning-muted)',
+                border: '1px solid var(--warning)',
+              }}
+            >
+              <AlertTriangle className="h-5 w-5" style={{ color: 'var(--warning)' }} />
+            </div>
+            <h3
+              className="text-lg font-semibold"
+              style={{
+                fontFamily: 'var(--font-display)',
+                color: 'var(--text-primary)',
+              }}
+            >
+              Processes from a previous session
+            </h3>
+          </div>
+          <button onClick={onClose} className="btn-icon">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-5 py-4" style={{ color: 'var(--text-secondary)', lineHeight: 1.6 }}>
+          <p>
+            These processes kept running after Simple Local last quit, but no service claims them anymore.
+            Processes you leave undecided are stopped when Simple Local quits.
+          </p>
+          <ul className="my-3 space-y-2">
+            {orphans.map((orphan) => (
+              <li
+                key={orphan.pgid}
+                className="flex items-center gap-3 rounded-lg px-3 py-2"
+                style={{ background: 'var(--bg-elevated)', border: '1px solid var(--border-subtle)' }}
+              >
+                <div className="min-w-0 flex-1">
+                  <div style={{ color: 'var(--text-primary)' }}>
+                    {orphan.projectName ?? orphan.projectId} / {orphan.serviceId}{' '}
+                    <span style={{ color: 'var(--text-muted)' }}>(PGID {orphan.pgid})</span>
+                  </div>
+                  <div
+                    className="truncate text-xs"
+                    style={{ fontFamily: 'var(--font-mono)', color: 'var(--text-muted)' }}
+                    title={`${orphan.command} in ${orphan.cwd}`}
+                  >
+                    {orphan.command}
+                  </div>
+                </div>
+                <button onClick={() => onKeep(orphan)} className="btn btn-ghost">
+                  Leave running
+                </button>
+                <button onClick={() => onStop(orphan)} className="btn btn-danger">
+                  Stop
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Footer */}
+        <div
+          className="flex justify-end gap-3 px-5 py-4"
+          style={{ borderTop: '1px solid var(--border-subtle)' }}
+        >
+          <button onClick={onClose} className="btn btn-ghost">
+            Decide later
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
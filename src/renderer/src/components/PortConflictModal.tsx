@@ -0,0 +1,115 @@
+import { X, AlertTriangle } from 'lucide-react'
+import type { PortConflict, PortConflictResolution } from '../../../shared/types'
+
+interface PortConflictModalProps {
+  conflict: PortConflict | null
+  onResolve: (resolution: PortConflictResolution) => void
+  onCancel: () => void
+}
+
+/**
+ * Asks how to proceed when a process we did not start holds a service's port.
+ */
+export function PortConflictModal({ conflict, onResolve, onCancel }: PortConflictModalProps) {
+  if (!conflict) return null
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center"
+      style={{ background: 'rgba(0, 0, 0, 0.7)', backdropFilter: 'blur(4px)' }}
+    >
+      <div
+        className="w-full max-w-lg animate-fade-up rounded-xl overflow-hidden"
+        style={{
+          background: 'var(--bg-surface)',
+          border: '1px solid var(--border-subtle)',
+          boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.5)',
+        }}
+      >
+        {/* Header */}
+        <div
+          className="flex items-center justify-between px-5 py-4"
+          style={{ borderBottom: '1px solid var(--border-subtle)' }}
+        >
+          <div className="flex items-center gap-3">
+            <div
+              className="flex h-9 w-9 items-center justify-center rounded-lg"
+              style={{
+                background: 'var(--warning-muted)',
+                border: '1px solid var(--warning)',
+              }}
+            >
+              <AlertTriangle className="h-5 w-5" style={{ color: 'var(--warning)' }} />
+            </div>
+            <h3
+              className="text-lg font-semibold"
+              style={{
+                fontFamily: 'var(--font-display)',
+                color: 'var(--text-primary)',
+              }}
+            >
+              Port {conflict.port} is in use
+            </h3>
+          </div>
+          <button onClick={onCancel} className="btn-icon">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-5 py-4" style={{ color: 'var(--text-secondary)', lineHeight: 1.6 }}>
+          <p>
+            {conflict.serviceName} needs port {conflict.port}, but it is held by a process
+            Simple Local did not start:
+          </p>
+          {conflict.holders.length > 0 ? (
+            <ul className="my-3 space-y-2">
+              {conflict.holders.map((holder) => (
+                <li
+                  key={holder.pid}
+                  className="rounded-lg px-3 py-2"
+                  style={{ background: 'var(--bg-elevated)', border: '1px solid var(--border-subtle)' }}
+                >
+                  <div style={{ color: 'var(--text-primary)' }}>
+                    {holder.name} <span style={{ color: 'var(--text-muted)' }}>(PID {holder.pid})</span>
+                  </div>
+                  <div
+                    className="truncate text-xs"
+                    style={{ fontFamily: 'var(--font-mono)', color: 'var(--text-muted)' }}
+                    title={holder.commandLine}
+                  >
+                    {holder.commandLine}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="my-3" style={{ color: 'var(--text-muted)' }}>
+              The process could not be identified (it may belong to another user).
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div
+          className="flex justify-end gap-3 px-5 py-4"
+          style={{ borderTop: '1px solid var(--border-subtle)' }}
+        >
+          <button onClick={onCancel} className="btn btn-ghost">
+            Cancel
+          </button>
+          {conflict.canUseNextPort && (
+            <button onClick={() => onResolve('next-port')} className="btn btn-ghost">
+              Use next free port
+            </button>
+          )}
+          {conflict.holders.length > 0 && (
+            <button onClick={() => onResolve('kill')} className="btn btn-danger">
+              Kill process
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,15 +2,20 @@ import { useEffect, useState, useCallback, useRef, useMemo, type MouseEvent as R
 import { ServiceCard } from './ServiceCard'
 import { LogViewer } from './LogViewer'
 import { HiddenServices } from './project/HiddenServices'
+import { InfrastructureMenu } from './project/InfrastructureMenu'
 import { ConfigEditorModal } from './ConfigEditorModal'
 import { EnvOverridesPanel } from './EnvOverridesPanel'
 import { PortExtractionModal } from './PortExtractionModal'
 import { ConfirmModal } from './ConfirmModal'
 import { EnvVarsModal } from './EnvVarsModal'
 import { RelocatePortModal } from './RelocatePortModal'
-import { Server, Code2, RefreshCw } from 'lucide-react'
-import type { Project, Registry, ProjectConfig, ServiceStatus, ServiceResourceStats, ServiceRuntimeEnv, ContainerEnvOverride, Service } from '../../../shared/types'
+import { PortConflictModal } from './PortConflictModal'
+import { MissingEnvModal } from './MissingEnvModal'
+import { SecretsModal } from './SecretsModal'
+import { Server, Code2, RefreshCw, Play, Square, Loader2, KeyRound } from 'lucide-react'
+import type { Project, Registry, ProjectConfig, ServiceStatus, ServiceRestartInfo, ServiceResourceStats, ServiceRuntimeEnv, ContainerEnvOverride, Service, PortConflict, PortConflictResolution, InfrastructureTemplateId, InvalidProjectConfig, LocalConfigOverrides, MissingEnv } from '../../../shared/types'
 import { createLogger } from '../../../shared/logger'
+import { applyProfile } from '../../../shared/profiles'
 
 const log = createLogger('ProjectView')
 
@@ -29,6 +34,11 @@ function findDependentServices(
   )
 }
 
+/** Env vars of a service whose value comes from config.local.json */
+function getLocalEnvKeys(overrides: LocalConfigOverrides, serviceId: string): string[] {
+  return (overrides[serviceId] ?? []).filter((p) => p.startsWith('env.')).map((p) => p.slice('env.'.length))
+}
+
 interface ProjectViewProps {
   project: Project
   registry: Registry
@@ -81,10 +91,16 @@ function useServiceActionFactory(
 export function ProjectView({ project, registry, onRerunDiscovery, onRegistryChanged }: ProjectViewProps) {
   const [config, setConfig] = useState<ProjectConfig | null>(null)
   const [configError, setConfigError] = useState<string | null>(null)
+  const [invalidConfig, setInvalidConfig] = useState<InvalidProjectConfig | null>(null)
   const [statuses, setStatuses] = useState<Map<string, ServiceStatus['status']>>(new Map())
+  const [restartInfo, setRestartInfo] = useState<Map<string, ServiceRestartInfo>>(new Map())
+  // Running services started with a command, env, port or devcontainer that has changed since
+  const [restartNeeded, setRestartNeeded] = useState<Set<string>>(new Set())
   const [selectedServiceId, setSelectedServiceId] = useState<string | null>(null)
   const [actionError, setActionError] = useState<string | null>(null)
   const [isConfigEditorOpen, setIsConfigEditorOpen] = useState(false)
+  const [isSecretsOpen, setIsSecretsOpen] = useState(false)
+  const [localOverrides, setLocalOverrides] = useState<LocalConfigOverrides>({})
   const [reanalyzingService, setReanalyzingService] = useState<string | null>(null)
   const [extractingService, setExtractingService] = useState<Service | null>(null)
   const [stoppingServices, setStoppingServices] = useState<Set<string>>(new Set())
@@ -100,12 +116,22 @@ export function ProjectView({ project, registry, onRerunDiscovery, onRegistryCha
   const [envModalService, setEnvModalService] = useState<{ serviceId: string; serviceName: string } | null>(null)
   const [envModalData, setEnvModalData] = useState<ServiceRuntimeEnv | null>(null)
   const [isRelocatePortOpen, setIsRelocatePortOpen] = useState(false)
+  const [projectAction, setProjectAction] = useState<'starting' | 'stopping' | 'switching' | null>(null)
+  // A start that was held back because a foreign process owns the port; startAll resumes Start All once resolved
+  const [portConflict, setPortConflict] = useState<{ conflict: PortConflict; startAll: boolean } | null>(null)
+  // A start or restart held back by the env pre-flight until the user confirms or sets the missing vars
+  const [missingEnvPrompt, setMissingEnvPrompt] = useState<{ missingEnv: MissingEnv; restart: boolean } | null>(null)
   const resizeRef = useRef({ active: false, startY: 0, startHeight: 0 })
 
   const loadConfig = useCallback(async () => {
     try {
       setConfigError(null)
+      setInvalidConfig(null)
       const result = await window.api.loadProjectConfig(project.path)
+      if ('error' in result) {
+        setInvalidConfig(result)
+        return
+      }
       setConfig(result)
       setSelectedServiceId((current) => {
         if (result.services.length > 0 && !current) {
@@ -126,10 +152,14 @@ export function ProjectView({ project, registry, onRerunDiscovery, onRegistryCha
   const refreshStatuses = useCallback(async () => {
     const statusList = await window.api.getServiceStatus(project.id)
     const statusMap = new Map<string, ServiceStatus['status']>()
+    const restartMap = new Map<string, ServiceRestartInfo>()
     for (const s of statusList) {
       statusMap.set(s.serviceId, s.status)
+      if (s.restart) restartMap.set(s.serviceId, s.restart)
     }
     setStatuses(statusMap)
+    setRestartInfo(restartMap)
+    setRestartNeeded(new Set(statusList.filter((s) => s.restartNeeded).map((s) => s.serviceId)))
   }, [project.id])
 
   useEffect(() => {
@@ -143,9 +173,39 @@ export function ProjectView({ project, registry, onRerunDiscovery, onRegistryCha
           next.set(data.serviceId, data.status as ServiceStatus['status'])
           return next
         })
+        const { restart } = data
+        if (restart) {
+          setRestartInfo((prev) => new Map(prev).set(data.serviceId, restart))
+        }
+        // A stopped service picks up the current config on its next start
+        if (data.status === 'stopped') {
+          setRestartNeeded((prev) => {
+            const next = new Set(prev)
+            next.delete(data.serviceId)
+            return next
+          })
+        }
       }
     })
 
+    // Hot-reload when config.json or a devcontainer changes on disk
+    window.api.watchProjectConfig?.(project.id).catch((err) => {
+      log.error('Failed to watch project config:', err)
+    })
+    const unsubscribeConfig = window.api.onConfigChanged?.((change) => {
+      if (change.projectId !== project.id) return
+      if (change.config) {
+        setConfig(change.config)
+        setConfigError(null)
+        setInvalidConfig(null)
+      } else if (change.invalid) {
+        setInvalidConfig(change.invalid)
+      } else {
+        setConfigError(change.error ?? 'Failed to load project configuration')
+      }
+      setRestartNeeded(new Set(change.restartNeeded))
+    })
+
     const unsubscribeStats = window.api.onStatsUpdate?.((data) => {
       if (data.projectId === project.id) {
         setServiceStats((prev) => {
@@ -159,6 +219,8 @@ export function ProjectView({ project, registry, onRerunDiscovery, onRegistryCha
     return () => {
       unsubscribeStatus?.()
       unsubscribeStats?.()
+      unsubscribeConfig?.()
+      window.api.unwatchProjectConfig?.(project.id).catch(() => {})
     }
   }, [loadConfig, refreshStatuses, project.id])
 
@@ -173,7 +235,15 @@ export function ProjectView({ project, registry, onRerunDiscovery, onRegistryCha
   configRef.current = config
 
   const handleStart = useMemo(
-    () => createServiceAction('start', (serviceId) => window.api.startService(project.id, serviceId)),
+    () => createServiceAction('start', async (serviceId) => {
+      const missingEnv = await window.api.checkServiceEnv(project.id, serviceId)
+      if (missingEnv) {
+        setMissingEnvPrompt({ missingEnv, restart: false })
+        return
+      }
+      const conflict = await window.api.startService(project.id, serviceId)
+      if (conflict) setPortConflict({ conflict, startAll: false })
+    }),
     [createServiceAction, project.id]
   )
 
@@ -195,10 +265,15 @@ export function ProjectView({ project, registry, onRerunDiscovery, onRegistryCha
 
   const handleRestart = useMemo(
     () => createServiceAction('restart', async (serviceId) => {
+      const missingEnv = await window.api.checkServiceEnv(project.id, serviceId)
+      if (missingEnv) {
+        setMissingEnvPrompt({ missingEnv, restart: true })
+        return
+      }
       setRestartingServices(prev => new Set(prev).add(serviceId))
       try {
-        await window.api.stopService(project.id, serviceId)
-        await window.api.startService(project.id, serviceId)
+        const conflict = await window.api.restartService(project.id, serviceId)
+        if (conflict) setPortConflict({ conflict, startAll: false })
       } finally {
         setRestartingServices(prev => {
           const next = new Set(prev)
@@ -210,6 +285,106 @@ export function ProjectView({ project, registry, onRerunDiscovery, onRegistryCha
     [createServiceAction, project.id]
   )
 
+  // Start All stops at the first service that needs the user: a port conflict or missing env
+  const showStartAllBlocker = useCallback((blocker: PortConflict | MissingEnv | null) => {
+    if (!blocker) return
+    if ('missing' in blocker) {
+      setMissingEnvPrompt({ missingEnv: blocker, restart: false })
+    } else {
+      setPortConflict({ conflict: blocker, startAll: true })
+    }
+  }, [])
+
+  const handleStartAll = useCallback(async () => {
+    setProjectAction('starting')
+    try {
+      setActionError(null)
+      showStartAllBlocker(await window.api.startProject(project.id))
+    } catch (err) {
+      log.error('Failed to start all services:', err)
+      setActionError(`Failed to start all services: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setProjectAction(null)
+      await refreshStatuses()
+    }
+  }, [project.id, refreshStatuses, showStartAllBlocker])
+
+  const handleResolvePortConflict = useCallback(async (resolution: PortConflictResolution) => {
+    if (!portConflict) return
+    const { conflict, startAll } = portConflict
+    setPortConflict(null)
+
+    try {
+      setActionError(null)
+      const next = await window.api.startService(project.id, conflict.serviceId, resolution)
+      if (next) {
+        setPortConflict({ conflict: next, startAll })
+      } else if (startAll) {
+        setProjectAction('starting')
+        showStartAllBlocker(await window.api.startProject(project.id))
+      }
+    } catch (err) {
+      log.error('Failed to resolve port conflict:', err)
+      setActionError(`Failed to start ${conflict.serviceName}: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setProjectAction(null)
+      if (resolution === 'next-port') await loadConfig()
+      await refreshStatuses()
+    }
+  }, [portConflict, project.id, loadConfig, refreshStatuses, showStartAllBlocker])
+
+  const handleStartWithMissingEnv = useCallback(async () => {
+    if (!missingEnvPrompt) return
+    const { missingEnv, restart } = missingEnvPrompt
+    setMissingEnvPrompt(null)
+
+    try {
+      setActionError(null)
+      const conflict = restart
+        ? await window.api.restartService(project.id, missingEnv.serviceId)
+        : await window.api.startService(project.id, missingEnv.serviceId)
+      if (conflict) setPortConflict({ conflict, startAll: false })
+    } catch (err) {
+      log.error('Failed to start service with missing env:', err)
+      setActionError(`Failed to ${restart ? 'restart' : 'start'} ${missingEnv.serviceName}: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      await refreshStatuses()
+    }
+  }, [missingEnvPrompt, project.id, refreshStatuses])
+
+  const handleStopAll = useCallback(async () => {
+    setProjectAction('stopping')
+    try {
+      setActionError(null)
+      await window.api.stopProject(project.id)
+    } catch (err) {
+      log.error('Failed to stop all services:', err)
+      setActionError(`Failed to stop all services: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setProjectAction(null)
+      await refreshStatuses()
+    }
+  }, [project.id, refreshStatuses])
+
+  // Switching restarts the running services the profile changes, in the main process
+  const handleProfileChange = useCallback(async (profile: string | null) => {
+    setProjectAction('switching')
+    try {
+      setActionError(null)
+      const { failures } = await window.api.setProjectProfile(project.id, profile)
+      onRegistryChanged?.()
+      if (failures.length > 0) {
+        setActionError(`Switched profile, but some services failed to restart:\n${failures.join('\n')}`)
+      }
+    } catch (err) {
+      log.error('Failed to switch profile:', err)
+      setActionError(`Failed to switch profile: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    } finally {
+      setProjectAction(null)
+      await refreshStatuses()
+    }
+  }, [project.id, onRegistryChanged, refreshStatuses])
+
   const handleActivateService = useMemo(
     () => createConfigAction('activate', async (serviceId) => {
       const currentConfig = configRef.current
@@ -321,7 +496,11 @@ export function ProjectView({ project, registry, onRerunDiscovery, onRegistryCha
 
       for (const s of servicesToRestart) {
         await window.api.stopService(project.id, s.id)
-        await window.api.startService(project.id, s.id)
+        const conflict = await window.api.startService(project.id, s.id)
+        if (conflict) {
+          setPortConflict({ conflict, startAll: false })
+          break
+        }
       }
 
       await refreshStatuses()
@@ -331,6 +510,28 @@ export function ProjectView({ project, registry, onRerunDiscovery, onRegistryCha
     }
   }, [restartConfirm, project.path, project.id, loadConfig, refreshStatuses])
 
+  const handleAddInfrastructure = useCallback(async (templateId: InfrastructureTemplateId) => {
+    try {
+      setActionError(null)
+      const updatedConfig = await window.api.addInfrastructureService(project.id, templateId)
+      setConfig(updatedConfig)
+    } catch (err) {
+      log.error('Failed to add infrastructure service:', err)
+      setActionError(`Failed to add infrastructure service: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }, [project.id])
+
+  const handleOpenConfigEditor = () => {
+    setIsConfigEditorOpen(true)
+    window.api
+      .getLocalConfigOverrides(project.path)
+      .then(setLocalOverrides)
+      .catch((err) => {
+        log.error('Failed to load local config overrides:', err)
+        setLocalOverrides({})
+      })
+  }
+
   const handleSaveConfig = async (updatedConfig: ProjectConfig) => {
     try {
       setActionError(null)
@@ -393,9 +594,28 @@ export function ProjectView({ project, registry, onRerunDiscovery, onRegistryCha
     if (!service) return
 
     setEnvModalService({ serviceId, serviceName: service.name })
+    window.api
+      .getLocalConfigOverrides(project.path)
+      .then(setLocalOverrides)
+      .catch((err) => {
+        log.error('Failed to load local config overrides:', err)
+        setLocalOverrides({})
+      })
     const env = await window.api.getServiceEnv(project.id, serviceId)
     setEnvModalData(env)
-  }, [config?.services, project.id])
+  }, [config?.services, project.id, project.path])
+
+  const handleToggleEnvLocal = useCallback(async (key: string, local: boolean) => {
+    if (!envModalService) return
+    try {
+      setActionError(null)
+      await window.api.setEnvVarLocal(project.path, envModalService.serviceId, key, local)
+      setLocalOverrides(await window.api.getLocalConfigOverrides(project.path))
+    } catch (err) {
+      log.error('Failed to move env var between config files:', err)
+      setActionError(`Failed to update ${key}: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }, [envModalService, project.path])
 
   const handleCloseEnvModal = useCallback(() => {
     setEnvModalService(null)
@@ -430,6 +650,39 @@ export function ProjectView({ project, registry, onRerunDiscovery, onRegistryCha
 
   const selectedService = config?.services.find((s) => s.id === selectedServiceId)
 
+  if (invalidConfig) {
+    return (
+      <div className="empty-state h-full">
+        <Server className="empty-state-icon" style={{ color: 'var(--danger)' }} strokeWidth={1} />
+        <h3 className="empty-state-title">Invalid configuration</h3>
+        <p className="empty-state-description">
+          Fix the following in <span style={{ fontFamily: 'var(--font-mono)' }}>{invalidConfig.configPath}</span> and retry:
+        </p>
+        <ul
+          className="mt-3 max-w-xl space-y-1 text-left text-xs"
+          style={{ fontFamily: 'var(--font-mono)', color: 'var(--text-secondary)' }}
+        >
+          {invalidConfig.issues.map((issue, index) => (
+            <li key={index} className="whitespace-pre-wrap">
+              {issue.path ? `${issue.path}: ${issue.message}` : issue.message}
+            </li>
+          ))}
+        </ul>
+        <div className="mt-4 flex gap-3">
+          <button onClick={loadConfig} className="btn btn-primary">
+            Retry
+          </button>
+          {onRerunDiscovery && (
+            <button onClick={onRerunDiscovery} className="btn btn-ghost">
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Re-run Discovery
+            </button>
+          )}
+        </div>
+      </div>
+    )
+  }
+
   if (configError) {
     const isConfigMissing = configError.toLowerCase().includes('no config found')
 
@@ -487,9 +740,12 @@ export function ProjectView({ project, registry, onRerunDiscovery, onRegistryCha
     )
   }
 
-  const activeServices = (config?.services.filter((s) => s.active !== false) ?? [])
+  // Services as they run, with the active profile's overrides
+  const profileNames = Object.keys(config.profiles ?? {})
+  const { services } = applyProfile(config, project.activeProfile)
+  const activeServices = services.filter((s) => s.active !== false)
     .sort((a, b) => (a.type === 'tool' ? 1 : 0) - (b.type === 'tool' ? 1 : 0))
-  const hiddenServices = config?.services.filter((s) => s.active === false) ?? []
+  const hiddenServices = services.filter((s) => s.active === false)
 
   const runningCount = Array.from(statuses.values()).filter((s) => s === 'running').length
   const totalCount = activeServices.length
@@ -529,9 +785,60 @@ export function ProjectView({ project, registry, onRerunDiscovery, onRegistryCha
         >
           {project.path}
         </div>
+        {profileNames.length > 0 && (
+          <select
+            value={project.activeProfile ?? ''}
+            onChange={(e) => handleProfileChange(e.target.value || null)}
+            disabled={projectAction !== null}
+            className="rounded px-2 py-1 text-xs"
+            style={{
+              background: 'var(--bg-deep)',
+              border: '1px solid var(--border-subtle)',
+              color: 'var(--text-secondary)',
+              fontFamily: 'var(--font-mono)',
+              cursor: projectAction !== null ? 'not-allowed' : 'pointer',
+            }}
+            title="Environment profile. Running services it changes are restarted"
+            aria-label="Environment profile"
+          >
+            <option value="">No profile</option>
+            {profileNames.map((name) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        )}
+        {projectAction === 'switching' && (
+          <Loader2 className="h-4 w-4 animate-spin" style={{ color: 'var(--text-muted)' }} />
+        )}
+        <button
+          onClick={handleStartAll}
+          className="btn btn-primary ml-4"
+          disabled={projectAction !== null}
+          title="Start active services in dependency order"
+        >
+          {projectAction === 'starting' ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Play className="h-4 w-4" />
+          )}
+          Start All
+        </button>
+        <button
+          onClick={handleStopAll}
+          className="btn btn-ghost"
+          disabled={projectAction !== null || runningCount === 0}
+          title="Stop running services, dependents first"
+        >
+          {projectAction === 'stopping' ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Square className="h-4 w-4" />
+          )}
+          Stop All
+        </button>
         <button
           onClick={() => setIsRelocatePortOpen(true)}
-          className="btn btn-ghost ml-4"
+          className="btn btn-ghost"
           title="Reallocate port range"
         >
           <span
@@ -541,14 +848,23 @@ export function ProjectView({ project, registry, onRerunDiscovery, onRegistryCha
             Ports: {project.portRange[0]}-{project.portRange[1]}
           </span>
         </button>
+        <InfrastructureMenu onAdd={handleAddInfrastructure} />
         <button
-          onClick={() => setIsConfigEditorOpen(true)}
+          onClick={handleOpenConfigEditor}
           className="btn btn-ghost"
           title="Edit project config"
         >
           <Code2 className="h-4 w-4" />
           Edit Config
         </button>
+        <button
+          onClick={() => setIsSecretsOpen(true)}
+          className="btn btn-ghost"
+          title="Manage secrets stored on this machine"
+        >
+          <KeyRound className="h-4 w-4" />
+          Secrets
+        </button>
       </div>
 
       {/* Error Banner */}
@@ -560,7 +876,7 @@ export function ProjectView({ project, registry, onRerunDiscovery, onRegistryCha
             border: '1px solid var(--danger)',
           }}
         >
-          <span className="flex-1 text-sm" style={{ color: 'var(--danger)' }}>
+          <span className="flex-1 whitespace-pre-line text-sm" style={{ color: 'var(--danger)' }}>
             {actionError}
           </span>
           <button
@@ -583,6 +899,8 @@ export function ProjectView({ project, registry, onRerunDiscovery, onRegistryCha
               service={service}
               status={statuses.get(service.id) || 'stopped'}
               stats={serviceStats.get(service.id)}
+              restartInfo={restartInfo.get(service.id)}
+              restartNeeded={restartNeeded.has(service.id)}
               isSelected={selectedServiceId === service.id}
               isStopping={stoppingServices.has(service.id) || restartingServices.has(service.id)}
               onSelect={handleSelectService}
@@ -636,6 +954,7 @@ export function ProjectView({ project, registry, onRerunDiscovery, onRegistryCha
       <ConfigEditorModal
         isOpen={isConfigEditorOpen}
         config={config}
+        localOverrides={localOverrides}
         onClose={() => setIsConfigEditorOpen(false)}
         onSave={handleSaveConfig}
       />
@@ -674,11 +993,30 @@ export function ProjectView({ project, registry, onRerunDiscovery, onRegistryCha
         onCancel={() => setRestartConfirm(null)}
       />
 
+      {/* Port Conflict Modal */}
+      <PortConflictModal
+        conflict={portConflict?.conflict ?? null}
+        onResolve={handleResolvePortConflict}
+        onCancel={() => setPortConflict(null)}
+      />
+
+      {/* Secrets Modal */}
+      <SecretsModal isOpen={isSecretsOpen} onClose={() => setIsSecretsOpen(false)} />
+
+      {/* Missing Env Modal */}
+      <MissingEnvModal
+        missingEnv={missingEnvPrompt?.missingEnv ?? null}
+        onStartAnyway={handleStartWithMissingEnv}
+        onCancel={() => setMissingEnvPrompt(null)}
+      />
+
       {/* Environment Variables Modal */}
       <EnvVarsModal
         isOpen={envModalService !== null}
         serviceName={envModalService?.serviceName ?? ''}
         env={envModalData}
+        localKeys={envModalService ? getLocalEnvKeys(localOverrides, envModalService.serviceId) : []}
+        onToggleLocal={handleToggleEnvLocal}
         onClose={handleCloseEnvModal}
       />
 
@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useState } from 'react'
+import { X, KeyRound, Trash2, Copy, Check } from 'lucide-react'
+import { createLogger } from '../../../shared/logger'
+
+const log = createLogger('SecretsModal')
+
+interface SecretsModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+/**
+ * Manages the secrets stored encrypted on this machine. Values can be written
+ * and deleted but are never shown; services reference them as secret://local/<name>.
+ */
+export function SecretsModal({ isOpen, onClose }: SecretsModalProps) {
+  const [names, setNames] = useState<string[]>([])
+  const [name, setName] = useState('')
+  const [value, setValue] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [copiedName, setCopiedName] = useState<string | null>(null)
+
+  const loadNames = useCallback(async () => {
+    try {
+      setNames(await window.api.listSecrets())
+    } catch (err) {
+      log.error('Failed to list secrets:', err)
+      setError(err instanceof Error ? err.message : 'Failed to list secrets')
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isOpen) loadNames()
+  }, [isOpen, loadNames])
+
+  if (!isOpen) return null
+
+  const handleSave = async () => {
+    try {
+      setError(null)
+      await window.api.setSecret(name.trim(), value)
+      setName('')
+      setValue('')
+      await loadNames()
+    } catch (err) {
+      log.error('Failed to save secret:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save secret')
+    }
+  }
+
+  const handleDelete = async (secretName: string) => {
+    try {
+      setError(null)
+      await window.api.deleteSecret(secretName)
+      await loadNames()
+    } catch (err) {
+      log.error('Failed to delete secret:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete secret')
+    }
+  }
+
+  const handleCopyReference = async (secretName: string) => {
+    await navigator.clipboard.writeText(`secret://local/${secretName}`)
+    setCopiedName(secretName)
+    setTimeout(() => setCopiedName(null), 2000)
+  }
+
+  const inputStyle = {
+    background: 'var(--bg-deep)',
+    border: '1px solid var(--border-default)',
+    color: 'var(--text-primary)',
+    fontFamily: 'var(--font-mono)',
+    outline: 'none',
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center"
+      style={{ background: 'rgba(0, 0, 0, 0.7)', backdropFilter: 'blur(4px)' }}
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-lg animate-fade-up rounded-xl overflow-hidden"
+        style={{
+          background: 'var(--bg-surface)',
+          border: '1px solid var(--border-subtle)',
+          boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.5)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          className="flex items-center justify-between px-5 py-4"
+          style={{ borderBottom: '1px solid var(--border-subtle)' }}
+        >
+          <div className="flex items-center gap-3">
+            <div
+              className="flex h-9 w-9 items-center justify-center rounded-lg"
+              style={{
+                background: 'rgba(0, 229, 204, 0.1)',
+                border: '1px solid var(--accent-primary)',
+              }}
+            >
+              <KeyRound className="h-5 w-5" style={{ color: 'var(--accent-primary)' }} />
+            </div>
+            <h3
+              className="text-lg font-semibold"
+              style={{
+                fontFamily: 'var(--font-display)',
+                color: 'var(--text-primary)',
+              }}
+            >
+              Local Secrets
+            </h3>
+          </div>
+          <button onClick={onClose} className="btn-icon">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="space-y-4 px-5 py-4">
+          <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+            Stored encrypted on this machine. Use them in env values as{' '}
+            <span style={{ fontFamily: 'var(--font-mono)' }}>secret://local/&lt;name&gt;</span>.
+          </p>
+
+          {names.length === 0 ? (
+            <p className="text-center text-sm" style={{ color: 'var(--text-muted)' }}>
+              No secrets stored
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {names.map((secretName) => (
+                <li
+                  key={secretName}
+                  className="group flex items-center justify-between rounded-lg px-3 py-2"
+                  style={{ background: 'var(--bg-elevated)', border: '1px solid var(--border-subtle)' }}
+                >
+                  <span className="text-sm" style={{ fontFamily: 'var(--font-mono)', color: 'var(--text-primary)' }}>
+                    {secretName}
+                  </span>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => handleCopyReference(secretName)}
+                      className="btn-icon"
+                      title="Copy reference"
+                    >
+                      {copiedName === secretName ? (
+                        <Check className="h-3.5 w-3.5" style={{ color: 'var(--status-running)' }} />
+                      ) : (
+                        <Copy className="h-3.5 w-3.5" />
+                      )}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(secretName)}
+                      className="btn-icon"
+                      title={`Delete ${secretName}`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name"
+              className="w-40 rounded-lg px-3 py-2 text-sm"
+              style={inputStyle}
+            />
+            <input
+              type="password"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && name.trim() && value) handleSave()
+              }}
+              placeholder="Value"
+              className="flex-1 rounded-lg px-3 py-2 text-sm"
+              style={inputStyle}
+            />
+            <button onClick={handleSave} className="btn btn-primary" disabled={!name.trim() || !value}>
+              Save
+            </button>
+          </div>
+
+          {error && (
+            <p className="text-xs" style={{ color: 'var(--danger)' }}>
+              {error}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 import { memo, useState, useRef, useEffect, useCallback } from 'react'
 import { Play, Square, RotateCcw, EyeOff, Wrench, AlertTriangle, Loader2, Cpu, HardDrive, ExternalLink, Copy, Check, Variable, Bug, ChevronDown } from 'lucide-react'
-import type { Service, ServiceStatus, ServiceResourceStats, IdeId } from '../../../shared/types'
+import type { Service, ServiceStatus, ServiceRestartInfo, ServiceResourceStats, IdeId } from '../../../shared/types'
 
 const IDE_OPTIONS: Record<IdeId, string> = {
   vscode:   'VS Code',
@@ -13,6 +13,8 @@ interface ServiceCardProps {
   service: Service
   status: ServiceStatus['status']
   stats?: ServiceResourceStats | null
+  restartInfo?: ServiceRestartInfo
+  restartNeeded?: boolean  // Config changed since the service was started
   isSelected: boolean
   isStopping?: boolean
   onSelect: (serviceId: string) => void
@@ -60,6 +62,8 @@ export const ServiceCard = memo(function ServiceCard({
   service,
   status,
   stats,
+  restartInfo,
+  restartNeeded = false,
   isSelected,
   isStopping = false,
   onSelect,
@@ -112,6 +116,7 @@ export const ServiceCard = memo(function ServiceCard({
   const isBusy = isRunning || isStarting || isBuilding
   const config = STATUS_CONFIG[status]
   const isTool = service.type === 'tool'
+  const isInfrastructure = service.type === 'infrastructure'
 
   // Port toggle is available when both ports exist and differ
   const canTogglePort = service.discoveredPort && service.allocatedPort &&
@@ -179,9 +184,22 @@ export const ServiceCard = memo(function ServiceCard({
           >
             {config.label}
           </span>
+          {restartNeeded && (isRunning || isStarting) && (
+            <span
+              className="rounded px-1.5 py-0.5 text-[9px] font-semibold uppercase tracking-wider"
+              style={{
+                background: 'var(--status-warning-bg)',
+                border: '1px solid var(--status-warning)',
+                color: 'var(--status-warning)',
+              }}
+              data-tooltip="Config changed since start. Restart to apply it."
+            >
+              Restart needed
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-2">
-          {isTool && (
+          {(isTool || isInfrastructure) && (
             <span
               className="rounded px-1.5 py-0.5 text-[9px] font-semibold uppercase tracking-wider"
               style={{
@@ -190,7 +208,7 @@ export const ServiceCard = memo(function ServiceCard({
                 color: 'var(--text-muted)',
               }}
             >
-              Tool
+              {isTool ? 'Tool' : service.infrastructure?.compose ? 'Compose' : 'Infra'}
             </span>
           )}
           {service.port && (
@@ -242,7 +260,7 @@ export const ServiceCard = memo(function ServiceCard({
               Hardcoded
             </button>
           )}
-          {onModeChange && !isTool && (
+          {onModeChange && !isTool && !isInfrastructure && (
             <select
               value={service.mode}
               onChange={(e) => onModeChange(service.id, e.target.value as 'native' | 'container')}
@@ -376,6 +394,23 @@ export const ServiceCard = memo(function ServiceCard({
           </div>
         )}
 
+        {/* Automatic restarts and last exit code */}
+        {restartInfo && (restartInfo.restartCount > 0 || restartInfo.gaveUp) && (
+          <div
+            className="flex items-center gap-1 text-[11px]"
+            style={{
+              fontFamily: 'var(--font-mono)',
+              color: restartInfo.gaveUp ? 'var(--status-error)' : 'var(--text-muted)',
+            }}
+            data-tooltip={restartInfo.gaveUp ? 'Restart limit reached' : 'Automatic restarts since last start'}
+          >
+            <RotateCcw className="h-3 w-3" />
+            {restartInfo.restartCount} {restartInfo.restartCount === 1 ? 'restart' : 'restarts'}
+            {restartInfo.lastExitCode !== null && ` · exit ${restartInfo.lastExitCode}`}
+            {restartInfo.gaveUp && ' · gave up'}
+          </div>
+        )}
+
         {/* External callback URLs warning */}
         {showCallbackWarning && (
           <div
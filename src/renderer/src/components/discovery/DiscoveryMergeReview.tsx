@@ -0,0 +1,157 @@
+import { useState } from 'react'
+import { Check } from 'lucide-react'
+import type { DiscoveryMerge, Service, ServiceMergeEntry, ServiceMergeKind } from '../../../../shared/types'
+
+interface DiscoveryMergeReviewProps {
+  merge: DiscoveryMerge
+  onConfirm: (services: Service[]) => void
+  onCancel: () => void
+}
+
+const KIND_STYLES: Record<Exclude<ServiceMergeKind, 'unchanged'>, { label: string; color: string }> = {
+  added: { label: 'Added', color: 'var(--status-running)' },
+  changed: { label: 'Changed', color: 'var(--accent-primary)' },
+  removed: { label: 'Removed', color: 'var(--danger)' },
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—'
+  if (Array.isArray(value)) return value.length > 0 ? value.map(formatValue).join(', ') : '—'
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * Services a review decision resolves to: accepted entries keep the merged
+ * service, rejected ones the saved service.
+ */
+export function resolveMergedServices(merge: DiscoveryMerge, acceptedIds: Set<string>): Service[] {
+  return merge.entries.flatMap((entry) => {
+    const service = entry.kind === 'unchanged' || acceptedIds.has(entry.id) ? entry.merged : entry.existing
+    return service ? [service] : []
+  })
+}
+
+export function DiscoveryMergeReview({ merge, onConfirm, onCancel }: DiscoveryMergeReviewProps) {
+  const reviewable = merge.entries.filter((e) => e.kind !== 'unchanged')
+  const unchangedCount = merge.entries.length - reviewable.length
+
+  // Removing a service loses its settings, so removals are opt-in
+  const [acceptedIds, setAcceptedIds] = useState<Set<string>>(
+    new Set(reviewable.filter((e) => e.kind !== 'removed').map((e) => e.id))
+  )
+
+  const toggleEntry = (id: string) => {
+    setAcceptedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <p style={{ color: 'var(--text-secondary)' }}>
+        {reviewable.length > 0
+          ? 'Discovery found differences from the saved configuration. Choose which to apply:'
+          : 'Discovery found no differences from the saved configuration.'}
+      </p>
+
+      <div className="space-y-2">
+        {reviewable.map((entry) => (
+          <MergeEntryRow
+            key={`${entry.kind}-${entry.id}`}
+            entry={entry}
+            accepted={acceptedIds.has(entry.id)}
+            onToggle={() => toggleEntry(entry.id)}
+          />
+        ))}
+      </div>
+
+      {unchangedCount > 0 && (
+        <div className="text-sm" style={{ color: 'var(--text-muted)' }}>
+          {unchangedCount} unchanged service{unchangedCount !== 1 ? 's' : ''} will be kept as is
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button onClick={onCancel} className="btn btn-ghost">
+          Cancel
+        </button>
+        <button
+          onClick={() => onConfirm(resolveMergedServices(merge, acceptedIds))}
+          className="btn btn-primary"
+        >
+          Apply Changes
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function MergeEntryRow({ entry, accepted, onToggle }: { entry: ServiceMergeEntry; accepted: boolean; onToggle: () => void }) {
+  const service = entry.merged ?? entry.existing!
+  const kind = KIND_STYLES[entry.kind as keyof typeof KIND_STYLES]
+
+  return (
+    <button
+      onClick={onToggle}
+      className="w-full rounded-lg p-3 text-left transition-colors"
+      style={{
+        background: accepted ? 'var(--bg-elevated)' : 'var(--bg-surface)',
+        border: `1px solid ${accepted ? 'var(--accent-primary)' : 'var(--border-subtle)'}`,
+      }}
+    >
+      <div className="flex items-start gap-3">
+        <div
+          className="mt-0.5 flex h-5 w-5 items-center justify-center rounded"
+          style={{
+            background: accepted ? 'var(--accent-primary)' : 'transparent',
+            border: accepted ? 'none' : '2px solid var(--border-default)',
+          }}
+        >
+          {accepted && <Check className="h-3 w-3" style={{ color: 'var(--bg-base)' }} />}
+        </div>
+
+        <div className="min-w-0 flex-1">
+          <div
+            className="flex items-center gap-2 font-medium"
+            style={{ fontFamily: 'var(--font-display)', color: 'var(--text-primary)' }}
+          >
+            {service.name}
+            <span
+              className="rounded px-1.5 py-0.5 text-[9px] font-semibold uppercase"
+              style={{ background: 'var(--bg-deep)', border: `1px solid ${kind.color}`, color: kind.color }}
+            >
+              {kind.label}
+            </span>
+          </div>
+          <div
+            className="mt-1 text-xs"
+            style={{ fontFamily: 'var(--font-mono)', color: 'var(--text-muted)' }}
+          >
+            {service.port ? `port ${service.port} · ` : ''}{service.path || '.'}
+          </div>
+          {entry.kind === 'changed' && (
+            <ul className="mt-2 space-y-0.5">
+              {entry.changedFields.map((field) => (
+                <li
+                  key={field}
+                  className="truncate text-xs"
+                  style={{ fontFamily: 'var(--font-mono)', color: 'var(--text-secondary)' }}
+                >
+                  {field}: {formatValue(entry.existing?.[field])}{' '}
+                  <span style={{ color: 'var(--text-muted)' }}>→</span> {formatValue(entry.merged?.[field])}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </button>
+  )
+}
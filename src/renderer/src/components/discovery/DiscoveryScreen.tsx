@@ -1,21 +1,22 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { Loader2, CheckCircle, XCircle, Bot } from 'lucide-react'
+import { Loader2, CheckCircle, XCircle, Bot, RefreshCw } from 'lucide-react'
 import { DiscoveryProgress } from './DiscoveryProgress'
 import { DiscoveryTerminal } from './DiscoveryTerminal'
 import { ServiceSelection } from './ServiceSelection'
 import { ManualServiceForm } from './ManualServiceForm'
 import { ExternalCallbacksNotice } from './ExternalCallbacksNotice'
-import type { Service, DiscoveryStep, AiAgentId, AgentCheck } from '../../../../shared/types'
+import { DiscoveryMergeReview } from './DiscoveryMergeReview'
+import type { ProjectConfig, Service, DiscoveryStep, AiAgentId, AgentCheck, DiscoveryMerge, DiscoveryCacheStatus } from '../../../../shared/types'
 import type { ServiceFormData } from '../../../../shared/schemas'
 import { createLogger } from '../../../../shared/logger'
 
 const log = createLogger('Discovery')
 
-type ScreenState = 'agent-select' | 'discovering' | 'review' | 'selecting' | 'error' | 'manual'
+type ScreenState = 'agent-select' | 'discovering' | 'review' | 'selecting' | 'merging' | 'error' | 'manual'
 
 interface DiscoveryScreenProps {
   projectPath: string
-  onComplete: (services: Service[]) => void
+  onComplete: (services: Service[], profiles?: ProjectConfig['profiles']) => void
   onCancel: () => void
 }
 
@@ -25,20 +26,28 @@ export function DiscoveryScreen({ projectPath, onComplete, onCancel }: Discovery
   const [message, setMessage] = useState('Starting AI exploration...')
   const [logs, setLogs] = useState<string[]>([])
   const [discoveredServices, setDiscoveredServices] = useState<Service[]>([])
+  const [merge, setMerge] = useState<DiscoveryMerge | null>(null)
+  const [cacheStatus, setCacheStatus] = useState<DiscoveryCacheStatus | null>(null)
   const [manualServices, setManualServices] = useState<Service[]>([])
   const [availableAgents, setAvailableAgents] = useState<AgentCheck[]>([])
   const [selectedAgent, setSelectedAgent] = useState<AiAgentId | null>(null)
   const discoveryStartedForRef = useRef<string | null>(null)
 
-  const runDiscovery = useCallback(async (agentId?: AiAgentId) => {
+  const runDiscovery = useCallback(async (agentId?: AiAgentId, force = false) => {
     setScreenState('discovering')
     setCurrentStep('ai-analysis')
     setMessage('Starting AI exploration...')
     setLogs([])
 
     try {
-      const config = await window.api.analyzeProject(projectPath, agentId ?? selectedAgent ?? undefined)
+      // Unchanged manifests mean the cached result comes back without running the agent
+      const agent = agentId ?? selectedAgent ?? undefined
+      setCacheStatus(force ? null : await window.api.getDiscoveryCacheStatus(projectPath, agent))
+      const config = await window.api.analyzeProject(projectPath, agent, force)
       if (config.services.length > 0) {
+        // Re-discovery of a saved project is merged into its config
+        const existingMerge = await window.api.mergeDiscovery(projectPath, config)
+        setMerge(existingMerge)
         setDiscoveredServices(config.services)
         setCurrentStep('complete')
         setMessage('Discovery complete')
@@ -116,7 +125,7 @@ export function DiscoveryScreen({ projectPath, onComplete, onCancel }: Discovery
       command: data.command,
       port: data.port,
       env: {},
-      devcontainer: `.simple-local/devcontainers/${data.name}.json`,
+      devcontainer: `.simple-local/devcontainers/${data.name}/devcontainer.json`,
       active: true,
       mode: 'native',
     }
@@ -147,7 +156,7 @@ export function DiscoveryScreen({ projectPath, onComplete, onCancel }: Discovery
         {screenState === 'discovering' && (
           <Loader2 className="h-6 w-6 animate-spin" style={{ color: 'var(--accent-primary)' }} />
         )}
-        {(screenState === 'review' || screenState === 'selecting') && (
+        {(screenState === 'review' || screenState === 'selecting' || screenState === 'merging') && (
           <CheckCircle className="h-6 w-6" style={{ color: 'var(--status-running)' }} />
         )}
         {(screenState === 'error' || screenState === 'manual') && (
@@ -166,6 +175,7 @@ export function DiscoveryScreen({ projectPath, onComplete, onCancel }: Discovery
             {screenState === 'discovering' && 'Discovering project...'}
             {screenState === 'review' && 'Discovery complete'}
             {screenState === 'selecting' && 'Select services'}
+            {screenState === 'merging' && 'Review changes'}
             {screenState === 'error' && 'Discovery failed'}
             {screenState === 'manual' && 'Add services manually'}
           </h2>
@@ -275,13 +285,30 @@ export function DiscoveryScreen({ projectPath, onComplete, onCancel }: Discovery
               ))}
             </ul>
           </div>
+          {cacheStatus && cacheStatus.changedFiles.length === 0 && (
+            <div
+              className="flex items-center justify-between gap-3 rounded-lg p-3"
+              style={{ background: 'var(--bg-elevated)', border: '1px solid var(--border-subtle)' }}
+            >
+              <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>
+                No manifests changed since the last discovery ({new Date(cacheStatus.cachedAt).toLocaleString()}), so its result was reused.
+              </p>
+              <button
+                onClick={() => runDiscovery(selectedAgent ?? undefined, true)}
+                className="btn btn-ghost flex shrink-0 items-center gap-1.5"
+              >
+                <RefreshCw className="h-3.5 w-3.5" />
+                Refresh
+              </button>
+            </div>
+          )}
           <ExternalCallbacksNotice services={discoveredServices} />
           <div className="flex justify-end gap-3">
             <button onClick={onCancel} className="btn btn-ghost">
               Cancel
             </button>
-            <button onClick={() => setScreenState('selecting')} className="btn btn-primary">
-              Continue to Selection
+            <button onClick={() => setScreenState(merge ? 'merging' : 'selecting')} className="btn btn-primary">
+              {merge ? 'Review Changes' : 'Continue to Selection'}
             </button>
           </div>
         </div>
@@ -295,6 +322,14 @@ export function DiscoveryScreen({ projectPath, onComplete, onCancel }: Discovery
         />
       )}
 
+      {screenState === 'merging' && merge && (
+        <DiscoveryMergeReview
+          merge={merge}
+          onConfirm={(services) => onComplete(services, merge.profiles)}
+          onCancel={onCancel}
+        />
+      )}
+
       {screenState === 'error' && (
         <ManualServiceForm
           existingNames={manualServices.map((s) => s.name)}
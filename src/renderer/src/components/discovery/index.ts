@@ -2,4 +2,5 @@ export { DiscoveryScreen } from './DiscoveryScreen'
 export { DiscoveryProgress } from './DiscoveryProgress'
 export { DiscoveryTerminal } from './DiscoveryTerminal'
 export { ServiceSelection } from './ServiceSelection'
+export { DiscoveryMergeReview } from './DiscoveryMergeReview'
 export { ManualServiceForm } from './ManualServiceForm'
@@ -0,0 +1,83 @@
+import { useEffect, useRef, useState } from 'react'
+import { Database, ChevronDown } from 'lucide-react'
+import type { InfrastructureTemplateId, InfrastructureTemplateInfo } from '../../../../shared/types'
+
+interface InfrastructureMenuProps {
+  onAdd: (templateId: InfrastructureTemplateId) => void
+}
+
+export function InfrastructureMenu({ onAdd }: InfrastructureMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [templates, setTemplates] = useState<InfrastructureTemplateInfo[]>([])
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    window.api.getInfrastructureTemplates().then(setTemplates)
+  }, [])
+
+  useEffect(() => {
+    if (!isOpen) return
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [isOpen])
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen((v) => !v)}
+        className="btn btn-ghost"
+        title="Add a database or other infrastructure service"
+      >
+        <Database className="h-4 w-4" />
+        Add Infrastructure
+        <ChevronDown className="h-3 w-3" />
+      </button>
+      {isOpen && (
+        <div
+          className="absolute right-0 z-50 mt-1 min-w-[260px] rounded-md py-1 shadow-lg"
+          style={{
+            top: '100%',
+            background: 'var(--bg-elevated)',
+            border: '1px solid var(--border-subtle)',
+          }}
+        >
+          {templates.map((template) => (
+            <button
+              key={template.id}
+              onClick={() => {
+                setIsOpen(false)
+                onAdd(template.id)
+              }}
+              className="flex w-full flex-col px-3 py-2 text-left transition-colors"
+              style={{ background: 'none', border: 'none', cursor: 'pointer' }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.background = 'var(--bg-hover)'
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.background = 'none'
+              }}
+            >
+              <span className="text-sm" style={{ color: 'var(--text-primary)' }}>
+                {template.name}
+              </span>
+              <span className="text-[11px]" style={{ color: 'var(--text-muted)' }}>
+                {template.description}
+              </span>
+              <span
+                className="text-[10px]"
+                style={{ fontFamily: 'var(--font-mono)', color: 'var(--text-muted)' }}
+              >
+                {template.image}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
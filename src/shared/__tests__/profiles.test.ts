@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { applyProfile, getProfileChanges } from '../profiles'
+import type { ProjectConfig, Service } from '../types'
+
+const service = (id: string, overrides: Partial<Service> = {}): Service => ({
+  id,
+  name: id,
+  path: id,
+  command: 'npm run dev',
+  env: {},
+  active: true,
+  mode: 'native',
+  ...overrides,
+})
+
+const config: ProjectConfig = {
+  name: 'shop',
+  services: [
+    service('web', { env: { API_URL: 'http://localhost:3000', LOG_LEVEL: 'info' } }),
+    service('api'),
+    service('db', { mode: 'container' }),
+  ],
+  profiles: {
+    'staging-api': {
+      description: 'Frontend against the staging backend',
+      services: {
+        web: { env: { API_URL: 'https://api.staging.example.com' } },
+        api: { active: false },
+      },
+    },
+    containers: {
+      services: { api: { mode: 'container' } },
+    },
+  },
+}
+
+describe('applyProfile', () => {
+  it('merges profile env over the service env and replaces active and mode', () => {
+    const applied = applyProfile(config, 'staging-api')
+
+    expect(applied.services[0].env).toEqual({ API_URL: 'https://api.staging.example.com', LOG_LEVEL: 'info' })
+    expect(applied.services[1].active).toBe(false)
+    expect(applyProfile(config, 'containers').services[1].mode).toBe('container')
+  })
+
+  it('keeps services the profile does not override', () => {
+    const applied = applyProfile(config, 'staging-api')
+
+    expect(applied.services[2]).toBe(config.services[2])
+  })
+
+  it('returns the config as is without a profile or with an unknown one', () => {
+    expect(applyProfile(config, undefined)).toBe(config)
+    expect(applyProfile(config, 'missing')).toBe(config)
+  })
+})
+
+describe('getProfileChanges', () => {
+  it('lists services whose env, active or mode differ', () => {
+    expect(getProfileChanges(config, undefined, 'staging-api')).toEqual(['web', 'api'])
+    expect(getProfileChanges(config, 'staging-api', 'containers')).toEqual(['web', 'api'])
+    expect(getProfileChanges(config, 'containers', undefined)).toEqual(['api'])
+  })
+
+  it('ignores overrides that match the saved values', () => {
+    const same: ProjectConfig = {
+      ...config,
+      profiles: { same: { services: { db: { mode: 'container' }, web: { env: { LOG_LEVEL: 'info' } } } } },
+    }
+
+    expect(getProfileChanges(same, undefined, 'same')).toEqual([])
+  })
+})
@@ -0,0 +1,144 @@
+import { z } from 'zod'
+import type { LocalProjectConfig, ProjectConfig, Service } from './types'
+
+/** Version stamped on saved configs. Older files are migrated on load. */
+export const CURRENT_CONFIG_VERSION = 1
+
+const port = z.number().int('Port must be an integer').min(1, 'Port must be at least 1').max(65535, 'Port must be at most 65535')
+const stringRecord = z.record(z.string(), z.string())
+const positiveInt = z.number().int().positive()
+
+const containerEnvOverrideSchema = z.object({
+  key: z.string(),
+  originalPattern: z.string(),
+  containerValue: z.string(),
+  reason: z.string(),
+  enabled: z.boolean(),
+})
+
+const hardcodedPortSchema = z.object({
+  value: port,
+  source: z.enum(['command-flag', 'config-file', 'unknown']),
+  flag: z.string().optional(),
+})
+
+const externalCallbackUrlSchema = z.object({
+  envVar: z.string(),
+  provider: z.string().optional(),
+  description: z.string().optional(),
+})
+
+const readinessProbeSchema = z.object({
+  type: z.enum(['http', 'tcp', 'log', 'health']),
+  path: z.string().optional(),
+  expectedStatus: z.number().int().min(100).max(599).optional(),
+  pattern: z.string().optional(),
+  port: port.optional(),
+  timeoutMs: positiveInt.optional(),
+  intervalMs: positiveInt.optional(),
+})
+
+const restartPolicySchema = z.object({
+  policy: z.enum(['no', 'on-failure', 'always']),
+  maxRetries: z.number().int().min(0).optional(),
+  backoffMs: z.number().int().min(0).optional(),
+  maxBackoffMs: z.number().int().min(0).optional(),
+})
+
+const infrastructureSchema = z.object({
+  template: z.enum(['postgres', 'redis', 'mysql', 'mongodb', 'mailpit', 'minio']).optional(),
+  image: z.string().min(1, 'Image is required'),
+  containerPort: port.optional(),
+  extraPorts: z.array(z.object({ name: z.string(), port, containerPort: port })).optional(),
+  volume: z.string().optional(),
+  compose: z
+    .object({
+      file: z.string(),
+      service: z.string(),
+      build: z
+        .object({
+          context: z.string(),
+          dockerfile: z.string().optional(),
+          target: z.string().optional(),
+          args: stringRecord.optional(),
+        })
+        .optional(),
+      command: z.array(z.string()).optional(),
+      entrypoint: z.array(z.string()).optional(),
+      healthCheck: z.array(z.string()).optional(),
+    })
+    .optional(),
+})
+
+/**
+ * A service as saved in .simple-local/config.json. Unknown keys are rejected
+ * so that a misspelled field is reported instead of silently ignored.
+ */
+export const serviceSchema = z.strictObject({
+  id: z.string().min(1, 'Service id is required'),
+  name: z.string().min(1, 'Service name is required'),
+  type: z.enum(['service', 'tool', 'infrastructure']).optional(),
+  path: z.string(),
+  command: z.string(),
+  debugCommand: z.string().optional(),
+  port: port.optional(),
+  debugPort: port.optional(),
+  discoveredPort: port.optional(),
+  allocatedPort: port.optional(),
+  discoveredDebugPort: port.optional(),
+  allocatedDebugPort: port.optional(),
+  useOriginalPort: z.boolean().optional(),
+  env: stringRecord,
+  envFiles: z.array(z.string().min(1)).optional(),
+  requiredEnv: z.array(z.string().min(1)).optional(),
+  dependsOn: z.array(z.string()).optional(),
+  active: z.boolean(),
+  mode: z.enum(['native', 'container']),
+  devcontainer: z.string().optional(),
+  containerEnvOverrides: z.array(containerEnvOverrideSchema).optional(),
+  hardcodedPort: hardcodedPortSchema.optional(),
+  externalCallbackUrls: z.array(externalCallbackUrlSchema).optional(),
+  readinessProbe: readinessProbeSchema.optional(),
+  restartPolicy: restartPolicySchema.optional(),
+  infrastructure: infrastructureSchema.optional(),
+}) satisfies z.ZodType<Service>
+
+const environmentProfileSchema = z.strictObject({
+  description: z.string().optional(),
+  services: z.record(
+    z.string(),
+    z.strictObject({
+      env: stringRecord.optional(),
+      active: z.boolean().optional(),
+      mode: z.enum(['native', 'container']).optional(),
+    })
+  ),
+})
+
+export const projectConfigSchema = z
+  .strictObject({
+    version: z
+      .number()
+      .int()
+      .max(CURRENT_CONFIG_VERSION, `Config was written by a newer version of Simple Local (supported up to ${CURRENT_CONFIG_VERSION})`)
+      .optional(),
+    name: z.string().min(1, 'Project name is required'),
+    services: z.array(serviceSchema),
+    profiles: z.record(z.string().min(1, 'Profile name is required'), environmentProfileSchema).optional(),
+  })
+  .superRefine((config, ctx) => {
+    const seen = new Set<string>()
+    config.services.forEach((service, index) => {
+      if (seen.has(service.id)) {
+        ctx.addIssue({ code: 'custom', path: ['services', index, 'id'], message: `Duplicate service id '${service.id}'` })
+      }
+      seen.add(service.id)
+    })
+  }) satisfies z.ZodType<ProjectConfig>
+
+/**
+ * config.local.json. Overrides are validated again as part of the merged config.
+ */
+export const localConfigSchema = z.strictObject({
+  services: z.record(z.string(), serviceSchema.omit({ id: true }).partial()),
+}) satisfies z.ZodType<LocalProjectConfig>
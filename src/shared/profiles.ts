@@ -0,0 +1,50 @@
+import type { ProjectConfig, Service } from './types'
+
+/**
+ * A service with a profile applied: the profile's env values are merged over
+ * the service's env, and its `active` and `mode` replace the service's.
+ * Services the profile does not override are returned as is.
+ */
+export function applyProfileToService(config: ProjectConfig, profileName: string | undefined, service: Service): Service {
+  const overrides = profileName ? config.profiles?.[profileName]?.services[service.id] : undefined
+  if (!overrides) return service
+  return {
+    ...service,
+    env: { ...service.env, ...overrides.env },
+    active: overrides.active ?? service.active,
+    mode: overrides.mode ?? service.mode,
+  }
+}
+
+/**
+ * The config with a profile applied to each of its services. Without a
+ * profile, or with one the config does not define, the config is returned as is.
+ */
+export function applyProfile(config: ProjectConfig, profileName: string | undefined): ProjectConfig {
+  if (!profileName || !config.profiles?.[profileName]) return config
+  return {
+    ...config,
+    services: config.services.map((service) => applyProfileToService(config, profileName, service)),
+  }
+}
+
+function isSameService(a: Service, b: Service): boolean {
+  const keys = Object.keys(a.env)
+  return (
+    a.active === b.active &&
+    a.mode === b.mode &&
+    keys.length === Object.keys(b.env).length &&
+    keys.every((key) => b.env[key] === a.env[key])
+  )
+}
+
+/**
+ * Ids of the services whose env, `active` or `mode` differ between two profiles.
+ */
+export function getProfileChanges(config: ProjectConfig, from: string | undefined, to: string | undefined): string[] {
+  const before = applyProfile(config, from)
+  const after = applyProfile(config, to)
+  return after.services
+    .filter((service, index) => !isSameService(before.services[index], service))
+    .map((service) => service.id)
+}
@@ -8,12 +8,13 @@ export interface Project {
   debugPortRange: [number, number]
   lastOpened: string
   status: 'loading' | 'ready' | 'error'
+  activeProfile?: string  // Profile from ProjectConfig.profiles services run with on this machine
 }
 
 export interface Service {
   id: string
   name: string
-  type?: 'service' | 'tool'
+  type?: 'service' | 'tool' | 'infrastructure'
   path: string
   command: string
   debugCommand?: string
@@ -25,6 +26,8 @@ export interface Service {
   allocatedDebugPort?: number  // Debug port allocated from project range
   useOriginalPort?: boolean    // When true, use discoveredPort instead of allocatedPort
   env: Record<string, string>
+  envFiles?: string[]          // Env files relative to path, loaded in order beneath env
+  requiredEnv?: string[]       // Env vars that must be set for the service to start
   dependsOn?: string[]
   active: boolean
   mode: 'native' | 'container'
@@ -32,6 +35,87 @@ export interface Service {
   containerEnvOverrides?: ContainerEnvOverride[]
   hardcodedPort?: HardcodedPort
   externalCallbackUrls?: ExternalCallbackUrl[]
+  readinessProbe?: ReadinessProbe
+  restartPolicy?: RestartPolicy
+  infrastructure?: InfrastructureSettings  // Set for catalog services and services imported from docker-compose
+}
+
+/** Templates in the built-in infrastructure catalog */
+export type InfrastructureTemplateId = 'postgres' | 'redis' | 'mysql' | 'mongodb' | 'mailpit' | 'minio'
+
+/**
+ * Container settings of an infrastructure service (database, mail catcher, …).
+ * The image runs as is; its main port is published on the service port.
+ */
+export interface InfrastructureSettings {
+  template?: InfrastructureTemplateId  // Catalog template; unset for compose services
+  image: string
+  containerPort?: number             // Unset when nothing is published
+  extraPorts?: InfrastructurePort[]  // Secondary ports, e.g. a web console
+  volume?: string                    // Named volume holding the data
+  compose?: ComposeSource            // Set for services imported from docker-compose
+}
+
+/**
+ * Where a compose service came from and the parts of its definition that
+ * are not kept elsewhere on the service.
+ */
+export interface ComposeSource {
+  file: string             // Compose file, relative to the project root
+  service: string          // Service name in the compose file
+  build?: ComposeBuild     // Build the image instead of pulling it
+  command?: string[]
+  entrypoint?: string[]
+  healthCheck?: string[]   // Docker HEALTHCHECK test
+}
+
+export interface ComposeBuild {
+  context: string          // Relative to the project root
+  dockerfile?: string      // Relative to the context
+  target?: string
+  args?: Record<string, string>
+}
+
+export interface InfrastructurePort {
+  name: string
+  port: number           // Host port, allocated from the project range
+  containerPort: number
+}
+
+/** Catalog entry as shown when adding an infrastructure service */
+export interface InfrastructureTemplateInfo {
+  id: InfrastructureTemplateId
+  name: string
+  description: string
+  image: string
+  /** Values other services can reference as ${services.<id>.<key>} */
+  connectionKeys: string[]
+}
+
+/**
+ * Check that decides when a started service is actually serving traffic.
+ * Until the probe passes the service is reported as 'starting'.
+ */
+export interface ReadinessProbe {
+  type: 'http' | 'tcp' | 'log' | 'health'  // health: the container's Docker health check
+  path?: string            // http: request path (default "/")
+  expectedStatus?: number  // http: required status code (default: any 2xx or 3xx)
+  pattern?: string         // log: regex matched against each output line
+  port?: number            // http/tcp: port to probe (default: the service port)
+  timeoutMs?: number       // Give up after this long (default 60000)
+  intervalMs?: number      // Delay between attempts (default 1000)
+}
+
+/**
+ * Automatic restart behaviour for native services, modelled after Docker's restart policies.
+ * Restarts are delayed with exponential backoff; the retry streak resets once
+ * a process stays up long enough.
+ */
+export interface RestartPolicy {
+  policy: 'no' | 'on-failure' | 'always'
+  maxRetries?: number    // Consecutive restarts before giving up (default 5)
+  backoffMs?: number     // Delay before the first restart, doubled on each retry (default 1000)
+  maxBackoffMs?: number  // Upper bound for the restart delay (default 30000)
 }
 
 export interface ContainerEnvOverride {
@@ -68,8 +152,85 @@ export interface PortExtractionResult {
 }
 
 export interface ProjectConfig {
+  version?: number  // Config format version; unset in files written before versioning
   name: string
   services: Service[]
+  profiles?: Record<string, EnvironmentProfile>  // By profile name
+}
+
+/** Service fields an environment profile can override */
+export type ProfileServiceOverrides = Partial<Pick<Service, 'env' | 'active' | 'mode'>>
+
+/**
+ * A named set of service overrides, e.g. "staging-api" pointing the frontend
+ * at the staging backend and deactivating the local one. Applied when services
+ * start; the saved services are not changed.
+ */
+export interface EnvironmentProfile {
+  description?: string
+  services: Record<string, ProfileServiceOverrides>  // By service id
+}
+
+/** Outcome of switching a project's profile */
+export interface ProfileSwitchResult {
+  affected: string[]  // Ids of the running services the switch restarted or stopped
+  failures: string[]  // "Service name: error" for each service that failed to stop or start
+}
+
+/**
+ * .simple-local/config.local.json: per-machine values and personal overrides
+ * (e.g. API keys in env), keyed by service id. Kept out of git and deep-merged
+ * over config.json when the config is loaded.
+ */
+export interface LocalProjectConfig {
+  services: Record<string, Partial<Omit<Service, 'id'>>>
+}
+
+/**
+ * Values of the loaded config that come from config.local.json, by service id,
+ * as paths within the service such as "port" or "env.API_KEY".
+ */
+export type LocalConfigOverrides = Record<string, string[]>
+
+/** A problem found when validating .simple-local/config.json */
+export interface ConfigIssue {
+  path: string     // Location in the file, e.g. "services[0].port"; empty for the whole file
+  message: string
+}
+
+/** config:load result when .simple-local/config.json exists but cannot be used */
+export interface InvalidProjectConfig {
+  error: 'CONFIG_INVALID'
+  configPath: string
+  issues: ConfigIssue[]
+}
+
+/** Cached AI discovery result compared with the project's current manifests */
+export interface DiscoveryCacheStatus {
+  cachedAt: string
+  changedFiles: string[]  // Manifests added, removed or edited since, relative to the project
+}
+
+/** How a re-discovered service relates to the saved config */
+export type ServiceMergeKind = 'added' | 'removed' | 'changed' | 'unchanged'
+
+/**
+ * One service of a re-discovery merge. Accepting the entry keeps `merged`,
+ * rejecting it keeps `existing`; a missing side means no service.
+ */
+export interface ServiceMergeEntry {
+  id: string
+  kind: ServiceMergeKind
+  existing?: Service          // Saved service; unset when added
+  merged?: Service            // Saved service refreshed by discovery; unset when removed
+  changedFields: (keyof Service)[]
+}
+
+/** Result of merging a fresh discovery into the saved config */
+export interface DiscoveryMerge {
+  name: string
+  profiles?: ProjectConfig['profiles']  // Kept as saved; discovery does not touch profiles
+  entries: ServiceMergeEntry[]
 }
 
 export interface ServiceStatus {
@@ -77,6 +238,98 @@ export interface ServiceStatus {
   status: 'stopped' | 'building' | 'starting' | 'running' | 'error'
   containerId?: string
   error?: string
+  restart?: ServiceRestartInfo
+  restartNeeded?: boolean  // Running with a command, env, port or devcontainer that has changed since
+}
+
+/**
+ * Pushed to the renderer when an open project's config changes on disk.
+ */
+export interface ProjectConfigChange {
+  projectId: string
+  config?: ProjectConfig    // Reloaded config; unset when it could not be loaded
+  error?: string            // Why loading failed
+  invalid?: InvalidProjectConfig  // Set instead of error when the config fails validation
+  restartNeeded: string[]   // Running services that need a restart to pick up the change
+}
+
+/**
+ * Restart history of a native service since it was last started by the user.
+ */
+export interface ServiceRestartInfo {
+  restartCount: number
+  lastExitCode: number | null
+  gaveUp: boolean  // true once the restart policy's retry limit was reached
+}
+
+/**
+ * A process with a listening socket on a port.
+ */
+export interface PortHolder {
+  pid: number
+  pgid: number | null  // Process group, used to tell our own processes apart from foreign ones
+  name: string
+  commandLine: string
+}
+
+/**
+ * A service port held by a process Simple Local did not start.
+ * Holders is empty when the owning process cannot be identified.
+ */
+export interface PortConflict {
+  serviceId: string
+  serviceName: string
+  port: number
+  holders: PortHolder[]
+  canUseNextPort: boolean  // false when the port is hardcoded in the service's command
+}
+
+/**
+ * How to resolve a port conflict when starting a service:
+ * stop the foreign process, or move the service to the next free port.
+ */
+export type PortConflictResolution = 'kill' | 'next-port'
+
+/** An env var a service is about to start without */
+export interface MissingEnvVar {
+  key: string
+  source: string  // 'requiredEnv', or the example env file that lists it, e.g. '.env.example'
+}
+
+/**
+ * Pre-flight check of a service's env. Blocking when a `requiredEnv` var is
+ * missing: the service is not started until it is set.
+ */
+export interface MissingEnv {
+  serviceId: string
+  serviceName: string
+  missing: MissingEnvVar[]
+  blocking: boolean
+}
+
+/**
+ * A native process group left running by a previous app session that no
+ * registered service claimed. Project name is missing when the project was removed.
+ */
+export interface OrphanedProcessGroup {
+  projectId: string
+  projectName?: string
+  serviceId: string
+  pgid: number
+  command: string
+  cwd: string
+}
+
+/** Output stream a log line was written to */
+export type LogStream = 'stdout' | 'stderr'
+
+/**
+ * A chunk of service output as buffered for the log viewer.
+ * Messages from Simple Local itself (e.g. "Restarting in 1000ms") have no stream.
+ */
+export interface LogEntry {
+  data: string
+  stream?: LogStream
 }
 
 export interface ServiceResourceStats {
@@ -109,13 +362,35 @@ export type IpcChannels = {
 
   // Services
   'service:start': (projectId: string, serviceId: string) => void
+  'service:check-env': (projectId: string, serviceId: string) => MissingEnv | null
   'service:stop': (projectId: string, serviceId: string) => void
   'service:restart': (projectId: string, serviceId: string) => void
   'service:status': (projectId: string) => ServiceStatus[]
   'service:logs': (projectId: string, serviceId: string) => void
 
+  // Projects
+  'project:set-profile': (projectId: string, profile: string | null) => ProfileSwitchResult
+
+  // Native process groups from a previous session that no service claimed
+  'process:orphans': () => OrphanedProcessGroup[]
+  'process:orphans:stop': (pgid: number) => void
+  'process:orphans:keep': (pgid: number) => void
+
   // Discovery
   'discovery:analyze': (projectPath: string) => ProjectConfig
+  'discovery:cache-status': (projectPath: string, agentId?: AiAgentId) => DiscoveryCacheStatus | null
+  'discovery:merge': (projectPath: string, discovered: ProjectConfig) => DiscoveryMerge | null
+
+  // Config
+  'config:watch': (projectId: string) => void
+  'config:unwatch': (projectId: string) => void
+  'config:local-overrides': (projectPath: string) => LocalConfigOverrides
+  'config:set-env-local': (projectPath: string, serviceId: string, key: string, local: boolean) => void
+
+  // Secrets (local store; values never leave the main process)
+  'secrets:list': () => string[]
+  'secrets:set': (name: string, value: string) => void
+  'secrets:delete': (name: string) => void
 
   // Port extraction
   'ports:extract:analyze': (projectId: string, serviceId: string) => PortExtractionResult | null
@@ -197,9 +472,20 @@ export interface UpdateState {
   error?: string
 }
 
+/** Where a variable of a running service's env came from */
+export type EnvVarSource =
+  | { type: 'file'; file: string } // An env file of the service, relative to its path
+  | { type: 'config' }             // service.env
+  | { type: 'injected' }           // PORT, DEBUG_PORT or NODE_OPTIONS set by Simple Local
+
 export interface ServiceRuntimeEnv {
-  raw: Record<string, string>
+  command: string  // Command from the config, before debug mode substitution
+  port?: number
+  envFiles?: string[]
+  raw: Record<string, string>  // Env files and service.env, before interpolation
   final: Record<string, string>
+  sources?: Record<string, EnvVarSource>  // By key of final; PORT and DEBUG_PORT are always injected
+  secrets?: string[]  // Keys resolved from secret:// references; their values in final are masked
   warnings: string[]
   mode: 'native' | 'container'
   startedAt: number